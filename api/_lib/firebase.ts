@@ -0,0 +1,19 @@
+import { initializeApp, getApps } from "firebase/app";
+import { getFirestore, type Firestore } from "firebase/firestore/lite";
+
+/**
+ * Firestore for the public API functions
+ * Uses the same (public) web config as the site, so the API can only read what the security rules let anyone read.
+ * The lite SDK talks REST, which suits short-lived serverless functions
+ */
+export function getDb(): Firestore {
+  const app = getApps()[0] || initializeApp({
+    apiKey: process.env.VITE_FIREBASE_API_KEY,
+    authDomain: process.env.VITE_FIREBASE_AUTH_DOMAIN,
+    projectId: process.env.VITE_FIREBASE_PROJECT_ID,
+    storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET,
+    messagingSenderId: process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+    appId: process.env.VITE_FIREBASE_APP_ID,
+  });
+  return getFirestore(app);
+}
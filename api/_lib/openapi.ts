@@ -0,0 +1,237 @@
+/**
+ * OpenAPI description of the public API, served at /api/openapi
+ * Keep in step with the handlers and ApiRun/ApiPlayer in ./runs
+ */
+
+const gameParameter = {
+  name: "game",
+  in: "query",
+  description: "Game ID (defaults to lsw1)",
+  schema: { type: "string" },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "lsw1.live API",
+    version: "1.0.0",
+    description: "Read-only access to the leaderboards, runs and players. Responses are JSON, cached for a few minutes, and allowed from any origin. Tools built for the speedrun.com v1 API can use the compatible endpoints under /api/src/v1 instead.",
+  },
+  servers: [{ url: "/api" }],
+  paths: {
+    "/leaderboards": {
+      get: {
+        summary: "One leaderboard, best run per player, fastest first",
+        parameters: [
+          { name: "category", in: "query", required: true, schema: { type: "string" }, description: "Category ID" },
+          { name: "platform", in: "query", required: true, schema: { type: "string" }, description: "Platform ID" },
+          { name: "runType", in: "query", schema: { type: "string", enum: ["solo", "co-op"], default: "solo" } },
+          { name: "leaderboardType", in: "query", schema: { $ref: "#/components/schemas/LeaderboardType" }, description: "Defaults to individual-level when a level is given, otherwise regular" },
+          { name: "level", in: "query", schema: { type: "string" }, description: "Level ID, required for individual level and community gold boards" },
+          { name: "subcategory", in: "query", schema: { type: "string" }, description: "Subcategory ID, or __none__ for runs without one" },
+          gameParameter,
+        ],
+        responses: {
+          200: {
+            description: "The board and its entries",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    board: {
+                      type: "object",
+                      properties: {
+                        gameId: { type: "string" },
+                        leaderboardType: { $ref: "#/components/schemas/LeaderboardType" },
+                        category: { type: "string" },
+                        platform: { type: "string" },
+                        runType: { type: "string", enum: ["solo", "co-op"] },
+                        level: { type: ["string", "null"] },
+                        subcategory: { type: ["string", "null"] },
+                      },
+                    },
+                    entries: { type: "array", items: { $ref: "#/components/schemas/Run" } },
+                  },
+                },
+              },
+            },
+          },
+          400: errorResponse("Missing or invalid parameters"),
+        },
+      },
+    },
+    "/runs/{id}": {
+      get: {
+        summary: "A verified run",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          200: {
+            description: "The run",
+            content: { "application/json": { schema: { type: "object", properties: { run: { $ref: "#/components/schemas/Run" } } } } },
+          },
+          404: errorResponse("No verified run with this ID"),
+        },
+      },
+    },
+    "/players/{id}": {
+      get: {
+        summary: "A player's profile, studs and verified runs",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }, gameParameter],
+        responses: {
+          200: {
+            description: "The player and their runs, newest first",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    player: { $ref: "#/components/schemas/Player" },
+                    runs: { type: "array", items: { $ref: "#/components/schemas/Run" } },
+                  },
+                },
+              },
+            },
+          },
+          404: errorResponse("No player with this ID"),
+        },
+      },
+    },
+    "/categories": {
+      get: {
+        summary: "Categories in display order",
+        parameters: [{ name: "leaderboardType", in: "query", schema: { $ref: "#/components/schemas/LeaderboardType" } }, gameParameter],
+        responses: {
+          200: {
+            description: "The categories",
+            content: {
+              "application/json": {
+                schema: { type: "object", properties: { categories: { type: "array", items: { $ref: "#/components/schemas/Category" } } } },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/levels": {
+      get: {
+        summary: "Levels in display order",
+        parameters: [gameParameter],
+        responses: {
+          200: {
+            description: "The levels",
+            content: {
+              "application/json": {
+                schema: { type: "object", properties: { levels: { type: "array", items: { $ref: "#/components/schemas/Level" } } } },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/recent": {
+      get: {
+        summary: "The most recently achieved verified runs",
+        parameters: [{ name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 50, default: 20 } }, gameParameter],
+        responses: {
+          200: {
+            description: "Runs, newest first",
+            content: {
+              "application/json": {
+                schema: { type: "object", properties: { runs: { type: "array", items: { $ref: "#/components/schemas/Run" } } } },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      LeaderboardType: { type: "string", enum: ["regular", "individual-level", "community-golds"] },
+      Error: { type: "object", properties: { error: { type: "string" } }, required: ["error"] },
+      Run: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          url: { type: "string", description: "The run's page on the site" },
+          gameId: { type: "string" },
+          leaderboardType: { $ref: "#/components/schemas/LeaderboardType" },
+          category: { type: "string" },
+          subcategory: { type: ["string", "null"] },
+          variables: { type: ["object", "null"], additionalProperties: { type: "string" }, description: "Variable ID to value ID" },
+          level: { type: ["string", "null"] },
+          platform: { type: "string" },
+          runType: { type: "string", enum: ["solo", "co-op"] },
+          players: {
+            type: "array",
+            items: { type: "object", properties: { id: { type: ["string", "null"] }, name: { type: "string" } } },
+          },
+          time: { type: "string", description: "HH:MM:SS or HH:MM:SS.mmm" },
+          timeMs: { type: ["integer", "null"] },
+          times: { type: ["object", "null"], additionalProperties: { type: "string" }, description: "Time per timing method" },
+          rank: { type: ["integer", "null"], description: "Board position of each player's best run" },
+          studs: { type: ["number", "null"], description: "Points awarded for the run" },
+          date: { type: "string", format: "date" },
+          videoUrl: { type: ["string", "null"] },
+          comment: { type: ["string", "null"] },
+          isObsolete: { type: "boolean" },
+        },
+      },
+      Player: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          url: { type: "string" },
+          displayName: { type: "string" },
+          nameColor: { type: ["string", "null"] },
+          profilePicture: { type: ["string", "null"] },
+          bio: { type: ["string", "null"] },
+          pronouns: { type: ["string", "null"] },
+          twitchUsername: { type: ["string", "null"] },
+          srcUsername: { type: ["string", "null"] },
+          joinDate: { type: ["string", "null"], format: "date" },
+          totalRuns: { type: "integer" },
+          bestRank: { type: ["integer", "null"] },
+          studs: { type: "number", description: "Total points from verified runs" },
+        },
+      },
+      Category: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          leaderboardType: { $ref: "#/components/schemas/LeaderboardType" },
+          subcategories: { type: "array", items: { type: "object", properties: { id: { type: "string" }, name: { type: "string" } } } },
+          variables: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+                isSubcategory: { type: "boolean", description: "Whether each value is its own leaderboard" },
+                values: { type: "array", items: { type: "object", properties: { id: { type: "string" }, name: { type: "string" } } } },
+              },
+            },
+          },
+          timingMethods: { type: "array", items: { type: "string", enum: ["realtime", "realtime_noloads", "ingame"] } },
+          primaryTimingMethod: { type: "string", enum: ["realtime", "realtime_noloads", "ingame"] },
+        },
+      },
+      Level: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          disabledCategories: { type: "array", items: { type: "string" }, description: "IDs of categories not run on this level" },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,50 @@
+/**
+ * JSON responses for the public API
+ */
+
+export interface CacheOptions {
+  maxAge?: number; // Seconds browsers may cache the response
+  sMaxAge?: number; // Seconds the CDN may cache the response
+}
+
+// Leaderboards change when runs are verified, so CDN copies are kept briefly and refreshed in the background
+const DEFAULT_CACHE: Required<CacheOptions> = { maxAge: 60, sMaxAge: 300 };
+
+export function json(data: unknown, status: number = 200, cache: CacheOptions = {}): Response {
+  const { maxAge, sMaxAge } = { ...DEFAULT_CACHE, ...cache };
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": status === 200
+        ? `public, max-age=${maxAge}, s-maxage=${sMaxAge}, stale-while-revalidate=${sMaxAge * 2}`
+        : "no-store",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+export function errorResponse(status: number, message: string): Response {
+  return json({ error: message }, status);
+}
+
+/**
+ * A path segment counted back from the last one, for dynamic routes like /api/runs/:id
+ * @param fromEnd - 0 for the last segment, 1 for the one before it, and so on
+ */
+export function getPathId(request: Request, fromEnd: number = 0): string {
+  const segments = new URL(request.url).pathname.split("/").filter(Boolean);
+  return decodeURIComponent(segments[segments.length - 1 - fromEnd] || "");
+}
+
+/**
+ * Run a handler, turning unexpected failures into a 500 response
+ */
+export async function handle(handler: () => Promise<Response>): Promise<Response> {
+  try {
+    return await handler();
+  } catch (error) {
+    console.error("API request failed:", error);
+    return errorResponse(500, "Something went wrong reading the leaderboards");
+  }
+}
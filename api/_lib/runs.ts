@@ -0,0 +1,123 @@
+import type { DocumentData } from "firebase/firestore/lite";
+import type { LeaderboardEntry, Player } from "../../src/types/database";
+import { DEFAULT_GAME_ID, belongsToGame } from "../../src/lib/data/gameScope";
+
+/**
+ * A run as the public API returns it
+ */
+export interface ApiRun {
+  id: string;
+  url: string;
+  gameId: string;
+  leaderboardType: 'regular' | 'individual-level' | 'community-golds';
+  category: string;
+  subcategory: string | null;
+  variables: Record<string, string> | null;
+  level: string | null;
+  platform: string;
+  runType: 'solo' | 'co-op';
+  players: Array<{ id: string | null; name: string }>;
+  time: string; // HH:MM:SS(.mmm)
+  timeMs: number | null;
+  times: Record<string, string> | null; // Per timing method, when the category records more than one
+  rank: number | null; // Position on its board, for the best run of each player
+  studs: number | null; // Points awarded for the run
+  date: string;
+  videoUrl: string | null;
+  comment: string | null;
+  isObsolete: boolean;
+}
+
+/**
+ * The public fields of a player
+ * Email addresses and admin flags are never returned
+ */
+export interface ApiPlayer {
+  id: string;
+  url: string;
+  displayName: string;
+  nameColor: string | null;
+  profilePicture: string | null;
+  bio: string | null;
+  pronouns: string | null;
+  twitchUsername: string | null;
+  srcUsername: string | null;
+  joinDate: string | null;
+  totalRuns: number;
+  bestRank: number | null;
+  studs: number;
+}
+
+export function getOrigin(request: Request): string {
+  return new URL(request.url).origin;
+}
+
+/**
+ * The game requested with ?game=, defaulting to the original game
+ */
+export function getRequestedGame(request: Request): string {
+  return new URL(request.url).searchParams.get("game") || DEFAULT_GAME_ID;
+}
+
+export function isInGame(data: { gameId?: string }, gameId: string): boolean {
+  return belongsToGame(data, gameId);
+}
+
+// Most runs read when a board is walked in time order, the same cap as the site's leaderboard queries
+export const MAX_TIME_ORDERED_RUNS = 2000;
+
+/**
+ * Who a run belongs to on its board, so only each player's (or co-op pair's) best run is ranked
+ */
+export function getBoardPlayerKey(data: DocumentData): string {
+  return `${data.playerId || data.playerName || ""}_${data.runType === "co-op" ? data.player2Name || "" : ""}`;
+}
+
+export function toApiRun(id: string, data: DocumentData, origin: string): ApiRun {
+  const run = data as Partial<LeaderboardEntry>;
+  const players: ApiRun['players'] = [{ id: run.playerId || null, name: run.playerName || "Unknown" }];
+  if (run.runType === 'co-op') {
+    players.push({ id: run.player2Id || null, name: run.player2Name || "Unknown" });
+  }
+  return {
+    id,
+    url: `${origin}/run/${id}`,
+    gameId: run.gameId || DEFAULT_GAME_ID,
+    leaderboardType: run.leaderboardType || 'regular',
+    category: run.category || "",
+    subcategory: run.subcategory || null,
+    variables: run.variables || null,
+    level: run.leaderboardType && run.leaderboardType !== 'regular' ? run.level || null : null,
+    platform: run.platform || "",
+    runType: run.runType || 'solo',
+    players,
+    time: run.time || "",
+    timeMs: run.timeMs ?? null,
+    times: run.times || null,
+    rank: run.rank ?? null,
+    studs: run.points ?? null,
+    date: run.date || "",
+    videoUrl: run.videoUrl || null,
+    comment: run.comment || null,
+    isObsolete: !!run.isObsolete,
+  };
+}
+
+export function toApiPlayer(id: string, data: DocumentData, origin: string): ApiPlayer {
+  const player = data as Partial<Player>;
+  return {
+    id,
+    url: `${origin}/player/${id}`,
+    displayName: player.displayName || "Unknown",
+    nameColor: player.nameColor || null,
+    profilePicture: player.profilePicture || null,
+    bio: player.bio || null,
+    pronouns: player.pronouns || null,
+    twitchUsername: player.twitchUsername || null,
+    srcUsername: player.srcUsername || null,
+    joinDate: player.joinDate || null,
+    totalRuns: player.totalRuns || 0,
+    bestRank: player.bestRank ?? null,
+    studs: player.totalPoints || 0,
+  };
+}
@@ -0,0 +1,432 @@
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, where, type DocumentData, type Firestore } from "firebase/firestore/lite";
+import type { Category, LeaderboardEntry, Level, Player, TimingMethod } from "../../src/types/database";
+import { DEFAULT_GAME_ID } from "../../src/lib/data/gameScope";
+import { json } from "./response";
+import { MAX_TIME_ORDERED_RUNS, getBoardPlayerKey, isInGame } from "./runs";
+
+/**
+ * speedrun.com v1 shapes for the SRC-compatible facade under /api/src/v1
+ * Only the parts of the SRC API that src/lib/speedruncom.ts and tools like LiveSplit read are filled in.
+ * IDs are this site's: the game is our game ID (e.g. lsw1), users are player IDs, and categories
+ * can also be looked up by their linked SRC category ID
+ */
+
+export const SRC_API_PATH = "/api/src/v1";
+
+const TIMING_METHODS: TimingMethod[] = ['realtime', 'realtime_noloads', 'ingame'];
+
+export interface SRCApiPlayerRef {
+  rel: 'user' | 'guest';
+  id?: string;
+  name?: string;
+  uri?: string; // Only users have their own endpoint
+}
+
+export interface SRCApiUser {
+  rel: 'user';
+  id: string;
+  names: { international: string; japanese: null };
+  weblink: string;
+  "name-style": { style: 'solid'; color: { light: string; dark: string } };
+  role: 'user';
+  signup: string | null;
+  twitch: { uri: string } | null;
+  links: Array<{ rel: string; uri: string }>;
+}
+
+export interface SRCApiGuest {
+  rel: 'guest';
+  name: string;
+  links: Array<{ rel: string; uri: string }>;
+}
+
+export interface SRCApiRun {
+  id: string;
+  weblink: string;
+  game: string;
+  level: string | null;
+  category: string;
+  videos: { links: Array<{ uri: string }> } | null;
+  comment: string | null;
+  status: { status: 'verified'; examiner: string | null; "verify-date": null };
+  players: SRCApiPlayerRef[] | { data: Array<SRCApiUser | SRCApiGuest> };
+  date: string | null;
+  submitted: null;
+  times: Record<string, string | number | null>; // primary, realtime, realtime_noloads and ingame, each with a _t value in seconds
+  system: { platform: string | null; emulated: boolean; region: null };
+  splits: null;
+  values: Record<string, string>; // Variable ID -> value ID; a subcategory is listed under "subcategory"
+}
+
+export interface SRCApiPlace {
+  place: number;
+  run: SRCApiRun;
+}
+
+export interface SRCApiLeaderboard {
+  weblink: string;
+  game: string;
+  category: string;
+  level: string | null;
+  platform: string | null;
+  region: null;
+  emulators: null;
+  "video-only": boolean;
+  timing: TimingMethod;
+  values: Record<string, string>;
+  runs: SRCApiPlace[];
+  links: Array<{ rel: string; uri: string }>;
+  players?: { data: Array<SRCApiUser | SRCApiGuest> };
+}
+
+/**
+ * A ranked run on a board
+ */
+export interface BoardPlace {
+  place: number;
+  id: string;
+  data: DocumentData;
+}
+
+export interface BoardFilters {
+  gameId: string;
+  runType: 'solo' | 'co-op';
+  platform?: string | null;
+  values?: Record<string, string>; // Variable ID -> value ID, with "subcategory" for the subcategory
+}
+
+/**
+ * An error in SRC's shape ({ status, message })
+ */
+export function srcError(status: number, message: string): Response {
+  return json({ status, message, links: [] }, status);
+}
+
+/**
+ * Resources requested with ?embed=; only "players" is supported
+ */
+export function getEmbeds(request: Request): string[] {
+  return (new URL(request.url).searchParams.get("embed") || "").split(",").map(embed => embed.trim()).filter(Boolean);
+}
+
+/**
+ * Variable filters from SRC's var-<variable ID>=<value ID> parameters
+ */
+export function getValueFilters(params: URLSearchParams): Record<string, string> {
+  const values: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith("var-") && value) values[key.slice(4)] = value;
+  });
+  return values;
+}
+
+export function getRunTypeParam(params: URLSearchParams): 'solo' | 'co-op' | null {
+  const runType = params.get("runType") || "solo";
+  return runType === "solo" || runType === "co-op" ? runType : null;
+}
+
+/**
+ * The timing method requested with ?timing=, or null when it isn't one we record
+ */
+export function getTimingParam(params: URLSearchParams): TimingMethod | null | undefined {
+  const timing = params.get("timing");
+  if (!timing) return undefined;
+  return TIMING_METHODS.includes(timing as TimingMethod) ? timing as TimingMethod : null;
+}
+
+export function getLeaderboardsUrl(origin: string, gameId: string): string {
+  return `${origin}${gameId === DEFAULT_GAME_ID ? "" : `/${gameId}`}/leaderboards`;
+}
+
+function parseSeconds(time: string | undefined): number | null {
+  const match = (time || "").trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/);
+  if (!match) return null;
+  const milliseconds = match[4] ? parseInt(match[4].padEnd(3, "0"), 10) : 0;
+  return parseInt(match[1] || "0", 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10) + milliseconds / 1000;
+}
+
+/**
+ * Convert seconds to an ISO 8601 duration like SRC's (e.g. "PT1H23M45.678S"), the reverse of isoDurationToTime
+ */
+export function secondsToIsoDuration(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  let duration = "PT";
+  if (hours) duration += `${hours}H`;
+  if (minutes) duration += `${minutes}M`;
+  if (secs || ms || (!hours && !minutes)) {
+    duration += ms ? `${secs}.${ms.toString().padStart(3, "0")}S` : `${secs}S`;
+  }
+  return duration;
+}
+
+// Runs saved before timing methods existed only have `time`, which was always real time
+function getRunTimes(data: DocumentData): Partial<Record<TimingMethod, string>> {
+  return (data as Partial<LeaderboardEntry>).times || { realtime: data.time };
+}
+
+function getRunSeconds(data: DocumentData, timing?: TimingMethod): number | null {
+  if (timing) return parseSeconds(getRunTimes(data)[timing]);
+  return typeof data.timeMs === "number" ? data.timeMs / 1000 : parseSeconds(data.time);
+}
+
+export function toSRCPlayerRefs(data: DocumentData, origin: string): SRCApiPlayerRef[] {
+  const run = data as Partial<LeaderboardEntry>;
+  const players = [{ id: run.playerId, name: run.playerName }];
+  if (run.runType === 'co-op') {
+    players.push({ id: run.player2Id, name: run.player2Name });
+  }
+  return players.map(player => player.id
+    ? { rel: 'user', id: player.id, uri: `${origin}${SRC_API_PATH}/users/${player.id}` }
+    : { rel: 'guest', name: player.name || "Unknown" });
+}
+
+/**
+ * A verified run in SRC's shape
+ * @param users - Players to embed (for ?embed=players); without it players are references
+ */
+export function toSRCRun(id: string, data: DocumentData, origin: string, users?: Map<string, SRCApiUser>): SRCApiRun {
+  const run = data as Partial<LeaderboardEntry>;
+  const times: SRCApiRun['times'] = {};
+  const primarySeconds = getRunSeconds(data);
+  times.primary = primarySeconds !== null ? secondsToIsoDuration(primarySeconds) : null;
+  times.primary_t = primarySeconds ?? 0;
+  TIMING_METHODS.forEach(method => {
+    const seconds = getRunSeconds(data, method);
+    times[method] = seconds !== null ? secondsToIsoDuration(seconds) : null;
+    times[`${method}_t`] = seconds ?? 0;
+  });
+
+  const playerRefs = toSRCPlayerRefs(data, origin);
+  return {
+    id,
+    weblink: `${origin}/run/${id}`,
+    game: run.gameId || DEFAULT_GAME_ID,
+    level: run.leaderboardType && run.leaderboardType !== 'regular' ? run.level || null : null,
+    category: run.category || "",
+    videos: run.videoUrl ? { links: [{ uri: run.videoUrl }] } : null,
+    comment: run.comment || null,
+    status: { status: 'verified', examiner: run.verifiedBy || null, "verify-date": null },
+    players: users ? { data: embedPlayers(playerRefs, users) } : playerRefs,
+    date: run.date || null,
+    submitted: null,
+    times,
+    system: { platform: run.platform || null, emulated: false, region: null },
+    splits: null,
+    values: { ...(run.variables || {}), ...(run.subcategory ? { subcategory: run.subcategory } : {}) },
+  };
+}
+
+export function toSRCUser(id: string, data: DocumentData, origin: string): SRCApiUser {
+  const player = data as Partial<Player>;
+  const color = player.nameColor || "#cba6f7";
+  return {
+    rel: 'user',
+    id,
+    names: { international: player.displayName || "Unknown", japanese: null },
+    weblink: `${origin}/player/${id}`,
+    "name-style": { style: 'solid', color: { light: color, dark: color } },
+    role: 'user',
+    signup: player.joinDate || null,
+    twitch: player.twitchUsername ? { uri: `https://www.twitch.tv/${player.twitchUsername}` } : null,
+    links: [
+      { rel: "self", uri: `${origin}${SRC_API_PATH}/users/${id}` },
+      { rel: "personal-bests", uri: `${origin}${SRC_API_PATH}/users/${id}/personal-bests` },
+    ],
+  };
+}
+
+/**
+ * Replace player references with the embedded users, or guests for players without an account
+ */
+export function embedPlayers(refs: SRCApiPlayerRef[], users: Map<string, SRCApiUser>): Array<SRCApiUser | SRCApiGuest> {
+  return refs.map(ref => (ref.id && users.get(ref.id)) || { rel: 'guest', name: ref.name || "Unknown", links: [] });
+}
+
+/**
+ * Read the players with these IDs, for ?embed=players
+ */
+export async function getSRCUsers(db: Firestore, ids: string[], origin: string): Promise<Map<string, SRCApiUser>> {
+  const snapshots = await Promise.all([...new Set(ids)].map(id => getDoc(doc(db, "players", id))));
+  return new Map(snapshots
+    .filter(snapshot => snapshot.exists())
+    .map(snapshot => [snapshot.id, toSRCUser(snapshot.id, snapshot.data(), origin)]));
+}
+
+export function getPlayerIds(runs: DocumentData[]): string[] {
+  return runs.flatMap(data => [data.playerId, data.runType === "co-op" ? data.player2Id : undefined]).filter(Boolean);
+}
+
+export function matchesBoardFilters(data: DocumentData, filters: BoardFilters): boolean {
+  if (!isInGame(data, filters.gameId) || data.isObsolete) return false;
+  if ((data.runType || "solo") !== filters.runType) return false;
+  if (filters.platform && data.platform !== filters.platform) return false;
+  return Object.entries(filters.values || {}).every(([variableId, valueId]) =>
+    variableId === "subcategory" ? data.subcategory === valueId : data.variables?.[variableId] === valueId
+  );
+}
+
+/**
+ * Rank runs like an SRC board: each player's best run, fastest first, with tied times sharing a place
+ * Boards here are split by platform and run type; SRC boards without a platform filter mix platforms, so
+ * places are worked out from the runs rather than read from their stored rank
+ * @param timing - Rank by this timing method instead of the primary time
+ */
+export function rankBoardRuns(runs: Array<{ id: string; data: DocumentData }>, timing?: TimingMethod): BoardPlace[] {
+  const seenPlayers = new Set<string>();
+  const places: BoardPlace[] = [];
+  let previousSeconds: number | null = null;
+
+  runs
+    .map(run => ({ ...run, seconds: getRunSeconds(run.data, timing) }))
+    .filter(run => run.seconds !== null && run.seconds > 0)
+    .sort((a, b) => a.seconds - b.seconds)
+    .forEach(run => {
+      const playerKey = getBoardPlayerKey(run.data);
+      if (seenPlayers.has(playerKey)) return;
+      seenPlayers.add(playerKey);
+      const place = run.seconds === previousSeconds ? places[places.length - 1].place : places.length + 1;
+      previousSeconds = run.seconds;
+      places.push({ place, id: run.id, data: run.data });
+    });
+
+  return places;
+}
+
+/**
+ * Places up to `top`, keeping every run tied at the cutoff like SRC does
+ */
+export function getTopPlaces(places: BoardPlace[], top: number | null): BoardPlace[] {
+  return top ? places.filter(place => place.place <= top) : places;
+}
+
+export function getTopParam(params: URLSearchParams, fallback: number | null = null): number | null {
+  const top = Math.floor(Number(params.get("top")));
+  return top > 0 ? top : fallback;
+}
+
+/**
+ * Find a category by our ID or its linked SRC category ID
+ */
+export async function findCategory(db: Firestore, gameId: string, categoryId: string): Promise<Category | null> {
+  const snapshot = await getDoc(doc(db, "categories", categoryId));
+  if (snapshot.exists() && isInGame(snapshot.data(), gameId)) {
+    return { id: snapshot.id, ...snapshot.data() } as Category;
+  }
+  const linked = await getDocs(query(collection(db, "categories"), where("srcCategoryId", "==", categoryId)));
+  const match = linked.docs.find(candidate => isInGame(candidate.data(), gameId));
+  return match ? { id: match.id, ...match.data() } as Category : null;
+}
+
+export async function findLevel(db: Firestore, gameId: string, levelId: string): Promise<Level | null> {
+  const snapshot = await getDoc(doc(db, "levels", levelId));
+  return snapshot.exists() && isInGame(snapshot.data(), gameId) ? { id: snapshot.id, ...snapshot.data() } as Level : null;
+}
+
+/**
+ * An SRC leaderboard object from ranked runs
+ */
+export function toSRCLeaderboard(
+  board: { gameId: string; category: Category; level: Level | null; platform: string | null; timing: TimingMethod; values: Record<string, string> },
+  places: BoardPlace[],
+  origin: string,
+  users?: Map<string, SRCApiUser>
+): SRCApiLeaderboard {
+  const leaderboard: SRCApiLeaderboard = {
+    weblink: getLeaderboardsUrl(origin, board.gameId),
+    game: board.gameId,
+    category: board.category.id,
+    level: board.level?.id || null,
+    platform: board.platform,
+    region: null,
+    emulators: null,
+    "video-only": false,
+    timing: board.timing,
+    values: board.values,
+    runs: places.map(({ place, id, data }) => ({ place, run: toSRCRun(id, data, origin) })),
+    links: [],
+  };
+  if (users) {
+    const seen = new Set<string>();
+    leaderboard.players = {
+      data: embedPlayers(places.flatMap(({ data }) => toSRCPlayerRefs(data, origin)), users).filter(player => {
+        const key = player.rel === 'user' ? player.id : `guest_${player.name}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }),
+    };
+  }
+  return leaderboard;
+}
+
+/**
+ * Serve one category's leaderboard (a full game board, or a level's board when levelId is given)
+ * Supports SRC's top, platform, timing, var-<id> and embed=players parameters, plus runType (solo or co-op)
+ */
+export async function getSRCLeaderboardResponse(
+  request: Request,
+  db: Firestore,
+  ids: { gameId: string; categoryId: string; levelId?: string }
+): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const runType = getRunTypeParam(params);
+  const timingParam = getTimingParam(params);
+  if (!runType) return srcError(400, "runType must be solo or co-op");
+  if (timingParam === null) return srcError(400, `timing must be one of ${TIMING_METHODS.join(", ")}`);
+
+  const category = await findCategory(db, ids.gameId, ids.categoryId);
+  if (!category) return srcError(404, "Category not found.");
+  const isLevelCategory = (category.leaderboardType || 'regular') !== 'regular';
+  if (!ids.levelId && isLevelCategory) {
+    return srcError(400, "This is a per-level category; use /leaderboards/{game}/level/{level}/{category}.");
+  }
+  if (ids.levelId && !isLevelCategory) {
+    return srcError(400, "This is a per-game category; use /leaderboards/{game}/category/{category}.");
+  }
+
+  let level: Level | null = null;
+  if (ids.levelId) {
+    level = await findLevel(db, ids.gameId, ids.levelId);
+    if (!level) return srcError(404, "Level not found.");
+  }
+
+  const values = getValueFilters(params);
+  const platform = params.get("platform");
+  const constraints = [
+    where("verified", "==", true),
+    where("leaderboardType", "==", category.leaderboardType || 'regular'),
+    where("category", "==", category.id),
+    where("runType", "==", runType),
+  ];
+  if (level) constraints.push(where("level", "==", level.id));
+  if (platform) constraints.push(where("platform", "==", platform));
+  // Fastest runs first with the site's cap, so a public request never reads a whole board
+  const snapshot = await getDocs(query(
+    collection(db, "leaderboardEntries"),
+    ...constraints,
+    orderBy("timeMs"),
+    limit(MAX_TIME_ORDERED_RUNS)
+  ));
+
+  const timing = timingParam || category.primaryTimingMethod || 'realtime';
+  const places = getTopPlaces(rankBoardRuns(
+    snapshot.docs
+      .filter(runDoc => matchesBoardFilters(runDoc.data(), { gameId: ids.gameId, runType, platform, values }))
+      .map(runDoc => ({ id: runDoc.id, data: runDoc.data() })),
+    timingParam
+  ), getTopParam(params));
+
+  const origin = new URL(request.url).origin;
+  const users = getEmbeds(request).includes("players")
+    ? await getSRCUsers(db, getPlayerIds(places.map(place => place.data)), origin)
+    : undefined;
+
+  return json({
+    data: toSRCLeaderboard({ gameId: ids.gameId, category, level, platform, timing, values }, places, origin, users),
+  });
+}
@@ -0,0 +1,33 @@
+import { collection, getDocs } from "firebase/firestore/lite";
+import { getDb } from "./_lib/firebase";
+import { handle, json } from "./_lib/response";
+import { getRequestedGame, isInGame } from "./_lib/runs";
+
+/**
+ * GET /api/categories?leaderboardType
+ * Categories in display order, with their subcategories and variables
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(async () => {
+    const leaderboardType = new URL(request.url).searchParams.get("leaderboardType");
+    const gameId = getRequestedGame(request);
+
+    const snapshot = await getDocs(collection(getDb(), "categories"));
+    const categories = snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as Record<string, unknown> & { id: string; gameId?: string; order?: number; leaderboardType?: string }))
+      .filter(category => isInGame(category, gameId))
+      .filter(category => !leaderboardType || (category.leaderboardType || "regular") === leaderboardType)
+      .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity))
+      .map(category => ({
+        id: category.id,
+        name: category.name,
+        leaderboardType: category.leaderboardType || "regular",
+        subcategories: category.subcategories || [],
+        variables: category.variables || [],
+        timingMethods: category.timingMethods || ["realtime"],
+        primaryTimingMethod: category.primaryTimingMethod || "realtime",
+      }));
+
+    return json({ categories }, 200, { sMaxAge: 3600 });
+  });
+}
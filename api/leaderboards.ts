@@ -0,0 +1,88 @@
+import { collection, getDocs, limit, orderBy, query, where, type QueryConstraint } from "firebase/firestore/lite";
+import { getDb } from "./_lib/firebase";
+import { errorResponse, handle, json } from "./_lib/response";
+import { MAX_TIME_ORDERED_RUNS, getBoardPlayerKey, getOrigin, getRequestedGame, isInGame, toApiRun } from "./_lib/runs";
+
+const LEADERBOARD_TYPES = ['regular', 'individual-level', 'community-golds'];
+const MAX_ENTRIES = 200;
+
+/**
+ * GET /api/leaderboards?category&platform&runType&level&subcategory
+ * One board, best run per player, fastest first
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(async () => {
+    const params = new URL(request.url).searchParams;
+    const category = params.get("category");
+    const platform = params.get("platform");
+    const runType = params.get("runType") || "solo";
+    const level = params.get("level");
+    const subcategory = params.get("subcategory");
+    const leaderboardType = params.get("leaderboardType") || (level ? "individual-level" : "regular");
+    const gameId = getRequestedGame(request);
+
+    if (!category || !platform) {
+      return errorResponse(400, "category and platform are required");
+    }
+    if (runType !== "solo" && runType !== "co-op") {
+      return errorResponse(400, "runType must be solo or co-op");
+    }
+    if (!LEADERBOARD_TYPES.includes(leaderboardType)) {
+      return errorResponse(400, `leaderboardType must be one of ${LEADERBOARD_TYPES.join(", ")}`);
+    }
+    if (leaderboardType !== "regular" && !level) {
+      return errorResponse(400, "level is required for individual level and community gold boards");
+    }
+
+    // Same filters, in the same order, as the site's leaderboard query so the composite indexes match
+    const constraints: QueryConstraint[] = [
+      where("verified", "==", true),
+      where("leaderboardType", "==", leaderboardType),
+    ];
+    if (leaderboardType !== "regular") {
+      constraints.push(where("level", "==", level));
+    }
+    constraints.push(
+      where("category", "==", category),
+      where("platform", "==", platform),
+      where("runType", "==", runType),
+    );
+
+    const origin = getOrigin(request);
+    let entries;
+    if (!subcategory) {
+      // Each player's best run carries its stored board rank
+      const snapshot = await getDocs(query(collection(getDb(), "leaderboardEntries"), ...constraints, orderBy("rank"), limit(MAX_ENTRIES)));
+      entries = snapshot.docs
+        .filter(doc => isInGame(doc.data(), gameId) && !doc.data().isObsolete)
+        .map(doc => toApiRun(doc.id, doc.data(), origin));
+    } else {
+      // Stored ranks cover the whole board, so a subcategory's board is ranked here from the runs in time order
+      // (fastest first, so the limit only drops runs far down very large boards)
+      const snapshot = await getDocs(query(
+        collection(getDb(), "leaderboardEntries"),
+        ...constraints,
+        orderBy("timeMs"),
+        limit(MAX_TIME_ORDERED_RUNS)
+      ));
+      const seenPlayers = new Set<string>();
+      entries = snapshot.docs
+        .filter(doc => {
+          const data = doc.data();
+          if (!isInGame(data, gameId) || data.isObsolete) return false;
+          if (subcategory === "__none__" ? !!data.subcategory : data.subcategory !== subcategory) return false;
+          const playerKey = getBoardPlayerKey(data);
+          if (seenPlayers.has(playerKey)) return false;
+          seenPlayers.add(playerKey);
+          return true;
+        })
+        .slice(0, MAX_ENTRIES)
+        .map((doc, index) => ({ ...toApiRun(doc.id, doc.data(), origin), rank: index + 1 }));
+    }
+
+    return json({
+      board: { gameId, leaderboardType, category, platform, runType, level: level || null, subcategory: subcategory || null },
+      entries,
+    });
+  });
+}
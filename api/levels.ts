@@ -0,0 +1,29 @@
+import { collection, getDocs } from "firebase/firestore/lite";
+import { getDb } from "./_lib/firebase";
+import { handle, json } from "./_lib/response";
+import { getRequestedGame, isInGame } from "./_lib/runs";
+
+/**
+ * GET /api/levels
+ * Levels in display order, with the categories disabled for each
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(async () => {
+    const gameId = getRequestedGame(request);
+
+    const snapshot = await getDocs(collection(getDb(), "levels"));
+    const levels = snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as Record<string, unknown> & { id: string; gameId?: string; order?: number }))
+      .filter(level => isInGame(level, gameId))
+      .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity))
+      .map(level => ({
+        id: level.id,
+        name: level.name,
+        disabledCategories: Object.entries((level.disabledCategories as Record<string, boolean>) || {})
+          .filter(([, disabled]) => disabled)
+          .map(([categoryId]) => categoryId),
+      }));
+
+    return json({ levels }, 200, { sMaxAge: 3600 });
+  });
+}
@@ -0,0 +1,10 @@
+import { openApiDocument } from "./_lib/openapi";
+import { json } from "./_lib/response";
+
+/**
+ * GET /api/openapi
+ * The OpenAPI document describing this API
+ */
+export function GET(): Response {
+  return json(openApiDocument, 200, { sMaxAge: 86400 });
+}
@@ -0,0 +1,45 @@
+import { collection, doc, getDoc, getDocs, limit, query, where } from "firebase/firestore/lite";
+import { getDb } from "../_lib/firebase";
+import { errorResponse, getPathId, handle, json } from "../_lib/response";
+import { getOrigin, getRequestedGame, isInGame, toApiPlayer, toApiRun } from "../_lib/runs";
+
+const MAX_RUNS = 1000;
+
+/**
+ * GET /api/players/:id
+ * A player's public profile, studs total and verified runs (including co-op runs as player 2), newest first
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(async () => {
+    const id = getPathId(request);
+    if (!id) return errorResponse(400, "A player ID is required");
+
+    const db = getDb();
+    const playerSnapshot = await getDoc(doc(db, "players", id));
+    if (!playerSnapshot.exists()) {
+      return errorResponse(404, "Player not found");
+    }
+
+    const gameId = getRequestedGame(request);
+    const [player1Snapshot, player2Snapshot] = await Promise.all([
+      getDocs(query(collection(db, "leaderboardEntries"), where("playerId", "==", id), where("verified", "==", true), limit(MAX_RUNS))),
+      getDocs(query(collection(db, "leaderboardEntries"), where("player2Id", "==", id), where("verified", "==", true), where("runType", "==", "co-op"), limit(MAX_RUNS))),
+    ]);
+
+    const origin = getOrigin(request);
+    const runIds = new Set<string>();
+    const runs = [...player1Snapshot.docs, ...player2Snapshot.docs]
+      .filter(runDoc => {
+        if (runIds.has(runDoc.id) || !isInGame(runDoc.data(), gameId)) return false;
+        runIds.add(runDoc.id);
+        return true;
+      })
+      .map(runDoc => toApiRun(runDoc.id, runDoc.data(), origin))
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    return json({
+      player: toApiPlayer(playerSnapshot.id, playerSnapshot.data(), origin),
+      runs,
+    });
+  });
+}
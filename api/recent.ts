@@ -0,0 +1,35 @@
+import { collection, getDocs, limit, orderBy, query, where } from "firebase/firestore/lite";
+import { getDb } from "./_lib/firebase";
+import { handle, json } from "./_lib/response";
+import { getOrigin, getRequestedGame, isInGame, toApiRun } from "./_lib/runs";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/recent?limit
+ * The most recently achieved verified runs
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(async () => {
+    const requestedLimit = Number(new URL(request.url).searchParams.get("limit")) || DEFAULT_LIMIT;
+    const runLimit = Math.min(Math.max(Math.floor(requestedLimit), 1), MAX_LIMIT);
+    const gameId = getRequestedGame(request);
+
+    // Extra runs are read to make up for obsolete runs and other games' runs being left out
+    const snapshot = await getDocs(query(
+      collection(getDb(), "leaderboardEntries"),
+      where("verified", "==", true),
+      orderBy("date", "desc"),
+      limit(runLimit + MAX_LIMIT)
+    ));
+
+    const origin = getOrigin(request);
+    const runs = snapshot.docs
+      .filter(doc => !doc.data().isObsolete && isInGame(doc.data(), gameId))
+      .slice(0, runLimit)
+      .map(doc => toApiRun(doc.id, doc.data(), origin));
+
+    return json({ runs }, 200, { sMaxAge: 120 });
+  });
+}
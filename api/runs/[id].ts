@@ -0,0 +1,28 @@
+import { doc, getDoc } from "firebase/firestore/lite";
+import { getDb } from "../_lib/firebase";
+import { errorResponse, getPathId, handle, json } from "../_lib/response";
+import { getOrigin, toApiRun } from "../_lib/runs";
+
+/**
+ * GET /api/runs/:id
+ * A verified run
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(async () => {
+    const id = getPathId(request);
+    if (!id) return errorResponse(400, "A run ID is required");
+
+    let snapshot;
+    try {
+      snapshot = await getDoc(doc(getDb(), "leaderboardEntries", id));
+    } catch (error) {
+      // Unverified runs aren't readable by the public, so the rules reject the read
+      return errorResponse(404, "Run not found");
+    }
+    if (!snapshot.exists() || snapshot.data().verified !== true) {
+      return errorResponse(404, "Run not found");
+    }
+
+    return json({ run: toApiRun(snapshot.id, snapshot.data(), getOrigin(request)) });
+  });
+}
@@ -0,0 +1,110 @@
+import { collection, getDocs, query, where, type DocumentData } from "firebase/firestore/lite";
+import type { Category, Level } from "../../../../../src/types/database";
+import { getDb } from "../../../../_lib/firebase";
+import { getPathId, handle, json } from "../../../../_lib/response";
+import { isInGame } from "../../../../_lib/runs";
+import {
+  getEmbeds,
+  getPlayerIds,
+  getRunTypeParam,
+  getSRCUsers,
+  getTopParam,
+  getTopPlaces,
+  matchesBoardFilters,
+  rankBoardRuns,
+  srcError,
+  toSRCLeaderboard,
+} from "../../../../_lib/speedruncom";
+
+const SCOPES = ['full-game', 'levels', 'all'];
+const DEFAULT_TOP = 3;
+
+const byOrder = (a: { order?: number }, b: { order?: number }) => (a.order ?? Infinity) - (b.order ?? Infinity);
+
+/**
+ * GET /api/src/v1/games/:id/records?top&scope&skip-empty&runType&embed=players
+ * The top runs of every full game category and every level's categories, in speedrun.com's shape
+ * Boards mix platforms, like SRC boards without a platform filter
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(async () => {
+    const gameId = getPathId(request, 1);
+    const params = new URL(request.url).searchParams;
+    const top = getTopParam(params, DEFAULT_TOP);
+    const scope = params.get("scope") || "all";
+    const skipEmpty = params.get("skip-empty") === "true";
+    const runType = getRunTypeParam(params);
+    if (!SCOPES.includes(scope)) return srcError(400, `scope must be one of ${SCOPES.join(", ")}`);
+    if (!runType) return srcError(400, "runType must be solo or co-op");
+
+    const db = getDb();
+    const [categorySnapshot, levelSnapshot] = await Promise.all([
+      getDocs(collection(db, "categories")),
+      getDocs(collection(db, "levels")),
+    ]);
+    const categories = categorySnapshot.docs
+      .map(categoryDoc => ({ id: categoryDoc.id, ...categoryDoc.data() } as Category))
+      .filter(category => isInGame(category, gameId))
+      .sort(byOrder);
+    if (categories.length === 0) return srcError(404, "Game not found.");
+    const levels = levelSnapshot.docs
+      .map(levelDoc => ({ id: levelDoc.id, ...levelDoc.data() } as Level))
+      .filter(level => isInGame(level, gameId))
+      .sort(byOrder);
+
+    const boards: Array<{ category: Category; level: Level | null }> = [];
+    if (scope !== 'levels') {
+      categories
+        .filter(category => (category.leaderboardType || 'regular') === 'regular')
+        .forEach(category => boards.push({ category, level: null }));
+    }
+    if (scope !== 'full-game') {
+      levels.forEach(level => categories
+        .filter(category => (category.leaderboardType || 'regular') !== 'regular' && !level.disabledCategories?.[category.id])
+        .forEach(category => boards.push({ category, level })));
+    }
+
+    // One read per category, only the runs inside their board's stored top places: ranks are kept per
+    // platform board, and a player in the mixed board's top places is at least that high on their platform's
+    // (stored ranks don't share places, so a time tied at the cutoff past its platform's top places isn't read)
+    const boardCategories = [...new Map(boards.map(board => [board.category.id, board.category])).values()];
+    const snapshots = await Promise.all(boardCategories.map(category => getDocs(query(
+      collection(db, "leaderboardEntries"),
+      where("verified", "==", true),
+      where("leaderboardType", "==", category.leaderboardType || 'regular'),
+      where("category", "==", category.id),
+      where("runType", "==", runType),
+      where("rank", "<=", top)
+    ))));
+    const runsByBoard = new Map<string, Array<{ id: string; data: DocumentData }>>();
+    snapshots.flatMap(snapshot => snapshot.docs).forEach(runDoc => {
+      const data = runDoc.data();
+      if (!matchesBoardFilters(data, { gameId, runType })) return;
+      const key = `${data.category}|${data.leaderboardType !== 'regular' ? data.level || "" : ""}`;
+      const runs = runsByBoard.get(key) || [];
+      runs.push({ id: runDoc.id, data });
+      runsByBoard.set(key, runs);
+    });
+
+    const records = boards
+      .map(board => ({ ...board, places: getTopPlaces(rankBoardRuns(runsByBoard.get(`${board.category.id}|${board.level?.id || ""}`) || []), top) }))
+      .filter(board => !skipEmpty || board.places.length > 0);
+
+    const origin = new URL(request.url).origin;
+    const users = getEmbeds(request).includes("players")
+      ? await getSRCUsers(db, getPlayerIds(records.flatMap(board => board.places.map(place => place.data))), origin)
+      : undefined;
+
+    return json({
+      data: records.map(board => toSRCLeaderboard({
+        gameId,
+        category: board.category,
+        level: board.level,
+        platform: null,
+        timing: board.category.primaryTimingMethod || 'realtime',
+        values: {},
+      }, board.places, origin, users)),
+      pagination: { offset: 0, max: records.length, size: records.length, links: [] },
+    });
+  });
+}
@@ -0,0 +1,14 @@
+import { getDb } from "../../../../../_lib/firebase";
+import { getPathId, handle } from "../../../../../_lib/response";
+import { getSRCLeaderboardResponse } from "../../../../../_lib/speedruncom";
+
+/**
+ * GET /api/src/v1/leaderboards/:game/category/:category?top&platform&timing&var-<id>&runType&embed=players
+ * A full game category's leaderboard in speedrun.com's shape
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(() => getSRCLeaderboardResponse(request, getDb(), {
+    gameId: getPathId(request, 2),
+    categoryId: getPathId(request),
+  }));
+}
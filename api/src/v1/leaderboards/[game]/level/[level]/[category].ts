@@ -0,0 +1,15 @@
+import { getDb } from "../../../../../../_lib/firebase";
+import { getPathId, handle } from "../../../../../../_lib/response";
+import { getSRCLeaderboardResponse } from "../../../../../../_lib/speedruncom";
+
+/**
+ * GET /api/src/v1/leaderboards/:game/level/:level/:category?top&platform&timing&var-<id>&runType&embed=players
+ * A level's leaderboard for an individual level or community gold category in speedrun.com's shape
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(() => getSRCLeaderboardResponse(request, getDb(), {
+    gameId: getPathId(request, 3),
+    levelId: getPathId(request, 1),
+    categoryId: getPathId(request),
+  }));
+}
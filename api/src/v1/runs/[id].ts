@@ -0,0 +1,27 @@
+import { doc, getDoc } from "firebase/firestore/lite";
+import { getDb } from "../../../_lib/firebase";
+import { getPathId, handle, json } from "../../../_lib/response";
+import { getEmbeds, getPlayerIds, getSRCUsers, srcError, toSRCRun } from "../../../_lib/speedruncom";
+
+/**
+ * GET /api/src/v1/runs/:id?embed=players
+ * A verified run in speedrun.com's shape
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(async () => {
+    const id = getPathId(request);
+    if (!id) return srcError(400, "A run ID is required.");
+
+    const db = getDb();
+    const snapshot = await getDoc(doc(db, "leaderboardEntries", id));
+    if (!snapshot.exists() || !snapshot.data().verified) {
+      return srcError(404, "Run not found.");
+    }
+
+    const origin = new URL(request.url).origin;
+    const users = getEmbeds(request).includes("players")
+      ? await getSRCUsers(db, getPlayerIds([snapshot.data()]), origin)
+      : undefined;
+    return json({ data: toSRCRun(snapshot.id, snapshot.data(), origin, users) });
+  });
+}
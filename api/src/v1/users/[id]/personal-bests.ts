@@ -0,0 +1,98 @@
+import { collection, doc, getDoc, getDocs, limit, query, where, type DocumentData, type Firestore, type QueryConstraint } from "firebase/firestore/lite";
+import { DEFAULT_GAME_ID } from "../../../../../src/lib/data/gameScope";
+import { getDb } from "../../../../_lib/firebase";
+import { getPathId, handle, json } from "../../../../_lib/response";
+import { isInGame } from "../../../../_lib/runs";
+import { getEmbeds, getPlayerIds, getSRCUsers, getTopParam, rankBoardRuns, srcError, toSRCRun, type BoardPlace } from "../../../../_lib/speedruncom";
+
+const MAX_RUNS = 1000;
+
+function getBoardKey(data: DocumentData): string {
+  const leaderboardType = data.leaderboardType || "regular";
+  return [
+    data.gameId || DEFAULT_GAME_ID,
+    leaderboardType,
+    data.category,
+    leaderboardType !== "regular" ? data.level || "" : "",
+    data.platform,
+    data.runType || "solo",
+    data.subcategory || "",
+  ].join("|");
+}
+
+/**
+ * Rank the board a run is on, with the same filters (in the same order) as the site's leaderboard query
+ */
+async function getBoardPlaces(db: Firestore, board: DocumentData): Promise<BoardPlace[]> {
+  const leaderboardType = board.leaderboardType || "regular";
+  const constraints: QueryConstraint[] = [
+    where("verified", "==", true),
+    where("leaderboardType", "==", leaderboardType),
+  ];
+  if (leaderboardType !== "regular") {
+    constraints.push(where("level", "==", board.level || ""));
+  }
+  constraints.push(
+    where("category", "==", board.category || ""),
+    where("platform", "==", board.platform || ""),
+    where("runType", "==", board.runType || "solo"),
+  );
+  const snapshot = await getDocs(query(collection(db, "leaderboardEntries"), ...constraints));
+  return rankBoardRuns(snapshot.docs
+    .filter(runDoc => {
+      const data = runDoc.data();
+      return !data.isObsolete && getBoardKey(data) === getBoardKey(board);
+    })
+    .map(runDoc => ({ id: runDoc.id, data: runDoc.data() })));
+}
+
+/**
+ * GET /api/src/v1/users/:id/personal-bests?top&game&embed=players
+ * A player's personal bests in speedrun.com's shape
+ * The player's best run on each board they have a run on (one per platform, run type and subcategory), with its place
+ */
+export function GET(request: Request): Promise<Response> {
+  return handle(async () => {
+    const id = getPathId(request, 1);
+    if (!id) return srcError(400, "A user ID is required.");
+
+    const db = getDb();
+    const playerSnapshot = await getDoc(doc(db, "players", id));
+    if (!playerSnapshot.exists()) {
+      return srcError(404, "User not found.");
+    }
+
+    const params = new URL(request.url).searchParams;
+    const gameId = params.get("game");
+    const top = getTopParam(params);
+    const [player1Snapshot, player2Snapshot] = await Promise.all([
+      getDocs(query(collection(db, "leaderboardEntries"), where("playerId", "==", id), where("verified", "==", true), limit(MAX_RUNS))),
+      getDocs(query(collection(db, "leaderboardEntries"), where("player2Id", "==", id), where("verified", "==", true), where("runType", "==", "co-op"), limit(MAX_RUNS))),
+    ]);
+
+    // Stored ranks cover the whole board, so each board (split by subcategory too) is ranked here from its runs
+    const boards = new Map<string, DocumentData>();
+    const playerRunIds = new Set<string>();
+    [...player1Snapshot.docs, ...player2Snapshot.docs].forEach(runDoc => {
+      const data = runDoc.data();
+      if (data.isObsolete || (gameId && !isInGame(data, gameId))) return;
+      playerRunIds.add(runDoc.id);
+      boards.set(getBoardKey(data), data);
+    });
+
+    const boardPlaces = await Promise.all([...boards.values()].map(board => getBoardPlaces(db, board)));
+    const personalBests = boardPlaces
+      .map(places => places.find(place => playerRunIds.has(place.id)))
+      .filter((place): place is BoardPlace => !!place && (!top || place.place <= top))
+      .sort((a, b) => a.place - b.place);
+
+    const origin = new URL(request.url).origin;
+    const users = getEmbeds(request).includes("players")
+      ? await getSRCUsers(db, getPlayerIds(personalBests.map(place => place.data)), origin)
+      : undefined;
+
+    return json({
+      data: personalBests.map(({ place, id, data }) => ({ place, run: toSRCRun(id, data, origin, users) })),
+    });
+  });
+}
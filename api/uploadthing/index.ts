@@ -30,6 +30,16 @@ const ourFileRouter = {
       console.log("Profile picture upload complete:", file.url);
       return {};
     }),
+  splitsFile: f({ 
+    blob: { 
+      maxFileSize: "4MB", 
+      maxFileCount: 1 
+    } 
+  })
+    .onUploadComplete(async ({ file }) => {
+      console.log("Splits file upload complete:", file.url);
+      return {};
+    }),
 } satisfies FileRouter;
 
 // Create the route handler - this returns an object with GET and POST handlers
@@ -8,6 +8,7 @@ import { Header } from "@/components/Header";
 import Index from "./pages/Index";
 import Leaderboards from "./pages/Leaderboards";
 import PointsLeaderboard from "./pages/PointsLeaderboard";
+import SeasonStandings from "./pages/SeasonStandings";
 import SubmitRun from "./pages/SubmitRun";
 import PlayerDetails from "./pages/PlayerDetails";
 import RunDetails from "./pages/RunDetails";
@@ -16,9 +17,13 @@ import Admin from "./pages/Admin";
 import Live from "./pages/Live";
 import Downloads from "./pages/Downloads";
 import Stats from "./pages/Stats";
+import CommunityGolds from "./pages/CommunityGolds";
 import NotFound from "./pages/NotFound";
 import { AuthProvider } from "@/components/AuthProvider";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { GameRoute } from "@/components/GameRoute";
+import { GameProvider } from "@/contexts/GameContext";
+import { useGame } from "@/hooks/useGame";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -35,6 +40,39 @@ const queryClient = new QueryClient({
   },
 });
 
+// Pages are served both with a game prefix (/lsw2/leaderboards) and without one,
+// in which case they show the last selected game
+const gameRoutes = (
+  <>
+    <Route index element={<Index />} />
+    <Route path="leaderboards" element={<Leaderboards />} />
+    <Route path="points" element={<PointsLeaderboard />} />
+    <Route path="seasons/:seasonId" element={<SeasonStandings />} />
+    <Route path="submit" element={<SubmitRun />} />
+    <Route path="player/:playerId" element={<PlayerDetails />} />
+    <Route path="run/:runId" element={<RunDetails />} />
+    <Route path="settings" element={<UserSettings />} />
+    <Route path="admin" element={<Admin />} />
+    <Route path="live" element={<Live />} />
+    <Route path="downloads" element={<Downloads />} />
+    <Route path="stats" element={<Stats />} />
+    <Route path="golds" element={<CommunityGolds />} />
+  </>
+);
+
+const AppRoutes = () => {
+  const { currentGame } = useGame();
+
+  // Remount pages when the game changes so they reload their data
+  return (
+    <Routes key={currentGame.id}>
+      <Route path="/">{gameRoutes}</Route>
+      <Route path="/:game" element={<GameRoute />}>{gameRoutes}</Route>
+      <Route path="*" element={<NotFound />} />
+    </Routes>
+  );
+};
+
 const App = () => (
   <ErrorBoundary>
     <QueryClientProvider client={queryClient}>
@@ -43,25 +81,14 @@ const App = () => (
           <Toaster />
           <Sonner />
           <BrowserRouter>
-            <div className="flex flex-col min-h-screen">
-              <Header />
-              <main className="flex-grow">
-                <Routes>
-                  <Route path="/" element={<Index />} />
-                  <Route path="/leaderboards" element={<Leaderboards />} />
-                  <Route path="/points" element={<PointsLeaderboard />} />
-                  <Route path="/submit" element={<SubmitRun />} />
-                  <Route path="/player/:playerId" element={<PlayerDetails />} />
-                  <Route path="/run/:runId" element={<RunDetails />} />
-                  <Route path="/settings" element={<UserSettings />} />
-                  <Route path="/admin" element={<Admin />} />
-                  <Route path="/live" element={<Live />} />
-                  <Route path="/downloads" element={<Downloads />} />
-                  <Route path="/stats" element={<Stats />} />
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </main>
-            </div>
+            <GameProvider>
+              <div className="flex flex-col min-h-screen">
+                <Header />
+                <main className="flex-grow">
+                  <AppRoutes />
+                </main>
+              </div>
+            </GameProvider>
           </BrowserRouter>
           <Analytics />
         </TooltipProvider>
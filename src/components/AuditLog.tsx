@@ -0,0 +1,249 @@
+import { useState, useEffect } from "react";
+import { RefreshCw, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { AuditLogEntry, AuditLogFilters, AuditTargetType } from "@/types/database";
+import { getAuditLog } from "@/lib/db";
+
+const targetTypeLabels: Record<AuditTargetType, string> = {
+  run: "Runs",
+  player: "Players",
+  leaderboard: "Leaderboards",
+  category: "Categories",
+  platform: "Platforms",
+  level: "Levels",
+  game: "Games",
+  download: "Downloads",
+  downloadCategory: "Download categories",
+  pointsConfig: "Points config",
+  season: "Seasons",
+  backup: "Backups",
+  migration: "Migrations",
+};
+
+const actionLabels: Record<string, string> = {
+  "run.update": "Edited run",
+  "run.revert": "Reverted run",
+  "run.verify": "Verified run",
+  "run.unverify": "Unverified run",
+  "run.delete": "Deleted run",
+  "run.markObsolete": "Marked run obsolete",
+  "run.restoreObsolete": "Restored obsolete run",
+  "run.removeDuplicates": "Removed duplicate runs",
+  "run.importCsv": "Imported runs from CSV",
+  "run.deleteAllImported": "Deleted all imported runs",
+  "run.deleteUnclaimedImported": "Deleted unclaimed imported runs",
+  "run.wipeImported": "Wiped imported runs",
+  "run.restore": "Restored run from trash",
+  "run.purge": "Purged run from trash",
+  "leaderboard.deleteAll": "Deleted all runs",
+  "leaderboard.wipe": "Wiped leaderboards",
+  "leaderboard.rebuildRanks": "Rebuilt ranks",
+  "player.update": "Edited player",
+  "player.grantAdmin": "Granted admin",
+  "player.revokeAdmin": "Revoked admin",
+  "player.delete": "Deleted player",
+  "player.autoclaimAll": "Ran autoclaiming",
+  "player.migrateDisplayNames": "Migrated display names",
+  "player.restore": "Restored player from trash",
+  "player.purge": "Purged player from trash",
+  "category.add": "Added category",
+  "category.update": "Edited category",
+  "category.updateTimingMethods": "Changed timing methods",
+  "category.updateVariables": "Changed variables",
+  "category.delete": "Deleted category",
+  "category.reorder": "Reordered category",
+  "platform.add": "Added platform",
+  "platform.update": "Renamed platform",
+  "platform.delete": "Deleted platform",
+  "platform.reorder": "Reordered platform",
+  "level.add": "Added level",
+  "level.update": "Renamed level",
+  "level.disableCategory": "Disabled level for category",
+  "level.enableCategory": "Enabled level for category",
+  "level.delete": "Deleted level",
+  "level.reorder": "Reordered level",
+  "game.add": "Added game",
+  "game.update": "Edited game",
+  "game.delete": "Deleted game",
+  "download.add": "Added download",
+  "download.delete": "Deleted download",
+  "download.reorder": "Reordered download",
+  "downloadCategory.add": "Added download category",
+  "downloadCategory.update": "Edited download category",
+  "downloadCategory.delete": "Deleted download category",
+  "pointsConfig.update": "Published points config",
+  "pointsConfig.backfill": "Recalculated all points",
+  "season.add": "Added season",
+  "season.update": "Edited season",
+  "season.delete": "Deleted season",
+  "season.archive": "Finalized season",
+  "backup.create": "Created backup",
+  "backup.restore": "Restored backup",
+  "migration.run": "Ran migration",
+  "migration.rollback": "Rolled back migration",
+};
+
+const destructiveActions = /\.(delete|deleteAll|wipe|wipeImported|deleteAllImported|deleteUnclaimedImported|removeDuplicates|revokeAdmin|purge)$/;
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "unset";
+  if (typeof value === "string") return value;
+  const json = JSON.stringify(value);
+  return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+}
+
+/**
+ * The admin audit log: who did what to which target, with the fields it changed
+ * Clicking an actor or target narrows the log to them
+ */
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getAuditLog(filters)
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, refreshKey]);
+
+  const actorName = filters.actorUid && entries.find(entry => entry.actorUid === filters.actorUid)?.actorName;
+  const targetName = filters.targetId && entries.find(entry => entry.targetId === filters.targetId)?.targetName;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={filters.targetType || "all"}
+          onValueChange={(value) => setFilters({ ...filters, targetType: value === "all" ? undefined : value as AuditTargetType })}
+        >
+          <SelectTrigger className="w-48 bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All targets</SelectItem>
+            {Object.entries(targetTypeLabels).map(([type, label]) => (
+              <SelectItem key={type} value={type}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.action || "all"}
+          onValueChange={(value) => setFilters({ ...filters, action: value === "all" ? undefined : value })}
+        >
+          <SelectTrigger className="w-64 bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {Object.entries(actionLabels)
+              .filter(([action]) => !filters.targetType || action.startsWith(`${filters.targetType}.`))
+              .map(([action, label]) => (
+                <SelectItem key={action} value={action}>{label}</SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        {filters.actorUid && (
+          <Badge variant="outline" className="border-[hsl(235,13%,30%)] gap-1">
+            By {actorName || filters.actorUid}
+            <button onClick={() => setFilters({ ...filters, actorUid: undefined })} aria-label="Clear actor filter">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
+        {filters.targetId && (
+          <Badge variant="outline" className="border-[hsl(235,13%,30%)] gap-1">
+            On {targetName || filters.targetId}
+            <button onClick={() => setFilters({ ...filters, targetId: undefined })} aria-label="Clear target filter">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setRefreshKey(key => key + 1)}
+          disabled={loading}
+          className="ml-auto border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)]"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner size="sm" className="py-8" />
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-ctp-overlay0 py-4">No audit entries match these filters.</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(entry => (
+            <li key={entry.id} className="border border-[hsl(235,13%,30%)] p-3">
+              <div className="flex items-center justify-between gap-2 flex-wrap text-sm">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge className={`border-transparent ${destructiveActions.test(entry.action) ? "bg-[#f38ba8]" : "bg-[#89b4fa]"} text-[hsl(240,21%,15%)]`}>
+                    {actionLabels[entry.action] || entry.action}
+                  </Badge>
+                  {entry.targetId && (
+                    <button
+                      onClick={() => setFilters({ ...filters, targetId: entry.targetId })}
+                      className="text-ctp-text hover:text-[#fab387] transition-colors"
+                    >
+                      {entry.targetName || entry.targetId}
+                    </button>
+                  )}
+                  <span className="text-ctp-overlay0">by</span>
+                  <button
+                    onClick={() => setFilters({ ...filters, actorUid: entry.actorUid })}
+                    className="text-[#cba6f7] hover:text-[#fab387] transition-colors"
+                  >
+                    {entry.actorName || entry.actorUid}
+                  </button>
+                </div>
+                <span className="text-ctp-overlay0">{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              {entry.details && (
+                <p className="mt-1 text-xs text-ctp-subtext1">
+                  {Object.entries(entry.details).map(([key, value]) => `${key}: ${value}`).join(" · ")}
+                </p>
+              )}
+              {entry.changes.length > 0 && (
+                <div className="mt-2">
+                  <button
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    className="text-xs text-ctp-overlay0 hover:text-ctp-text transition-colors"
+                  >
+                    {expandedId === entry.id ? "Hide" : "Show"} {entry.changes.length} changed field{entry.changes.length !== 1 ? "s" : ""}
+                  </button>
+                  {expandedId === entry.id && (
+                    <ul className="mt-2 space-y-1 text-xs font-mono text-ctp-subtext1 break-all">
+                      {entry.changes.map(change => (
+                        <li key={change.field}>
+                          {change.field}: <span className="text-[#f38ba8]">{formatValue(change.from)}</span> → <span className="text-[#a6e3a1]">{formatValue(change.to)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
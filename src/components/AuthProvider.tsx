@@ -2,7 +2,7 @@
 
 import React, { createContext, useContext, useEffect, useState, useRef } from "react";
 import { auth } from "@/lib/firebase";
-import { getPlayerByUid, createPlayer, runAutoclaimingForAllUsers } from "@/lib/db";
+import { getPlayerByUid, createPlayer, isDisplayNameAvailable, runAutoclaimingForAllUsers } from "@/lib/db";
 import { CustomUser } from "@/types/database";
 import type { User } from "firebase/auth";
 import { logError } from "@/lib/errorUtils";
@@ -93,7 +93,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               // Player document doesn't exist - create it in Firestore
               // Use Firebase Auth data as fallback, but prefer Firestore as source of truth
               const today = new Date().toISOString().split('T')[0];
-              const finalDisplayName = user.displayName || user.email?.split('@')[0] || "Player";
+              const preferredDisplayName = user.displayName || user.email?.split('@')[0] || "Player";
+              // Display names are unique, so fall back to a suffixed name if this one is taken
+              const finalDisplayName = await isDisplayNameAvailable(preferredDisplayName, user.uid)
+                ? preferredDisplayName
+                : `${preferredDisplayName}-${user.uid.slice(0, 6)}`;
               
               // Create player document in Firestore - all user data stored securely here
               const newPlayer = {
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { Download, Upload, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { createBackup, getBackupDiff, restoreBackup } from "@/lib/db";
+import { BackupArchive, BackupCollectionDiff, BackupRestoreProgress, parseBackupArchive } from "@/lib/data/backup";
+import { downloadFile } from "@/lib/export";
+
+const collectionLabels: Record<BackupCollectionDiff['collection'], string> = {
+  games: "Games",
+  players: "Players",
+  displayNames: "Display names",
+  leaderboardEntries: "Runs",
+  runRevisions: "Run revisions",
+  categories: "Categories",
+  levels: "Levels",
+  platforms: "Platforms",
+  downloads: "Downloads",
+  downloadCategories: "Download categories",
+  pointsConfig: "Points config",
+  pointsConfigHistory: "Points config history",
+  pointsLedger: "Points ledger",
+  seasons: "Seasons",
+};
+
+/**
+ * Download a backup of the site's data, or restore one after checking it and previewing what it would change
+ */
+export function BackupRestore() {
+  const [creating, setCreating] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [archiveErrors, setArchiveErrors] = useState<string[]>([]);
+  const [invalidRuns, setInvalidRuns] = useState<Array<{ id: string; errors: string[] }>>([]);
+  const [diff, setDiff] = useState<BackupCollectionDiff[] | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [removeMissing, setRemoveMissing] = useState(false);
+  const [restoreProgress, setRestoreProgress] = useState<BackupRestoreProgress | null>(null);
+  const { toast } = useToast();
+
+  const handleCreateBackup = async () => {
+    setCreating(true);
+    try {
+      const backup = await createBackup();
+      if (!backup) {
+        throw new Error("Failed to read the site's data");
+      }
+      downloadFile(`lsw1-backup-${backup.createdAt.slice(0, 19).replace(/:/g, "-")}.json`, JSON.stringify(backup), "application/json");
+      toast({
+        title: "Backup Created",
+        description: `Backed up ${backup.collections.leaderboardEntries.length} runs and ${backup.collections.players.length} players.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create backup.",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    setArchive(null);
+    setDiff(null);
+    setArchiveErrors([]);
+    setInvalidRuns([]);
+    if (!file) return;
+
+    const parsed = parseBackupArchive(await file.text());
+    setArchiveErrors(parsed.errors);
+    setInvalidRuns(parsed.invalidRuns);
+    if (!parsed.archive) return;
+
+    setArchive(parsed.archive);
+    setLoadingDiff(true);
+    try {
+      setDiff(await getBackupDiff(parsed.archive, parsed.invalidRuns.map(run => run.id)));
+    } catch (error) {
+      setArchiveErrors([`Failed to compare the backup with the site: ${error instanceof Error ? error.message : String(error)}`]);
+    } finally {
+      setLoadingDiff(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive || !diff) return;
+    if (!window.confirm(
+      `Restore the backup from ${new Date(archive.createdAt).toLocaleString()}? ` +
+      (removeMissing ? "Documents that aren't in the backup will be deleted. " : "") +
+      "Consider downloading a backup of the current data first."
+    )) {
+      return;
+    }
+
+    setRestoreProgress({ collection: diff[0].collection, completed: 0, total: 0 });
+    try {
+      const result = await restoreBackup(archive, { removeMissing }, invalidRuns.map(run => run.id), setRestoreProgress);
+      if (result.errors.length > 0) {
+        toast({
+          title: "Restore Incomplete",
+          description: `${result.written} documents written, ${result.deleted} deleted. ${result.errors[0]}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Backup Restored",
+          description: `${result.written} documents written, ${result.deleted} deleted.`,
+        });
+      }
+      setDiff(await getBackupDiff(archive, invalidRuns.map(run => run.id)));
+    } finally {
+      setRestoreProgress(null);
+    }
+  };
+
+  const pendingChanges = diff?.reduce((sum, collectionDiff) =>
+    sum + collectionDiff.added.length + collectionDiff.changed.length + (removeMissing ? collectionDiff.removed.length : 0), 0) ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <p className="text-sm text-ctp-subtext1 leading-relaxed">
+          Download every game, player, run (with its revisions), category, level, platform, download, points config and ledger entry, and season as one JSON file. Take one before risky operations like wiping imported runs. Restored runs' boards are re-ranked and their studs recalculated.
+        </p>
+        <Button onClick={handleCreateBackup} disabled={creating} className="bg-gradient-to-r from-[#cba6f7] to-[#b4a0e2] hover:from-[#b4a0e2] hover:to-[#cba6f7] text-[hsl(240,21%,15%)] font-bold">
+          <Download className="h-4 w-4 mr-2" />
+          {creating ? "Backing Up..." : "Download Backup"}
+        </Button>
+      </div>
+
+      <div className="space-y-4 pt-4 border-t border-[hsl(235,13%,30%)]">
+        <div className="space-y-2">
+          <Label htmlFor="backupFile" className="flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            Restore from a backup file
+          </Label>
+          <Input
+            id="backupFile"
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => handleFileSelected(e.target.files?.[0])}
+            disabled={restoreProgress !== null}
+            className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
+          />
+        </div>
+
+        {archiveErrors.length > 0 && (
+          <ul className="space-y-1 text-sm text-[#f38ba8]">
+            {archiveErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        {invalidRuns.length > 0 && (
+          <div className="p-3 bg-[hsl(240,21%,12%)] border border-[#f9e2af]/50 text-sm">
+            <p className="flex items-center gap-2 text-[#f9e2af] font-medium">
+              <AlertTriangle className="h-4 w-4" />
+              {invalidRuns.length} run{invalidRuns.length !== 1 ? "s" : ""} failed validation and will be skipped
+            </p>
+            <ul className="mt-2 space-y-1 text-xs font-mono text-ctp-subtext1 break-all">
+              {invalidRuns.slice(0, 10).map(run => (
+                <li key={run.id}>{run.id}: {run.errors.join(", ")}</li>
+              ))}
+              {invalidRuns.length > 10 && <li>...and {invalidRuns.length - 10} more</li>}
+            </ul>
+          </div>
+        )}
+
+        {loadingDiff && <p className="text-sm text-ctp-overlay0">Comparing the backup with the current data...</p>}
+
+        {archive && diff && (
+          <div className="space-y-4">
+            <p className="text-sm text-ctp-subtext1">
+              Backup from {new Date(archive.createdAt).toLocaleString()} (format v{archive.version})
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-ctp-overlay0 border-b border-[hsl(235,13%,30%)]">
+                  <th className="py-2 pr-4 font-medium">Collection</th>
+                  <th className="py-2 pr-4 font-medium">New</th>
+                  <th className="py-2 pr-4 font-medium">Changed</th>
+                  <th className="py-2 pr-4 font-medium">Not in backup</th>
+                  <th className="py-2 font-medium">Unchanged</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.map(collectionDiff => (
+                  <tr key={collectionDiff.collection} className="border-b border-[hsl(235,13%,30%)]/50">
+                    <td className="py-2 pr-4 text-ctp-text">{collectionLabels[collectionDiff.collection]}</td>
+                    <td className="py-2 pr-4 text-[#a6e3a1]">{collectionDiff.added.length}</td>
+                    <td className="py-2 pr-4 text-[#f9e2af]">{collectionDiff.changed.length}</td>
+                    <td className={`py-2 pr-4 ${removeMissing ? "text-[#f38ba8]" : "text-ctp-overlay0"}`}>{collectionDiff.removed.length}</td>
+                    <td className="py-2 text-ctp-overlay0">{collectionDiff.unchanged}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex items-center justify-between p-4 bg-[hsl(240,21%,15%)] border border-[hsl(235,13%,30%)] rounded">
+              <div className="space-y-0.5">
+                <Label htmlFor="removeMissing" className="text-base">
+                  Delete documents that aren't in the backup
+                </Label>
+                <p className="text-sm text-[hsl(222,15%,60%)]">
+                  Puts the site back exactly as it was. Otherwise newer documents are kept.
+                </p>
+              </div>
+              <Switch id="removeMissing" checked={removeMissing} onCheckedChange={setRemoveMissing} />
+            </div>
+
+            {restoreProgress && (
+              <div className="space-y-2">
+                <p className="text-xs text-ctp-overlay0">
+                  Restoring {collectionLabels[restoreProgress.collection]}... {restoreProgress.completed} / {restoreProgress.total}
+                </p>
+                <Progress value={restoreProgress.total > 0 ? (restoreProgress.completed / restoreProgress.total) * 100 : 0} />
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                variant="destructive"
+                onClick={handleRestore}
+                disabled={pendingChanges === 0 || restoreProgress !== null}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {pendingChanges === 0 ? "Nothing to Restore" : `Restore ${pendingChanges} Change${pendingChanges !== 1 ? "s" : ""}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
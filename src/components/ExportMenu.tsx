@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { ExportFormat } from "@/lib/export";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  disabled?: boolean;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Export button offering CSV and JSON downloads
+ */
+export function ExportMenu({ onExport, disabled, label = "Export", className }: ExportMenuProps) {
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await onExport(format);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The data couldn't be exported.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || exporting}
+          className={`border-ctp-surface1 bg-ctp-surface0 text-ctp-text hover:bg-ctp-surface1 ${className || ""}`}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          {exporting ? "Exporting..." : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-ctp-base border-ctp-surface1">
+        <DropdownMenuItem onClick={() => handleExport('csv')} className="cursor-pointer text-ctp-subtext1 hover:bg-ctp-surface0 hover:text-ctp-text">
+          CSV (spreadsheet)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('json')} className="cursor-pointer text-ctp-subtext1 hover:bg-ctp-surface0 hover:text-ctp-text">
+          JSON
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
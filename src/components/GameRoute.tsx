@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+import { Outlet, useParams } from "react-router-dom";
+import { useGame } from "@/hooks/useGame";
+import NotFound from "@/pages/NotFound";
+
+/**
+ * Layout route for game-prefixed URLs (e.g. /lsw2/leaderboards)
+ * Switches to the game in the URL before rendering the page
+ */
+export function GameRoute() {
+  const { game } = useParams<{ game: string }>();
+  const { games, gamesLoading, currentGame, selectGame } = useGame();
+  const isKnownGame = gamesLoading || games.some(g => g.id === game);
+
+  useEffect(() => {
+    if (game && isKnownGame && game !== currentGame.id) {
+      selectGame(game);
+    }
+  }, [game, isKnownGame, currentGame.id, selectGame]);
+
+  if (!isKnownGame) {
+    return <NotFound />;
+  }
+
+  // Wait for the switch so the page only ever loads data for this game
+  if (game !== currentGame.id) {
+    return null;
+  }
+
+  return <Outlet />;
+}
@@ -1,11 +1,13 @@
 import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Upload, User, Settings, ShieldAlert, Download, Radio, Trophy, Github, Menu, Plus, Bell, BarChart3 } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger, SheetClose } from "@/components/ui/sheet";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import LegoStudIcon from "@/components/icons/LegoStudIcon";
 import { useAuth } from "@/components/AuthProvider";
+import { useGame } from "@/hooks/useGame";
 import { signOut } from "firebase/auth";
 import { auth } from "@/lib/firebase";
 import { LoginModal } from "@/components/LoginModal";
@@ -16,6 +18,8 @@ import { getUnverifiedLeaderboardEntries, getUnclaimedRunsBySRCUsername, getPlay
 export function Header() {
   const { currentUser, loading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const { games, currentGame, gamePath } = useGame();
   const [isLoginOpen, setIsLoginOpen] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [unclaimedRunsCount, setUnclaimedRunsCount] = useState(0);
@@ -88,23 +92,51 @@ export function Header() {
     const interval = setInterval(fetchNotificationCounts, 30000);
     
     return () => clearInterval(interval);
-  }, [currentUser?.uid, currentUser?.isAdmin, loading]);
+  }, [currentUser?.uid, currentUser?.isAdmin, loading, currentGame.id]);
 
   const handleNotificationClick = () => {
     if (currentUser?.isAdmin && unverifiedRunsCount > 0) {
-      navigate("/admin");
+      navigate(gamePath("/admin"));
     } else if (unclaimedRunsCount > 0) {
-      navigate("/settings");
+      navigate(gamePath("/settings"));
     }
   };
 
+  const handleGameChange = (gameId: string) => {
+    // Stay on the same page in the new game, except run pages which belong to a single game
+    const prefix = `/${currentGame.id}`;
+    let subpath = location.pathname === prefix || location.pathname.startsWith(`${prefix}/`)
+      ? location.pathname.slice(prefix.length)
+      : location.pathname;
+    if (subpath.startsWith("/run/")) {
+      subpath = "";
+    }
+    navigate(`/${gameId}${subpath === "/" ? "" : subpath}`);
+    setIsMobileMenuOpen(false);
+  };
+
+  const GameSwitcher = ({ className }: { className?: string }) => games.length > 1 ? (
+    <Select value={currentGame.id} onValueChange={handleGameChange}>
+      <SelectTrigger className={`bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none ${className || ""}`} aria-label="Select game">
+        <SelectValue placeholder="Game" />
+      </SelectTrigger>
+      <SelectContent>
+        {games.map((game) => (
+          <SelectItem key={game.id} value={game.id} className="text-sm">
+            {game.shortName || game.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  ) : null;
+
   const notificationCount = currentUser?.isAdmin ? unverifiedRunsCount : unclaimedRunsCount;
   const hasNotifications = notificationCount > 0;
 
   const NavLinks = () => (
     <>
       <Link 
-        to="/leaderboards" 
+        to={gamePath("/leaderboards")} 
         className="text-[#a6e3a1] hover:text-[#a6e3a1] flex items-center gap-1 transition-all duration-300 relative group"
         onClick={() => setIsMobileMenuOpen(false)}
       >
@@ -115,7 +147,7 @@ export function Header() {
         </span>
       </Link>
       <Link 
-        to="/points" 
+        to={gamePath("/points")} 
         className="text-[#fab387] hover:text-[#fab387] flex items-center gap-1 transition-all duration-300 relative group"
         onClick={() => setIsMobileMenuOpen(false)}
       >
@@ -126,7 +158,7 @@ export function Header() {
         </span>
       </Link>
       <Link 
-        to="/submit" 
+        to={gamePath("/submit")} 
         className="text-[#eba0ac] hover:text-[#eba0ac] flex items-center gap-1 transition-all duration-300 relative group"
         onClick={() => setIsMobileMenuOpen(false)}
       >
@@ -137,7 +169,7 @@ export function Header() {
         </span>
       </Link>
       <Link 
-        to="/live" 
+        to={gamePath("/live")} 
         className="text-[#f38ba8] hover:text-[#f38ba8] flex items-center gap-1 transition-all duration-300 relative group"
         onClick={() => setIsMobileMenuOpen(false)}
       >
@@ -148,7 +180,7 @@ export function Header() {
         </span>
       </Link>
       <Link 
-        to="/downloads" 
+        to={gamePath("/downloads")} 
         className="text-[#cba6f7] hover:text-[#cba6f7] flex items-center gap-1 transition-all duration-300 relative group"
         onClick={() => setIsMobileMenuOpen(false)}
       >
@@ -159,7 +191,7 @@ export function Header() {
         </span>
       </Link>
       <Link 
-        to="/stats" 
+        to={gamePath("/stats")} 
         className="text-[#89b4fa] hover:text-[#89b4fa] flex items-center gap-1 transition-all duration-300 relative group"
         onClick={() => setIsMobileMenuOpen(false)}
       >
@@ -171,7 +203,7 @@ export function Header() {
       </Link>
       {currentUser?.isAdmin && (
         <Link 
-          to="/admin" 
+          to={gamePath("/admin")} 
           className="text-[#f2cdcd] hover:text-[#f2cdcd] flex items-center gap-1 transition-all duration-300 relative group"
           onClick={() => setIsMobileMenuOpen(false)}
         >
@@ -190,12 +222,13 @@ export function Header() {
       <header className="bg-[#1e1e2e] border-b border-ctp-surface1 shadow-lg sticky top-0 z-40 w-full overflow-x-hidden">
         <div className="flex items-center justify-between h-16 px-2 sm:px-4 min-w-0 w-full">
           <div className="flex items-center gap-2 sm:gap-4 lg:gap-10 min-w-0 flex-shrink">
-            <Link to="/" className="flex items-center space-x-1 sm:space-x-2 group transition-transform duration-300 hover:scale-105 flex-shrink-0">
+            <Link to={gamePath("/")} className="flex items-center space-x-1 sm:space-x-2 group transition-transform duration-300 hover:scale-105 flex-shrink-0">
               <div className="transition-transform duration-300 group-hover:rotate-12">
                 <LegoStudIcon size={28} className="sm:w-8 sm:h-8" color="#60a5fa" />
               </div>
               <span className="text-base sm:text-lg md:text-xl font-bold text-[#74c7ec] whitespace-nowrap">lsw1.dev</span>
             </Link>
+            <GameSwitcher className="hidden sm:flex w-28" />
             {/* Desktop Navigation - Only shown on very large screens */}
             <nav className="hidden xl:flex space-x-6 overflow-x-auto flex-shrink min-w-0">
               <NavLinks />
@@ -223,6 +256,7 @@ export function Header() {
                     <LegoStudIcon size={28} color="#60a5fa" />
                     <span className="text-lg font-bold text-[#74c7ec]">lsw1.dev</span>
                   </div>
+                  <GameSwitcher className="sm:hidden w-full" />
                   <nav className="flex flex-col gap-4">
                     <NavLinks />
                   </nav>
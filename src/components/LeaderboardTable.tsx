@@ -2,10 +2,11 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Link } from "react-router-dom";
 import { User, Users, ExternalLink, Trophy, Clock, MapPin, Check } from "lucide-react";
-import { LeaderboardEntry } from "@/types/database";
+import { LeaderboardEntry, TimingMethod } from "@/types/database";
 import LegoStudIcon from "@/components/icons/LegoStudIcon";
-import { formatTime } from "@/lib/utils";
+import { formatTime, getTimeForMethod } from "@/lib/utils";
 import { getPlatformName, getLevelName } from "@/lib/dataValidation";
+import { timingMethods } from "@/lib/db";
 
 interface LeaderboardTableProps {
   data: LeaderboardEntry[];
@@ -13,11 +14,18 @@ interface LeaderboardTableProps {
   categories?: { id: string; name: string }[];
   levels?: { id: string; name: string }[];
   leaderboardType?: 'regular' | 'individual-level' | 'community-golds';
+  primaryTimingMethod?: TimingMethod; // Timing method the board is ranked by
+  extraTimingMethods?: TimingMethod[]; // Other timing methods to show as extra columns
 }
 
-export function LeaderboardTable({ data, platforms = [], categories = [], levels = [], leaderboardType }: LeaderboardTableProps) {
+export function LeaderboardTable({ data, platforms = [], categories = [], levels = [], leaderboardType, primaryTimingMethod, extraTimingMethods = [] }: LeaderboardTableProps) {
   // Determine if we should show level column (for IL and Community Golds)
   const showLevelColumn = leaderboardType === 'individual-level' || leaderboardType === 'community-golds';
+  // Label the time column with its method only when other methods are shown alongside it
+  const getTimingMethodShortName = (method?: TimingMethod) => timingMethods.find(m => m.id === method)?.shortName;
+  const primaryTimeLabel = extraTimingMethods.length > 0 && primaryTimingMethod
+    ? `Time (${getTimingMethodShortName(primaryTimingMethod)})`
+    : "Time";
   if (data.length === 0) {
     return (
       <div className="text-center py-12">
@@ -37,7 +45,12 @@ export function LeaderboardTable({ data, platforms = [], categories = [], levels
             {showLevelColumn && (
               <TableHead className="py-3 px-2 text-left text-sm font-semibold text-ctp-text hidden md:table-cell whitespace-nowrap w-32">Level</TableHead>
             )}
-            <TableHead className="py-3 px-2 text-left text-sm font-semibold text-ctp-text hidden sm:table-cell whitespace-nowrap w-24">Time</TableHead>
+            <TableHead className="py-3 px-2 text-left text-sm font-semibold text-ctp-text hidden sm:table-cell whitespace-nowrap w-28">{primaryTimeLabel}</TableHead>
+            {extraTimingMethods.map((method) => (
+              <TableHead key={method} className="py-3 px-2 text-left text-sm font-semibold text-ctp-text hidden md:table-cell whitespace-nowrap w-24">
+                {getTimingMethodShortName(method)}
+              </TableHead>
+            ))}
             <TableHead className="py-3 px-2 text-left text-sm font-semibold text-ctp-text hidden md:table-cell whitespace-nowrap w-28">Date</TableHead>
             <TableHead className="py-3 px-2 text-left text-sm font-semibold text-ctp-text hidden lg:table-cell whitespace-nowrap w-32">Platform</TableHead>
             <TableHead className="py-3 px-2 text-left text-sm font-semibold text-ctp-text hidden lg:table-cell whitespace-nowrap w-24">Type</TableHead>
@@ -157,7 +170,7 @@ export function LeaderboardTable({ data, platforms = [], categories = [], levels
                 </div>
                 <div className="sm:hidden mt-1">
                   <div className="flex items-center gap-2 flex-wrap">
-                    <span className="text-sm font-semibold text-ctp-text">{formatTime(entry.time)}</span>
+                    <span className="text-sm font-semibold text-ctp-text">{formatTime(getTimeForMethod(entry, primaryTimingMethod))}</span>
                     <Badge variant="outline" className="border-ctp-surface1 bg-ctp-surface0 text-ctp-text text-xs px-1.5 py-0.5">
                       {platformName}
                     </Badge>
@@ -181,10 +194,22 @@ export function LeaderboardTable({ data, platforms = [], categories = [], levels
               <TableCell className="py-2.5 px-2 hidden sm:table-cell">
                 <Link to={`/run/${entry.id}`} className="hover:text-[#cba6f7]">
                   <span className="text-sm font-semibold text-ctp-text">
-                    {formatTime(entry.time)}
+                    {formatTime(getTimeForMethod(entry, primaryTimingMethod))}
                   </span>
                 </Link>
               </TableCell>
+              {extraTimingMethods.map((method) => {
+                const methodTime = getTimeForMethod(entry, method, false);
+                return (
+                  <TableCell key={method} className="py-2.5 px-2 hidden md:table-cell">
+                    <Link to={`/run/${entry.id}`} className="hover:text-[#cba6f7]">
+                      <span className="text-sm text-ctp-subtext1">
+                        {methodTime ? formatTime(methodTime) : "—"}
+                      </span>
+                    </Link>
+                  </TableCell>
+                );
+              })}
               <TableCell className="py-2.5 px-2 hidden md:table-cell">
                 <Link to={`/run/${entry.id}`} className="hover:text-[#cba6f7] flex items-center gap-1">
                   <Clock className="h-3.5 w-3.5 text-ctp-overlay0" />
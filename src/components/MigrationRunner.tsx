@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef } from "react";
+import { Play, RotateCcw, Search, Square } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { MigrationStatus } from "@/types/database";
+import { getMigrationStatuses, rollbackMigration, runMigration } from "@/lib/db";
+import {
+  MIGRATIONS,
+  Migration,
+  MigrationRunResult,
+  canRollbackMigration,
+  getMigrationId,
+  getPendingPrerequisites,
+} from "@/lib/data/migrations";
+
+const collectionLabels: Record<Migration['collection'], string> = {
+  leaderboardEntries: "Runs",
+  players: "Players",
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return "none";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+/**
+ * Admin runner for schema migrations
+ * Migrations run in resumable batches; a dry run previews what would change, and the latest completed
+ * migration for a collection can be rolled back from its recorded changes
+ */
+export function MigrationRunner() {
+  const [statuses, setStatuses] = useState<MigrationStatus[]>([]);
+  const [activeMigration, setActiveMigration] = useState<{ id: string; action: 'dryRun' | 'run' | 'rollback' } | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [dryRuns, setDryRuns] = useState<Record<string, MigrationRunResult>>({});
+  const stopRequested = useRef(false);
+  const { toast } = useToast();
+
+  const loadStatuses = async () => {
+    setStatuses(await getMigrationStatuses());
+  };
+
+  useEffect(() => {
+    loadStatuses();
+  }, []);
+
+  const handleRun = async (migration: Migration, dryRun: boolean) => {
+    const migrationId = getMigrationId(migration);
+    if (!dryRun && !window.confirm(`Run "${migration.name}" on every document in ${collectionLabels[migration.collection].toLowerCase()}? Changes are recorded so the migration can be rolled back.`)) {
+      return;
+    }
+
+    stopRequested.current = false;
+    setActiveMigration({ id: migrationId, action: dryRun ? 'dryRun' : 'run' });
+    setProgress(null);
+    try {
+      const result = await runMigration(
+        migrationId,
+        { dryRun, shouldStop: () => stopRequested.current },
+        ({ processed, total }) => setProgress({ completed: processed, total })
+      );
+      if (result.errors.length > 0) {
+        toast({ title: "Error", description: result.errors[0], variant: "destructive" });
+      } else if (dryRun) {
+        setDryRuns(prev => ({ ...prev, [migrationId]: result }));
+      } else if (!result.completed) {
+        toast({
+          title: "Migration Paused",
+          description: `Stopped after ${result.processed} of ${result.total} documents. Run it again to continue.`,
+        });
+      } else {
+        toast({
+          title: "Migration Complete",
+          description: `${result.changed} of ${result.processed} documents changed.`,
+        });
+      }
+      await loadStatuses();
+    } finally {
+      setActiveMigration(null);
+      setProgress(null);
+    }
+  };
+
+  const handleRollback = async (migration: Migration) => {
+    const migrationId = getMigrationId(migration);
+    if (!window.confirm(`Roll back "${migration.name}"? Every document it changed gets its previous values back.`)) {
+      return;
+    }
+
+    setActiveMigration({ id: migrationId, action: 'rollback' });
+    setProgress(null);
+    try {
+      const result = await rollbackMigration(migrationId, (completed, total) => setProgress({ completed, total }));
+      if (!result.success) {
+        toast({ title: "Error", description: result.error || "Failed to roll back the migration.", variant: "destructive" });
+      } else {
+        toast({ title: "Migration Rolled Back", description: `${result.restored} documents restored.` });
+        setDryRuns(prev => {
+          const next = { ...prev };
+          delete next[migrationId];
+          return next;
+        });
+      }
+      await loadStatuses();
+    } finally {
+      setActiveMigration(null);
+      setProgress(null);
+    }
+  };
+
+  const getStatusBadge = (status: MigrationStatus | undefined) => {
+    if (!status || status.status === 'rolledBack') {
+      return (
+        <Badge variant="outline" className="border-[hsl(235,13%,30%)]">
+          {status ? `Rolled back ${new Date(status.rolledBackAt || status.startedAt).toLocaleDateString()}` : "Not run"}
+        </Badge>
+      );
+    }
+    if (status.status === 'running') {
+      return <Badge className="bg-[#f9e2af] text-[hsl(240,21%,15%)]">Paused at {status.processed} documents</Badge>;
+    }
+    return (
+      <Badge className="bg-[#a6e3a1] text-[hsl(240,21%,15%)]">
+        Completed {status.completedAt ? new Date(status.completedAt).toLocaleDateString() : ""}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-ctp-subtext1 leading-relaxed">
+        Migrations upgrade stored runs and players to the current data format, replacing one-off repair tools. Each document records the last migration applied to it in its schemaVersion, and new documents are saved at the current version.
+      </p>
+      {MIGRATIONS.map(migration => {
+        const migrationId = getMigrationId(migration);
+        const status = statuses.find(candidate => candidate.id === migrationId);
+        const prerequisites = getPendingPrerequisites(migration, statuses);
+        const dryRun = dryRuns[migrationId];
+        const isActive = activeMigration?.id === migrationId;
+        const isCompleted = status?.status === 'completed';
+
+        return (
+          <div key={migrationId} className="p-4 bg-[hsl(240,21%,15%)] border border-[hsl(235,13%,30%)] rounded space-y-3">
+            <div className="flex items-start justify-between gap-4 flex-wrap">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-semibold text-ctp-text">{migration.name}</span>
+                  <Badge variant="outline" className="border-[hsl(235,13%,30%)] font-mono text-xs">{migrationId}</Badge>
+                  {getStatusBadge(status)}
+                </div>
+                <p className="text-sm text-[hsl(222,15%,60%)]">{migration.description}</p>
+                {isCompleted && (
+                  <p className="text-xs text-ctp-overlay0">
+                    {status.changed} of {status.processed} documents changed{status.changed > 0 ? ", recorded for rollback" : ""}.
+                  </p>
+                )}
+                {!isCompleted && prerequisites.length > 0 && (
+                  <p className="text-xs text-[#f9e2af]">
+                    Run {prerequisites.map(prerequisite => prerequisite.name).join(", ")} first.
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2 flex-wrap">
+                {isActive && activeMigration?.action !== 'rollback' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => { stopRequested.current = true; }}
+                    className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)]"
+                  >
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop
+                  </Button>
+                )}
+                {!isCompleted && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRun(migration, true)}
+                      disabled={activeMigration !== null}
+                      className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)]"
+                    >
+                      <Search className="h-4 w-4 mr-2" />
+                      {isActive && activeMigration?.action === 'dryRun' ? "Checking..." : "Dry Run"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleRun(migration, false)}
+                      disabled={activeMigration !== null || prerequisites.length > 0}
+                      className="bg-gradient-to-r from-[#cba6f7] to-[#b4a0e2] hover:from-[#b4a0e2] hover:to-[#cba6f7] text-[hsl(240,21%,15%)] font-bold"
+                    >
+                      <Play className="h-4 w-4 mr-2" />
+                      {isActive && activeMigration?.action === 'run' ? "Running..." : status?.status === 'running' ? "Resume" : "Run"}
+                    </Button>
+                  </>
+                )}
+                {canRollbackMigration(migration, statuses) && (
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleRollback(migration)}
+                    disabled={activeMigration !== null}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {isActive && activeMigration?.action === 'rollback' ? "Rolling Back..." : "Roll Back"}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {isActive && progress && (
+              <div className="space-y-2">
+                <p className="text-xs text-ctp-overlay0">
+                  {activeMigration?.action === 'rollback' ? "Restoring documents" : "Checking documents"}... {progress.completed} / {progress.total}
+                </p>
+                <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+              </div>
+            )}
+
+            {dryRun && !isCompleted && (
+              <div className="pt-3 border-t border-[hsl(235,13%,30%)] space-y-2">
+                <p className="text-sm text-ctp-subtext1">
+                  Dry run: {dryRun.changed} of {dryRun.processed} documents would change{dryRun.completed ? "" : " (stopped early)"}.
+                </p>
+                {dryRun.samples.length > 0 && (
+                  <ul className="space-y-1 text-xs font-mono text-ctp-subtext1 break-all">
+                    {dryRun.samples.map(change => (
+                      <li key={change.id}>
+                        {change.documentId}:{" "}
+                        {[...Object.keys(change.before), ...change.addedFields]
+                          .map(field => `${field} ${formatValue(change.before[field])} → ${formatValue(change.after[field])}`)
+                          .join(", ")}
+                      </li>
+                    ))}
+                    {dryRun.changed > dryRun.samples.length && <li>...and {dryRun.changed - dryRun.samples.length} more</li>}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
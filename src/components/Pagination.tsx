@@ -1,5 +1,6 @@
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { PageCursor } from "@/types/database";
 
 interface PaginationProps {
   currentPage: number;
@@ -122,3 +123,54 @@ export function Pagination({
   );
 }
 
+
+interface CursorPaginationProps {
+  pageNumber: number;
+  prevCursor: PageCursor | null;
+  nextCursor: PageCursor | null;
+  onPrev: (cursor: PageCursor) => void;
+  onNext: (cursor: PageCursor) => void;
+}
+
+/**
+ * Previous/next controls for lists paginated by cursor, where the total number of pages is not known
+ */
+export function CursorPagination({
+  pageNumber,
+  prevCursor,
+  nextCursor,
+  onPrev,
+  onNext,
+}: CursorPaginationProps) {
+  if (!prevCursor && !nextCursor) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-4 mt-6">
+      <div className="text-sm text-[hsl(222,15%,60%)]">
+        Page {pageNumber}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => prevCursor && onPrev(prevCursor)}
+          disabled={!prevCursor}
+          className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] hover:bg-[hsl(240,21%,18%)] disabled:opacity-50"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => nextCursor && onNext(nextCursor)}
+          disabled={!nextCursor}
+          className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] hover:bg-[hsl(240,21%,18%)] disabled:opacity-50"
+        >
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { PointsConfigChange, PointsConfigRule, PointsConfigVersion } from "@/types/database";
+
+interface PointsConfigHistoryProps {
+  versions: PointsConfigVersion[]; // Newest first
+  currentVersion?: number;
+  onLoadVersion: (version: PointsConfigVersion) => void;
+}
+
+const ruleLabels: Record<PointsConfigRule, string> = {
+  basePoints: "Base points",
+  rank1Bonus: "1st place bonus",
+  rank2Bonus: "2nd place bonus",
+  rank3Bonus: "3rd place bonus",
+  coOpMultiplier: "Co-op multiplier",
+  ilMultiplier: "IL multiplier",
+  communityGoldsMultiplier: "Community Golds multiplier",
+  obsoleteMultiplier: "Obsolete multiplier",
+  applyRankBonusesToIL: "Rank bonuses for ILs",
+  applyRankBonusesToCommunityGolds: "Rank bonuses for Community Golds",
+  scoringStrategy: "Scoring",
+  wrPoints: "WR studs",
+  wrRatioExponent: "WR-ratio exponent",
+  categoryWeights: "Category weights",
+};
+
+function formatValue(value: PointsConfigChange['to']): string {
+  if (value === undefined) return "unset";
+  if (typeof value === "boolean") return value ? "on" : "off";
+  if (typeof value === "object") {
+    const weights = Object.entries(value);
+    return weights.length === 0 ? "none" : weights.map(([categoryId, weight]) => `${categoryId} ×${weight}`).join(", ");
+  }
+  return String(value);
+}
+
+/**
+ * Published points config versions with who changed which rules
+ * Loading a version puts it in the draft, so going back is previewed and published like any other change
+ */
+export function PointsConfigHistory({ versions, currentVersion, onLoadVersion }: PointsConfigHistoryProps) {
+  if (versions.length === 0) {
+    return <p className="text-sm text-ctp-overlay0">No changes have been published yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {versions.map(version => (
+        <li key={version.id} className="border border-[hsl(235,13%,30%)] p-3">
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="outline" className="border-[hsl(235,13%,30%)]">v{version.version}</Badge>
+              {version.version === currentVersion && (
+                <Badge className="bg-[#a6e3a1] text-[hsl(240,21%,15%)]">Current</Badge>
+              )}
+              <span className="text-ctp-subtext1">
+                {new Date(version.changedAt).toLocaleString()} by {version.changedByName || version.changedBy || "unknown"}
+              </span>
+            </div>
+            {version.version !== currentVersion && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onLoadVersion(version)}
+                className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)]"
+              >
+                <History className="h-4 w-4 mr-2" />
+                Load as Draft
+              </Button>
+            )}
+          </div>
+          {version.changes.length === 0 ? (
+            <p className="text-xs text-ctp-overlay0 mt-2">No rules changed</p>
+          ) : (
+            <ul className="mt-2 space-y-1 text-xs font-mono text-ctp-subtext1">
+              {version.changes.map(change => (
+                <li key={change.rule}>
+                  {ruleLabels[change.rule]}: {formatValue(change.from)} → {formatValue(change.to)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
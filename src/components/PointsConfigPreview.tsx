@@ -0,0 +1,100 @@
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PointsRecalculationPlan, StudsLeaderboardPreviewEntry, getStudsLeaderboardPreview } from "@/lib/data/pointsRecalculation";
+
+interface PointsConfigPreviewProps {
+  plan: PointsRecalculationPlan;
+  players: Array<{ uid: string; displayName?: string; totalPoints?: number }>; // Current studs leaderboard
+  leaderboardSize?: number;
+}
+
+function formatChange(points: number): string {
+  return points > 0 ? `+${points}` : String(points);
+}
+
+function RankMovement({ entry }: { entry: StudsLeaderboardPreviewEntry }) {
+  if (entry.rankBefore === undefined) {
+    return <span className="text-[#89b4fa] text-xs font-semibold">NEW</span>;
+  }
+  if (entry.rankAfter === undefined) {
+    return <span className="text-[#f38ba8] text-xs font-semibold">OUT</span>;
+  }
+  const movement = entry.rankBefore - entry.rankAfter;
+  if (movement > 0) {
+    return <span className="flex items-center justify-center text-[#a6e3a1]"><ArrowUp className="h-3 w-3" />{movement}</span>;
+  }
+  if (movement < 0) {
+    return <span className="flex items-center justify-center text-[#f38ba8]"><ArrowDown className="h-3 w-3" />{-movement}</span>;
+  }
+  return <span className="text-ctp-overlay0">—</span>;
+}
+
+/**
+ * What-if view of a draft points config: the studs leaderboard it would produce,
+ * how players move on it, and who gains or loses the most
+ */
+export function PointsConfigPreview({ plan, players, leaderboardSize = 25 }: PointsConfigPreviewProps) {
+  const leaderboard = getStudsLeaderboardPreview(players, plan.playerChanges);
+  const byChange = [...plan.playerChanges].sort((a, b) => (b.pointsAfter - b.pointsBefore) - (a.pointsAfter - a.pointsBefore));
+  const winners = byChange.filter(change => change.pointsAfter > change.pointsBefore).slice(0, 5);
+  const losers = byChange.filter(change => change.pointsAfter < change.pointsBefore).reverse().slice(0, 5);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-ctp-subtext1">
+        Checked {plan.runsChecked} runs on {plan.boardsChecked} boards: {plan.runChanges.length} runs and {plan.playerChanges.length} players will change.
+      </p>
+
+      {plan.playerChanges.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[{ title: "Biggest Winners", changes: winners }, { title: "Biggest Losers", changes: losers }].map(({ title, changes }) => (
+            <div key={title} className="border border-[hsl(235,13%,30%)] p-3">
+              <h4 className="text-sm font-semibold text-ctp-text mb-2">{title}</h4>
+              {changes.length === 0 ? (
+                <p className="text-xs text-ctp-overlay0">Nobody</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {changes.map(change => (
+                    <li key={change.playerId} className="flex justify-between gap-2">
+                      <span className="truncate">{change.displayName || change.playerId}</span>
+                      <span className={`font-semibold ${change.pointsAfter < change.pointsBefore ? "text-[#f38ba8]" : "text-[#a6e3a1]"}`}>
+                        {formatChange(change.pointsAfter - change.pointsBefore)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {leaderboard.length > 0 && (
+        <div className="max-h-96 overflow-y-auto border border-[hsl(235,13%,30%)]">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-b border-[hsl(235,13%,30%)]">
+                <TableHead className="w-16">Rank</TableHead>
+                <TableHead className="w-16 text-center">Move</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead className="text-right">Before</TableHead>
+                <TableHead className="text-right">After</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leaderboard.slice(0, leaderboardSize).map(entry => (
+                <TableRow key={entry.playerId} className="border-b border-[hsl(235,13%,30%)]">
+                  <TableCell>{entry.rankAfter ?? "—"}</TableCell>
+                  <TableCell className="text-center"><RankMovement entry={entry} /></TableCell>
+                  <TableCell>{entry.displayName || entry.playerId}</TableCell>
+                  <TableCell className="text-right text-ctp-overlay0">{entry.pointsBefore}</TableCell>
+                  <TableCell className="text-right font-semibold text-[#FFD700]">{entry.pointsAfter}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
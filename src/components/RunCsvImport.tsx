@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { FileSpreadsheet, Upload, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { getCategories, getLevels, getPlatforms, getRunImportIndex, importRuns } from "@/lib/db";
+import {
+  REQUIRED_RUN_IMPORT_FIELDS,
+  RUN_IMPORT_FIELDS,
+  RUN_IMPORT_FIELD_LABELS,
+  RunImportColumnMapping,
+  RunImportField,
+  RunImportLookups,
+  RunImportRow,
+  checkRunImportRows,
+  getRunImportRows,
+  guessRunImportMapping,
+  parseCsv,
+} from "@/lib/data/runImport";
+import { formatTime } from "@/lib/utils";
+import { getCategoryName, getLevelName, getPlatformName } from "@/lib/dataValidation";
+
+const PREVIEW_ROW_LIMIT = 200;
+
+/**
+ * Import historical runs from a CSV file
+ * Columns are mapped to run fields, then every row is checked and previewed before anything is added
+ */
+export function RunCsvImport() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<RunImportColumnMapping>({});
+  const [lookups, setLookups] = useState<RunImportLookups | null>(null);
+  const [preview, setPreview] = useState<RunImportRow[] | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ completed: number; total: number } | null>(null);
+  const { toast } = useToast();
+
+  const handleFileSelected = async (file: File | undefined) => {
+    setPreview(null);
+    if (!file) {
+      setFileName(null);
+      setHeaders([]);
+      setDataRows([]);
+      return;
+    }
+    const [headerRow = [], ...rows] = parseCsv(await file.text());
+    setFileName(file.name);
+    setHeaders(headerRow.map(header => header.trim()));
+    setDataRows(rows);
+    setMapping(guessRunImportMapping(headerRow));
+  };
+
+  const handleMappingChange = (field: RunImportField, value: string) => {
+    setPreview(null);
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === "none") {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const missingFields = REQUIRED_RUN_IMPORT_FIELDS.filter(field => mapping[field] === undefined);
+
+  const handleCheckRows = async () => {
+    setChecking(true);
+    try {
+      const [regularCategories, ilCategories, communityGoldCategories, platforms, levels, index] = await Promise.all([
+        getCategories('regular'),
+        getCategories('individual-level'),
+        getCategories('community-golds'),
+        getPlatforms(),
+        getLevels(),
+        getRunImportIndex(),
+      ]);
+      const runLookups: RunImportLookups = {
+        categories: [...regularCategories, ...ilCategories, ...communityGoldCategories],
+        platforms,
+        levels,
+      };
+      setLookups(runLookups);
+      setPreview(checkRunImportRows(getRunImportRows(dataRows, mapping, runLookups), index));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check the file.",
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const isDuplicate = (row: RunImportRow) => !!row.duplicateOf || row.duplicateOfLine !== undefined;
+  const importableRows = (preview || []).filter(row => row.errors.length === 0 && (includeDuplicates || !isDuplicate(row)));
+  const errorCount = (preview || []).filter(row => row.errors.length > 0).length;
+  const duplicateCount = (preview || []).filter(row => row.errors.length === 0 && isDuplicate(row)).length;
+  const unknownPlayers = new Set((preview || []).filter(row => row.errors.length === 0).flatMap(row => row.unknownPlayers));
+
+  const handleImport = async () => {
+    if (importableRows.length === 0) return;
+    if (!window.confirm(`Import ${importableRows.length} run${importableRows.length !== 1 ? "s" : ""} from ${fileName}? They'll be added as unverified runs.`)) {
+      return;
+    }
+
+    setImportProgress({ completed: 0, total: importableRows.length });
+    try {
+      const result = await importRuns(importableRows.map(row => row.run), (completed, total) => setImportProgress({ completed, total }));
+      toast({
+        title: result.errors.length > 0 ? "Import Incomplete" : "Runs Imported",
+        description: result.errors.length > 0
+          ? `${result.imported} runs imported, ${result.errors.length} failed. ${result.errors[0]}`
+          : `${result.imported} runs imported. Verify them from the Unverified Runs tab.`,
+        variant: result.errors.length > 0 ? "destructive" : "default",
+      });
+      setPreview(null);
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  const getRowStatus = (row: RunImportRow) => {
+    if (row.errors.length > 0) {
+      return <span className="text-[#f38ba8]">{row.errors.join(", ")}</span>;
+    }
+    return (
+      <div className="flex flex-wrap gap-1">
+        {row.duplicateOf && (
+          <Link to={`/run/${row.duplicateOf}`} target="_blank">
+            <Badge className="bg-[#f9e2af] text-[hsl(240,21%,15%)]">Already on the site</Badge>
+          </Link>
+        )}
+        {row.duplicateOfLine !== undefined && (
+          <Badge className="bg-[#f9e2af] text-[hsl(240,21%,15%)]">Same as line {row.duplicateOfLine}</Badge>
+        )}
+        {row.unknownPlayers.map(player => (
+          <Badge key={player} variant="outline" className="border-[#89b4fa] text-[#89b4fa]">New player: {player}</Badge>
+        ))}
+        {!isDuplicate(row) && row.unknownPlayers.length === 0 && (
+          <Badge className="bg-[#a6e3a1] text-[hsl(240,21%,15%)]">Ready</Badge>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-[hsl(222,15%,60%)]">
+        Import runs from a spreadsheet saved as CSV, with one run per row and a header row. Category, platform and level names are matched to the ones on the site.
+        Runs will be added as unverified and can be edited or rejected.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="runCsvFile" className="flex items-center gap-2">
+          <FileSpreadsheet className="h-4 w-4" />
+          CSV file
+        </Label>
+        <Input
+          id="runCsvFile"
+          type="file"
+          accept="text/csv,.csv"
+          onChange={(e) => handleFileSelected(e.target.files?.[0])}
+          disabled={importProgress !== null}
+          className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
+        />
+      </div>
+
+      {fileName && headers.length > 0 && (
+        <div className="space-y-4">
+          <p className="text-sm text-ctp-subtext1">
+            {dataRows.length} row{dataRows.length !== 1 ? "s" : ""} in {fileName}. Choose the column each field is read from.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {RUN_IMPORT_FIELDS.map(field => (
+              <div key={field} className="space-y-1">
+                <Label className="text-sm">
+                  {RUN_IMPORT_FIELD_LABELS[field]}
+                  {REQUIRED_RUN_IMPORT_FIELDS.includes(field) && <span className="text-[#f38ba8]"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field] !== undefined ? String(mapping[field]) : "none"}
+                  onValueChange={(value) => handleMappingChange(field, value)}
+                >
+                  <SelectTrigger className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not in the file</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          {missingFields.length > 0 && (
+            <p className="text-sm text-[#f9e2af]">
+              Map {missingFields.map(field => RUN_IMPORT_FIELD_LABELS[field]).join(", ")} to check the rows.
+            </p>
+          )}
+          <Button
+            onClick={handleCheckRows}
+            disabled={checking || missingFields.length > 0 || importProgress !== null}
+            className="bg-gradient-to-r from-[#cba6f7] to-[#b4a0e2] hover:from-[#b4a0e2] hover:to-[#cba6f7] text-[hsl(240,21%,15%)] font-bold"
+          >
+            {checking ? "Checking..." : "Check Rows"}
+          </Button>
+        </div>
+      )}
+
+      {preview && lookups && (
+        <div className="space-y-4 pt-4 border-t border-[hsl(235,13%,30%)]">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span className="text-[#a6e3a1]">{preview.length - errorCount - duplicateCount} ready</span>
+            <span className="text-[#f38ba8]">{errorCount} with errors</span>
+            <span className="text-[#f9e2af]">{duplicateCount} duplicate{duplicateCount !== 1 ? "s" : ""}</span>
+            <span className="text-[#89b4fa]">{unknownPlayers.size} unknown player{unknownPlayers.size !== 1 ? "s" : ""}</span>
+          </div>
+          {unknownPlayers.size > 0 && (
+            <p className="flex items-start gap-2 text-sm text-ctp-subtext1">
+              <AlertTriangle className="h-4 w-4 mt-0.5 text-[#89b4fa] shrink-0" />
+              Runs by players without an account are kept under their name and can be claimed later.
+            </p>
+          )}
+
+          <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-b border-[hsl(235,13%,30%)] hover:bg-transparent">
+                  <TableHead className="py-2 px-3">Line</TableHead>
+                  <TableHead className="py-2 px-3">Player</TableHead>
+                  <TableHead className="py-2 px-3">Category</TableHead>
+                  <TableHead className="py-2 px-3">Platform</TableHead>
+                  <TableHead className="py-2 px-3">Time</TableHead>
+                  <TableHead className="py-2 px-3">Date</TableHead>
+                  <TableHead className="py-2 px-3">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                  <TableRow key={row.line} className="border-b border-[hsl(235,13%,30%)]/50">
+                    <TableCell className="py-2 px-3 text-ctp-overlay0">{row.line}</TableCell>
+                    <TableCell className="py-2 px-3">
+                      {row.run.playerName}
+                      {row.run.runType === 'co-op' && row.run.player2Name && ` & ${row.run.player2Name}`}
+                    </TableCell>
+                    <TableCell className="py-2 px-3">
+                      {getCategoryName(row.run.category, lookups.categories)}
+                      {row.run.level && ` (${getLevelName(row.run.level, lookups.levels)})`}
+                    </TableCell>
+                    <TableCell className="py-2 px-3">{getPlatformName(row.run.platform, lookups.platforms)}</TableCell>
+                    <TableCell className="py-2 px-3 font-mono">{row.run.time ? formatTime(row.run.time) : ""}</TableCell>
+                    <TableCell className="py-2 px-3">{row.run.date}</TableCell>
+                    <TableCell className="py-2 px-3 text-sm">{getRowStatus(row)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {preview.length > PREVIEW_ROW_LIMIT && (
+            <p className="text-xs text-ctp-overlay0">Showing the first {PREVIEW_ROW_LIMIT} of {preview.length} rows.</p>
+          )}
+
+          {duplicateCount > 0 && (
+            <div className="flex items-center justify-between p-4 bg-[hsl(240,21%,15%)] border border-[hsl(235,13%,30%)] rounded">
+              <div className="space-y-0.5">
+                <Label htmlFor="includeDuplicates" className="text-base">
+                  Import duplicates too
+                </Label>
+                <p className="text-sm text-[hsl(222,15%,60%)]">
+                  Rows matching a run on the site or an earlier row are skipped unless this is on.
+                </p>
+              </div>
+              <Switch id="includeDuplicates" checked={includeDuplicates} onCheckedChange={setIncludeDuplicates} />
+            </div>
+          )}
+
+          {importProgress && (
+            <div className="space-y-2">
+              <p className="text-xs text-ctp-overlay0">
+                Importing runs... {importProgress.completed} / {importProgress.total}
+              </p>
+              <Progress value={importProgress.total > 0 ? (importProgress.completed / importProgress.total) * 100 : 0} />
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleImport}
+              disabled={importableRows.length === 0 || importProgress !== null}
+              className="bg-gradient-to-r from-[#cba6f7] to-[#b4a0e2] hover:from-[#b4a0e2] hover:to-[#cba6f7] text-[hsl(240,21%,15%)] font-bold"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import {importableRows.length} Run{importableRows.length !== 1 ? "s" : ""}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { History, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { RunRevision } from "@/types/database";
+import { getRunRevisions, revertRunToRevision } from "@/lib/db";
+
+interface RunHistoryProps {
+  runId: string;
+  canRevert: boolean;
+  categories: Array<{ id: string; name: string }>;
+  platforms: Array<{ id: string; name: string }>;
+  refreshKey?: number; // Bump to reload after the run is edited
+  onReverted: () => void;
+}
+
+const fieldLabels: Record<string, string> = {
+  playerName: "Player",
+  player2Name: "Player 2",
+  playerId: "Player account",
+  player2Id: "Player 2 account",
+  time: "Time",
+  times: "Times",
+  category: "Category",
+  subcategory: "Subcategory",
+  variables: "Variables",
+  platform: "Platform",
+  runType: "Run type",
+  leaderboardType: "Leaderboard",
+  level: "Level",
+  date: "Date",
+  videoUrl: "Video",
+  comment: "Description",
+  isObsolete: "Obsolete",
+};
+
+/**
+ * Timeline of a run's edits, newest first, ending with the run as it was submitted
+ * Admins can revert the run to any earlier revision, which is saved as a new edit
+ */
+export function RunHistory({ runId, canRevert, categories, platforms, refreshKey, onReverted }: RunHistoryProps) {
+  const [revisions, setRevisions] = useState<RunRevision[]>([]);
+  const [reverting, setReverting] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    getRunRevisions(runId).then(result => {
+      if (!cancelled) setRevisions(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, refreshKey]);
+
+  if (revisions.length === 0) return null;
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined) return "none";
+    if (field === "category") return categories.find(category => category.id === value)?.name || String(value);
+    if (field === "platform") return platforms.find(platform => platform.id === value)?.name || String(value);
+    if (typeof value === "boolean") return value ? "yes" : "no";
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+  };
+
+  const handleRevert = async (revision: number) => {
+    if (!window.confirm(revision === 0 ? "Revert this run to how it was submitted?" : `Revert this run to revision ${revision}?`)) {
+      return;
+    }
+    setReverting(revision);
+    try {
+      const result = await revertRunToRevision(runId, revision);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to revert the run");
+      }
+      toast({
+        title: "Run Reverted",
+        description: revision === 0 ? "The run has been reverted to how it was submitted." : `The run has been reverted to revision ${revision}.`,
+      });
+      setRevisions(await getRunRevisions(runId));
+      onReverted();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revert the run.",
+        variant: "destructive",
+      });
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  const revertButton = (revision: number) => canRevert && (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => handleRevert(revision)}
+      disabled={reverting !== null}
+      className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)]"
+    >
+      <RotateCcw className="h-4 w-4 mr-2" />
+      Revert
+    </Button>
+  );
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-4 px-5 pt-5">
+        <CardTitle className="flex items-center gap-2 text-xl text-card-foreground">
+          <History className="h-5 w-5" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 px-5 pb-5">
+        <ol className="relative border-l border-[hsl(235,13%,30%)] ml-2 space-y-4">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-[#cba6f7]" />
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <div className="flex items-center gap-2 flex-wrap text-sm">
+                  <Badge variant="outline" className="border-[hsl(235,13%,30%)]">Revision {revision.revision}</Badge>
+                  {index === 0 && <Badge className="bg-[#a6e3a1] text-[hsl(240,21%,15%)]">Current</Badge>}
+                  {revision.revertedTo !== undefined && (
+                    <span className="text-ctp-overlay0">
+                      reverted to {revision.revertedTo === 0 ? "the submission" : `revision ${revision.revertedTo}`}
+                    </span>
+                  )}
+                  <span className="text-ctp-subtext1">
+                    {new Date(revision.editedAt).toLocaleString()}
+                    {revision.editedBy && (
+                      <>
+                        {" by "}
+                        <Link to={`/player/${revision.editedBy}`} className="hover:text-[hsl(var(--mocha-mauve))] transition-colors">
+                          {revision.editedByName || "Unknown"}
+                        </Link>
+                      </>
+                    )}
+                  </span>
+                </div>
+                {index > 0 && revertButton(revision.revision)}
+              </div>
+              <ul className="mt-2 space-y-1 text-xs font-mono text-ctp-subtext1 break-all">
+                {revision.changes.map(change => (
+                  <li key={change.field}>
+                    {fieldLabels[change.field] || change.field}: {formatValue(change.field, change.from)} → {formatValue(change.field, change.to)}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+          {revisions.some(revision => revision.revision === 1) && (
+            <li className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-[hsl(235,13%,30%)]" />
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <span className="text-sm text-ctp-subtext1">Submitted</span>
+                {revertButton(0)}
+              </div>
+            </li>
+          )}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarDays } from "lucide-react";
+import { SeasonPlacement } from "@/types/database";
+import { SeasonStatusBadge } from "@/components/SeasonStatusBadge";
+import { formatDate } from "@/lib/utils";
+import { useGame } from "@/hooks/useGame";
+
+interface SeasonPlacementsProps {
+  placements: SeasonPlacement[]; // Newest season first
+}
+
+/**
+ * Where a player placed in each season they earned studs in
+ * Placements in seasons that aren't archived yet are provisional
+ */
+export function SeasonPlacements({ placements }: SeasonPlacementsProps) {
+  const { gamePath } = useGame();
+
+  if (placements.length === 0) return null;
+
+  return (
+    <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] mt-8 shadow-xl rounded-none">
+      <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+        <CardTitle className="flex items-center gap-2 text-ctp-text">
+          <CalendarDays className="h-5 w-5 text-[#fab387]" />
+          Season Placements
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-[hsl(235,13%,30%)]">
+                <th className="py-3 px-4 text-left">Season</th>
+                <th className="py-3 px-4 text-left">Dates</th>
+                <th className="py-3 px-4 text-left">Placement</th>
+                <th className="py-3 px-4 text-right">Studs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {placements.map(({ season, standing, totalPlayers }) => (
+                <tr key={season.id} className="border-b border-[hsl(235,13%,30%)] hover:bg-[hsl(235,19%,13%)] transition-colors">
+                  <td className="py-3 px-4 font-medium">
+                    <Link to={gamePath(`/seasons/${season.id}`)} className="hover:text-[#fab387] transition-colors">
+                      {season.name}
+                    </Link>
+                    <span className="ml-2"><SeasonStatusBadge season={season} /></span>
+                  </td>
+                  <td className="py-3 px-4 text-ctp-overlay0 whitespace-nowrap">
+                    {formatDate(season.startDate)} – {formatDate(season.endDate)}
+                  </td>
+                  <td className="py-3 px-4">
+                    <span className="font-semibold">#{standing.rank}</span>
+                    <span className="text-ctp-overlay0"> of {totalPlayers}</span>
+                  </td>
+                  <td className="py-3 px-4 text-right font-semibold text-[#FFD700]">{standing.points.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
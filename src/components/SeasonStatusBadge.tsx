@@ -0,0 +1,15 @@
+import { Badge } from "@/components/ui/badge";
+import { Season } from "@/types/database";
+import { SeasonStatus, getSeasonStatus } from "@/lib/data/seasons";
+
+const statusStyles: Record<SeasonStatus, { label: string; className: string }> = {
+  upcoming: { label: "Upcoming", className: "bg-[#89b4fa] text-[hsl(240,21%,15%)]" },
+  active: { label: "Active", className: "bg-[#a6e3a1] text-[hsl(240,21%,15%)]" },
+  ended: { label: "Ended", className: "bg-[#fab387] text-[hsl(240,21%,15%)]" },
+  archived: { label: "Final", className: "bg-[hsl(235,13%,30%)] text-ctp-text" },
+};
+
+export function SeasonStatusBadge({ season }: { season: Season }) {
+  const { label, className } = statusStyles[getSeasonStatus(season)];
+  return <Badge className={`${className} border-transparent`}>{label}</Badge>;
+}
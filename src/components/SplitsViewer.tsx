@@ -0,0 +1,166 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import { Line, LineChart, XAxis, YAxis, CartesianGrid } from "recharts";
+import { Download, ListOrdered } from "lucide-react";
+import { RunSplits } from "@/types/database";
+import { formatTime, formatSecondsToTime } from "@/lib/utils";
+
+interface SplitsViewerProps {
+  splits: RunSplits;
+  splitsUrl?: string;
+}
+
+const formatSplitSeconds = (seconds: number | null | undefined): string => {
+  if (seconds === null || seconds === undefined) return "—";
+  return formatTime(formatSecondsToTime(seconds));
+};
+
+const chartConfig = {
+  run: {
+    label: "This Run",
+    color: "hsl(var(--chart-1))",
+  },
+  sumOfBest: {
+    label: "Sum of Best",
+    color: "hsl(var(--chart-2))",
+  },
+};
+
+/**
+ * Segment table and split comparison chart for a run's LiveSplit splits
+ * The chart compares each cumulative split against the runner's sum of best segments
+ */
+export function SplitsViewer({ splits, splitsUrl }: SplitsViewerProps) {
+  // Cumulative sum of best segments up to each split
+  let sumOfBest = 0;
+  let hasAllGolds = true;
+  const chartData = splits.segments.map((segment, index) => {
+    if (segment.bestSegmentTime !== null) {
+      sumOfBest += segment.bestSegmentTime;
+    } else {
+      hasAllGolds = false;
+    }
+    return {
+      index: index + 1,
+      name: segment.name,
+      run: segment.splitTime,
+      sumOfBest: hasAllGolds ? sumOfBest : null,
+    };
+  });
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-4 px-5 pt-5">
+        <CardTitle className="text-xl text-card-foreground flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          <span>Splits</span>
+          <span className="ml-auto text-sm font-normal text-muted-foreground">
+            {splits.attemptCount} attempts
+            {splits.completedAttemptCount !== undefined && ` • ${splits.completedAttemptCount} completed`}
+          </span>
+        </CardTitle>
+        <div className="flex items-center gap-3 text-sm text-muted-foreground flex-wrap">
+          <span>Comparison: {splits.comparison}</span>
+          <span>• {splits.timingMethod === 'GameTime' ? 'Game Time' : 'Real Time'}</span>
+          {hasAllGolds && <span>• Sum of Best: {formatSplitSeconds(sumOfBest)}</span>}
+          {splitsUrl && (
+            <a
+              href={splitsUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="ml-auto flex items-center gap-1 text-[#cba6f7] hover:text-[#f5c2e7]"
+            >
+              <Download className="h-3.5 w-3.5" />
+              Download .lss
+            </a>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 px-5 pb-5 space-y-6">
+        <ChartContainer config={chartConfig} className="h-[260px] w-full">
+          <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="index" />
+            <YAxis
+              domain={['auto', 'auto']}
+              tickFormatter={(value) => formatSplitSeconds(value)}
+            />
+            <ChartTooltip
+              content={({ active, payload }) => {
+                if (active && payload && payload.length) {
+                  const data = payload[0].payload;
+                  const delta = data.run !== null && data.sumOfBest !== null ? data.run - data.sumOfBest : null;
+                  return (
+                    <div className="rounded-lg border bg-background p-3 shadow-lg">
+                      <div className="text-sm font-semibold mb-2">{data.name}</div>
+                      <div className="grid gap-1 text-xs">
+                        <div className="flex justify-between gap-4">
+                          <span>This Run</span>
+                          <span className="font-mono">{formatSplitSeconds(data.run)}</span>
+                        </div>
+                        <div className="flex justify-between gap-4">
+                          <span>Sum of Best</span>
+                          <span className="font-mono">{formatSplitSeconds(data.sumOfBest)}</span>
+                        </div>
+                        {delta !== null && (
+                          <div className="flex justify-between gap-4">
+                            <span>Behind Best</span>
+                            <span className="font-mono">+{formatSplitSeconds(delta)}</span>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                }
+                return null;
+              }}
+            />
+            <Line type="monotone" dataKey="run" stroke="var(--color-run)" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+            <Line type="monotone" dataKey="sumOfBest" stroke="var(--color-sumOfBest)" strokeWidth={2} strokeDasharray="4 4" dot={false} connectNulls />
+          </LineChart>
+        </ChartContainer>
+
+        <div className="overflow-x-auto scrollbar-custom">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-b border-ctp-surface1/50 hover:bg-transparent">
+                <TableHead className="py-2 px-2 text-left text-xs w-8">#</TableHead>
+                <TableHead className="py-2 px-2 text-left text-xs">Segment</TableHead>
+                <TableHead className="py-2 px-2 text-right text-xs">Split</TableHead>
+                <TableHead className="py-2 px-2 text-right text-xs">Segment</TableHead>
+                <TableHead className="py-2 px-2 text-right text-xs">Best</TableHead>
+                <TableHead className="py-2 px-2 text-right text-xs">Timesave</TableHead>
+                <TableHead className="py-2 px-2 text-right text-xs hidden sm:table-cell">Attempts</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {splits.segments.map((segment, index) => {
+                const timesave = segment.segmentTime !== null && segment.bestSegmentTime !== null
+                  ? segment.segmentTime - segment.bestSegmentTime
+                  : null;
+                // A segment matching the runner's best segment is a gold split
+                const isGold = timesave !== null && timesave <= 0;
+                return (
+                  <TableRow key={index} className="border-b border-ctp-surface1/20">
+                    <TableCell className="py-1.5 px-2 text-xs text-muted-foreground">{index + 1}</TableCell>
+                    <TableCell className="py-1.5 px-2 text-sm">{segment.name || `Segment ${index + 1}`}</TableCell>
+                    <TableCell className="py-1.5 px-2 text-sm text-right font-mono">{formatSplitSeconds(segment.splitTime)}</TableCell>
+                    <TableCell className={`py-1.5 px-2 text-sm text-right font-mono ${isGold ? 'text-[#f9e2af]' : ''}`}>
+                      {formatSplitSeconds(segment.segmentTime)}
+                    </TableCell>
+                    <TableCell className="py-1.5 px-2 text-sm text-right font-mono text-muted-foreground">{formatSplitSeconds(segment.bestSegmentTime)}</TableCell>
+                    <TableCell className="py-1.5 px-2 text-sm text-right font-mono text-muted-foreground">
+                      {timesave !== null && timesave > 0 ? formatSplitSeconds(timesave) : "—"}
+                    </TableCell>
+                    <TableCell className="py-1.5 px-2 text-sm text-right text-muted-foreground hidden sm:table-cell">{segment.attempts}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { History } from "lucide-react";
+import LegoStudIcon from "@/components/icons/LegoStudIcon";
+import { PointsBreakdown, PointsLedgerEntry } from "@/types/database";
+import { getCategoryName, getPlatformName, getLevelName } from "@/lib/dataValidation";
+
+interface StudsBreakdownProps {
+  entries: PointsLedgerEntry[]; // The player's points ledger, newest first
+  totalPoints: number;
+  playerName: string;
+  isOwnProfile: boolean;
+  categories: Array<{ id: string; name: string }>;
+  platforms: Array<{ id: string; name: string }>;
+  levels: Array<{ id: string; name: string }>;
+}
+
+const typeMultiplierLabels: Record<NonNullable<PointsBreakdown['typeMultiplier']>['rule'], string> = {
+  'obsolete': "obsolete",
+  'individual-level': "IL",
+  'community-golds': "community golds",
+};
+
+const scoringLabels: Record<NonNullable<PointsBreakdown['scoring']>['strategy'], string> = {
+  'wr-ratio': "WR ratio",
+  'percentile': "percentile",
+};
+
+const reasonLabels: Record<PointsLedgerEntry['reason'], string> = {
+  award: "Awarded",
+  adjustment: "Adjusted",
+  revoke: "Revoked",
+};
+
+/**
+ * Describe how the studs for a run add up, e.g. "(10 base + 50 for #1) × 0.5 co-op = 30"
+ * or "100 WR × 0.85 WR ratio + 50 for #1 = 135"
+ */
+function describeBreakdown(breakdown: PointsBreakdown): string {
+  let description = breakdown.scoring
+    ? `${breakdown.basePoints} WR × ${breakdown.scoring.factor} ${scoringLabels[breakdown.scoring.strategy]}`
+    : `${breakdown.basePoints} base`;
+  if (breakdown.categoryWeight !== undefined && breakdown.categoryWeight !== 1) {
+    description += ` × ${breakdown.categoryWeight} category`;
+  }
+  if (breakdown.typeMultiplier && breakdown.typeMultiplier.value !== 1) {
+    description += ` × ${breakdown.typeMultiplier.value} ${typeMultiplierLabels[breakdown.typeMultiplier.rule]}`;
+  }
+  if (breakdown.rankBonus) {
+    description += ` + ${breakdown.rankBonus.points} for #${breakdown.rankBonus.rank}`;
+  }
+  if (breakdown.coOpMultiplier !== undefined && breakdown.coOpMultiplier !== 1) {
+    description = `(${description}) × ${breakdown.coOpMultiplier} co-op`;
+  }
+  return `${description} = ${breakdown.total}`;
+}
+
+function formatChange(points: number): string {
+  return points > 0 ? `+${points}` : String(points);
+}
+
+export function StudsBreakdown({ entries, totalPoints, playerName, isOwnProfile, categories, platforms, levels }: StudsBreakdownProps) {
+  const navigate = useNavigate();
+  const [showHistory, setShowHistory] = useState(false);
+
+  const describeRun = (entry: PointsLedgerEntry) => {
+    const categoryName = getCategoryName(entry.category, categories);
+    const levelName = entry.level ? getLevelName(entry.level, levels) : undefined;
+    return levelName ? `${levelName} – ${categoryName}` : categoryName;
+  };
+
+  // Current studs per run: the sum of its entries, described by its latest breakdown
+  const runs = new Map<string, { latest: PointsLedgerEntry; breakdown?: PointsBreakdown; points: number }>();
+  entries.forEach(entry => {
+    const run = runs.get(entry.runId);
+    if (run) {
+      run.points += entry.points;
+    } else {
+      runs.set(entry.runId, { latest: entry, breakdown: entry.breakdown, points: entry.points });
+    }
+  });
+  const earningRuns = Array.from(runs.entries())
+    .filter(([, run]) => run.points !== 0)
+    .sort(([, a], [, b]) => b.points - a.points);
+
+  return (
+    <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] mt-8 shadow-xl rounded-none">
+      <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+        <CardTitle className="flex items-center justify-between gap-2 text-ctp-text flex-wrap">
+          <span className="flex items-center gap-2">
+            <LegoStudIcon size={24} color="#FFD700" />
+            {isOwnProfile ? "How I Earned My Studs" : `How ${playerName} Earned Their Studs`}
+          </span>
+          <span className="text-base font-semibold text-[#FFD700]">{totalPoints.toLocaleString()} studs</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {earningRuns.length === 0 ? (
+          <p className="text-ctp-overlay0 text-center py-4">No studs earned yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-[hsl(235,13%,30%)]">
+                  <th className="py-3 px-4 text-left">Run</th>
+                  <th className="py-3 px-4 text-left">Platform</th>
+                  <th className="py-3 px-4 text-left">How</th>
+                  <th className="py-3 px-4 text-right">Studs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {earningRuns.map(([runId, run]) => (
+                  <tr
+                    key={runId}
+                    className="border-b border-[hsl(235,13%,30%)] hover:bg-[hsl(235,19%,13%)] cursor-pointer transition-colors"
+                    onClick={() => navigate(`/run/${runId}`)}
+                  >
+                    <td className="py-3 px-4 font-medium">
+                      {describeRun(run.latest)}
+                      {run.latest.runType === 'co-op' && (
+                        <Badge variant="outline" className="ml-2 border-[hsl(235,13%,30%)]">Co-op</Badge>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-ctp-overlay0">{getPlatformName(run.latest.platform, platforms)}</td>
+                    <td className="py-3 px-4 text-sm text-ctp-subtext1 font-mono">
+                      {run.breakdown ? describeBreakdown(run.breakdown) : "—"}
+                    </td>
+                    <td className="py-3 px-4 text-right font-semibold text-[#FFD700]">{run.points}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <div className="mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+              className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)] text-ctp-text rounded-none"
+            >
+              <History className="h-4 w-4 mr-2" />
+              {showHistory ? "Hide History" : `Show History (${entries.length})`}
+            </Button>
+            {showHistory && (
+              <div className="overflow-x-auto mt-4">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-[hsl(235,13%,30%)]">
+                      <th className="py-2 px-4 text-left">Date</th>
+                      <th className="py-2 px-4 text-left">Run</th>
+                      <th className="py-2 px-4 text-left">Change</th>
+                      <th className="py-2 px-4 text-left">Rules</th>
+                      <th className="py-2 px-4 text-right">Studs</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map(entry => (
+                      <tr key={entry.id} className="border-b border-[hsl(235,13%,30%)]">
+                        <td className="py-2 px-4 text-ctp-overlay0 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                        <td className="py-2 px-4">{describeRun(entry)}</td>
+                        <td className="py-2 px-4">
+                          <Badge variant="outline" className="border-[hsl(235,13%,30%)]">{reasonLabels[entry.reason]}</Badge>
+                        </td>
+                        <td className="py-2 px-4 text-ctp-subtext1 font-mono">
+                          {entry.breakdown ? describeBreakdown(entry.breakdown) : "—"}
+                          <span className="text-ctp-overlay0 ml-2">(config v{entry.configVersion})</span>
+                        </td>
+                        <td className={`py-2 px-4 text-right font-semibold ${entry.points < 0 ? "text-[#f38ba8]" : "text-[#a6e3a1]"}`}>
+                          {formatChange(entry.points)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState, useEffect } from "react";
+import { RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { useToast } from "@/hooks/use-toast";
+import { LeaderboardEntry, Player, TrashItem, TrashReason } from "@/types/database";
+import { getTrash, purgeExpiredTrash, purgeTrashItem, restoreTrashItem } from "@/lib/db";
+import { TRASH_RETENTION_DAYS, getTrashItemId, isTrashItemExpired } from "@/lib/data/trash";
+
+const reasonLabels: Record<TrashReason, string> = {
+  deleted: "Deleted",
+  duplicate: "Duplicate",
+  srcWipe: "SRC import wipe",
+  playerDeleted: "Player deleted",
+};
+
+function getItemName(item: TrashItem): string {
+  if (item.type === 'player') {
+    return (item.data as Omit<Player, 'id'>).displayName || item.itemId;
+  }
+  const run = item.data as Omit<LeaderboardEntry, 'id'>;
+  const players = run.runType === 'co-op' && run.player2Name ? `${run.playerName} & ${run.player2Name}` : run.playerName;
+  return `${players || "Unknown Player"} · ${run.time}${run.date ? ` · ${run.date}` : ""}`;
+}
+
+/**
+ * Deleted runs and players, which can be restored or purged until they expire
+ * Expired items stay listed until an admin purges them
+ */
+export function TrashBin() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getTrash()
+      .then(result => {
+        if (!cancelled) setItems(result);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const expiredCount = items.filter(item => isTrashItemExpired(item)).length;
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      const result = await restoreTrashItem(item.id);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to restore");
+      }
+      const restored = result.restoredRuns
+        ? `${getItemName(item)} and ${result.restoredRuns} run${result.restoredRuns !== 1 ? "s" : ""} have been restored.`
+        : `${getItemName(item)} has been restored.`;
+      toast({
+        title: item.type === 'run' ? "Run Restored" : "Player Restored",
+        description: result.error ? `${restored} ${result.error}.` : restored,
+      });
+      if (result.error) {
+        // Some of the player's runs are still in the trash
+        setRefreshKey(key => key + 1);
+      } else {
+        setItems(current => current.filter(other => other.id !== item.id && !(item.runIds || []).some(runId => other.id === getTrashItemId('run', runId))));
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurgeExpired = async () => {
+    if (!window.confirm(`Permanently delete ${expiredCount} expired item${expiredCount !== 1 ? "s" : ""}? This action cannot be undone.`)) {
+      return;
+    }
+    setBusyId("expired");
+    try {
+      const purged = await purgeExpiredTrash();
+      toast({
+        title: "Expired Items Purged",
+        description: `${purged} item${purged !== 1 ? "s" : ""} permanently deleted.`,
+      });
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to purge expired items.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!window.confirm(`Permanently delete ${getItemName(item)}? This action cannot be undone.`)) {
+      return;
+    }
+    setBusyId(item.id);
+    try {
+      if (!(await purgeTrashItem(item.id))) {
+        throw new Error("Failed to purge");
+      }
+      setItems(current => current.filter(other => other.id !== item.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to purge.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <p className="text-sm text-ctp-subtext1">
+          Deleted runs and players are kept for {TRASH_RETENTION_DAYS} days. Restored runs are re-ranked and their studs recalculated.
+        </p>
+        <div className="flex items-center gap-2">
+          {expiredCount > 0 && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handlePurgeExpired}
+              disabled={loading || busyId !== null}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Purge {expiredCount} Expired
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRefreshKey(key => key + 1)}
+            disabled={loading}
+            className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)]"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner size="sm" className="py-8" />
+      ) : items.length === 0 ? (
+        <p className="text-sm text-ctp-overlay0 py-4">The trash is empty.</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map(item => (
+            <li key={item.id} className="border border-[hsl(235,13%,30%)] p-3">
+              <div className="flex items-center justify-between gap-2 flex-wrap text-sm">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Badge variant="outline" className="border-[hsl(235,13%,30%)]">
+                    {item.type === 'run' ? "Run" : "Player"}
+                  </Badge>
+                  <span className="text-ctp-text">{getItemName(item)}</span>
+                  <Badge className="border-transparent bg-[#f38ba8] text-[hsl(240,21%,15%)]">{reasonLabels[item.reason]}</Badge>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(item)}
+                    disabled={busyId !== null}
+                    className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)] text-[#a6e3a1]"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handlePurge(item)}
+                    disabled={busyId !== null}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Purge
+                  </Button>
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-ctp-overlay0">
+                Deleted {new Date(item.deletedAt).toLocaleString()}
+                {(item.deletedByName || item.deletedBy) && ` by ${item.deletedByName || item.deletedBy}`}
+                {item.runIds && item.runIds.length > 0 && ` with ${item.runIds.length} run${item.runIds.length !== 1 ? "s" : ""}`}
+                {" · "}expires {new Date(item.expiresAt).toLocaleDateString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
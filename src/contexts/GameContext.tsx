@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState, ReactNode } from "react";
+import { Game } from "@/types/database";
+import { getGames } from "@/lib/db";
+import { DEFAULT_GAME_ID, setActiveGameId } from "@/lib/data/gameScope";
+import { GameContext } from "./game";
+
+const STORAGE_KEY = "selected-game";
+
+export function GameProvider({ children }: { children: ReactNode }) {
+  const [games, setGames] = useState<Game[]>([]);
+  const [gamesLoading, setGamesLoading] = useState(true);
+  const [currentGameId, setCurrentGameId] = useState<string>(() => {
+    // Links without a game prefix use the last game the visitor picked
+    const saved = localStorage.getItem(STORAGE_KEY) || DEFAULT_GAME_ID;
+    setActiveGameId(saved);
+    return saved;
+  });
+
+  // The data layer is switched before React re-renders, so pages never fetch from the previous game
+  const selectGame = useCallback((gameId: string) => {
+    setActiveGameId(gameId);
+    setCurrentGameId(gameId);
+    localStorage.setItem(STORAGE_KEY, gameId);
+  }, []);
+
+  const refreshGames = useCallback(async () => {
+    try {
+      setGames(await getGames());
+    } finally {
+      setGamesLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshGames();
+  }, [refreshGames]);
+
+  useEffect(() => {
+    // Fall back to the default game if the saved one was removed
+    if (!gamesLoading && games.length > 0 && !games.some(game => game.id === currentGameId)) {
+      selectGame(games.some(game => game.id === DEFAULT_GAME_ID) ? DEFAULT_GAME_ID : games[0].id);
+    }
+  }, [games, gamesLoading, currentGameId, selectGame]);
+
+  const currentGame = games.find(game => game.id === currentGameId) || { id: currentGameId, name: currentGameId };
+
+  const gamePath = useCallback((path: string) => {
+    return `/${currentGameId}${path === "/" ? "" : path}`;
+  }, [currentGameId]);
+
+  return (
+    <GameContext.Provider value={{ games, currentGame, gamesLoading, selectGame, refreshGames, gamePath }}>
+      {children}
+    </GameContext.Provider>
+  );
+}
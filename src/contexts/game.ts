@@ -0,0 +1,13 @@
+import { createContext } from "react";
+import { Game } from "@/types/database";
+
+export interface GameContextType {
+  games: Game[];
+  currentGame: Game;
+  gamesLoading: boolean;
+  selectGame: (gameId: string) => void;
+  refreshGames: () => Promise<void>;
+  gamePath: (path: string) => string;
+}
+
+export const GameContext = createContext<GameContextType | undefined>(undefined);
@@ -0,0 +1,62 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { PageCursor, PageRequest } from "@/types/database";
+
+/**
+ * Custom hook for cursor pagination with the page kept in the URL (e.g. ?page=3&after=...)
+ * Reloading or sharing the link opens the same page
+ * @param key - Prefix for the URL parameters when a page has several paginated lists (e.g. "users" gives ?usersPage=...)
+ * @param pageSize - Number of items per page
+ * @returns The page request to pass to the data layer and navigation callbacks
+ */
+export function useCursorPagination(key?: string, pageSize: number = 25) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const paramName = useCallback((name: string) => (
+    key ? `${key}${name.charAt(0).toUpperCase()}${name.slice(1)}` : name
+  ), [key]);
+
+  const after = searchParams.get(paramName("after")) || undefined;
+  const before = searchParams.get(paramName("before")) || undefined;
+  const pageNumber = Math.max(1, parseInt(searchParams.get(paramName("page")) || "1", 10) || 1);
+
+  const request = useMemo<PageRequest>(() => ({ after, before, pageSize }), [after, before, pageSize]);
+
+  const setPage = useCallback((page: number, cursor?: { after?: PageCursor; before?: PageCursor }, replace = false) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete(paramName("after"));
+      next.delete(paramName("before"));
+      next.delete(paramName("page"));
+      // The first page has no parameters, so its URL stays clean
+      if (page > 1) {
+        next.set(paramName("page"), String(page));
+        if (cursor?.after) next.set(paramName("after"), cursor.after);
+        if (cursor?.before) next.set(paramName("before"), cursor.before);
+      }
+      return next;
+    }, { replace });
+  }, [setSearchParams, paramName]);
+
+  const goToNext = useCallback((cursor: PageCursor) => {
+    setPage(pageNumber + 1, { after: cursor });
+  }, [setPage, pageNumber]);
+
+  const goToPrev = useCallback((cursor: PageCursor) => {
+    setPage(pageNumber - 1, { before: cursor });
+  }, [setPage, pageNumber]);
+
+  // Back to the first page, e.g. when filters or sorting change
+  const reset = useCallback(() => {
+    if (after || before || pageNumber > 1) {
+      setPage(1, undefined, true);
+    }
+  }, [setPage, after, before, pageNumber]);
+
+  return {
+    request,
+    pageNumber,
+    goToNext,
+    goToPrev,
+    reset,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Audit log helpers shared by the data backends
+ * Every privileged admin action records who did what to which target, with the fields it changed
+ */
+
+import { AuditFieldChange, AuditLogEntry, AuditLogFilters, AuditTargetType, LeaderboardEntry, Player, TrashItem } from "@/types/database";
+
+export interface AuditTarget {
+  type: AuditTargetType;
+  id?: string;
+  name?: string;
+}
+
+export interface AuditActor {
+  uid: string;
+  name?: string;
+}
+
+type AuditRecord = object | null | undefined;
+
+/**
+ * Runs are named after their players in the audit log
+ */
+export function getRunAuditTarget(runId: string, run: Pick<LeaderboardEntry, 'playerName' | 'player2Name' | 'runType'>): AuditTarget {
+  const name = run.runType === 'co-op' && run.player2Name ? `${run.playerName} & ${run.player2Name}` : run.playerName;
+  return { type: 'run', id: runId, name };
+}
+
+export function getTrashAuditTarget(item: TrashItem): AuditTarget {
+  return item.type === 'run'
+    ? getRunAuditTarget(item.itemId, item.data as Omit<LeaderboardEntry, 'id'>)
+    : { type: 'player', id: item.itemId, name: (item.data as Omit<Player, 'id'>).displayName };
+}
+
+/**
+ * Fields that differ between a target's state before and after an action
+ * Creations have no before and deletions no after, so every set field is listed
+ */
+export function getAuditChanges(before: AuditRecord, after: AuditRecord): AuditFieldChange[] {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))
+    .filter(field => field !== 'id')
+    .sort();
+
+  // Values can be objects (e.g. variables or subcategories), so fields are compared by value
+  return fields
+    .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+    .map(field => {
+      const change: AuditFieldChange = { field };
+      // Firestore rejects undefined fields
+      if (previous[field] !== undefined) change.from = previous[field];
+      if (next[field] !== undefined) change.to = next[field];
+      return change;
+    });
+}
+
+/**
+ * A record's state after an update, where null removes a field and undefined leaves it unchanged
+ */
+export function applyAuditUpdate(before: object, data: object): Record<string, unknown> {
+  const after: Record<string, unknown> = { ...(before as Record<string, unknown>) };
+  Object.entries(data).forEach(([field, value]) => {
+    if (value === null) {
+      delete after[field];
+    } else if (value !== undefined) {
+      after[field] = value;
+    }
+  });
+  return after;
+}
+
+/**
+ * Build the audit log entry for an action (without its ID, which the backend assigns)
+ */
+export function createAuditEntry(
+  action: string,
+  actor: AuditActor,
+  target: AuditTarget,
+  before?: AuditRecord,
+  after?: AuditRecord,
+  details?: AuditLogEntry['details'],
+  createdAt: string = new Date().toISOString()
+): Omit<AuditLogEntry, 'id'> {
+  const entry: Omit<AuditLogEntry, 'id'> = {
+    action,
+    actorUid: actor.uid,
+    targetType: target.type,
+    changes: getAuditChanges(before, after),
+    createdAt,
+  };
+  if (actor.name) entry.actorName = actor.name;
+  if (target.id) entry.targetId = target.id;
+  if (target.name) entry.targetName = target.name;
+  if (details && Object.keys(details).length > 0) entry.details = details;
+  return entry;
+}
+
+export function matchesAuditFilters(entry: AuditLogEntry, filters: AuditLogFilters): boolean {
+  return (!filters.action || entry.action === filters.action) &&
+    (!filters.actorUid || entry.actorUid === filters.actorUid) &&
+    (!filters.targetType || entry.targetType === filters.targetType) &&
+    (!filters.targetId || entry.targetId === filters.targetId);
+}
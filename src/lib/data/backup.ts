@@ -0,0 +1,201 @@
+/**
+ * Site backup helpers
+ * A backup is one versioned JSON archive of every collection the site's data lives in;
+ * restoring one is checked and previewed as a diff against the current data before anything is written
+ */
+
+import { LeaderboardEntry } from "@/types/database";
+import { validateLeaderboardEntry } from "@/lib/dataValidation";
+
+export const BACKUP_FORMAT = "lsw1-backup";
+export const BACKUP_VERSION = 2;
+
+export const BACKUP_COLLECTIONS = [
+  'games',
+  'players',
+  'displayNames',
+  'leaderboardEntries',
+  'runRevisions',
+  'categories',
+  'levels',
+  'platforms',
+  'downloads',
+  'downloadCategories',
+  'pointsConfig',
+  'pointsConfigHistory',
+  'pointsLedger',
+  'seasons',
+] as const;
+
+export type BackupCollection = typeof BACKUP_COLLECTIONS[number];
+
+// The backup version each collection was added in (version 1 unless listed)
+const BACKUP_COLLECTION_VERSIONS: Partial<Record<BackupCollection, number>> = {
+  games: 2,
+  displayNames: 2,
+  runRevisions: 2,
+  pointsConfigHistory: 2,
+  pointsLedger: 2,
+  seasons: 2,
+};
+
+export type BackupDocument = { id: string } & Record<string, unknown>;
+
+export type BackupCollections = Record<BackupCollection, BackupDocument[]>;
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO timestamp
+  createdBy?: string; // UID of the admin who made it
+  collections: BackupCollections;
+}
+
+export interface BackupCollectionDiff {
+  collection: BackupCollection;
+  added: string[]; // In the backup but not the site
+  changed: string[]; // In both, with different data
+  removed: string[]; // On the site but not in the backup (only deleted when restoring with removeMissing)
+  unchanged: number;
+}
+
+export interface BackupRestoreOptions {
+  removeMissing?: boolean; // Delete documents that aren't in the backup
+}
+
+export interface BackupRestoreProgress {
+  collection: BackupCollection;
+  completed: number;
+  total: number;
+}
+
+export function createBackupArchive(collections: BackupCollections, createdBy?: string, createdAt: string = new Date().toISOString()): BackupArchive {
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt,
+    collections,
+  };
+  if (createdBy) archive.createdBy = createdBy;
+  return archive;
+}
+
+/**
+ * Parse and check a backup file
+ * Structural problems make the archive unusable; runs that fail validateLeaderboardEntry are reported as
+ * invalid and left out of the restore
+ */
+export function parseBackupArchive(json: string): {
+  archive: BackupArchive | null;
+  errors: string[];
+  invalidRuns: Array<{ id: string; errors: string[] }>;
+} {
+  const result = { archive: null as BackupArchive | null, errors: [] as string[], invalidRuns: [] as Array<{ id: string; errors: string[] }> };
+
+  let parsed: Partial<BackupArchive>;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    result.errors.push("The file isn't valid JSON");
+    return result;
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    result.errors.push("The file isn't a site backup");
+    return result;
+  }
+  if (typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+    result.errors.push(`Backup version ${parsed.version} isn't supported (latest is ${BACKUP_VERSION})`);
+    return result;
+  }
+  if (!parsed.collections || typeof parsed.collections !== "object") {
+    result.errors.push("The backup has no collections");
+    return result;
+  }
+
+  BACKUP_COLLECTIONS.forEach(collection => {
+    const documents = parsed.collections![collection];
+    if (documents === undefined) return;
+    if (!Array.isArray(documents)) {
+      result.errors.push(`${collection} must be a list of documents`);
+      return;
+    }
+    const ids = new Set<string>();
+    documents.forEach((document, index) => {
+      if (!document || typeof document !== "object" || typeof document.id !== "string" || !document.id) {
+        result.errors.push(`${collection}[${index}] has no document ID`);
+      } else if (ids.has(document.id)) {
+        result.errors.push(`${collection} has document ${document.id} more than once`);
+      } else {
+        ids.add(document.id);
+      }
+    });
+  });
+  if (result.errors.length > 0) return result;
+
+  (parsed.collections.leaderboardEntries || []).forEach(run => {
+    const validation = validateLeaderboardEntry(run as Partial<LeaderboardEntry>);
+    if (!validation.valid) {
+      result.invalidRuns.push({ id: run.id, errors: validation.errors });
+    }
+  });
+
+  // Collections missing from an archive are restored as empty, which only matters with removeMissing
+  // (collections newer than the archive's version aren't restored at all, see getArchiveCollections)
+  const collections = Object.fromEntries(
+    BACKUP_COLLECTIONS.map(collection => [collection, parsed.collections![collection] || []])
+  ) as BackupCollections;
+  result.archive = { ...(parsed as BackupArchive), collections };
+  return result;
+}
+
+/**
+ * The collections an archive covers
+ * Archives from before a collection was backed up don't restore it, so the site's copy is left as it is
+ */
+export function getArchiveCollections(archive: Pick<BackupArchive, 'version'>): BackupCollection[] {
+  return BACKUP_COLLECTIONS.filter(collection => (BACKUP_COLLECTION_VERSIONS[collection] ?? 1) <= archive.version);
+}
+
+/**
+ * JSON with object keys sorted, so documents compare equal whatever order their fields were read in
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, fieldValue]) => fieldValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, fieldValue]) => `${JSON.stringify(key)}:${stableStringify(fieldValue)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * What restoring an archive would change, collection by collection
+ * @param skipRunIds - Runs left out of the restore (e.g. ones that failed validation)
+ */
+export function getBackupDiff(archive: BackupArchive, current: BackupCollections, skipRunIds: string[] = []): BackupCollectionDiff[] {
+  const skipped = new Set(skipRunIds);
+  return getArchiveCollections(archive).map(collection => {
+    const currentById = new Map(current[collection].map(document => [document.id, document]));
+    const archived = archive.collections[collection].filter(document => collection !== 'leaderboardEntries' || !skipped.has(document.id));
+    const archivedIds = new Set(archive.collections[collection].map(document => document.id));
+    const diff: BackupCollectionDiff = { collection, added: [], changed: [], removed: [], unchanged: 0 };
+
+    archived.forEach(document => {
+      const existing = currentById.get(document.id);
+      if (!existing) {
+        diff.added.push(document.id);
+      } else if (stableStringify(existing) !== stableStringify(document)) {
+        diff.changed.push(document.id);
+      } else {
+        diff.unchanged++;
+      }
+    });
+    current[collection].forEach(document => {
+      if (!archivedIds.has(document.id)) diff.removed.push(document.id);
+    });
+    return diff;
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Cursor pagination helpers shared by the data backends
+ * A cursor is the sort key of an item (e.g. [date, id]), JSON encoded as base64url so it can live in the URL
+ */
+
+import { Page, PageCursor, PageRequest } from "@/types/database";
+
+export type CursorKey = Array<string | number>;
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+export function encodeCursor(key: CursorKey): PageCursor {
+  const bytes = new TextEncoder().encode(JSON.stringify(key));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decode a cursor, returning null if it is malformed (e.g. edited by hand in the URL)
+ */
+export function decodeCursor(cursor: PageCursor | undefined): CursorKey | null {
+  if (!cursor) return null;
+  try {
+    const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+    const key = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+    return Array.isArray(key) && key.every(value => typeof value === "string" || typeof value === "number") ? key : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Fill in the page size and drop malformed cursors, so a bad URL falls back to the first page
+ */
+export function normalizePageRequest(request: PageRequest = {}): PageRequest & { pageSize: number } {
+  const pageSize = request.pageSize ?? DEFAULT_PAGE_SIZE;
+  if (decodeCursor(request.before)) {
+    return { before: request.before, pageSize };
+  }
+  return { after: decodeCursor(request.after) ? request.after : undefined, pageSize };
+}
+
+/**
+ * Compare two sort keys field by field, with an optional direction per field
+ * Strings compare by code unit (not locale) to match Firestore's ordering
+ */
+export function compareKeys(a: CursorKey, b: CursorKey, directions: Array<'asc' | 'desc'> = []): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    const result = a[i] < b[i] ? -1 : 1;
+    return directions[i] === 'desc' ? -result : result;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Build a page from fetched items, which must include one extra item beyond the page size to detect more pages
+ * For a previous-page request the items are in list order and the extra item is the first one
+ */
+export function toPage<T>(items: T[], getKey: (item: T) => CursorKey, request: PageRequest): Page<T> {
+  const { before, after, pageSize } = normalizePageRequest(request);
+  const hasMore = items.length > pageSize;
+  const pageItems = before
+    ? items.slice(Math.max(0, items.length - pageSize))
+    : items.slice(0, pageSize);
+  const hasNext = before ? true : hasMore;
+  const hasPrev = before ? hasMore : !!after;
+
+  return {
+    items: pageItems,
+    nextCursor: hasNext && pageItems.length > 0 ? encodeCursor(getKey(pageItems[pageItems.length - 1])) : null,
+    prevCursor: hasPrev && pageItems.length > 0 ? encodeCursor(getKey(pageItems[0])) : null,
+  };
+}
+
+/**
+ * Paginate a list that is already fully loaded and sorted by its key
+ */
+export function paginateSorted<T>(
+  items: T[],
+  getKey: (item: T) => CursorKey,
+  request: PageRequest,
+  directions: Array<'asc' | 'desc'> = []
+): Page<T> {
+  const normalized = normalizePageRequest(request);
+  const after = decodeCursor(normalized.after);
+  const before = decodeCursor(normalized.before);
+
+  if (before) {
+    const preceding = items.filter(item => compareKeys(getKey(item), before, directions) < 0);
+    return toPage(preceding.slice(Math.max(0, preceding.length - normalized.pageSize - 1)), getKey, normalized);
+  }
+  const following = after ? items.filter(item => compareKeys(getKey(item), after, directions) > 0) : items;
+  return toPage(following.slice(0, normalized.pageSize + 1), getKey, normalized);
+}
+
+/**
+ * Merge pages of the same request fetched from several queries (e.g. a player's solo and co-op runs) into one page
+ */
+export function mergePages<T extends { id: string }>(
+  pages: Page<T>[],
+  getKey: (item: T) => CursorKey,
+  request: PageRequest,
+  directions: Array<'asc' | 'desc'> = []
+): Page<T> {
+  const { before, after, pageSize } = normalizePageRequest(request);
+  const itemsById = new Map<string, T>();
+  pages.forEach(page => page.items.forEach(item => itemsById.set(item.id, item)));
+  const merged = Array.from(itemsById.values()).sort((a, b) => compareKeys(getKey(a), getKey(b), directions));
+
+  const pageItems = before ? merged.slice(Math.max(0, merged.length - pageSize)) : merged.slice(0, pageSize);
+  const hasNext = before ? true : merged.length > pageSize || pages.some(page => page.nextCursor !== null);
+  const hasPrev = before ? merged.length > pageSize || pages.some(page => page.prevCursor !== null) : !!after;
+
+  return {
+    items: pageItems,
+    nextCursor: hasNext && pageItems.length > 0 ? encodeCursor(getKey(pageItems[pageItems.length - 1])) : null,
+    prevCursor: hasPrev && pageItems.length > 0 ? encodeCursor(getKey(pageItems[0])) : null,
+  };
+}
@@ -1,127 +1,359 @@
-import { db } from "@/lib/firebase";
-import { collection, doc, getDoc, setDoc, updateDoc, deleteDoc, getDocs, query, where, orderBy, limit as firestoreLimit, deleteField, writeBatch, getDocsFromCache, getDocsFromServer, QueryConstraint, UpdateData, DocumentData, startAfter } from "firebase/firestore";
-import { Player, LeaderboardEntry, DownloadEntry, Category, Platform, Level, PointsConfig } from "@/types/database";
-import { calculatePoints, parseTimeToSeconds } from "@/lib/utils";
+import { auth, db } from "@/lib/firebase";
+import { collection, doc, getDoc, setDoc, updateDoc, deleteDoc, getDocs, query, where, orderBy, limit as firestoreLimit, deleteField, writeBatch, getDocsFromCache, getDocsFromServer, QueryConstraint, UpdateData, DocumentData, startAfter, endBefore, limitToLast, documentId, FieldPath, QueryDocumentSnapshot, runTransaction, Transaction, FieldValue, DocumentReference, getCountFromServer } from "firebase/firestore";
+import { Player, LeaderboardEntry, DownloadEntry, DownloadCategory, Category, CategoryVariable, Platform, Level, PointsConfig, PointsConfigVersion, PointsLedgerEntry, TimingMethod, Game, Page, PageRequest, PlayerRunFilters, Season, SeasonStanding, SeasonPlacement, AuditLogEntry, AuditLogFilters, RunRevision, TrashItem, TrashReason, MigrationStatus, MigrationChange } from "@/types/database";
+import { calculatePoints, calculatePointsBreakdown, getPointsConfigCached, getPrimaryTimingMethod, getTimeMs, matchesVariableFilters } from "@/lib/utils";
 import { 
   normalizeLeaderboardEntry, 
   validateLeaderboardEntry,
   normalizeCategoryId,
   normalizePlatformId,
   normalizeLevelId,
+  normalizeDisplayName,
 } from "@/lib/dataValidation";
+import { DEFAULT_GAME_ID, getActiveGameId, belongsToGame } from "./gameScope";
+import { CursorKey, decodeCursor, normalizePageRequest, paginateSorted, mergePages, toPage } from "./cursor";
+import { RunPoints, getLedgerChanges, getLedgerEntryId, sumLedger } from "./pointsLedger";
+import { createPointsConfigVersion } from "./pointsConfigHistory";
+import { getSeasonStandings, getSeasonStatus, sortSeasons, validateSeason } from "./seasons";
+import { AuditActor, AuditTarget, applyAuditUpdate, createAuditEntry, getRunAuditTarget, getTrashAuditTarget, matchesAuditFilters } from "./audit";
+import { createTrashItem, getRestoredRun, getTrashItemId } from "./trash";
+import { createRunRevision, getRunRevertUpdate, getRunRevisionSnapshot, sortRunRevisions } from "./runRevisions";
+import { getRunDuplicateKey } from "./runDuplicates";
+import { RunImportIndex } from "./runImport";
+import { MigrationRunOptions, MigrationRunResult, canRollbackMigration, getMigration, getMigrationChange, getMigrationId, getPendingPrerequisites, getSchemaVersion, hasMigrationFieldChanges } from "./migrations";
+import {
+  BACKUP_COLLECTIONS,
+  BackupArchive,
+  BackupCollectionDiff,
+  BackupCollections,
+  BackupDocument,
+  BackupRestoreOptions,
+  BackupRestoreProgress,
+  createBackupArchive,
+  getBackupDiff,
+} from "./backup";
+import { DEFAULT_WR_POINTS, DEFAULT_WR_RATIO_EXPONENT, ScoringContext, getBoardScoringContexts } from "@/lib/scoring";
+import {
+  PointsRecalculationPlan,
+  PointsRecalculationProgressHandler,
+  PointsRecalculationScope,
+  RunPointsChange,
+  getPlayerPointsChanges,
+  getRunPointsChange,
+} from "./pointsRecalculation";
 
 /**
- * Helper function to calculate ranks for a group of runs
- * Returns a map of run ID to rank (1-based)
- * Only non-obsolete runs are ranked (obsolete runs get undefined rank)
- * @param additionalRun - Optional run to include in ranking (useful when verifying a new run)
+ * The signed-in user taking an admin action
  */
-async function calculateRanksForGroup(
-  leaderboardType: 'regular' | 'individual-level' | 'community-golds',
-  categoryId: string,
-  platformId: string,
-  runType: 'solo' | 'co-op',
-  levelId?: string,
-  additionalRun?: LeaderboardEntry
-): Promise<Map<string, number>> {
-  if (!db) return new Map();
+function getCurrentActor(): AuditActor | undefined {
+  const user = auth?.currentUser;
+  return user ? { uid: user.uid, name: user.displayName || user.email || undefined } : undefined;
+}
+
+/**
+ * Record an admin action in the audit log
+ * The action has already happened, so a failed write (e.g. a non-admin editing their own run) is swallowed
+ */
+async function recordAuditEvent(
+  action: string,
+  target: AuditTarget,
+  before?: object | null,
+  after?: object | null,
+  details?: AuditLogEntry['details']
+): Promise<void> {
+  const actor = getCurrentActor();
+  if (!db || !actor) return;
+  try {
+    const entry = createAuditEntry(action, actor, target, before, after, details);
+    // The JSON round trip drops nested undefined values, which Firestore rejects
+    await setDoc(doc(collection(db, "auditLog")), JSON.parse(JSON.stringify({ ...entry, gameId: getActiveGameId() })));
+  } catch (error) {
+    // Audit entries are best effort
+  }
+}
+
+/**
+ * Firestore update data as plain values for the audit log: deleteField() removes the field, other sentinels are left out
+ */
+function getAuditUpdateValues(updateData: UpdateData<DocumentData>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  Object.entries(updateData).forEach(([field, value]) => {
+    if (value instanceof FieldValue) {
+      if (value.isEqual(deleteField())) values[field] = null;
+    } else {
+      values[field] = value;
+    }
+  });
+  return values;
+}
+
+/**
+ * Move a document to the trash in a batch: two writes, the trash item and the delete
+ */
+function trashInBatch(
+  batch: ReturnType<typeof writeBatch>,
+  type: TrashItem['type'],
+  snapshot: { id: string; ref: DocumentReference; data: () => DocumentData },
+  reason: TrashReason,
+  runIds?: string[]
+): void {
+  const { id, ...item } = createTrashItem(type, snapshot.id, snapshot.data() as TrashItem['data'], reason, getCurrentActor());
+  if (runIds && runIds.length > 0) item.runIds = runIds;
+  batch.set(doc(db!, "trash", id), item);
+  batch.delete(snapshot.ref);
+}
+
+
+/**
+ * Helper function to get the timing method a category ranks by
+ * Falls back to real time if the category can't be read
+ */
+async function getCategoryPrimaryTimingMethod(categoryId: string | undefined): Promise<TimingMethod> {
+  if (!db || !categoryId) return getPrimaryTimingMethod(null);
+  try {
+    const categoryDoc = await getDoc(doc(db, "categories", categoryId));
+    return getPrimaryTimingMethod(categoryDoc.exists() ? (categoryDoc.data() as Category) : null);
+  } catch (error) {
+    return getPrimaryTimingMethod(null);
+  }
+}
+
+/**
+ * A single leaderboard: runs are ranked against others with the same type, level, category, platform and run type
+ */
+interface LeaderboardBoard {
+  leaderboardType: 'regular' | 'individual-level' | 'community-golds';
+  categoryId: string;
+  platformId: string;
+  runType: 'solo' | 'co-op';
+  levelId?: string;
+}
+
+/**
+ * Helper function to get the board a run is ranked on
+ */
+function getRunBoard(run: Pick<LeaderboardEntry, 'leaderboardType' | 'category' | 'platform' | 'runType' | 'level'>): LeaderboardBoard {
+  const leaderboardType = run.leaderboardType || 'regular';
+  return {
+    leaderboardType,
+    categoryId: run.category || "",
+    platformId: run.platform || "",
+    runType: run.runType || 'solo',
+    levelId: leaderboardType !== 'regular' ? run.level : undefined,
+  };
+}
+
+function getBoardKey(board: LeaderboardBoard): string {
+  return `${board.leaderboardType}_${board.levelId || ''}_${board.categoryId}_${board.platformId}_${board.runType}`;
+}
+
+/**
+ * Helper function to get the key used to keep only the best run per player (or co-op pair) on a board
+ */
+function getPlayerBoardKey(run: LeaderboardEntry): string {
+  const playerId = run.playerId || run.playerName || "";
+  const player2Id = run.runType === 'co-op' ? (run.player2Name || "") : "";
+  return `${playerId}_${player2Id}_${run.category}_${run.platform}_${run.runType || 'solo'}_${run.leaderboardType || 'regular'}_${run.level || ''}`;
+}
+
+/**
+ * The verified runs on a board with the ranks and times they should have
+ */
+interface BoardRanking {
+  runs: LeaderboardEntry[];
+  rankMap: Map<string, number>; // Run ID to rank (1-based)
+  timeMsById: Map<string, number | undefined>;
+}
+
+/**
+ * Work out the ranks on a board without storing them
+ * Every verified run gets a numeric timeMs for the category's primary timing method, and the best
+ * non-obsolete run per player gets its board position as rank (other runs have no rank)
+ */
+async function getBoardRanking(board: LeaderboardBoard): Promise<BoardRanking> {
+  if (!db) return { runs: [], rankMap: new Map(), timeMsById: new Map() };
   
   const constraints: QueryConstraint[] = [
     where("verified", "==", true),
-    where("leaderboardType", "==", leaderboardType),
-    where("category", "==", categoryId),
-    where("platform", "==", platformId),
-    where("runType", "==", runType),
+    where("leaderboardType", "==", board.leaderboardType),
+    where("category", "==", board.categoryId),
+    where("platform", "==", board.platformId),
+    where("runType", "==", board.runType),
   ];
-  
-  if (leaderboardType !== 'regular' && levelId) {
-    constraints.push(where("level", "==", levelId));
+  if (board.leaderboardType !== 'regular' && board.levelId) {
+    constraints.push(where("level", "==", board.levelId));
   }
   
-  // Note: Firestore doesn't support ordering by time string directly
-  // We'll fetch more runs and sort them in memory to ensure we get the fastest ones
-  // For now, fetch up to 500 runs to ensure we capture all runs for accurate ranking
-  constraints.push(firestoreLimit(500));
+  const [boardSnapshot, primaryTimingMethod] = await Promise.all([
+    getDocs(query(collection(db, "leaderboardEntries"), ...constraints)),
+    getCategoryPrimaryTimingMethod(board.categoryId),
+  ]);
+  const boardRuns = boardSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry));
+  const timeMsById = new Map(boardRuns.map(run => [run.id, getTimeMs(run, primaryTimingMethod)]));
+  
+  // Walk the board fastest first so the first run seen per player is their best
+  const playerBestRuns = new Map<string, LeaderboardEntry>();
+  boardRuns
+    .filter(run => !run.isObsolete)
+    .sort((a, b) => (timeMsById.get(a.id) ?? Infinity) - (timeMsById.get(b.id) ?? Infinity))
+    .forEach(run => {
+      const playerKey = getPlayerBoardKey(run);
+      if (!playerBestRuns.has(playerKey)) {
+        playerBestRuns.set(playerKey, run);
+      }
+    });
   
-  const rankQuery = query(collection(db, "leaderboardEntries"), ...constraints);
-  const rankSnapshot = await getDocs(rankQuery);
+  const rankMap = new Map<string, number>();
+  Array.from(playerBestRuns.values()).forEach((run, index) => {
+    rankMap.set(run.id, index + 1);
+  });
   
-  // Filter out obsolete runs for ranking (only non-obsolete runs count for top 3)
-  const nonObsoleteRuns = rankSnapshot.docs
-    .map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry))
-    .filter(run => !run.isObsolete);
+  return { runs: boardRuns, rankMap, timeMsById };
+}
+
+/**
+ * Recalculate and store the ranks on a board
+ * Leaderboards are a single query ordered by rank or timeMs, so this must run whenever a run
+ * on the board is verified, edited, deleted or marked obsolete
+ * Returns the board's ranking
+ */
+async function updateBoardRanks(board: LeaderboardBoard): Promise<BoardRanking> {
+  if (!db) return { runs: [], rankMap: new Map(), timeMsById: new Map() };
+  const ranking = await getBoardRanking(board);
+  const { runs: boardRuns, rankMap, timeMsById } = ranking;
   
-  // Include additional run if provided and it matches the group criteria
-  if (additionalRun && !additionalRun.isObsolete && 
-      additionalRun.leaderboardType === leaderboardType &&
-      additionalRun.category === categoryId &&
-      additionalRun.platform === platformId &&
-      additionalRun.runType === runType &&
-      (leaderboardType === 'regular' || additionalRun.level === levelId)) {
-    // Check if run is already in the list (to avoid duplicates)
-    const exists = nonObsoleteRuns.some(r => r.id === additionalRun.id);
-    if (!exists) {
-      nonObsoleteRuns.push(additionalRun);
+  // Only write runs whose rank or time changed (Firestore batch limit is 500)
+  const MAX_BATCH_SIZE = 500;
+  let batch = writeBatch(db);
+  let batchCount = 0;
+  for (const run of boardRuns) {
+    const rank = rankMap.get(run.id);
+    const timeMs = timeMsById.get(run.id);
+    if (run.rank === rank && run.timeMs === timeMs) continue;
+    
+    batch.update(doc(db, "leaderboardEntries", run.id), {
+      rank: rank ?? deleteField(),
+      timeMs: timeMs ?? deleteField(),
+    });
+    batchCount++;
+    if (batchCount >= MAX_BATCH_SIZE) {
+      await batch.commit();
+      batch = writeBatch(db);
+      batchCount = 0;
     }
   }
+  if (batchCount > 0) {
+    await batch.commit();
+  }
   
-  // Filter to best time per player (matching leaderboard display logic)
-  // Group by player(s) and keep only the fastest run per player combination
-  const playerBestRuns = new Map<string, LeaderboardEntry>();
+  return ranking;
+}
+
+/**
+ * Where each run on a ranked board stands, for time-relative scoring
+ */
+function getRankingScoringContexts({ runs, rankMap, timeMsById }: BoardRanking): Map<string, ScoringContext> {
+  return getBoardScoringContexts(runs.map(run => ({
+    id: run.id,
+    category: run.category,
+    rank: rankMap.get(run.id),
+    timeMs: timeMsById.get(run.id),
+  })));
+}
+
+/**
+ * Re-rank every board that has verified runs, optionally only within one category
+ * Returns the number of boards updated
+ */
+async function updateAllBoardRanks(categoryId?: string): Promise<number> {
+  if (!db) return 0;
   
-  for (const run of nonObsoleteRuns) {
-    // Create a key for grouping (player(s), category, platform, runType, leaderboardType, level)
-    // For co-op runs, include both players in the key
-    const playerId = run.playerId || run.playerName || "";
-    const player2Id = run.runType === 'co-op' ? (run.player2Name || "") : "";
-    const groupKey = `${playerId}_${player2Id}_${run.category}_${run.platform}_${run.runType || 'solo'}_${run.leaderboardType || 'regular'}_${run.level || ''}`;
-    
-    const existing = playerBestRuns.get(groupKey);
-    if (!existing) {
-      playerBestRuns.set(groupKey, run);
-    } else {
-      // Compare times - keep the faster one
-      const existingTime = parseTimeToSeconds(existing.time) || Infinity;
-      const currentTime = parseTimeToSeconds(run.time) || Infinity;
-      if (currentTime < existingTime) {
-        playerBestRuns.set(groupKey, run);
-      }
-    }
+  const constraints: QueryConstraint[] = [where("verified", "==", true)];
+  if (categoryId) {
+    constraints.push(where("category", "==", categoryId));
   }
+  const querySnapshot = await getDocs(query(collection(db, "leaderboardEntries"), ...constraints));
   
-  // Get the best runs per player
-  const bestRuns = Array.from(playerBestRuns.values());
+  const boards = new Map<string, LeaderboardBoard>();
+  querySnapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry))
+    .filter(run => categoryId || belongsToGame(run))
+    .forEach(run => {
+      const board = getRunBoard(run);
+      boards.set(getBoardKey(board), board);
+    });
   
-  // Sort by time
-  bestRuns.sort((a, b) => {
-    const timeA = parseTimeToSeconds(a.time);
-    const timeB = parseTimeToSeconds(b.time);
-    return timeA - timeB;
-  });
+  for (const board of boards.values()) {
+    await updateBoardRanks(board);
+  }
+  return boards.size;
+}
+
+/**
+ * Fetch one page of a query ordered by the given fields (the last one must make the order unique, e.g. the document ID)
+ * Documents failing the filter are skipped and more are fetched until the page is full,
+ * so client-side checks like the active game don't leave pages short
+ */
+async function getCursorPage<T>(
+  collectionName: string,
+  baseConstraints: QueryConstraint[],
+  order: Array<[string | FieldPath, 'asc' | 'desc']>,
+  toItem: (doc: QueryDocumentSnapshot) => T,
+  getKey: (item: T) => CursorKey,
+  request: PageRequest,
+  filter: (item: T) => boolean = () => true
+): Promise<Page<T>> {
+  const normalized = normalizePageRequest(request);
+  const isPrevPage = !!normalized.before;
+  const orderConstraints = order.map(([field, direction]) => orderBy(field, direction));
+  let cursor = decodeCursor(isPrevPage ? normalized.before : normalized.after);
+  const items: T[] = [];
   
-  // Create rank map (1-based) - only rank the best run per player
-  const rankMap = new Map<string, number>();
-  bestRuns.forEach((run, index) => {
-    rankMap.set(run.id, index + 1);
-  });
+  while (items.length <= normalized.pageSize) {
+    const constraints = [...baseConstraints, ...orderConstraints];
+    if (cursor) {
+      constraints.push(isPrevPage ? endBefore(...cursor) : startAfter(...cursor));
+    }
+    constraints.push(isPrevPage ? limitToLast(normalized.pageSize + 1) : firestoreLimit(normalized.pageSize + 1));
+    
+    const snapshot = await getDocs(query(collection(db, collectionName), ...constraints));
+    const batch = snapshot.docs.map(toItem);
+    const matching = batch.filter(filter);
+    if (isPrevPage) {
+      items.unshift(...matching);
+    } else {
+      items.push(...matching);
+    }
+    
+    // A short batch means the start or end of the list was reached
+    if (batch.length <= normalized.pageSize) break;
+    cursor = getKey(isPrevPage ? batch[0] : batch[batch.length - 1]);
+  }
   
-  return rankMap;
+  return toPage(items, getKey, normalized);
 }
 
+// Most runs read when a board is walked in time order (including obsolete runs or filtering by subcategory/variables)
+const MAX_TIME_ORDERED_RUNS = 2000;
+
 /**
  * Get leaderboard entries with optimized Firestore queries and SRC integration
  * Uses proper indexing and data validation utilities
+ * Without a page request the first 200 entries are returned
  */
-export const getLeaderboardEntriesFirestore = async (
+async function queryLeaderboardEntries(
   categoryId?: string,
   platformId?: string,
   runType?: 'solo' | 'co-op',
   includeObsolete?: boolean,
   leaderboardType?: 'regular' | 'individual-level' | 'community-golds',
   levelId?: string,
-  subcategoryId?: string
-): Promise<LeaderboardEntry[]> => {
-  if (!db) return [];
+  subcategoryId?: string,
+  variableFilters?: Record<string, string>,
+  page?: PageRequest
+): Promise<Page<LeaderboardEntry>> {
+  const emptyPage: Page<LeaderboardEntry> = { items: [], nextCursor: null, prevCursor: null };
+  if (!db) return emptyPage;
   
   try {
     // Normalize inputs using data validation utilities
@@ -163,16 +395,43 @@ export const getLeaderboardEntriesFirestore = async (
         constraintList.push(where("runType", "==", runType));
       }
       
-      // Add subcategory filter (only for regular leaderboard type)
-      // Note: We filter client-side for subcategory to handle "all" and undefined cases
+      // Add subcategory/variable filters (only for regular leaderboard type)
+      // Note: We filter client-side for subcategory and variables to handle "all" and undefined cases
       // Firestore queries don't support OR conditions easily, so we'll filter after fetching
     };
 
     // All leaderboard types now work the same way - query directly by leaderboardType
     // IL runs all have leaderboardType === 'individual-level' set correctly
-    const fetchLimit = 500;
     addSharedFilters(constraints);
-    constraints.push(firestoreLimit(fetchLimit));
+    
+    // Boards are ordered by Firestore using the rank and timeMs fields kept up to date by updateBoardRanks
+    // A whole board without client-side filters reads the stored ranks directly; anything else
+    // (obsolete runs, subcategory/variable filters) walks the board in time order
+    const hasClientFilters = leaderboardType === 'regular' && (
+      !!subcategoryId || Object.values(variableFilters || {}).some(value => value && value !== 'all')
+    );
+    const isWholeBoard = !!leaderboardType && !!normalizedCategoryId && !!normalizedPlatformId && !!runType &&
+      (leaderboardType === 'regular' || !!normalizedLevelId);
+    const useStoredRanks = isWholeBoard && !includeObsolete && !hasClientFilters;
+    const pageRequest = page ? normalizePageRequest(page) : undefined;
+    if (useStoredRanks && pageRequest) {
+      // Ranks are unique on a board, so the rank alone is the page cursor
+      constraints.push(orderBy("rank"));
+      if (pageRequest.before) {
+        constraints.push(endBefore(...decodeCursor(pageRequest.before)!), limitToLast(pageRequest.pageSize + 1));
+      } else {
+        if (pageRequest.after) {
+          constraints.push(startAfter(...decodeCursor(pageRequest.after)!));
+        }
+        constraints.push(firestoreLimit(pageRequest.pageSize + 1));
+      }
+    } else if (useStoredRanks) {
+      constraints.push(orderBy("rank"), firestoreLimit(200));
+    } else {
+      // Boards are walked fastest first, so the limit only drops runs far down very large boards
+      constraints.push(orderBy("timeMs"), firestoreLimit(MAX_TIME_ORDERED_RUNS));
+    }
+    
     // Fetch levels BEFORE filtering to check disabled categories
     const levelsSnapshot = await getDocs(collection(db, "levels"));
     const levels = levelsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Level));
@@ -198,6 +457,11 @@ export const getLeaderboardEntriesFirestore = async (
         } as LeaderboardEntry;
       })
       .filter(entry => {
+        // Only show runs from the active game
+        if (!belongsToGame(entry)) {
+          return false;
+        }
+        
         // Validate entry
         const validation = validateLeaderboardEntry(entry);
         if (!validation.valid) {
@@ -283,6 +547,12 @@ export const getLeaderboardEntriesFirestore = async (
           }
         }
         
+        // Filter by variable values (client-side, any combination of variables)
+        // Runs without a value for a filtered variable only match "__none__"
+        if (leaderboardType === 'regular' && !matchesVariableFilters(entry, variableFilters)) {
+          return false;
+        }
+        
         // Check if category is disabled for this level (for ILs and Community Golds)
         // Only check if we have a category ID (not just SRC name)
         if (normalizedLevelId && selectedLevelData && (leaderboardType === 'individual-level' || leaderboardType === 'community-golds')) {
@@ -298,18 +568,7 @@ export const getLeaderboardEntriesFirestore = async (
         return true;
       });
 
-    // Sort by time in ascending order (fastest times first)
-    // Use parseTimeToSeconds utility for consistent time parsing
-    const sortByTime = (entries: LeaderboardEntry[]) => {
-      return entries
-        .map(entry => ({
-          entry,
-          totalSeconds: parseTimeToSeconds(entry.time) || Infinity
-        }))
-        .sort((a, b) => a.totalSeconds - b.totalSeconds)
-        .map(item => item.entry);
-    };
-    
+    // Entries arrive fastest first (ordered by rank or timeMs), so order is preserved below
     // Filter obsolete runs: if not including obsolete, only show best time per player
     // If including obsolete, show all runs but separate them
     let nonObsoleteEntries: LeaderboardEntry[] = [];
@@ -317,28 +576,15 @@ export const getLeaderboardEntriesFirestore = async (
     
     if (!includeObsolete) {
       // Only show best (non-obsolete) time per player
-      // Group by player(s) and keep only the fastest run per player combination
+      // The first run seen for each player (or co-op pair) is their fastest
       const playerBestRuns = new Map<string, LeaderboardEntry>();
       
       for (const entry of entries) {
         if (entry.isObsolete) continue; // Skip obsolete runs when not including them
         
-        // Create a key for grouping (player(s), category, platform, runType, leaderboardType, level)
-        // For co-op runs, include both players in the key
-        const playerId = entry.playerId || entry.playerName || "";
-        const player2Id = entry.runType === 'co-op' ? (entry.player2Name || "") : "";
-        const groupKey = `${playerId}_${player2Id}_${entry.category}_${entry.platform}_${entry.runType || 'solo'}_${entry.leaderboardType || 'regular'}_${entry.level || ''}`;
-        
-        const existing = playerBestRuns.get(groupKey);
-        if (!existing) {
+        const groupKey = getPlayerBoardKey(entry);
+        if (!playerBestRuns.has(groupKey)) {
           playerBestRuns.set(groupKey, entry);
-        } else {
-          // Compare times - keep the faster one
-          const existingTime = parseTimeToSeconds(existing.time) || Infinity;
-          const currentTime = parseTimeToSeconds(entry.time) || Infinity;
-          if (currentTime < existingTime) {
-            playerBestRuns.set(groupKey, entry);
-          }
         }
       }
       
@@ -349,9 +595,6 @@ export const getLeaderboardEntriesFirestore = async (
       obsoleteEntries = entries.filter(e => e.isObsolete === true);
     }
     
-    const sortedNonObsolete = sortByTime(nonObsoleteEntries);
-    const sortedObsolete = sortByTime(obsoleteEntries);
-    
     // Clean up temporary fields used for filtering
     const cleanupEntry = (entry: any): LeaderboardEntry => {
       const { _originalLeaderboardType, _originalLevel, ...cleanedEntry } = entry;
@@ -360,21 +603,29 @@ export const getLeaderboardEntriesFirestore = async (
     
     // Assign ranks: non-obsolete runs get sequential ranks starting from 1
     // Obsolete runs get ranks that continue from non-obsolete runs
-    sortedNonObsolete.forEach((entry, index) => {
-      entry.rank = index + 1;
-    });
-    
-    sortedObsolete.forEach((entry, index) => {
-      entry.rank = sortedNonObsolete.length + index + 1;
-    });
+    // Whole boards keep their stored ranks, which are already positions on the board
+    if (!useStoredRanks) {
+      nonObsoleteEntries.forEach((entry, index) => {
+        entry.rank = index + 1;
+      });
+      
+      obsoleteEntries.forEach((entry, index) => {
+        entry.rank = nonObsoleteEntries.length + index + 1;
+      });
+    }
     
-    // Combine: non-obsolete first, then obsolete (if including), limit to 200 for display
-    entries = includeObsolete 
-      ? [...sortedNonObsolete, ...sortedObsolete].slice(0, 200)
-      : sortedNonObsolete.slice(0, 200);
+    // Combine: non-obsolete first, then obsolete (if including)
+    // Pages are cut by rank: filtered boards are ranked above, so they are sliced here
+    const combinedEntries = includeObsolete ? [...nonObsoleteEntries, ...obsoleteEntries] : nonObsoleteEntries;
+    const getRankKey = (entry: LeaderboardEntry): CursorKey => [entry.rank ?? 0];
+    const entriesPage: Page<LeaderboardEntry> = !pageRequest
+      ? { items: combinedEntries.slice(0, 200), nextCursor: null, prevCursor: null }
+      : useStoredRanks
+        ? toPage(combinedEntries, getRankKey, pageRequest)
+        : paginateSorted(combinedEntries, getRankKey, pageRequest);
     
     // Clean up temporary fields before returning
-    entries = entries.map(cleanupEntry);
+    entries = entriesPage.items.map(cleanupEntry);
 
     // Batch fetch all unique player IDs to avoid N+1 queries
     // Only fetch players for claimed runs (not imported/unclaimed)
@@ -503,10 +754,41 @@ export const getLeaderboardEntriesFirestore = async (
       return entry;
     });
 
-    return enrichedEntries;
+    return { ...entriesPage, items: enrichedEntries };
   } catch (error) {
-    return [];
+    return emptyPage;
   }
+}
+
+export const getLeaderboardEntriesFirestore = async (
+  categoryId?: string,
+  platformId?: string,
+  runType?: 'solo' | 'co-op',
+  includeObsolete?: boolean,
+  leaderboardType?: 'regular' | 'individual-level' | 'community-golds',
+  levelId?: string,
+  subcategoryId?: string,
+  variableFilters?: Record<string, string>
+): Promise<LeaderboardEntry[]> => {
+  const { items } = await queryLeaderboardEntries(categoryId, platformId, runType, includeObsolete, leaderboardType, levelId, subcategoryId, variableFilters);
+  return items;
+};
+
+/**
+ * Get one page of a leaderboard, with the rank of the first/last entry as cursors
+ */
+export const getLeaderboardPageFirestore = async (
+  categoryId?: string,
+  platformId?: string,
+  runType?: 'solo' | 'co-op',
+  includeObsolete?: boolean,
+  leaderboardType?: 'regular' | 'individual-level' | 'community-golds',
+  levelId?: string,
+  subcategoryId?: string,
+  variableFilters?: Record<string, string>,
+  page: PageRequest = {}
+): Promise<Page<LeaderboardEntry>> => {
+  return queryLeaderboardEntries(categoryId, platformId, runType, includeObsolete, leaderboardType, levelId, subcategoryId, variableFilters, page);
 };
 
 export const addLeaderboardEntryFirestore = async (entry: Omit<LeaderboardEntry, 'id' | 'rank' | 'isObsolete'> & { verified?: boolean }): Promise<string | null> => {
@@ -562,6 +844,7 @@ export const addLeaderboardEntryFirestore = async (entry: Omit<LeaderboardEntry,
     
     const newEntry: Partial<LeaderboardEntry> & DocumentData = { 
       id: newDocRef.id, 
+      gameId: normalized.gameId || getActiveGameId(),
       playerId: normalized.playerId || entry.playerId,
       playerName: normalized.playerName,
       // For imported runs, category/platform can be empty strings - save them anyway
@@ -573,12 +856,16 @@ export const addLeaderboardEntryFirestore = async (entry: Omit<LeaderboardEntry,
       date: normalized.date,
       verified: normalized.verified ?? false, 
       isObsolete: false,
+      schemaVersion: getSchemaVersion('leaderboardEntries'),
     };
     
     // Only include optional fields if they have values
     if (normalized.player2Name) {
       newEntry.player2Name = normalized.player2Name;
     }
+    if (normalized.player2Id) {
+      newEntry.player2Id = normalized.player2Id;
+    }
     if (normalized.level) {
       newEntry.level = normalized.level;
     }
@@ -620,6 +907,18 @@ export const addLeaderboardEntryFirestore = async (entry: Omit<LeaderboardEntry,
     if (normalized.srcPlayer2Name) {
       newEntry.srcPlayer2Name = normalized.srcPlayer2Name;
     }
+    // Save attached LiveSplit splits (file URL and parsed segments)
+    if (normalized.splitsUrl) {
+      newEntry.splitsUrl = normalized.splitsUrl;
+    }
+    if (normalized.splits) {
+      newEntry.splits = normalized.splits;
+      newEntry.hasSplits = true;
+    }
+    // Save per-timing-method times if the category records more than one method
+    if (normalized.times) {
+      newEntry.times = normalized.times;
+    }
     // Save subcategory info if present
     if (normalized.subcategory) {
       newEntry.subcategory = normalized.subcategory;
@@ -627,9 +926,21 @@ export const addLeaderboardEntryFirestore = async (entry: Omit<LeaderboardEntry,
     if (normalized.srcSubcategory) {
       newEntry.srcSubcategory = normalized.srcSubcategory;
     }
+    // Save variable values if present
+    if (normalized.variables) {
+      newEntry.variables = normalized.variables;
+    }
+    if (normalized.srcVariables) {
+      newEntry.srcVariables = normalized.srcVariables;
+    }
     
     await setDoc(newDocRef, newEntry);
     
+    // Runs added as verified (e.g. admin imports) go straight onto their board
+    if (newEntry.verified) {
+      await updateBoardRanks(getRunBoard(newEntry as LeaderboardEntry));
+    }
+    
     // NEW: Try to auto-assign the run if it's imported from SRC and unclaimed
     // This happens immediately when the run is added, before any manual claiming
     if (isImportedRun && (!newEntry.playerId || newEntry.playerId.trim() === "")) {
@@ -664,38 +975,130 @@ export const getPlayerByUidFirestore = async (uid: string): Promise<Player | nul
   }
 };
 
+/**
+ * Display names are indexed in the displayNames collection, keyed by the normalized name,
+ * so lookups are a single read and two players can never hold the same name
+ */
+const DISPLAY_NAMES_COLLECTION = "displayNames";
+
+function getDisplayNameDocId(displayName: string): string {
+  // Only what isn't a valid document ID is escaped, so firestore.rules can rebuild the ID from displayNameLower
+  return normalizeDisplayName(displayName)
+    .replace(/%/g, "%25")
+    .replace(/\//g, "%2F")
+    .replace(/^__/, "%5F%5F")
+    .replace(/^\./, "%2E");
+}
+
+/**
+ * Players with this name (case-insensitive) that may not be in the displayNames index yet
+ * Players saved before displayNameLower existed are matched on their exact name until the players_v2 migration has run
+ */
+async function getUnindexedPlayersByDisplayName(displayName: string): Promise<Player[]> {
+  if (!db) return [];
+  const [lowerSnapshot, exactSnapshot] = await Promise.all([
+    getDocs(query(collection(db, "players"), where("displayNameLower", "==", normalizeDisplayName(displayName)), firestoreLimit(2))),
+    getDocs(query(collection(db, "players"), where("displayName", "==", displayName.trim()), firestoreLimit(2))),
+  ]);
+  const players = new Map<string, Player>();
+  [...lowerSnapshot.docs, ...exactSnapshot.docs].forEach(playerDoc => {
+    players.set(playerDoc.id, { id: playerDoc.id, ...playerDoc.data() } as Player);
+  });
+  return [...players.values()];
+}
+
+/**
+ * Reserve a display name for a player, save it on their player document and release their previous name, in one transaction
+ * firestore.rules only let players reserve the name their own player document holds after the write, so both are written together
+ * @param player - The player document to save the name on; with `create`, `data` is written as a new document
+ * Returns false if the name is held by another player
+ */
+async function reserveDisplayName(
+  uid: string,
+  displayName: string,
+  previousDisplayName?: string,
+  player: { id: string; data?: DocumentData; create?: boolean } = { id: uid }
+): Promise<boolean> {
+  if (!db) return false;
+  return runTransaction(db, transaction => reserveDisplayNameInTransaction(transaction, uid, displayName, previousDisplayName, player));
+}
+
+/**
+ * reserveDisplayName as part of a larger transaction
+ * It reads before writing, so it must come after the transaction's other reads and before its other writes
+ */
+async function reserveDisplayNameInTransaction(
+  transaction: Transaction,
+  uid: string,
+  displayName: string,
+  previousDisplayName?: string,
+  player: { id: string; data?: DocumentData; create?: boolean } = { id: uid }
+): Promise<boolean> {
+  const firestore = db!;
+  const nameDocRef = doc(firestore, DISPLAY_NAMES_COLLECTION, getDisplayNameDocId(displayName));
+  const previousDocRef = previousDisplayName && normalizeDisplayName(previousDisplayName) !== normalizeDisplayName(displayName)
+    ? doc(firestore, DISPLAY_NAMES_COLLECTION, getDisplayNameDocId(previousDisplayName))
+    : null;
+  const playerDocRef = doc(firestore, "players", player.id);
+  const nameFields = {
+    displayName: displayName.trim(),
+    displayNameLower: normalizeDisplayName(displayName),
+  };
+  
+  const nameDoc = await transaction.get(nameDocRef);
+  const previousDoc = previousDocRef ? await transaction.get(previousDocRef) : null;
+  if (nameDoc.exists() && nameDoc.data().uid !== uid) {
+    return false;
+  }
+  // A free name may still be used by a player who joined before the index
+  if (!nameDoc.exists()) {
+    const unindexedPlayers = await getUnindexedPlayersByDisplayName(displayName);
+    if (unindexedPlayers.some(candidate => (candidate.uid || candidate.id) !== uid)) {
+      return false;
+    }
+  }
+  
+  transaction.set(nameDocRef, { uid, ...nameFields });
+  if (player.create) {
+    transaction.set(playerDocRef, { ...player.data, ...nameFields });
+  } else {
+    transaction.update(playerDocRef, { ...player.data, ...nameFields });
+  }
+  if (previousDocRef && previousDoc?.exists() && previousDoc.data().uid === uid) {
+    transaction.delete(previousDocRef);
+  }
+  return true;
+}
+
+/**
+ * Release a player's display name, e.g. when the player is deleted
+ */
+async function releaseDisplayName(uid: string, displayName: string): Promise<void> {
+  if (!db || !normalizeDisplayName(displayName)) return;
+  const nameDocRef = doc(db, DISPLAY_NAMES_COLLECTION, getDisplayNameDocId(displayName));
+  const nameDoc = await getDoc(nameDocRef);
+  if (nameDoc.exists() && nameDoc.data().uid === uid) {
+    await deleteDoc(nameDocRef);
+  }
+}
+
+/**
+ * Find a player by display name (case-insensitive)
+ */
 export const getPlayerByDisplayNameFirestore = async (displayName: string): Promise<Player | null> => {
   if (!db) return null;
   try {
-    // Try direct lookup by displayName (indexed query)
-    const normalizedDisplayName = displayName.trim();
-    const q = query(
-      collection(db, "players"),
-      where("displayName", "==", normalizedDisplayName),
-      firestoreLimit(1)
-    );
-    const querySnapshot = await getDocs(q);
+    const normalizedDisplayName = normalizeDisplayName(displayName);
+    if (!normalizedDisplayName) return null;
     
-    if (!querySnapshot.empty) {
-      const doc = querySnapshot.docs[0];
-      return { id: doc.id, ...doc.data() } as Player;
+    const nameDoc = await getDoc(doc(db, DISPLAY_NAMES_COLLECTION, getDisplayNameDocId(displayName)));
+    if (nameDoc.exists()) {
+      return await getPlayerByUidFirestore(nameDoc.data().uid);
     }
     
-    // Fallback: search by email prefix (only if displayName query fails)
-    const allPlayersQuery = query(collection(db, "players"), firestoreLimit(500));
-    const allPlayersSnapshot = await getDocs(allPlayersQuery);
-    const normalizedSearch = normalizedDisplayName.toLowerCase();
-    
-    const player = allPlayersSnapshot.docs.find(doc => {
-      const data = doc.data();
-      const email = (data.email || "").toLowerCase();
-      return email.split('@')[0] === normalizedSearch;
-    });
-    
-    if (player) {
-      return { id: player.id, ...player.data() } as Player;
-    }
-    return null;
+    // Players that haven't been added to the index yet
+    const [player] = await getUnindexedPlayersByDisplayName(displayName);
+    return player || null;
   } catch (error) {
     
     return null;
@@ -704,27 +1107,20 @@ export const getPlayerByDisplayNameFirestore = async (displayName: string): Prom
 
 /**
  * Check if a display name is available (case-insensitive)
+ * A name held by currentUid counts as available, so players can keep or re-case their own name
  * Returns true if available, false if taken
  */
-export const isDisplayNameAvailableFirestore = async (displayName: string): Promise<boolean> => {
+export const isDisplayNameAvailableFirestore = async (displayName: string, currentUid?: string): Promise<boolean> => {
   if (!db || !displayName || !displayName.trim()) return false;
   try {
-    const normalizedDisplayName = displayName.trim().toLowerCase();
-    
-    // Get all players and check case-insensitive match
-    const allPlayersQuery = query(collection(db, "players"), firestoreLimit(1000));
-    const querySnapshot = await getDocs(allPlayersQuery);
-    
-    for (const doc of querySnapshot.docs) {
-      const player = doc.data() as Player;
-      const playerDisplayName = (player.displayName || "").trim().toLowerCase();
-      
-      if (playerDisplayName === normalizedDisplayName) {
-        return false; // Display name is taken
-      }
+    const nameDoc = await getDoc(doc(db, DISPLAY_NAMES_COLLECTION, getDisplayNameDocId(displayName)));
+    if (nameDoc.exists()) {
+      return nameDoc.data().uid === currentUid;
     }
     
-    return true; // Display name is available
+    // Players that haven't been added to the index yet
+    const unindexedPlayers = await getUnindexedPlayersByDisplayName(displayName);
+    return unindexedPlayers.every(player => (player.uid || player.id) === currentUid);
   } catch (error) {
     
     return false; // On error, assume not available to be safe
@@ -831,8 +1227,11 @@ export const runAutoclaimingForAllUsersFirestore = async (): Promise<{ totalUser
       }
     }
     
-    
-    
+    await recordAuditEvent("player.autoclaimAll", { type: 'player' }, null, null, {
+      totalUsers: result.totalUsers,
+      totalClaimed: result.totalClaimed,
+      errors: result.errors.length,
+    });
     return result;
   } catch (error) {
     
@@ -844,8 +1243,19 @@ export const runAutoclaimingForAllUsersFirestore = async (): Promise<{ totalUser
 export const createPlayerFirestore = async (player: Omit<Player, 'id'>): Promise<string | null> => {
   if (!db) return null;
   try {
-    const playerDocRef = doc(db, "players", player.uid);
-    await setDoc(playerDocRef, player);
+    const playerData = {
+      ...player,
+      displayNameLower: normalizeDisplayName(player.displayName),
+      schemaVersion: getSchemaVersion('players'),
+    };
+    
+    // The player is created with their display name reserved; uniqueness is enforced by the displayNames index
+    if (player.displayName && player.displayName.trim()) {
+      const reserved = await reserveDisplayName(player.uid, player.displayName, undefined, { id: player.uid, data: playerData, create: true });
+      return reserved ? player.uid : null;
+    }
+    
+    await setDoc(doc(db, "players", player.uid), playerData);
     return player.uid;
   } catch (error) {
     
@@ -1178,6 +1588,15 @@ export const updatePlayerProfileFirestore = async (uid: string, data: Partial<Pl
       }
     }
     
+    // Renames reserve the new display name and save it on the profile together
+    const isRename = data.displayName !== undefined && !!data.displayName.trim();
+    if (isRename && docSnap.exists()) {
+      const reserved = await reserveDisplayName(uid, data.displayName, (docSnap.data() as Player).displayName);
+      if (!reserved) return false;
+      updateData.displayName = data.displayName.trim();
+      updateData.displayNameLower = normalizeDisplayName(data.displayName);
+    }
+    
     if (docSnap.exists()) {
       await updateDoc(playerDocRef, updateData);
     } else {
@@ -1186,7 +1605,8 @@ export const updatePlayerProfileFirestore = async (uid: string, data: Partial<Pl
       // Build newPlayer object, only including bio/pronouns if they have values
       const newPlayer: Partial<Player> & DocumentData = {
         uid: uid,
-        displayName: data.displayName || "",
+        displayName: data.displayName?.trim() || "",
+        displayNameLower: normalizeDisplayName(data.displayName),
         email: data.email || "",
         joinDate: today,
         totalRuns: 0,
@@ -1215,7 +1635,12 @@ export const updatePlayerProfileFirestore = async (uid: string, data: Partial<Pl
         newPlayer.profilePicture = data.profilePicture;
       }
       
-      await setDoc(playerDocRef, newPlayer);
+      if (isRename) {
+        const reserved = await reserveDisplayName(uid, data.displayName, undefined, { id: uid, data: newPlayer, create: true });
+        if (!reserved) return false;
+      } else {
+        await setDoc(playerDocRef, newPlayer);
+      }
     }
     
     // Check if SRC username is being updated
@@ -1246,6 +1671,56 @@ export const updatePlayerProfileFirestore = async (uid: string, data: Partial<Pl
   }
 };
 
+/**
+ * Enrich runs with their players' current display names and colors (one lookup per player)
+ */
+async function enrichRunsWithPlayers(entries: LeaderboardEntry[]): Promise<LeaderboardEntry[]> {
+  // Batch fetch players instead of N+1 queries
+  const playerIds = new Set<string>();
+  entries.forEach(entry => {
+    playerIds.add(entry.playerId);
+  });
+
+  const playerMap = new Map<string, Player>();
+  if (playerIds.size > 0) {
+    const playerPromises = Array.from(playerIds).map(id => getPlayerByUidFirestore(id));
+    const players = await Promise.all(playerPromises);
+    players.forEach(player => {
+      if (player) {
+        playerMap.set(player.uid, player);
+        if (player.displayName) {
+          playerMap.set(player.displayName.toLowerCase(), player);
+        }
+      }
+    });
+  }
+
+  // Enrich entries with player data
+  return entries.map(entry => {
+    const player = playerMap.get(entry.playerId);
+    if (player) {
+      if (player.displayName) {
+        entry.playerName = player.displayName;
+      }
+      if (player.nameColor) {
+        entry.nameColor = player.nameColor;
+      }
+    }
+    
+    if (entry.player2Name && entry.runType === 'co-op') {
+      const player2 = playerMap.get(entry.player2Name.trim().toLowerCase());
+      if (player2) {
+        entry.player2Name = player2.displayName || entry.player2Name;
+        if (player2.nameColor) {
+          entry.player2Color = player2.nameColor;
+        }
+      }
+    }
+    
+    return entry;
+  });
+}
+
 export const getRecentRunsFirestore = async (limitCount: number = 10): Promise<LeaderboardEntry[]> => {
   if (!db) return [];
   try {
@@ -1262,66 +1737,39 @@ export const getRecentRunsFirestore = async (limitCount: number = 10): Promise<L
     
     let entries: LeaderboardEntry[] = querySnapshot.docs
       .map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry))
-      .filter(entry => !entry.isObsolete);
+      .filter(entry => !entry.isObsolete && belongsToGame(entry));
     
     entries = entries.slice(0, limitCount);
 
-    // Batch fetch players instead of N+1 queries
-    const playerIds = new Set<string>();
-    const player2Names = new Set<string>();
-    entries.forEach(entry => {
-      playerIds.add(entry.playerId);
-      if (entry.player2Name && entry.runType === 'co-op') {
-        player2Names.add(entry.player2Name.trim().toLowerCase());
-      }
-    });
-
-    const playerMap = new Map<string, Player>();
-    if (playerIds.size > 0) {
-      const playerPromises = Array.from(playerIds).map(id => getPlayerByUidFirestore(id));
-      const players = await Promise.all(playerPromises);
-      players.forEach(player => {
-        if (player) {
-          playerMap.set(player.uid, player);
-          if (player.displayName) {
-            playerMap.set(player.displayName.toLowerCase(), player);
-          }
-        }
-      });
-    }
-
-    // Enrich entries with player data
-    const enrichedEntries = entries.map(entry => {
-      const player = playerMap.get(entry.playerId);
-      if (player) {
-        if (player.displayName) {
-          entry.playerName = player.displayName;
-        }
-        if (player.nameColor) {
-          entry.nameColor = player.nameColor;
-        }
-      }
-      
-      if (entry.player2Name && entry.runType === 'co-op') {
-        const player2 = playerMap.get(entry.player2Name.trim().toLowerCase());
-        if (player2) {
-          entry.player2Name = player2.displayName || entry.player2Name;
-          if (player2.nameColor) {
-            entry.player2Color = player2.nameColor;
-          }
-        }
-      }
-      
-      return entry;
-    });
-
-    return enrichedEntries;
+    return await enrichRunsWithPlayers(entries);
   } catch (error) {
     
     return [];
   }
 };
 
+/**
+ * Get one page of recent verified runs, newest first
+ * The document ID breaks ties between runs on the same date so the order is stable across pages
+ */
+export const getRecentRunsPageFirestore = async (page: PageRequest = {}): Promise<Page<LeaderboardEntry>> => {
+  if (!db) return { items: [], nextCursor: null, prevCursor: null };
+  try {
+    const runsPage = await getCursorPage(
+      "leaderboardEntries",
+      [where("verified", "==", true)],
+      [["date", "desc"], [documentId(), "desc"]],
+      doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry),
+      run => [run.date, run.id],
+      page,
+      run => !run.isObsolete && belongsToGame(run)
+    );
+    return { ...runsPage, items: await enrichRunsWithPlayers(runsPage.items) };
+  } catch (error) {
+    return { items: [], nextCursor: null, prevCursor: null };
+  }
+};
+
 export const getPlayerRunsFirestore = async (playerId: string): Promise<LeaderboardEntry[]> => {
   if (!db) return [];
   try {
@@ -1377,68 +1825,15 @@ export const getPlayerRunsFirestore = async (playerId: string): Promise<Leaderbo
       return [];
     }
 
-    // Get unique leaderboardType/level/category/platform/runType combinations from player's runs
-    // This ensures we calculate ranks correctly for regular, individual-level, and community-golds separately
-    const combinations = new Set<string>();
-    entries.forEach(entry => {
-      const leaderboardType = entry.leaderboardType || 'regular';
-      const level = entry.level || '';
-      const key = `${leaderboardType}_${level}_${entry.category}_${entry.platform}_${entry.runType || 'solo'}`;
-      combinations.add(key);
-    });
-
-    // Create a map to store ranks for each combination using calculateRanksForGroup
-    const rankMap = new Map<string, Map<string, number>>(); // combination -> runId -> rank
-
-    // Calculate ranks for each unique combination using the proper helper function
-    for (const comboKey of combinations) {
-      const parts = comboKey.split('_');
-      const leaderboardType = parts[0] as 'regular' | 'individual-level' | 'community-golds';
-      const level = parts[1] || undefined;
-      const categoryId = parts[2]!;
-      const platformId = parts[3]!;
-      const runType = (parts[4] || 'solo') as 'solo' | 'co-op';
-      
-      // Use calculateRanksForGroup to get accurate ranks from all verified runs in this group
-      const groupRankMap = await calculateRanksForGroup(
-        leaderboardType,
-        categoryId,
-        platformId,
-        runType,
-        level
-      );
-      
-      rankMap.set(comboKey, groupRankMap);
-    }
-
     // Enrich with player display name and color
-    const playerData = await getPlayerByUidFirestore(playerId);
+    // Ranks are stored on each player's best run per board, so they match the leaderboards
     return entries.map(entry => {
-      if (playerData) {
-        if (playerData.displayName) {
-          entry.playerName = playerData.displayName;
-        }
-        if (playerData.nameColor) {
-          entry.nameColor = playerData.nameColor;
-        }
+      if (player.displayName) {
+        entry.playerName = player.displayName;
       }
-      
-      // Assign rank based on the combination (including leaderboardType and level)
-      const leaderboardType = entry.leaderboardType || 'regular';
-      const level = entry.level || '';
-      const comboKey = `${leaderboardType}_${level}_${entry.category}_${entry.platform}_${entry.runType || 'solo'}`;
-      const comboRankMap = rankMap.get(comboKey);
-      if (comboRankMap) {
-        const calculatedRank = comboRankMap.get(entry.id);
-        // Show all calculated ranks (not just 1-3) for display on player profiles
-        // This ensures ranks match what's shown on leaderboards
-        if (calculatedRank !== undefined && calculatedRank >= 1) {
-          entry.rank = calculatedRank;
-        } else {
-          entry.rank = undefined;
-        }
+      if (player.nameColor) {
+        entry.nameColor = player.nameColor;
       }
-      
       return entry;
     });
   } catch (error) {
@@ -1446,6 +1841,78 @@ export const getPlayerRunsFirestore = async (playerId: string): Promise<Leaderbo
   }
 };
 
+/**
+ * Get one page of a player's verified runs (including co-op runs as player 2), newest first
+ * Filters are applied in the query so every page is full
+ */
+export const getPlayerRunsPageFirestore = async (
+  playerId: string,
+  filters: PlayerRunFilters = {},
+  page: PageRequest = {}
+): Promise<Page<LeaderboardEntry>> => {
+  const emptyPage: Page<LeaderboardEntry> = { items: [], nextCursor: null, prevCursor: null };
+  if (!db) return emptyPage;
+  try {
+    const player = await getPlayerByUidFirestore(playerId);
+    if (!player) {
+      return emptyPage;
+    }
+    
+    const filterConstraints: QueryConstraint[] = [where("verified", "==", true)];
+    if (filters.leaderboardType) {
+      filterConstraints.push(where("leaderboardType", "==", filters.leaderboardType));
+    }
+    if (filters.levelId && filters.leaderboardType && filters.leaderboardType !== 'regular') {
+      filterConstraints.push(where("level", "==", filters.levelId));
+    }
+    if (filters.categoryId) {
+      filterConstraints.push(where("category", "==", filters.categoryId));
+    }
+    if (filters.platformId) {
+      filterConstraints.push(where("platform", "==", filters.platformId));
+    }
+    if (filters.subcategoryId && filters.leaderboardType === 'regular') {
+      filterConstraints.push(where("subcategory", "==", filters.subcategoryId));
+    }
+    
+    const order: Array<[string | FieldPath, 'asc' | 'desc']> = [["date", "desc"], [documentId(), "desc"]];
+    const toRun = (doc: QueryDocumentSnapshot) => ({ id: doc.id, ...doc.data() } as LeaderboardEntry);
+    const getKey = (run: LeaderboardEntry): CursorKey => [run.date, run.id];
+    const isCurrent = (run: LeaderboardEntry) => !run.isObsolete;
+    
+    // Runs as player 1, and co-op runs where this player is player 2, fetched with the same cursor and merged
+    const pages = await Promise.all([
+      getCursorPage(
+        "leaderboardEntries",
+        [where("playerId", "==", playerId), ...filterConstraints, ...(filters.runType ? [where("runType", "==", filters.runType)] : [])],
+        order, toRun, getKey, page, isCurrent
+      ),
+      filters.runType === 'solo' ? Promise.resolve(emptyPage) : getCursorPage(
+        "leaderboardEntries",
+        [where("player2Id", "==", playerId), ...filterConstraints, where("runType", "==", "co-op")],
+        order, toRun, getKey, page, isCurrent
+      ),
+    ]);
+    const runsPage = mergePages(pages, getKey, page, ['desc', 'desc']);
+    
+    // Ranks are stored on each player's best run per board, so they match the leaderboards
+    return {
+      ...runsPage,
+      items: runsPage.items.map(entry => {
+        if (player.displayName) {
+          entry.playerName = player.displayName;
+        }
+        if (player.nameColor) {
+          entry.nameColor = player.nameColor;
+        }
+        return entry;
+      }),
+    };
+  } catch (error) {
+    return emptyPage;
+  }
+};
+
 export const getPlayerPendingRunsFirestore = async (playerId: string): Promise<LeaderboardEntry[]> => {
   if (!db) {
     
@@ -1504,7 +1971,9 @@ export const getUnverifiedLeaderboardEntriesFirestore = async (): Promise<Leader
       firestoreLimit(100)
     );
     const querySnapshot = await getDocs(q);
-    const entries = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry));
+    const entries = querySnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry))
+      .filter(entry => belongsToGame(entry));
     
     // Enrich entries with player display names and colors
     const enrichedEntries = await Promise.all(entries.map(entry => enrichEntryWithPlayerData(entry)));
@@ -1521,35 +1990,9 @@ export const getLeaderboardEntryByIdFirestore = async (runId: string): Promise<L
     const runDocRef = doc(db, "leaderboardEntries", runId);
     const runDocSnap = await getDoc(runDocRef);
     if (runDocSnap.exists()) {
+      // The stored rank is kept up to date by updateBoardRanks, so it matches the leaderboards
       const entry = { id: runDocSnap.id, ...runDocSnap.data() } as LeaderboardEntry;
       
-      // Calculate rank if the run is verified using calculateRanksForGroup for accuracy
-      if (entry.verified && !entry.isObsolete) {
-        try {
-          const leaderboardType = entry.leaderboardType || 'regular';
-          const rankMap = await calculateRanksForGroup(
-            leaderboardType,
-            entry.category,
-            entry.platform,
-            (entry.runType || 'solo') as 'solo' | 'co-op',
-            entry.level,
-            entry
-          );
-          
-          const calculatedRank = rankMap.get(entry.id);
-          // Show all calculated ranks (not just 1-3) for display on run pages
-          // This ensures ranks match what's shown on leaderboards
-          if (calculatedRank !== undefined && calculatedRank >= 1) {
-            entry.rank = calculatedRank;
-          } else {
-            entry.rank = undefined;
-          }
-        } catch (error) {
-          // Silent fail - rank will remain undefined
-          
-        }
-      }
-      
       // Enrich with player display names and colors
       try {
         return await enrichEntryWithPlayerData(entry);
@@ -1564,7 +2007,47 @@ export const getLeaderboardEntryByIdFirestore = async (runId: string): Promise<L
   }
 };
 
-export const updateLeaderboardEntryFirestore = async (runId: string, data: Partial<LeaderboardEntry>): Promise<boolean> => {
+/**
+ * Record an edit of a run as its next revision
+ * The revision number is taken from the run's revisionCount in a transaction, so concurrent edits never share one.
+ * The edit has already been saved, so a failed write is swallowed like audit entries
+ */
+async function recordRunRevision(runId: string, before: object, after: object, revertedTo?: number): Promise<void> {
+  if (!db) return;
+  const firestore = db;
+  try {
+    // Anyone can read revisions, so the editor's email isn't used as their name
+    const user = auth?.currentUser;
+    const editor = user ? { uid: user.uid, name: user.displayName || undefined } : undefined;
+    const runDocRef = doc(firestore, "leaderboardEntries", runId);
+    
+    await runTransaction(firestore, async (transaction) => {
+      const runDoc = await transaction.get(runDocRef);
+      if (!runDoc.exists()) return;
+      let latestRevision = runDoc.data().revisionCount;
+      if (typeof latestRevision !== "number") {
+        // Runs edited before the counter existed continue from their stored revisions
+        const revisionsSnapshot = await getDocs(query(collection(firestore, "runRevisions"), where("runId", "==", runId)));
+        latestRevision = revisionsSnapshot.docs.reduce((latest, revisionDoc) => Math.max(latest, revisionDoc.data().revision || 0), 0);
+      }
+      
+      const runRevision = createRunRevision(runId, latestRevision + 1, before, after, editor, revertedTo);
+      if (!runRevision) return;
+      const { id, ...revisionData } = runRevision;
+      // The JSON round trip drops nested undefined values, which Firestore rejects
+      transaction.set(doc(firestore, "runRevisions", id), JSON.parse(JSON.stringify(revisionData)));
+      transaction.update(runDocRef, { revisionCount: runRevision.revision });
+    });
+  } catch (error) {
+    // Revisions are best effort
+  }
+}
+
+/**
+ * Update a run's fields (null removes a field), recording the edit as a revision
+ * @param revertedTo - Set when the update reverts the run to an earlier revision
+ */
+export const updateLeaderboardEntryFirestore = async (runId: string, data: Partial<LeaderboardEntry>, revertedTo?: number): Promise<boolean> => {
   if (!db) return false;
   try {
     const runDocRef = doc(db, "leaderboardEntries", runId);
@@ -1591,78 +2074,80 @@ export const updateLeaderboardEntryFirestore = async (runId: string, data: Parti
       }
     }
     
-    if (runData.verified && (data.time || data.category || data.platform)) {
-        // Get category and platform names for points calculation
-        const newCategoryId = data.category || runData.category;
-        const newPlatformId = data.platform || runData.platform;
-        const newTime = data.time || runData.time;
-        const newLeaderboardType = data.leaderboardType || runData.leaderboardType || 'regular';
-        const newLevel = data.level !== undefined ? data.level : runData.level;
-        
-        // For imported runs, use SRC fallback names if IDs are empty
-        let categoryName = runData.srcCategoryName || "Unknown";
-        let platformName = runData.srcPlatformName || "Unknown";
-        
-        // Try to fetch category/platform by ID if they exist
-        if (newCategoryId && newCategoryId.trim() !== "") {
-          try {
-            const categoryDocSnap = await getDoc(doc(db, "categories", newCategoryId));
-            if (categoryDocSnap?.exists()) {
-              categoryName = categoryDocSnap.data().name || categoryName;
-            }
-          } catch (error) {
-            // Use SRC fallback if fetch fails
-            
-          }
-        }
-        
-        if (newPlatformId && newPlatformId.trim() !== "") {
-          try {
-            const platformDocSnap = await getDoc(doc(db, "platforms", newPlatformId));
-            if (platformDocSnap?.exists()) {
-              platformName = platformDocSnap.data().name || platformName;
-            }
-          } catch (error) {
-            // Use SRC fallback if fetch fails
-            
+    await updateDoc(runDocRef, updateData);
+    const updatedFields = applyAuditUpdate(runData, data);
+    await recordRunRevision(runId, runData, updatedFields, revertedTo);
+    await recordAuditEvent(
+      revertedTo === undefined ? "run.update" : "run.revert",
+      getRunAuditTarget(runId, runData),
+      runData,
+      updatedFields,
+      revertedTo === undefined ? undefined : { revision: revertedTo }
+    );
+    
+    if (!runData.verified) {
+      return true;
+    }
+    
+    // Re-rank the run's board, and the board it left if it was moved
+    const updatedRun = { ...runData, ...data, id: runId } as LeaderboardEntry;
+    const previousBoard = getRunBoard(runData);
+    const newBoard = getRunBoard(updatedRun);
+    const boardChanged = getBoardKey(previousBoard) !== getBoardKey(newBoard);
+    if (!boardChanged && !data.time && !data.times && data.isObsolete === undefined) {
+      return true;
+    }
+    if (boardChanged) {
+      await updateBoardRanks(previousBoard);
+    }
+    const ranking = await updateBoardRanks(newBoard);
+    const rankMap = ranking.rankMap;
+    
+    // If time, category, or platform changed, recalculate points
+    if (data.time || data.times || data.category || data.platform) {
+      // For imported runs, use SRC fallback names if IDs are empty
+      let categoryName = runData.srcCategoryName || "Unknown";
+      let platformName = runData.srcPlatformName || "Unknown";
+      
+      // Try to fetch category/platform by ID if they exist
+      if (updatedRun.category && updatedRun.category.trim() !== "") {
+        try {
+          const categoryDocSnap = await getDoc(doc(db, "categories", updatedRun.category));
+          if (categoryDocSnap?.exists()) {
+            categoryName = categoryDocSnap.data().name || categoryName;
           }
+        } catch (error) {
+          // Use SRC fallback if fetch fails
         }
-      
-      // Calculate rank using helper function
-      const isObsolete = data.isObsolete !== undefined ? data.isObsolete : runData.isObsolete;
-      const rankMap = await calculateRanksForGroup(
-        newLeaderboardType,
-        newCategoryId,
-        newPlatformId,
-        (data.runType || runData.runType || 'solo') as 'solo' | 'co-op',
-        newLevel
-      );
-      
-      // Find the rank of this run
-      let rank: number | undefined = undefined;
-      if (!isObsolete) {
-        const calculatedRank = rankMap.get(runId);
-        rank = normalizeRank(calculatedRank);
       }
       
-      // Store rank in update data (only if rank is 1, 2, or 3 for bonus points)
-      if (rank !== undefined) {
-        updateData.rank = rank;
-      } else {
-        updateData.rank = deleteField(); // Remove rank if obsolete, not ranked, or rank > 3
+      if (updatedRun.platform && updatedRun.platform.trim() !== "") {
+        try {
+          const platformDocSnap = await getDoc(doc(db, "platforms", updatedRun.platform));
+          if (platformDocSnap?.exists()) {
+            platformName = platformDocSnap.data().name || platformName;
+          }
+        } catch (error) {
+          // Use SRC fallback if fetch fails
+        }
       }
       
-      // Calculate points with rank
-      const points = calculatePoints(
-        newTime, 
+      // Only ranks 1-3 earn bonus points
+      const rank = updatedRun.isObsolete ? undefined : normalizeRank(rankMap.get(runId));
+      const points = await calculatePoints(
+        updatedRun.time, 
         categoryName, 
         platformName,
-        newCategoryId,
-        newPlatformId,
+        updatedRun.category,
+        updatedRun.platform,
         rank,
-        (data.runType || runData.runType || 'solo') as 'solo' | 'co-op' | undefined
+        (updatedRun.runType || 'solo') as 'solo' | 'co-op',
+        updatedRun.leaderboardType || 'regular',
+        updatedRun.isObsolete,
+        await getPointsConfigCached(updatedRun.gameId || DEFAULT_GAME_ID),
+        getRankingScoringContexts(ranking).get(runId)
       );
-      updateData.points = points;
+      await updateDoc(runDocRef, { points });
       
       // Recalculate points for affected players
       const playerIds: string[] = [];
@@ -1672,7 +2157,9 @@ export const updateLeaderboardEntryFirestore = async (runId: string, data: Parti
       await recalculatePointsForPlayers(playerIds, runData);
     }
     
-    await updateDoc(runDocRef, updateData);
+    // Other runs on the re-ranked boards may have moved in or out of the top 3
+    await recalculateBoardPoints(boardChanged ? [previousBoard, newBoard] : [newBoard]);
+    
     return true;
   } catch (error) {
     
@@ -1767,18 +2254,10 @@ export const updateRunVerificationStatusFirestore = async (runId: string, verifi
       // This ensures the run is included in rank calculations
       await updateDoc(runDocRef, { verified, verifiedBy });
       
-      // Calculate rank using helper function
-      // Include the current run in ranking to handle Firestore eventual consistency
+      // Re-rank the board now that this run is verified
       const leaderboardType = runData.leaderboardType || 'regular';
-      const currentRunWithVerified: LeaderboardEntry = { ...runData, id: runId, verified: true };
-      const rankMap = await calculateRanksForGroup(
-        leaderboardType,
-        runData.category,
-        runData.platform,
-        (runData.runType || 'solo') as 'solo' | 'co-op',
-        runData.level,
-        currentRunWithVerified
-      );
+      const ranking = await updateBoardRanks(getRunBoard(runData));
+      const rankMap = ranking.rankMap;
       
       // Find the rank of this run
       let rank: number | undefined = undefined;
@@ -1805,19 +2284,13 @@ export const updateRunVerificationStatusFirestore = async (runId: string, verifi
         rank,
         runType,
         leaderboardType,
-        runData.isObsolete
+        runData.isObsolete,
+        await getPointsConfigCached(runData.gameId || DEFAULT_GAME_ID),
+        getRankingScoringContexts(ranking).get(runId)
       );
       
-      // Update the document with calculated points and rank
-      // Only store rank if it's 1, 2, or 3 (for bonus points)
-      const updateFields: { points: number; rank?: number | ReturnType<typeof deleteField> } = { points };
-      if (rank !== undefined) {
-        updateFields.rank = rank;
-      } else {
-        // Remove rank field if obsolete, not ranked, or rank > 3
-        updateFields.rank = deleteField();
-      }
-      await updateDoc(runDocRef, updateFields);
+      // Update the document with calculated points (rank was stored by updateBoardRanks)
+      await updateDoc(runDocRef, { points });
       
       // Recalculate points for affected players
       // CRITICAL: Only process claimed runs (non-empty playerId)
@@ -1830,10 +2303,19 @@ export const updateRunVerificationStatusFirestore = async (runId: string, verifi
         playerIds.push(runData.player2Id);
       }
       await recalculatePointsForPlayers(playerIds, runData);
+      // The run may have pushed others on its board down (and out of the top 3)
+      await recalculateBoardPoints([getRunBoard(runData)]);
+      await recordAuditEvent(
+        "run.verify",
+        getRunAuditTarget(runId, runData),
+        { verified: runData.verified, verifiedBy: runData.verifiedBy, points: runData.points },
+        { verified, verifiedBy, points }
+      );
       
       return true;
     } else if (!verified && runData.verified) {
-      await updateDoc(runDocRef, updateFields);
+      await updateDoc(runDocRef, { verified, rank: deleteField() });
+      await updateBoardRanks(getRunBoard(runData));
       
       // Recalculate points for affected players
       // CRITICAL: Only process claimed runs (non-empty playerId)
@@ -1846,9 +2328,22 @@ export const updateRunVerificationStatusFirestore = async (runId: string, verifi
         playerIds.push(runData.player2Id);
       }
       await recalculatePointsForPlayers(playerIds, runData);
+      await recalculateBoardPoints([getRunBoard(runData)]);
     } else {
       // If just changing verified status without recalculation, update the document
       await updateDoc(runDocRef, updateData);
+      if (verified && !runData.verified) {
+        await updateBoardRanks(getRunBoard(runData));
+      }
+    }
+    
+    if (verified !== !!runData.verified) {
+      await recordAuditEvent(
+        verified ? "run.verify" : "run.unverify",
+        getRunAuditTarget(runId, runData),
+        { verified: runData.verified },
+        { verified }
+      );
     }
     
     return true;
@@ -1857,26 +2352,59 @@ export const updateRunVerificationStatusFirestore = async (runId: string, verifi
   }
 };
 
+const LEDGER_CONFLICT = "Points ledger changed during recalculation";
+
 /**
- * Update a player's total points by adding the given points
+ * Append ledger entries for the studs a player's runs are worth now
+ * Set revokeMissing to false when runPoints only covers the runs that changed
+ * Entries are created in transactions under their deterministic IDs: if another recalculation appended one first,
+ * the ledger is read again and the changes worked out afresh, so the same change is never counted twice
+ * Returns the player's total points, the sum of their ledger
  */
-export const updatePlayerPointsFirestore = async (playerId: string, pointsToAdd: number): Promise<boolean> => {
-  if (!db) return false;
-  try {
-    const playerDocRef = doc(db, "players", playerId);
-    const playerDocSnap = await getDoc(playerDocRef);
+async function syncPointsLedger(playerId: string, runPoints: RunPoints[], revokeMissing: boolean = true): Promise<number> {
+  if (!db) return 0;
+  const MAX_ATTEMPTS = 3;
+  // Firestore transaction limit is 500 writes
+  const MAX_TRANSACTION_SIZE = 500;
+  
+  for (let attempt = 1; ; attempt++) {
+    const ledgerSnapshot = await getDocs(query(collection(db, "pointsLedger"), where("playerId", "==", playerId)));
+    const existing = ledgerSnapshot.docs.map(entryDoc => ({ id: entryDoc.id, ...entryDoc.data() } as PointsLedgerEntry));
+    const changes = getLedgerChanges(playerId, existing, runPoints, { revokeMissing });
     
-    if (playerDocSnap.exists()) {
-      const currentData = playerDocSnap.data() as Player;
-      const currentPoints = currentData.totalPoints || 0;
-      await updateDoc(playerDocRef, { totalPoints: currentPoints + pointsToAdd });
-    } else {
-      // If player doesn't exist, create with initial points
-      await setDoc(playerDocRef, { totalPoints: pointsToAdd }, { merge: true });
+    try {
+      for (let i = 0; i < changes.length; i += MAX_TRANSACTION_SIZE) {
+        const chunk = changes.slice(i, i + MAX_TRANSACTION_SIZE);
+        await runTransaction(db, async (transaction) => {
+          const entryRefs = chunk.map(change => doc(db!, "pointsLedger", getLedgerEntryId(change)));
+          const entrySnaps = await Promise.all(entryRefs.map(entryRef => transaction.get(entryRef)));
+          if (entrySnaps.some(entrySnap => entrySnap.exists())) {
+            throw new Error(LEDGER_CONFLICT);
+          }
+          chunk.forEach((change, index) => transaction.set(entryRefs[index], change));
+        });
+      }
+      return sumLedger(existing) + sumLedger(changes);
+    } catch (error) {
+      if (!(error instanceof Error && error.message === LEDGER_CONFLICT) || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
     }
-    return true;
+  }
+}
+
+/**
+ * Get a player's points ledger, newest entries first
+ */
+export const getPointsLedgerFirestore = async (playerId: string): Promise<PointsLedgerEntry[]> => {
+  if (!db || !playerId) return [];
+  try {
+    const ledgerSnapshot = await getDocs(query(collection(db, "pointsLedger"), where("playerId", "==", playerId)));
+    return ledgerSnapshot.docs
+      .map(entryDoc => ({ id: entryDoc.id, ...entryDoc.data() } as PointsLedgerEntry))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
   } catch (error) {
-    return false;
+    return [];
   }
 };
 
@@ -2010,12 +2538,6 @@ export const recalculatePlayerPointsFirestore = async (playerId: string): Promis
       }
     }
     
-    // Get all categories and platforms for lookup
-    const categories = await getCategoriesFirestore();
-    const platforms = await getPlatformsFirestore();
-    const categoryMap = new Map(categories.map(c => [c.id, c.name]));
-    const platformMap = new Map(platforms.map(p => [p.id, p.name]));
-    
     // To calculate ranks, we need to fetch all runs for each category/platform combination
     // Group runs by category + platform + runType to calculate ranks within each group
     const runsByGroup = new Map<string, LeaderboardEntry[]>();
@@ -2046,7 +2568,7 @@ export const recalculatePlayerPointsFirestore = async (playerId: string): Promis
     }
     
     // For each group, fetch all runs to calculate ranks
-    const allRunsWithRanks: Array<{ run: LeaderboardEntry; rank: number }> = [];
+    const allRunsWithRanks: Array<{ run: LeaderboardEntry; rank: number; context?: ScoringContext }> = [];
     
     for (const [groupKey, runs] of runsByGroup.entries()) {
       const parts = groupKey.split('_');
@@ -2070,61 +2592,32 @@ export const recalculatePlayerPointsFirestore = async (playerId: string): Promis
         runType = parts[4] || 'solo';
       }
       
-      // Calculate ranks using helper function
-      const rankMap = await calculateRanksForGroup(
+      // Re-rank the board and store the result on its runs
+      const ranking = await updateBoardRanks({
         leaderboardType,
         categoryId,
         platformId,
-        runType as 'solo' | 'co-op',
-        levelId
-      );
+        runType: runType as 'solo' | 'co-op',
+        levelId,
+      });
+      const scoringContexts = getRankingScoringContexts(ranking);
       
       // Process all player runs (including obsolete) - obsolete runs get base points only
       for (const playerRun of runs) {
         let rank: number | undefined = undefined;
         if (!playerRun.isObsolete) {
-          // Try to get rank from the calculated rankMap first (most accurate)
-          const calculatedRank = rankMap.get(playerRun.id);
-          rank = normalizeRank(calculatedRank);
-          
-          // If not in rankMap, calculate rank from the group runs
-          // This ensures all runs in the group get ranked correctly
-          if (rank === undefined) {
-            // Sort all non-obsolete runs in this group by time
-            const nonObsoleteGroupRuns = runs
-              .filter(r => !r.isObsolete)
-              .sort((a, b) => {
-                const timeA = parseTimeToSeconds(a.time);
-                const timeB = parseTimeToSeconds(b.time);
-                return timeA - timeB;
-              });
-            
-            // Find the index (rank) of this run
-            const runIndex = nonObsoleteGroupRuns.findIndex(r => r.id === playerRun.id);
-            if (runIndex >= 0) {
-              rank = normalizeRank(runIndex + 1); // 1-based rank
-            }
-          }
-          
-          // Last resort: check if run already has a stored rank (only if it's 1, 2, or 3)
-          // This is a fallback for cases where the run might not be in the current group
-          if (rank === undefined) {
-            rank = normalizeRank(playerRun.rank);
-          }
+          rank = normalizeRank(ranking.rankMap.get(playerRun.id));
         }
-        allRunsWithRanks.push({ run: playerRun, rank: rank });
+        allRunsWithRanks.push({ run: playerRun, rank: rank, context: scoringContexts.get(playerRun.id) });
       }
     }
     
-    let totalPoints = 0;
-    const runsToUpdate: { id: string; points: number; rank?: number }[] = [];
+    const runPoints: RunPoints[] = [];
+    const runsToUpdate: { id: string; points: number }[] = [];
     
     // Calculate points with ranks - always recalculate to ensure accuracy with current ranks
-    for (const { run: runData, rank } of allRunsWithRanks) {
+    for (const { run: runData, rank, context } of allRunsWithRanks) {
       // Always recalculate points to ensure we use the latest rank
-      const categoryName = categoryMap.get(runData.category) || "Unknown";
-      const platformName = platformMap.get(runData.platform) || "Unknown";
-      
       // Calculate points - CRITICAL: calculatePoints automatically splits for co-op runs
       // CRITICAL: calculatePoints automatically reduces points for ILs and community golds (half points)
       // CRITICAL: Obsolete runs only receive base points (no rank bonuses)
@@ -2134,46 +2627,34 @@ export const recalculatePlayerPointsFirestore = async (playerId: string): Promis
       // Ensure runType is properly set (default to 'solo' if missing)
       const runType = (runData.runType || 'solo') as 'solo' | 'co-op';
       const leaderboardType = runData.leaderboardType || 'regular';
-      const points = await calculatePoints(
-        runData.time, 
-        categoryName, 
-        platformName,
-        runData.category,
-        runData.platform,
+      const pointsConfig = await getPointsConfigCached(runData.gameId || DEFAULT_GAME_ID);
+      const breakdown = await calculatePointsBreakdown(
         rank,
         runType,
         leaderboardType,
-        runData.isObsolete
+        runData.isObsolete,
+        pointsConfig,
+        context
       );
       
-      // Always update the run with recalculated points and rank
-      runsToUpdate.push({ id: runData.id, points, rank: rank });
+      // Always update the run with recalculated points
+      runsToUpdate.push({ id: runData.id, points: breakdown.total });
       
       // IMPORTANT: Points are already split for co-op runs by calculatePoints
       // So for co-op runs, each player gets the calculated (split) points
       // For solo runs, player gets full points
       // This ensures both players in a co-op run get equal points
-      totalPoints += points;
+      runPoints.push({ run: runData, breakdown, configVersion: pointsConfig.version ?? 0 });
     }
     
-    // Batch update runs with points and ranks (Firestore batch limit is 500)
+    // Batch update runs with points (ranks were stored by updateBoardRanks; Firestore batch limit is 500)
     const MAX_BATCH_SIZE = 500;
     let batchCount = 0;
     let batch = writeBatch(db);
     
     for (const run of runsToUpdate) {
       const runDocRef = doc(db, "leaderboardEntries", run.id);
-      const updateData: { points: number; rank?: number | ReturnType<typeof deleteField> } = { 
-        points: run.points // Use the recalculated points from runsToUpdate
-      };
-      // Store rank if it's 1, 2, or 3 (for bonus points), otherwise remove it
-      const normalizedRank = normalizeRank(run.rank);
-      if (normalizedRank !== undefined) {
-        updateData.rank = normalizedRank;
-      } else {
-        updateData.rank = deleteField();
-      }
-      batch.update(runDocRef, updateData);
+      batch.update(runDocRef, { points: run.points });
       batchCount++;
       
       // Commit batch if it reaches the limit
@@ -2197,6 +2678,9 @@ export const recalculatePlayerPointsFirestore = async (playerId: string): Promis
     // CRITICAL: Only update if player exists - never create player documents here
     // Player documents should only be created by AuthProvider when users sign up
     if (playerDocSnap && playerDocSnap.exists()) {
+      // Record what changed on the points ledger; totalPoints is the sum of the player's ledger
+      const totalPoints = await syncPointsLedger(playerId, runPoints);
+      
       // Update both totalPoints and totalRuns
       try {
       await updateDoc(playerDocRef, { totalPoints, totalRuns: totalVerifiedRuns });
@@ -2362,17 +2846,206 @@ async function recalculatePointsForPlayers(
   await Promise.all(recalculationPromises);
 }
 
-export const deleteLeaderboardEntryFirestore = async (runId: string): Promise<boolean> => {
-  if (!db) return false;
-  try {
-    const runDocRef = doc(db, "leaderboardEntries", runId);
-    const runDocSnap = await getDoc(runDocRef);
-    
-    if (!runDocSnap.exists()) {
-      return false;
+/**
+ * Work out which runs and players a points recalculation would change, without writing anything
+ * For a config change every verified run in the game is re-scored with the proposed config at its stored rank;
+ * for runs, the boards they're ranked on are re-ranked and every run on them is re-scored
+ */
+export const planPointsRecalculationFirestore = async (
+  scope: PointsRecalculationScope,
+  onProgress?: PointsRecalculationProgressHandler
+): Promise<PointsRecalculationPlan> => {
+  if (scope.type === 'config') {
+    return planConfigPointsRecalculation(scope.config, onProgress);
+  }
+  
+  const boards = new Map<string, LeaderboardBoard>();
+  if (db) {
+    const runSnapshots = await Promise.all(scope.runIds.map(runId => getDoc(doc(db!, "leaderboardEntries", runId))));
+    runSnapshots
+      .filter(runSnap => runSnap.exists())
+      .forEach(runSnap => {
+        const board = getRunBoard(runSnap.data() as LeaderboardEntry);
+        boards.set(getBoardKey(board), board);
+      });
+  }
+  return planBoardsPointsRecalculation(Array.from(boards.values()), onProgress);
+};
+
+async function planConfigPointsRecalculation(
+  proposedConfig: PointsConfig,
+  onProgress?: PointsRecalculationProgressHandler
+): Promise<PointsRecalculationPlan> {
+  // Saving the config bumps its version, so the plan is calculated with the version it will have
+  const currentConfig = await getPointsConfigFirestore(proposedConfig.gameId || getActiveGameId());
+  const config: PointsConfig = { ...currentConfig, ...proposedConfig, version: (currentConfig.version ?? 0) + 1 };
+  const plan: PointsRecalculationPlan = { scope: 'config', config, boardsChecked: 0, runsChecked: 0, runChanges: [], playerChanges: [] };
+  if (!db) return plan;
+  
+  const runsSnapshot = await getDocs(query(collection(db, "leaderboardEntries"), where("verified", "==", true)));
+  const gameRuns = runsSnapshot.docs
+    .map(runDoc => ({ id: runDoc.id, ...runDoc.data() } as LeaderboardEntry))
+    .filter(run => belongsToGame(run, config.gameId));
+  
+  const runsByBoard = new Map<string, LeaderboardEntry[]>();
+  gameRuns.forEach(run => {
+    const boardKey = getBoardKey(getRunBoard(run));
+    runsByBoard.set(boardKey, [...(runsByBoard.get(boardKey) || []), run]);
+  });
+  
+  for (const boardRuns of runsByBoard.values()) {
+    // Ranks and times don't depend on the config, so the stored ones are used as is
+    const scoringContexts = getBoardScoringContexts(boardRuns);
+    for (const run of boardRuns) {
+      const change = await getRunPointsChange(run, run.rank, config, scoringContexts.get(run.id));
+      if (change) plan.runChanges.push(change);
+      plan.runsChecked++;
+      if (plan.runsChecked % 100 === 0) {
+        onProgress?.({ stage: 'planning', completed: plan.runsChecked, total: gameRuns.length });
+      }
     }
-    
-    const runData = runDocSnap.data() as LeaderboardEntry;
+  }
+  plan.boardsChecked = runsByBoard.size;
+  plan.playerChanges = await getPlannedPlayerChanges(plan.runChanges);
+  onProgress?.({ stage: 'planning', completed: gameRuns.length, total: gameRuns.length });
+  return plan;
+}
+
+async function planBoardsPointsRecalculation(
+  boards: LeaderboardBoard[],
+  onProgress?: PointsRecalculationProgressHandler
+): Promise<PointsRecalculationPlan> {
+  const plan: PointsRecalculationPlan = {
+    scope: 'runs',
+    config: await getPointsConfigFirestore(),
+    boardsChecked: 0,
+    runsChecked: 0,
+    runChanges: [],
+    playerChanges: [],
+  };
+  
+  for (const board of boards) {
+    const ranking = await getBoardRanking(board);
+    const { runs: boardRuns, rankMap } = ranking;
+    const scoringContexts = getRankingScoringContexts(ranking);
+    for (const run of boardRuns) {
+      const config = await getPointsConfigCached(run.gameId || DEFAULT_GAME_ID);
+      const change = await getRunPointsChange(run, rankMap.get(run.id), config, scoringContexts.get(run.id));
+      if (change) plan.runChanges.push(change);
+    }
+    plan.runsChecked += boardRuns.length;
+    plan.boardsChecked++;
+    onProgress?.({ stage: 'planning', completed: plan.boardsChecked, total: boards.length });
+  }
+  plan.playerChanges = await getPlannedPlayerChanges(plan.runChanges);
+  return plan;
+}
+
+/**
+ * Read the current totals of the players on the changed runs and work out their new ones
+ */
+async function getPlannedPlayerChanges(runChanges: RunPointsChange[]) {
+  const playerIds = Array.from(new Set(runChanges.flatMap(change => change.playerIds)));
+  const playerSnapshots = await Promise.all(playerIds.map(playerId => getDoc(doc(db!, "players", playerId))));
+  const players = new Map<string, Player>();
+  playerSnapshots
+    .filter(playerSnap => playerSnap.exists())
+    .forEach(playerSnap => players.set(playerSnap.id, playerSnap.data() as Player));
+  return getPlayerPointsChanges(runChanges, players);
+}
+
+/**
+ * Write a planned recalculation: the changed runs get their new points and ranks, and only the players
+ * on those runs get ledger entries for the difference and their totals updated
+ */
+export const applyPointsRecalculationFirestore = async (
+  plan: PointsRecalculationPlan,
+  onProgress?: PointsRecalculationProgressHandler
+): Promise<{ runsUpdated: number; playersUpdated: number; errors: string[] }> => {
+  const result = { runsUpdated: 0, playersUpdated: 0, errors: [] as string[] };
+  if (!db) {
+    result.errors.push("Firestore not initialized");
+    return result;
+  }
+  
+  const runPointsByPlayer = new Map<string, RunPoints[]>();
+  plan.runChanges.forEach(change => {
+    change.playerIds.forEach(playerId => {
+      const runPoints = runPointsByPlayer.get(playerId) || [];
+      runPoints.push({ run: change.run, breakdown: change.breakdown, configVersion: change.configVersion });
+      runPointsByPlayer.set(playerId, runPoints);
+    });
+  });
+  const total = plan.runChanges.length + runPointsByPlayer.size;
+  
+  // Firestore batch limit is 500
+  const MAX_BATCH_SIZE = 500;
+  for (let i = 0; i < plan.runChanges.length; i += MAX_BATCH_SIZE) {
+    const changes = plan.runChanges.slice(i, i + MAX_BATCH_SIZE);
+    try {
+      const batch = writeBatch(db);
+      changes.forEach(change => {
+        const updateData: UpdateData<DocumentData> = { points: change.pointsAfter };
+        if (change.rankAfter !== change.rankBefore) {
+          updateData.rank = change.rankAfter ?? deleteField();
+        }
+        batch.update(doc(db!, "leaderboardEntries", change.run.id), updateData);
+      });
+      await batch.commit();
+      result.runsUpdated += changes.length;
+    } catch (error) {
+      result.errors.push(`Failed to update runs: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    onProgress?.({ stage: 'applying', completed: Math.min(i + MAX_BATCH_SIZE, plan.runChanges.length), total });
+  }
+  
+  let playersProcessed = 0;
+  for (const [playerId, runPoints] of runPointsByPlayer) {
+    try {
+      // Players who never signed up have no profile to total their studs on
+      const playerDocRef = doc(db, "players", playerId);
+      const playerDocSnap = await getDoc(playerDocRef);
+      if (playerDocSnap.exists()) {
+        const totalPoints = await syncPointsLedger(playerId, runPoints, false);
+        await updateDoc(playerDocRef, { totalPoints });
+        result.playersUpdated++;
+      }
+    } catch (error) {
+      result.errors.push(`Failed to update player ${playerId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    playersProcessed++;
+    onProgress?.({ stage: 'applying', completed: plan.runChanges.length + playersProcessed, total });
+  }
+  
+  return result;
+};
+
+/**
+ * Re-score every run on the given boards after their ranks changed, so players whose runs moved
+ * up or down get their studs updated too (not just the players on the run that changed)
+ */
+async function recalculateBoardPoints(boards: LeaderboardBoard[]): Promise<void> {
+  try {
+    const plan = await planBoardsPointsRecalculation(boards);
+    if (plan.runChanges.length > 0) {
+      await applyPointsRecalculationFirestore(plan);
+    }
+  } catch (error) {
+    // Don't fail the run change - the points can be fixed with a full recalculation
+  }
+}
+
+export const deleteLeaderboardEntryFirestore = async (runId: string): Promise<boolean> => {
+  if (!db) return false;
+  try {
+    const runDocRef = doc(db, "leaderboardEntries", runId);
+    const runDocSnap = await getDoc(runDocRef);
+    
+    if (!runDocSnap.exists()) {
+      return false;
+    }
+    
+    const runData = runDocSnap.data() as LeaderboardEntry;
     const playerIds: string[] = [];
     
     // Collect player IDs that need recalculation
@@ -2386,13 +3059,24 @@ export const deleteLeaderboardEntryFirestore = async (runId: string): Promise<bo
       playerIds.push(runData.player2Id);
     }
     
-    // Delete the run
-    await deleteDoc(runDocRef);
+    // Move the run to the trash, where it can be restored until it's purged
+    const trashBatch = writeBatch(db);
+    trashInBatch(trashBatch, 'run', runDocSnap, 'deleted');
+    await trashBatch.commit();
+    await recordAuditEvent("run.delete", getRunAuditTarget(runId, runData), runData, null);
+    
+    // Close the gap it leaves on its board
+    if (runData.verified) {
+      await updateBoardRanks(getRunBoard(runData));
+    }
     
     // Recalculate points for affected players
     if (playerIds.length > 0) {
       await recalculatePointsForPlayers(playerIds, runData);
     }
+    if (runData.verified) {
+      await recalculateBoardPoints([getRunBoard(runData)]);
+    }
     
     return true;
   } catch (error) {
@@ -2479,6 +3163,7 @@ export const deleteAllLeaderboardEntriesFirestore = async (): Promise<{ deleted:
       }
     }
     
+    await recordAuditEvent("leaderboard.deleteAll", { type: 'leaderboard' }, null, null, { deleted: result.deleted, errors: result.errors.length });
     return result;
   } catch (error) {
     result.errors.push(`Delete all error: ${error instanceof Error ? error.message : String(error)}`);
@@ -2561,6 +3246,24 @@ export const wipeLeaderboardsFirestore = async (): Promise<{
       result.errors.push(`Error resetting player stats: ${error instanceof Error ? error.message : String(error)}`);
     }
     
+    // Step 3: Clear the points ledger, so player totals (the ledger sums) start from zero too
+    try {
+      let ledgerSnapshot = await getDocs(query(collection(db, "pointsLedger"), firestoreLimit(500)));
+      while (!ledgerSnapshot.empty) {
+        const batch = writeBatch(db);
+        ledgerSnapshot.docs.forEach(entryDoc => batch.delete(entryDoc.ref));
+        await batch.commit();
+        ledgerSnapshot = await getDocs(query(collection(db, "pointsLedger"), firestoreLimit(500)));
+      }
+    } catch (error) {
+      result.errors.push(`Error clearing points ledger: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    await recordAuditEvent("leaderboard.wipe", { type: 'leaderboard' }, null, null, {
+      runsDeleted: result.runsDeleted,
+      playersReset: result.playersReset,
+      errors: result.errors.length,
+    });
     return result;
   } catch (error) {
     result.errors.push(`Fatal error: ${error instanceof Error ? error.message : String(error)}`);
@@ -2572,7 +3275,21 @@ export const updateRunObsoleteStatusFirestore = async (runId: string, isObsolete
   if (!db) return false;
   try {
     const runDocRef = doc(db, "leaderboardEntries", runId);
+    const runDocSnap = await getDoc(runDocRef);
+    if (!runDocSnap.exists()) {
+      return false;
+    }
+    
     await updateDoc(runDocRef, { isObsolete });
+    
+    // Obsolete runs drop off the board, restored runs rejoin it
+    const runData = runDocSnap.data() as LeaderboardEntry;
+    await recordAuditEvent(isObsolete ? "run.markObsolete" : "run.restoreObsolete", getRunAuditTarget(runId, runData), { isObsolete: runData.isObsolete }, { isObsolete });
+    if (runData.verified) {
+      await updateBoardRanks(getRunBoard(runData));
+      // Obsolete runs only earn base points, and the runs they overtook or made way for change places
+      await recalculateBoardPoints([getRunBoard(runData)]);
+    }
     return true;
   } catch (error) {
     return false;
@@ -2621,6 +3338,7 @@ export const addDownloadEntryFirestore = async (entry: Omit<DownloadEntry, 'id'
       order: maxOrder + 1
     };
     await setDoc(newDocRef, newEntry);
+    await recordAuditEvent("download.add", { type: 'download', id: newDocRef.id, name: newEntry.name }, null, newEntry);
     return newDocRef.id;
   } catch (error) {
     
@@ -2637,6 +3355,7 @@ export const deleteDownloadEntryFirestore = async (id: string): Promise<boolean>
       return false;
     }
     await deleteDoc(downloadDocRef);
+    await recordAuditEvent("download.delete", { type: 'download', id, name: downloadDoc.data().name }, downloadDoc.data(), null);
     return true;
   } catch (error) {
     return false;
@@ -2672,6 +3391,7 @@ export const moveDownloadUpFirestore = async (downloadId: string): Promise<boole
       updateDownloadOrderFirestore(currentDownload.id, currentDownload.order),
       updateDownloadOrderFirestore(previousDownload.id, previousDownload.order)
     ]);
+    await recordAuditEvent("download.reorder", { type: 'download', id: downloadId, name: currentDownload.name }, null, null, { direction: "up" });
     
     return true;
   } catch (error) {
@@ -2697,7 +3417,129 @@ export const moveDownloadDownFirestore = async (downloadId: string): Promise<boo
       updateDownloadOrderFirestore(currentDownload.id, currentDownload.order),
       updateDownloadOrderFirestore(nextDownload.id, nextDownload.order)
     ]);
+    await recordAuditEvent("download.reorder", { type: 'download', id: downloadId, name: currentDownload.name }, null, null, { direction: "down" });
+    
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Game management functions
+export const getGamesFirestore = async (): Promise<Game[]> => {
+  if (!db) return [];
+  try {
+    const querySnapshot = await getDocs(collection(db, "games"));
+    const games = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Game));
+    
+    games.sort((a, b) => {
+      const orderA = a.order !== undefined ? a.order : Infinity;
+      const orderB = b.order !== undefined ? b.order : Infinity;
+      if (orderA !== orderB) {
+        return orderA - orderB;
+      }
+      return (a.name || "").localeCompare(b.name || "");
+    });
+    
+    return games;
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Add a game
+ * The game ID is used as the URL slug, so it must be unique and URL-safe
+ */
+export const addGameFirestore = async (game: Omit<Game, 'order'>): Promise<string | null> => {
+  if (!db) return null;
+  try {
+    const gameId = game.id.trim().toLowerCase();
+    const trimmedName = game.name.trim();
+    if (!/^[a-z0-9-]+$/.test(gameId) || !trimmedName) {
+      return null;
+    }
+    
+    const existingSnapshot = await getDocs(collection(db, "games"));
+    if (existingSnapshot.docs.some(doc => doc.id === gameId)) {
+      return null;
+    }
+    
+    const maxOrder = existingSnapshot.docs.reduce((max, doc) => {
+      const order = doc.data().order !== undefined ? doc.data().order : -1;
+      return Math.max(max, order);
+    }, -1);
+    
+    const newGame: DocumentData = { name: trimmedName, order: maxOrder + 1 };
+    if (game.shortName?.trim()) {
+      newGame.shortName = game.shortName.trim();
+    }
+    if (game.srcAbbreviation?.trim()) {
+      newGame.srcAbbreviation = game.srcAbbreviation.trim();
+    }
+    if (game.twitchChannel?.trim()) {
+      newGame.twitchChannel = game.twitchChannel.trim();
+    }
+    
+    await setDoc(doc(db, "games", gameId), newGame);
+    await recordAuditEvent("game.add", { type: 'game', id: gameId, name: trimmedName }, null, newGame);
+    return gameId;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const updateGameFirestore = async (id: string, data: Partial<Omit<Game, 'id'>>): Promise<boolean> => {
+  if (!db) return false;
+  try {
+    const gameDocRef = doc(db, "games", id);
+    const gameDoc = await getDoc(gameDocRef);
+    if (!gameDoc.exists()) {
+      return false;
+    }
+    
+    const updateData: UpdateData<DocumentData> = {};
+    if (data.name !== undefined) {
+      if (!data.name.trim()) return false;
+      updateData.name = data.name.trim();
+    }
+    // Empty optional fields are removed rather than stored as empty strings
+    for (const key of ['shortName', 'srcAbbreviation', 'twitchChannel'] as const) {
+      if (data[key] !== undefined) {
+        updateData[key] = data[key]?.trim() ? data[key]!.trim() : deleteField();
+      }
+    }
+    if (data.order !== undefined) {
+      updateData.order = data.order;
+    }
+    
+    await updateDoc(gameDocRef, updateData);
+    await recordAuditEvent("game.update", { type: 'game', id, name: gameDoc.data().name }, gameDoc.data(), applyAuditUpdate(gameDoc.data(), getAuditUpdateValues(updateData)));
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Delete a game
+ * The default game and games that still have categories can't be deleted
+ */
+export const deleteGameFirestore = async (id: string): Promise<boolean> => {
+  if (!db) return false;
+  try {
+    if (id === DEFAULT_GAME_ID) {
+      return false;
+    }
+    
+    const categoriesSnapshot = await getDocs(collection(db, "categories"));
+    if (categoriesSnapshot.docs.some(doc => belongsToGame(doc.data(), id))) {
+      return false;
+    }
     
+    const gameDoc = await getDoc(doc(db, "games", id));
+    await deleteDoc(doc(db, "games", id));
+    await recordAuditEvent("game.delete", { type: 'game', id, name: gameDoc.data()?.name }, gameDoc.data(), null);
     return true;
   } catch (error) {
     return false;
@@ -2709,7 +3551,9 @@ export const getCategoriesFirestore = async (leaderboardType?: 'regular' | 'indi
   try {
     const q = query(collection(db, "categories"));
     const querySnapshot = await getDocs(q);
-    let categories = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Category));
+    let categories = querySnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as Category))
+      .filter(cat => belongsToGame(cat));
     
     // Filter by leaderboardType if specified
     if (leaderboardType) {
@@ -2745,9 +3589,10 @@ export const addCategoryFirestore = async (name: string, leaderboardType?: 'regu
     const q = query(collection(db, "categories"));
     const existingSnapshot = await getDocs(q);
     const typeToCheck = leaderboardType || 'regular';
+    const gameDocs = existingSnapshot.docs.filter(doc => belongsToGame(doc.data()));
     
-    // Check for duplicate name within the same leaderboard type
-    const existingCategory = existingSnapshot.docs.find(
+    // Check for duplicate name within the same game and leaderboard type
+    const existingCategory = gameDocs.find(
       doc => {
         const data = doc.data();
         const catType = data.leaderboardType || 'regular';
@@ -2760,7 +3605,7 @@ export const addCategoryFirestore = async (name: string, leaderboardType?: 'regu
     }
     
     // Get max order for this leaderboard type
-    const existingCategories = existingSnapshot.docs
+    const existingCategories = gameDocs
       .map(doc => doc.data())
       .filter(cat => {
         const catType = cat.leaderboardType || 'regular';
@@ -2774,11 +3619,14 @@ export const addCategoryFirestore = async (name: string, leaderboardType?: 'regu
     const nextOrder = maxOrder + 1;
     
     const newDocRef = doc(collection(db, "categories"));
-    await setDoc(newDocRef, { 
+    const newCategory = { 
+      gameId: getActiveGameId(),
       name: trimmedName, 
       order: nextOrder,
       leaderboardType: typeToCheck
-    });
+    };
+    await setDoc(newDocRef, newCategory);
+    await recordAuditEvent("category.add", { type: 'category', id: newDocRef.id, name: trimmedName }, null, newCategory);
     return newDocRef.id;
   } catch (error) {
     return null;
@@ -2813,7 +3661,7 @@ export const updateCategoryFirestore = async (id: string, name: string, subcateg
         d => {
           const otherId = d.id;
           const otherName = d.data().name?.trim() || "";
-          return otherId !== id && otherName.toLowerCase() === trimmedName.toLowerCase();
+          return otherId !== id && belongsToGame(d.data(), currentData.gameId || DEFAULT_GAME_ID) && otherName.toLowerCase() === trimmedName.toLowerCase();
         }
       );
       
@@ -2853,7 +3701,106 @@ export const updateCategoryFirestore = async (id: string, name: string, subcateg
     
     if (needsUpdate) {
       await updateDoc(categoryDocRef, updateData);
+      await recordAuditEvent("category.update", { type: 'category', id, name: currentName }, currentData, applyAuditUpdate(currentData, getAuditUpdateValues(updateData)));
+    }
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Update which timing methods a category records and which one it ranks by
+ */
+export const updateCategoryTimingMethodsFirestore = async (
+  id: string,
+  timingMethods: TimingMethod[],
+  primaryTimingMethod: TimingMethod
+): Promise<boolean> => {
+  if (!db) return false;
+  try {
+    if (timingMethods.length === 0 || !timingMethods.includes(primaryTimingMethod)) {
+      return false;
+    }
+    
+    const categoryDocRef = doc(db, "categories", id);
+    const categoryDoc = await getDoc(categoryDocRef);
+    if (!categoryDoc.exists()) {
+      return false;
+    }
+    
+    await updateDoc(categoryDocRef, {
+      timingMethods,
+      primaryTimingMethod,
+    });
+    await recordAuditEvent(
+      "category.updateTimingMethods",
+      { type: 'category', id, name: categoryDoc.data().name },
+      { timingMethods: categoryDoc.data().timingMethods, primaryTimingMethod: categoryDoc.data().primaryTimingMethod },
+      { timingMethods, primaryTimingMethod }
+    );
+    
+    // Boards are ordered by the primary timing method, so re-rank them if it changed
+    if (getPrimaryTimingMethod(categoryDoc.data() as Category) !== primaryTimingMethod) {
+      await updateAllBoardRanks(id);
+    }
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Update a category's variables (e.g. version x difficulty)
+ * Variable and value names must be unique within their variable/category
+ */
+export const updateCategoryVariablesFirestore = async (
+  id: string,
+  variables: CategoryVariable[]
+): Promise<boolean> => {
+  if (!db) return false;
+  try {
+    const variableNames = new Set<string>();
+    for (const variable of variables) {
+      const variableName = variable.name.trim().toLowerCase();
+      if (!variableName || variableNames.has(variableName)) {
+        return false;
+      }
+      variableNames.add(variableName);
+      
+      const valueNames = new Set<string>();
+      for (const value of variable.values) {
+        const valueName = value.name.trim().toLowerCase();
+        if (!valueName || valueNames.has(valueName)) {
+          return false;
+        }
+        valueNames.add(valueName);
+      }
+    }
+    
+    const categoryDocRef = doc(db, "categories", id);
+    const categoryDoc = await getDoc(categoryDocRef);
+    if (!categoryDoc.exists()) {
+      return false;
     }
+    
+    // Firestore rejects undefined fields, so only include optional fields that are set
+    const cleanedVariables = variables.map(variable => ({
+      id: variable.id,
+      name: variable.name.trim(),
+      isSubcategory: Boolean(variable.isSubcategory),
+      ...(variable.order !== undefined ? { order: variable.order } : {}),
+      ...(variable.srcVariableId ? { srcVariableId: variable.srcVariableId } : {}),
+      values: variable.values.map(value => ({
+        id: value.id,
+        name: value.name.trim(),
+        ...(value.order !== undefined ? { order: value.order } : {}),
+        ...(value.srcValueId ? { srcValueId: value.srcValueId } : {}),
+      })),
+    }));
+    
+    await updateDoc(categoryDocRef, { variables: cleanedVariables });
+    await recordAuditEvent("category.updateVariables", { type: 'category', id, name: categoryDoc.data().name }, { variables: categoryDoc.data().variables }, { variables: cleanedVariables });
     return true;
   } catch (error) {
     return false;
@@ -2869,6 +3816,7 @@ export const deleteCategoryFirestore = async (id: string): Promise<boolean> => {
       return false;
     }
     await deleteDoc(categoryDocRef);
+    await recordAuditEvent("category.delete", { type: 'category', id, name: categoryDoc.data().name }, categoryDoc.data(), null);
     return true;
   } catch (error) {
     return false;
@@ -2906,6 +3854,7 @@ export const moveCategoryUpFirestore = async (categoryId: string): Promise<boole
       updateCategoryOrderFirestore(currentCategory.id, currentCategory.order),
       updateCategoryOrderFirestore(previousCategory.id, previousCategory.order)
     ]);
+    await recordAuditEvent("category.reorder", { type: 'category', id: categoryId, name: currentCategory.name }, null, null, { direction: "up" });
     
     return true;
   } catch (error) {
@@ -2931,6 +3880,7 @@ export const moveCategoryDownFirestore = async (categoryId: string): Promise<boo
       updateCategoryOrderFirestore(currentCategory.id, currentCategory.order),
       updateCategoryOrderFirestore(nextCategory.id, nextCategory.order)
     ]);
+    await recordAuditEvent("category.reorder", { type: 'category', id: categoryId, name: currentCategory.name }, null, null, { direction: "down" });
     
     return true;
   } catch (error) {
@@ -2943,7 +3893,9 @@ export const getPlatformsFirestore = async (): Promise<Platform[]> => {
   try {
     const q = query(collection(db, "platforms"));
     const querySnapshot = await getDocs(q);
-    const platforms = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Platform));
+    const platforms = querySnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as Platform))
+      .filter(platform => belongsToGame(platform));
     
     platforms.sort((a, b) => {
       const orderA = a.order !== undefined ? a.order : Infinity;
@@ -2970,7 +3922,8 @@ export const addPlatformFirestore = async (name: string): Promise<string | null>
     
     const q = query(collection(db, "platforms"));
     const existingSnapshot = await getDocs(q);
-    const existingPlatform = existingSnapshot.docs.find(
+    const gameDocs = existingSnapshot.docs.filter(doc => belongsToGame(doc.data()));
+    const existingPlatform = gameDocs.find(
       doc => doc.data().name?.trim().toLowerCase() === trimmedName.toLowerCase()
     );
     
@@ -2978,7 +3931,7 @@ export const addPlatformFirestore = async (name: string): Promise<string | null>
       return null;
     }
     
-    const existingPlatforms = existingSnapshot.docs.map(doc => doc.data());
+    const existingPlatforms = gameDocs.map(doc => doc.data());
     const maxOrder = existingPlatforms.reduce((max, plat) => {
       const order = plat.order !== undefined ? plat.order : -1;
       return Math.max(max, order);
@@ -2986,7 +3939,9 @@ export const addPlatformFirestore = async (name: string): Promise<string | null>
     const nextOrder = maxOrder + 1;
     
     const newDocRef = doc(collection(db, "platforms"));
-    await setDoc(newDocRef, { name: trimmedName, order: nextOrder });
+    const newPlatform = { gameId: getActiveGameId(), name: trimmedName, order: nextOrder };
+    await setDoc(newDocRef, newPlatform);
+    await recordAuditEvent("platform.add", { type: 'platform', id: newDocRef.id, name: trimmedName }, null, newPlatform);
     return newDocRef.id;
   } catch (error) {
     return null;
@@ -3020,7 +3975,7 @@ export const updatePlatformFirestore = async (id: string, name: string): Promise
     const q = query(collection(db, "platforms"));
     const existingSnapshot = await getDocs(q);
     const conflictingPlatform = existingSnapshot.docs.find(
-      d => d.id !== id && d.data().name?.trim().toLowerCase() === trimmedName.toLowerCase()
+      d => d.id !== id && belongsToGame(d.data(), currentData.gameId || DEFAULT_GAME_ID) && d.data().name?.trim().toLowerCase() === trimmedName.toLowerCase()
     );
     
     if (conflictingPlatform) {
@@ -3028,6 +3983,7 @@ export const updatePlatformFirestore = async (id: string, name: string): Promise
     }
     
     await updateDoc(platformDocRef, { name: trimmedName });
+    await recordAuditEvent("platform.update", { type: 'platform', id, name: currentName }, { name: currentName }, { name: trimmedName });
     return true;
   } catch (error) {
     return false;
@@ -3043,6 +3999,7 @@ export const deletePlatformFirestore = async (id: string): Promise<boolean> => {
       return false;
     }
     await deleteDoc(platformDocRef);
+    await recordAuditEvent("platform.delete", { type: 'platform', id, name: platformDoc.data().name }, platformDoc.data(), null);
     return true;
   } catch (error) {
     return false;
@@ -3078,6 +4035,7 @@ export const movePlatformUpFirestore = async (platformId: string): Promise<boole
       updatePlatformOrderFirestore(currentPlatform.id, currentPlatform.order),
       updatePlatformOrderFirestore(previousPlatform.id, previousPlatform.order)
     ]);
+    await recordAuditEvent("platform.reorder", { type: 'platform', id: platformId, name: currentPlatform.name }, null, null, { direction: "up" });
     
     return true;
   } catch (error) {
@@ -3103,6 +4061,7 @@ export const movePlatformDownFirestore = async (platformId: string): Promise<boo
       updatePlatformOrderFirestore(currentPlatform.id, currentPlatform.order),
       updatePlatformOrderFirestore(nextPlatform.id, nextPlatform.order)
     ]);
+    await recordAuditEvent("platform.reorder", { type: 'platform', id: platformId, name: currentPlatform.name }, null, null, { direction: "down" });
     
     return true;
   } catch (error) {
@@ -3162,7 +4121,34 @@ export const getAllVerifiedRunsFirestore = async (): Promise<LeaderboardEntry[]>
       }
     } while (lastDoc);
     
-    return allRuns;
+    return allRuns.filter(run => belongsToGame(run));
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Get verified runs that have LiveSplit splits attached
+ * Used to compute community golds from segment times
+ * @param categoryId - Optional full game category to limit results to
+ */
+export const getRunsWithSplitsFirestore = async (categoryId?: string): Promise<LeaderboardEntry[]> => {
+  if (!db) return [];
+  try {
+    const constraints: QueryConstraint[] = [
+      where("verified", "==", true),
+      where("hasSplits", "==", true),
+    ];
+    if (categoryId) {
+      constraints.push(where("category", "==", categoryId));
+    }
+    constraints.push(firestoreLimit(2000));
+
+    const splitsQuery = query(collection(db, "leaderboardEntries"), ...constraints);
+    const querySnapshot = await getDocs(splitsQuery);
+    return querySnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry))
+      .filter(run => belongsToGame(run) && run.splits && run.splits.segments && run.splits.segments.length > 0);
   } catch (error) {
     return [];
   }
@@ -3493,6 +4479,30 @@ export const getAllPlayersFirestore = async (
   }
 };
 
+/**
+ * Get one page of players sorted by the given field
+ * Players without a value for the sort field are left out, as with getAllPlayersFirestore
+ */
+export const getPlayersPageFirestore = async (
+  sortBy: 'joinDate' | 'displayName' | 'totalPoints' | 'totalRuns' = 'joinDate',
+  sortOrder: 'asc' | 'desc' = 'desc',
+  page: PageRequest = {}
+): Promise<Page<Player>> => {
+  if (!db) return { items: [], nextCursor: null, prevCursor: null };
+  try {
+    return await getCursorPage(
+      "players",
+      [],
+      [[sortBy, sortOrder], [documentId(), sortOrder]],
+      doc => ({ id: doc.id, ...doc.data() } as Player),
+      player => [player[sortBy] as string | number, player.id],
+      page
+    );
+  } catch (error) {
+    return { items: [], nextCursor: null, prevCursor: null };
+  }
+};
+
 /**
  * Update a player's profile data
  */
@@ -3503,7 +4513,29 @@ export const updatePlayerFirestore = async (
   if (!db) return false;
   try {
     const playerDocRef = doc(db, "players", playerId);
-    await updateDoc(playerDocRef, updates);
+    const playerDoc = await getDoc(playerDocRef);
+    if (!playerDoc.exists()) return false;
+    const playerData = playerDoc.data() as Player;
+    const playerUpdates: UpdateData<DocumentData> = { ...updates };
+    
+    // Renames must reserve the new display name before the profile is saved
+    if (updates.displayName !== undefined && updates.displayName.trim()) {
+      const reserved = await reserveDisplayName(playerData.uid || playerId, updates.displayName, playerData.displayName, { id: playerId });
+      if (!reserved) return false;
+      playerUpdates.displayName = updates.displayName.trim();
+      playerUpdates.displayNameLower = normalizeDisplayName(updates.displayName);
+    }
+    
+    await updateDoc(playerDocRef, playerUpdates);
+    
+    // Admin flag changes are the most sensitive player edits, so they get their own actions
+    const adminChanged = updates.isAdmin !== undefined && updates.isAdmin !== !!playerData.isAdmin;
+    await recordAuditEvent(
+      adminChanged ? (updates.isAdmin ? "player.grantAdmin" : "player.revokeAdmin") : "player.update",
+      { type: 'player', id: playerId, name: playerData.displayName },
+      playerData,
+      applyAuditUpdate(playerData, getAuditUpdateValues(playerUpdates))
+    );
     return true;
   } catch (error) {
     
@@ -3534,6 +4566,7 @@ export const deletePlayerFirestore = async (
     const playerUid = playerData.uid;
     
     let deletedRunsCount = 0;
+    const trashedRunIds: string[] = [];
     
     // If deleteRuns is true, delete all runs associated with this player
     if (deleteRuns && playerUid) {
@@ -3552,18 +4585,20 @@ export const deletePlayerFirestore = async (
       
       const allRuns = [...runsSnapshot.docs, ...coOpRunsSnapshot.docs];
       deletedRunsCount = allRuns.length;
+      trashedRunIds.push(...allRuns.map(runDoc => runDoc.id));
       
-      // Delete runs in batches
-      const batch = writeBatch(db);
+      // Move runs to the trash in batches (two writes per run)
+      let batch = writeBatch(db);
       let batchCount = 0;
       const MAX_BATCH_SIZE = 500;
       
       for (const runDoc of allRuns) {
-        batch.delete(runDoc.ref);
-        batchCount++;
+        trashInBatch(batch, 'run', runDoc, 'playerDeleted');
+        batchCount += 2;
         
         if (batchCount >= MAX_BATCH_SIZE) {
           await batch.commit();
+          batch = writeBatch(db);
           batchCount = 0;
         }
       }
@@ -3573,8 +4608,17 @@ export const deletePlayerFirestore = async (
       }
     }
     
-    // Delete the player document
-    await deleteDoc(playerDocRef);
+    // Move the player to the trash (restoring them restores their runs too) and free up their display name
+    const playerBatch = writeBatch(db);
+    trashInBatch(playerBatch, 'player', playerDoc, 'deleted', trashedRunIds);
+    await playerBatch.commit();
+    if (playerData.displayName) {
+      await releaseDisplayName(playerUid || playerId, playerData.displayName);
+    }
+    await recordAuditEvent("player.delete", { type: 'player', id: playerId, name: playerData.displayName }, playerData, null, {
+      deleteRuns,
+      deletedRuns: deletedRunsCount,
+    });
     
     return { success: true, deletedRuns: deletedRunsCount };
   } catch (error) {
@@ -3684,22 +4728,149 @@ export const getPlayersByPointsFirestore = async (limit: number = 100): Promise<
 };
 
 /**
- * Backfill points for all existing verified runs
- * Recalculates points for all verified runs using the current formula and updates player totals
- * Returns summary of the operation
+ * Rebuild the stored rank and timeMs of every verified run in the current game
+ * Leaderboards are queried by these fields, so runs saved before they existed only show up after a rebuild
  */
-export const backfillPointsForAllRunsFirestore = async (): Promise<{
-  runsUpdated: number;
-  playersUpdated: number;
+export const rebuildLeaderboardRanksFirestore = async (): Promise<{
+  boardsUpdated: number;
   errors: string[];
 }> => {
   if (!db) {
-    return { runsUpdated: 0, playersUpdated: 0, errors: ["Firestore not initialized"] };
+    return { boardsUpdated: 0, errors: ["Firestore not initialized"] };
+  }
+  
+  try {
+    const boardsUpdated = await updateAllBoardRanks();
+    await recordAuditEvent("leaderboard.rebuildRanks", { type: 'leaderboard' }, null, null, { boardsUpdated });
+    return { boardsUpdated, errors: [] };
+  } catch (error) {
+    return { boardsUpdated: 0, errors: [error instanceof Error ? error.message : String(error)] };
   }
+};
 
+/**
+ * Build the displayNames index for existing players and store displayNameLower on their documents
+ * Index entries saved under an older document ID scheme are moved to their current ID.
+ * When two players share a name (ignoring case), the earliest to join keeps it; the others are reported as conflicts
+ * so an admin can rename them. Safe to run more than once
+ */
+export const migrateDisplayNameIndexFirestore = async (): Promise<{
+  playersIndexed: number;
+  conflicts: Array<{ displayName: string; uid: string; heldBy: string }>;
+  errors: string[];
+}> => {
+  if (!db) {
+    return { playersIndexed: 0, conflicts: [], errors: ["Firestore not initialized"] };
+  }
+  
   const result = {
-    runsUpdated: 0,
-    playersUpdated: 0,
+    playersIndexed: 0,
+    conflicts: [] as Array<{ displayName: string; uid: string; heldBy: string }>,
+    errors: [] as string[],
+  };
+  
+  try {
+    const [playersSnapshot, namesSnapshot] = await Promise.all([
+      getDocs(collection(db, "players")),
+      getDocs(collection(db, DISPLAY_NAMES_COLLECTION)),
+    ]);
+    
+    // Names already in the index keep their holder. Entries saved under an older ID scheme are moved to their
+    // current ID, so they're rewritten below and the old documents deleted
+    const holders = new Map<string, string>();
+    const rekeyedNames = new Set<string>();
+    const staleNameDocIds: string[] = [];
+    namesSnapshot.docs.forEach(nameDoc => {
+      const nameDocId = getDisplayNameDocId(nameDoc.data().displayNameLower || nameDoc.data().displayName || "");
+      if (nameDoc.id !== nameDocId) {
+        staleNameDocIds.push(nameDoc.id);
+        rekeyedNames.add(nameDocId);
+      }
+      if (nameDoc.id === nameDocId || !holders.has(nameDocId)) {
+        holders.set(nameDocId, nameDoc.data().uid);
+      }
+    });
+    
+    const players = playersSnapshot.docs
+      .map(playerDoc => ({ id: playerDoc.id, ...playerDoc.data() } as Player))
+      .filter(player => normalizeDisplayName(player.displayName))
+      .sort((a, b) => (a.joinDate || "").localeCompare(b.joinDate || ""));
+    
+    const MAX_BATCH_SIZE = 500;
+    let batch = writeBatch(db);
+    let batchCount = 0;
+    for (const player of players) {
+      const uid = player.uid || player.id;
+      const nameDocId = getDisplayNameDocId(player.displayName);
+      const displayNameLower = normalizeDisplayName(player.displayName);
+      const heldBy = holders.get(nameDocId);
+      
+      if (heldBy && heldBy !== uid) {
+        result.conflicts.push({ displayName: player.displayName, uid, heldBy });
+        continue;
+      }
+      if (heldBy === uid && player.displayNameLower === displayNameLower && !rekeyedNames.has(nameDocId)) {
+        continue;
+      }
+      
+      holders.set(nameDocId, uid);
+      // Two writes per player
+      batch.set(doc(db, DISPLAY_NAMES_COLLECTION, nameDocId), {
+        uid,
+        displayName: player.displayName.trim(),
+        displayNameLower,
+      });
+      batch.update(doc(db, "players", player.id), { displayNameLower });
+      batchCount += 2;
+      result.playersIndexed++;
+      
+      if (batchCount >= MAX_BATCH_SIZE - 1) {
+        await batch.commit();
+        batch = writeBatch(db);
+        batchCount = 0;
+      }
+    }
+    for (const staleNameDocId of staleNameDocIds) {
+      batch.delete(doc(db, DISPLAY_NAMES_COLLECTION, staleNameDocId));
+      batchCount++;
+      if (batchCount >= MAX_BATCH_SIZE) {
+        await batch.commit();
+        batch = writeBatch(db);
+        batchCount = 0;
+      }
+    }
+    if (batchCount > 0) {
+      await batch.commit();
+    }
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : String(error));
+  }
+  
+  await recordAuditEvent("player.migrateDisplayNames", { type: 'player' }, null, null, {
+    playersIndexed: result.playersIndexed,
+    conflicts: result.conflicts.length,
+    errors: result.errors.length,
+  });
+  return result;
+};
+
+/**
+ * Backfill points for all existing verified runs
+ * Recalculates points for all verified runs using the current formula and updates player totals
+ * Returns summary of the operation
+ */
+export const backfillPointsForAllRunsFirestore = async (): Promise<{
+  runsUpdated: number;
+  playersUpdated: number;
+  errors: string[];
+}> => {
+  if (!db) {
+    return { runsUpdated: 0, playersUpdated: 0, errors: ["Firestore not initialized"] };
+  }
+
+  const result = {
+    runsUpdated: 0,
+    playersUpdated: 0,
     errors: [] as string[],
   };
 
@@ -3834,7 +5005,7 @@ export const backfillPointsForAllRunsFirestore = async (): Promise<{
     }
 
     // Calculate ranks for each group and assign points
-    const runsToUpdate: { id: string; points: number; rank?: number; playerId: string }[] = [];
+    const runsToUpdate: { id: string; points: number; playerId: string }[] = [];
 
     for (const [groupKey, runs] of runsByGroup.entries()) {
       try {
@@ -3857,45 +5028,23 @@ export const backfillPointsForAllRunsFirestore = async (): Promise<{
           runType = parts[4] || 'solo';
         }
         
-        // Calculate ranks using helper function
-        // Note: calculateRanksForGroup fetches and ranks runs, but we need to ensure
-        // all runs in this group are included in the ranking calculation
-        const rankMap = await calculateRanksForGroup(
+        // Re-rank the board and store the result on its runs
+        const ranking = await updateBoardRanks({
           leaderboardType,
           categoryId,
           platformId,
-          runType as 'solo' | 'co-op',
-          levelId
-        );
+          runType: runType as 'solo' | 'co-op',
+          levelId,
+        });
+        const rankMap = ranking.rankMap;
+        const scoringContexts = getRankingScoringContexts(ranking);
         
         // Process all runs in this group (including obsolete) - obsolete runs get base points only
         for (const runData of runs) {
           try {
             let rank: number | undefined = undefined;
             if (!runData.isObsolete) {
-              // First try to get rank from the calculated rankMap
-              const calculatedRank = rankMap.get(runData.id);
-              rank = normalizeRank(calculatedRank);
-              
-              // If run is not in rankMap, it might be beyond the fetch limit
-              // However, if it's in our group, it should be ranked
-              // Recalculate rank by comparing with other runs in the group
-              if (rank === undefined) {
-                // Sort all non-obsolete runs in this group by time
-                const nonObsoleteGroupRuns = runs
-                  .filter(r => !r.isObsolete)
-                  .sort((a, b) => {
-                    const timeA = parseTimeToSeconds(a.time);
-                    const timeB = parseTimeToSeconds(b.time);
-                    return timeA - timeB;
-                  });
-                
-                // Find the index (rank) of this run
-                const runIndex = nonObsoleteGroupRuns.findIndex(r => r.id === runData.id);
-                if (runIndex >= 0) {
-                  rank = normalizeRank(runIndex + 1); // 1-based rank
-                }
-              }
+              rank = normalizeRank(rankMap.get(runData.id));
             }
             
             const categoryName = categoryMap.get(runData.category) || "Unknown";
@@ -3917,13 +5066,14 @@ export const backfillPointsForAllRunsFirestore = async (): Promise<{
               rank,
               runData.runType as 'solo' | 'co-op' | undefined,
               leaderboardType,
-              runData.isObsolete
+              runData.isObsolete,
+              await getPointsConfigCached(runData.gameId || DEFAULT_GAME_ID),
+              scoringContexts.get(runData.id)
             );
             
             runsToUpdate.push({
               id: runData.id,
               points,
-              rank: normalizeRank(rank), // Normalize rank to ensure it's 1-3 or undefined
               playerId: runData.playerId,
             });
           } catch (error) {
@@ -3943,16 +5093,7 @@ export const backfillPointsForAllRunsFirestore = async (): Promise<{
     for (const run of runsToUpdate) {
       try {
         const runDocRef = doc(db, "leaderboardEntries", run.id);
-        const updateData: { points: number; rank?: number | ReturnType<typeof deleteField> } = { 
-          points: run.points 
-        };
-        // Store rank if it's 1, 2, or 3 (for bonus points), otherwise remove it
-        if (run.rank !== undefined && run.rank !== null && run.rank >= 1 && run.rank <= 3) {
-          updateData.rank = run.rank;
-        } else {
-          updateData.rank = deleteField();
-        }
-        batch.update(runDocRef, updateData);
+        batch.update(runDocRef, { points: run.points });
         batchCount++;
         
         // Commit batch if it reaches the limit
@@ -3997,6 +5138,11 @@ export const backfillPointsForAllRunsFirestore = async (): Promise<{
       }));
     }
 
+    await recordAuditEvent("pointsConfig.backfill", { type: 'pointsConfig' }, null, null, {
+      runsUpdated: result.runsUpdated,
+      playersUpdated: result.playersUpdated,
+      errors: result.errors.length,
+    });
     return result;
   } catch (error) {
     result.errors.push(`Fatal error: ${error instanceof Error ? error.message : String(error)}`);
@@ -4010,7 +5156,9 @@ export const getLevelsFirestore = async (): Promise<Level[]> => {
   try {
     const q = query(collection(db, "levels"));
     const querySnapshot = await getDocs(q);
-    const levels = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Level));
+    const levels = querySnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as Level))
+      .filter(level => belongsToGame(level));
     
     levels.sort((a, b) => {
       const orderA = a.order !== undefined ? a.order : Infinity;
@@ -4037,7 +5185,8 @@ export const addLevelFirestore = async (name: string): Promise<string | null> =>
     
     const q = query(collection(db, "levels"));
     const existingSnapshot = await getDocs(q);
-    const existingLevel = existingSnapshot.docs.find(
+    const gameDocs = existingSnapshot.docs.filter(doc => belongsToGame(doc.data()));
+    const existingLevel = gameDocs.find(
       doc => doc.data().name?.trim().toLowerCase() === trimmedName.toLowerCase()
     );
     
@@ -4045,7 +5194,7 @@ export const addLevelFirestore = async (name: string): Promise<string | null> =>
       return null;
     }
     
-    const existingLevels = existingSnapshot.docs.map(doc => doc.data());
+    const existingLevels = gameDocs.map(doc => doc.data());
     const maxOrder = existingLevels.reduce((max, level) => {
       const order = level.order !== undefined ? level.order : -1;
       return Math.max(max, order);
@@ -4053,7 +5202,9 @@ export const addLevelFirestore = async (name: string): Promise<string | null> =>
     const nextOrder = maxOrder + 1;
     
     const newDocRef = doc(collection(db, "levels"));
-    await setDoc(newDocRef, { name: trimmedName, order: nextOrder });
+    const newLevel = { gameId: getActiveGameId(), name: trimmedName, order: nextOrder };
+    await setDoc(newDocRef, newLevel);
+    await recordAuditEvent("level.add", { type: 'level', id: newDocRef.id, name: trimmedName }, null, newLevel);
     return newDocRef.id;
   } catch (error) {
     return null;
@@ -4071,7 +5222,7 @@ export const updateLevelFirestore = async (id: string, name: string): Promise<bo
     const q = query(collection(db, "levels"));
     const existingSnapshot = await getDocs(q);
     const existingLevel = existingSnapshot.docs.find(
-      doc => doc.id !== id && doc.data().name?.trim().toLowerCase() === trimmedName.toLowerCase()
+      doc => doc.id !== id && belongsToGame(doc.data()) && doc.data().name?.trim().toLowerCase() === trimmedName.toLowerCase()
     );
     
     if (existingLevel) {
@@ -4079,7 +5230,9 @@ export const updateLevelFirestore = async (id: string, name: string): Promise<bo
     }
     
     const levelDocRef = doc(db, "levels", id);
+    const previousName = existingSnapshot.docs.find(levelDoc => levelDoc.id === id)?.data().name;
     await updateDoc(levelDocRef, { name: trimmedName });
+    await recordAuditEvent("level.update", { type: 'level', id, name: previousName }, { name: previousName }, { name: trimmedName });
     return true;
   } catch (error) {
     return false;
@@ -4104,7 +5257,7 @@ export const updateLevelCategoryDisabledFirestore = async (
     }
     
     const currentData = levelDoc.data();
-    const disabledCategories = currentData.disabledCategories || {};
+    const disabledCategories = { ...(currentData.disabledCategories || {}) };
     
     if (disabled) {
       disabledCategories[categoryId] = true;
@@ -4113,6 +5266,13 @@ export const updateLevelCategoryDisabledFirestore = async (
     }
     
     await updateDoc(levelDocRef, { disabledCategories });
+    await recordAuditEvent(
+      disabled ? "level.disableCategory" : "level.enableCategory",
+      { type: 'level', id: levelId, name: currentData.name },
+      { disabledCategories: currentData.disabledCategories },
+      { disabledCategories },
+      { categoryId }
+    );
     return true;
   } catch (error) {
     
@@ -4124,7 +5284,9 @@ export const deleteLevelFirestore = async (id: string): Promise<boolean> => {
   if (!db) return false;
   try {
     const levelDocRef = doc(db, "levels", id);
+    const levelDoc = await getDoc(levelDocRef);
     await deleteDoc(levelDocRef);
+    await recordAuditEvent("level.delete", { type: 'level', id, name: levelDoc.data()?.name }, levelDoc.data(), null);
     return true;
   } catch (error) {
     return false;
@@ -4136,7 +5298,9 @@ export const moveLevelUpFirestore = async (id: string): Promise<boolean> => {
   try {
     const q = query(collection(db, "levels"));
     const querySnapshot = await getDocs(q);
-    const levels = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Level));
+    const levels = querySnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as Level))
+      .filter(level => belongsToGame(level));
     
     levels.sort((a, b) => {
       const orderA = a.order !== undefined ? a.order : Infinity;
@@ -4160,6 +5324,7 @@ export const moveLevelUpFirestore = async (id: string): Promise<boolean> => {
       updateDoc(doc(db, "levels", currentLevel.id), { order: previousOrder }),
       updateDoc(doc(db, "levels", previousLevel.id), { order: currentOrder })
     ]);
+    await recordAuditEvent("level.reorder", { type: 'level', id, name: currentLevel.name }, null, null, { direction: "up" });
     
     return true;
   } catch (error) {
@@ -4172,7 +5337,9 @@ export const moveLevelDownFirestore = async (id: string): Promise<boolean> => {
   try {
     const q = query(collection(db, "levels"));
     const querySnapshot = await getDocs(q);
-    const levels = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Level));
+    const levels = querySnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as Level))
+      .filter(level => belongsToGame(level));
     
     levels.sort((a, b) => {
       const orderA = a.order !== undefined ? a.order : Infinity;
@@ -4196,6 +5363,7 @@ export const moveLevelDownFirestore = async (id: string): Promise<boolean> => {
       updateDoc(doc(db, "levels", currentLevel.id), { order: nextOrder }),
       updateDoc(doc(db, "levels", nextLevel.id), { order: currentOrder })
     ]);
+    await recordAuditEvent("level.reorder", { type: 'level', id, name: currentLevel.name }, null, null, { direction: "down" });
     
     return true;
   } catch (error) {
@@ -4204,11 +5372,7 @@ export const moveLevelDownFirestore = async (id: string): Promise<boolean> => {
 };
 
 // Download Categories Management (stored in Firestore for dynamic management)
-export interface DownloadCategory {
-  id: string;
-  name: string;
-  order?: number;
-}
+export type { DownloadCategory };
 
 const DEFAULT_DOWNLOAD_CATEGORIES: Omit<DownloadCategory, 'id'>[] = [
   { name: "Tools", order: 1 },
@@ -4272,6 +5436,7 @@ export const addDownloadCategoryFirestore = async (name: string, order?: number)
     
     const maxOrder = order ?? (await getDownloadCategoriesFirestore()).length + 1;
     await setDoc(categoryRef, { name, order: maxOrder });
+    await recordAuditEvent("downloadCategory.add", { type: 'downloadCategory', id: categoryId, name }, null, { name, order: maxOrder });
     
     return categoryId;
   } catch (error) {
@@ -4289,7 +5454,14 @@ export const updateDownloadCategoryFirestore = async (categoryId: string, name?:
     if (name !== undefined) updateData.name = name;
     if (order !== undefined) updateData.order = order;
     
+    const categorySnap = await getDoc(categoryRef);
     await updateDoc(categoryRef, updateData);
+    await recordAuditEvent(
+      "downloadCategory.update",
+      { type: 'downloadCategory', id: categoryId, name: categorySnap.data()?.name },
+      categorySnap.data(),
+      applyAuditUpdate(categorySnap.data() || {}, getAuditUpdateValues(updateData))
+    );
     return true;
   } catch (error) {
     
@@ -4301,7 +5473,9 @@ export const deleteDownloadCategoryFirestore = async (categoryId: string): Promi
   if (!db) return false;
   try {
     const categoryRef = doc(db, "downloadCategories", categoryId);
+    const categorySnap = await getDoc(categoryRef);
     await deleteDoc(categoryRef);
+    await recordAuditEvent("downloadCategory.delete", { type: 'downloadCategory', id: categoryId, name: categorySnap.data()?.name }, categorySnap.data(), null);
     return true;
   } catch (error) {
     
@@ -4605,6 +5779,45 @@ export const getVerifiedRunsWithInvalidDataFirestore = async (): Promise<Leaderb
   }
 };
 
+/**
+ * Runs checked for duplicates (verified and unverified, up to 2000 of each)
+ */
+async function getDuplicateCheckRuns(): Promise<LeaderboardEntry[]> {
+  const [verifiedSnapshot, unverifiedSnapshot] = await Promise.all([
+    getDocs(query(collection(db, "leaderboardEntries"), where("verified", "==", true), firestoreLimit(2000))),
+    getDocs(query(collection(db, "leaderboardEntries"), where("verified", "==", false), firestoreLimit(2000)))
+  ]);
+  
+  return [
+    ...verifiedSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry)),
+    ...unverifiedSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry))
+  ];
+}
+
+/**
+ * The players linked to a set of runs, by UID, fetched in one pass
+ */
+async function getRunPlayers(runs: LeaderboardEntry[]): Promise<Map<string, Player>> {
+  const uniquePlayerIds = new Set<string>();
+  for (const run of runs) {
+    if (run.playerId && run.playerId.trim()) {
+      uniquePlayerIds.add(run.playerId);
+    }
+    if (run.player2Id && run.player2Id.trim()) {
+      uniquePlayerIds.add(run.player2Id);
+    }
+  }
+  
+  const playerMap = new Map<string, Player>();
+  const players = await Promise.all(Array.from(uniquePlayerIds).map(id => getPlayerByUidFirestore(id)));
+  players.forEach(player => {
+    if (player) {
+      playerMap.set(player.uid, player);
+    }
+  });
+  return playerMap;
+}
+
 /**
  * Find duplicate runs in the database
  * Returns groups of duplicate runs, where each group contains runs that are considered duplicates
@@ -4613,114 +5826,13 @@ export const findDuplicateRunsFirestore = async (): Promise<Array<{ runs: Leader
   if (!db) return [];
   
   try {
-    // Import normalizeSRCUsername for consistent normalization
-    const { normalizeSRCUsername } = await import("@/lib/speedruncom");
-    
-    // Get all runs
-    const queries = [
-      query(collection(db, "leaderboardEntries"), where("verified", "==", true), firestoreLimit(2000)),
-      query(collection(db, "leaderboardEntries"), where("verified", "==", false), firestoreLimit(2000))
-    ];
-    
-    const [verifiedSnapshot, unverifiedSnapshot] = await Promise.all([
-      getDocs(queries[0]),
-      getDocs(queries[1])
-    ]);
-    
-    const allRuns: LeaderboardEntry[] = [
-      ...verifiedSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry)),
-      ...unverifiedSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaderboardEntry))
-    ];
-    
-    // Pre-fetch all unique player IDs to batch lookups
-    const uniquePlayerIds = new Set<string>();
-    for (const run of allRuns) {
-      if (run.playerId && run.playerId.trim()) {
-        uniquePlayerIds.add(run.playerId);
-      }
-      if (run.player2Id && run.player2Id.trim()) {
-        uniquePlayerIds.add(run.player2Id);
-      }
-    }
-    
-    // Batch fetch all players
-    const playerMap = new Map<string, Player>();
-    if (uniquePlayerIds.size > 0) {
-      const playerPromises = Array.from(uniquePlayerIds).map(id => getPlayerByUidFirestore(id));
-      const players = await Promise.all(playerPromises);
-      players.forEach(player => {
-        if (player) {
-          playerMap.set(player.uid, player);
-        }
-      });
-    }
+    const allRuns = await getDuplicateCheckRuns();
+    const playerMap = await getRunPlayers(allRuns);
     
     // Group runs by their duplicate key
-    // Use normalized player identifiers (display name first, then SRC username)
     const runGroups = new Map<string, LeaderboardEntry[]>();
-    
     for (const run of allRuns) {
-      // Get normalized player identifiers (display name first, then SRC username)
-      // Use cached player data if available
-      let player1Id: string;
-      let player2Id: string = "";
-      
-      // Player 1 identifier
-      const player1 = run.playerId ? playerMap.get(run.playerId) : null;
-      if (player1) {
-        // Use display name first, then SRC username
-        if (player1.displayName && player1.displayName.trim()) {
-          player1Id = player1.displayName.trim().toLowerCase();
-        } else if (player1.srcUsername) {
-          player1Id = normalizeSRCUsername(player1.srcUsername);
-        } else {
-          player1Id = (run.playerName || "").trim().toLowerCase();
-        }
-      } else {
-        // Fallback: use display name from run, then SRC username
-        if (run.playerName && run.playerName.trim()) {
-          player1Id = run.playerName.trim().toLowerCase();
-        } else if (run.srcPlayerName) {
-          player1Id = normalizeSRCUsername(run.srcPlayerName);
-        } else {
-          player1Id = "";
-        }
-      }
-      
-      // Player 2 identifier (for co-op runs)
-      if (run.runType === 'co-op') {
-        const player2 = run.player2Id ? playerMap.get(run.player2Id) : null;
-        if (player2) {
-          // Use display name first, then SRC username
-          if (player2.displayName && player2.displayName.trim()) {
-            player2Id = player2.displayName.trim().toLowerCase();
-          } else if (player2.srcUsername) {
-            player2Id = normalizeSRCUsername(player2.srcUsername);
-          } else {
-            player2Id = (run.player2Name || "").trim().toLowerCase();
-          }
-        } else {
-          // Fallback: use display name from run, then SRC username
-          if (run.player2Name && run.player2Name.trim()) {
-            player2Id = run.player2Name.trim().toLowerCase();
-          } else if (run.srcPlayer2Name) {
-            player2Id = normalizeSRCUsername(run.srcPlayer2Name);
-          } else {
-            player2Id = "";
-          }
-        }
-      }
-      
-      // Create run key: player1|player2|category|platform|runType|time|leaderboardType|level
-      // For co-op runs, normalize order (alphabetically sort player identifiers)
-      let key: string;
-      if (run.runType === 'co-op' && player2Id) {
-        const [p1, p2] = [player1Id, player2Id].sort();
-        key = `${p1}|${p2}|${run.category || ''}|${run.platform || ''}|${run.runType || 'solo'}|${run.time || ''}|${run.leaderboardType || 'regular'}|${run.level || ''}`;
-      } else {
-        key = `${player1Id}|${player2Id}|${run.category || ''}|${run.platform || ''}|${run.runType || 'solo'}|${run.time || ''}|${run.leaderboardType || 'regular'}|${run.level || ''}`;
-      }
-      
+      const key = getRunDuplicateKey(run, playerMap);
       if (!runGroups.has(key)) {
         runGroups.set(key, []);
       }
@@ -4782,9 +5894,9 @@ export const removeDuplicateRunsFirestore = async (duplicateGroups: Array<{ runs
       const runsToRemove = runs.slice(1);
       
       for (const run of runsToRemove) {
-        const runDocRef = doc(db, "leaderboardEntries", run.id);
-        batch.delete(runDocRef);
-        batchCount++;
+        const { id: runId, ...runData } = run;
+        trashInBatch(batch, 'run', { id: runId, ref: doc(db, "leaderboardEntries", runId), data: () => runData }, 'duplicate');
+        batchCount += 2;
         result.removed++;
         
         if (batchCount >= MAX_BATCH_SIZE) {
@@ -4825,6 +5937,7 @@ export const removeDuplicateRunsFirestore = async (duplicateGroups: Array<{ runs
       }
     }
     
+    await recordAuditEvent("run.removeDuplicates", { type: 'run' }, null, null, { removed: result.removed, errors: result.errors.length });
     return result;
   } catch (error) {
     
@@ -4833,6 +5946,62 @@ export const removeDuplicateRunsFirestore = async (duplicateGroups: Array<{ runs
   }
 };
 
+/**
+ * Existing runs and players a CSV import is checked against
+ */
+export const getRunImportIndexFirestore = async (): Promise<RunImportIndex> => {
+  const index: RunImportIndex = { duplicateKeys: {}, players: [] };
+  if (!db) return index;
+  
+  try {
+    const runs = await getDuplicateCheckRuns();
+    const playerMap = await getRunPlayers(runs);
+    runs.forEach(run => {
+      const key = getRunDuplicateKey(run, playerMap);
+      if (!index.duplicateKeys[key]) {
+        index.duplicateKeys[key] = run.id;
+      }
+    });
+    index.players = await getAllPlayersFirestore();
+    return index;
+  } catch (error) {
+    return index;
+  }
+};
+
+/**
+ * Add runs from a CSV import, one at a time
+ * Runs are added unverified so they go through the verification queue like any other submission
+ */
+export const importRunsFirestore = async (
+  runs: Array<Partial<LeaderboardEntry>>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<{ imported: number; errors: string[] }> => {
+  const result = { imported: 0, errors: [] as string[] };
+  if (!db) return result;
+  
+  for (let i = 0; i < runs.length; i++) {
+    const run = runs[i];
+    try {
+      const runId = await addLeaderboardEntryFirestore({ ...run, verified: false } as LeaderboardEntry);
+      if (runId) {
+        result.imported++;
+      } else {
+        result.errors.push(`${run.playerName} (${run.time}): failed to save to database`);
+      }
+    } catch (error) {
+      result.errors.push(`${run.playerName} (${run.time}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+    onProgress?.(i + 1, runs.length);
+  }
+  
+  await recordAuditEvent("run.importCsv", { type: 'run' }, null, null, {
+    imported: result.imported,
+    failed: result.errors.length,
+  });
+  return result;
+};
+
 /**
  * Delete all imported runs from speedrun.com
  * Simple purge - deletes all unverified imported runs
@@ -4844,11 +6013,12 @@ export const deleteAllImportedSRCRunsFirestore = async (): Promise<{ deleted: nu
   
   try {
     // Simple query: get all unverified imported runs
+    // Trashing takes two writes per run, so a batch holds 250 runs
     const q = query(
       collection(db, "leaderboardEntries"),
       where("verified", "==", false),
       where("importedFromSRC", "==", true),
-      firestoreLimit(500)
+      firestoreLimit(250)
     );
     
     let hasMore = true;
@@ -4862,13 +6032,13 @@ export const deleteAllImportedSRCRunsFirestore = async (): Promise<{ deleted: nu
         break;
       }
       
-      // Delete in batches (Firestore limit is 500 per batch)
+      // Move to the trash in batches (Firestore limit is 500 writes per batch)
       const batch = writeBatch(db);
       let batchSize = 0;
       
       querySnapshot.docs.forEach((docSnapshot) => {
-        if (batchSize < 500) {
-          batch.delete(docSnapshot.ref);
+        if (batchSize < 250) {
+          trashInBatch(batch, 'run', docSnapshot, 'srcWipe');
           batchSize++;
         }
       });
@@ -4883,12 +6053,13 @@ export const deleteAllImportedSRCRunsFirestore = async (): Promise<{ deleted: nu
         }
         
         // Check if we've processed all documents
-        if (querySnapshot.docs.length < 500) {
+        if (querySnapshot.docs.length < 250) {
           hasMore = false;
         }
       }
     }
     
+    await recordAuditEvent("run.deleteAllImported", { type: 'run' }, null, null, { deleted: result.deleted, errors: result.errors.length });
     return result;
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
@@ -4961,7 +6132,7 @@ export const deleteAllUnclaimedImportedRunsFirestore = async (onProgress?: (dele
   ): Promise<number> => {
     let lastDoc: any = null;
     let totalDeleted = 0;
-    const batchSize = 500;
+    const batchSize = 250; // Trashing takes two writes per run
     
     while (true) {
       // Build query with pagination
@@ -4995,13 +6166,13 @@ export const deleteAllUnclaimedImportedRunsFirestore = async (onProgress?: (dele
         continue;
       }
       
-      // Delete in batches (Firestore limit is 500 per batch)
+      // Move to the trash in batches (Firestore limit is 500 writes per batch)
       const batch = writeBatch(db);
       let currentBatchSize = 0;
       
       unclaimedDocs.forEach((docSnapshot) => {
         if (currentBatchSize < batchSize) {
-          batch.delete(docSnapshot.ref);
+          trashInBatch(batch, 'run', docSnapshot, 'srcWipe');
           currentBatchSize++;
         }
       });
@@ -5037,7 +6208,7 @@ export const deleteAllUnclaimedImportedRunsFirestore = async (onProgress?: (dele
         where("verified", "==", true),
         where("importedFromSRC", "==", true),
         orderBy("__name__"),
-        firestoreLimit(500)
+        firestoreLimit(250)
       ],
       "verified"
     );
@@ -5048,11 +6219,12 @@ export const deleteAllUnclaimedImportedRunsFirestore = async (onProgress?: (dele
         where("verified", "==", false),
         where("importedFromSRC", "==", true),
         orderBy("__name__"),
-        firestoreLimit(500)
+        firestoreLimit(250)
       ],
       "unverified"
     );
     
+    await recordAuditEvent("run.deleteUnclaimedImported", { type: 'run' }, null, null, { deleted: result.deleted, errors: result.errors.length });
     return result;
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
@@ -5075,7 +6247,7 @@ export const wipeAllImportedSRCRunsFirestore = async (onProgress?: (deleted: num
     // Use cursor-based pagination to fetch all batches
     let lastDoc: any = null;
     let totalDeleted = 0;
-    const batchSize = 500;
+    const batchSize = 250; // Trashing takes two writes per run
     
     // Delete in batches until no more runs
     while (true) {
@@ -5098,13 +6270,13 @@ export const wipeAllImportedSRCRunsFirestore = async (onProgress?: (deleted: num
         break; // No more documents
       }
       
-      // Delete in batches (Firestore limit is 500 per batch)
+      // Move to the trash in batches (Firestore limit is 500 writes per batch)
       const batch = writeBatch(db);
       let currentBatchSize = 0;
       
       querySnapshot.docs.forEach((docSnapshot) => {
         if (currentBatchSize < batchSize) {
-          batch.delete(docSnapshot.ref);
+          trashInBatch(batch, 'run', docSnapshot, 'srcWipe');
           currentBatchSize++;
         }
       });
@@ -5132,6 +6304,7 @@ export const wipeAllImportedSRCRunsFirestore = async (onProgress?: (deleted: num
       }
     }
     
+    await recordAuditEvent("run.wipeImported", { type: 'run' }, null, null, { deleted: result.deleted, errors: result.errors.length });
     return result;
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
@@ -5140,11 +6313,20 @@ export const wipeAllImportedSRCRunsFirestore = async (onProgress?: (deleted: num
   }
 };
 
+/**
+ * Points config document ID for a game
+ * The default game keeps the original "default" document
+ */
+function getPointsConfigDocId(gameId: string): string {
+  return gameId === DEFAULT_GAME_ID ? "default" : gameId;
+}
+
 /**
  * Get the points configuration from Firestore
  * Returns default configuration if not found
+ * @param gameId - Game to read the configuration for (defaults to the active game)
  */
-export const getPointsConfigFirestore = async (): Promise<PointsConfig> => {
+export const getPointsConfigFirestore = async (gameId: string = getActiveGameId()): Promise<PointsConfig> => {
   if (!db) {
     // Return default config if Firestore is not initialized
     return {
@@ -5163,13 +6345,14 @@ export const getPointsConfigFirestore = async (): Promise<PointsConfig> => {
   }
 
   try {
-    const configDocRef = doc(db, "pointsConfig", "default");
+    const configDocRef = doc(db, "pointsConfig", getPointsConfigDocId(gameId));
     const configDocSnap = await getDoc(configDocRef);
     
     if (configDocSnap.exists()) {
       const data = configDocSnap.data();
       return {
         id: configDocSnap.id,
+        gameId,
         basePoints: data.basePoints ?? 10,
         rank1Bonus: data.rank1Bonus ?? 50,
         rank2Bonus: data.rank2Bonus ?? 30,
@@ -5180,6 +6363,11 @@ export const getPointsConfigFirestore = async (): Promise<PointsConfig> => {
         obsoleteMultiplier: data.obsoleteMultiplier ?? 0.5,
         applyRankBonusesToIL: data.applyRankBonusesToIL ?? false,
         applyRankBonusesToCommunityGolds: data.applyRankBonusesToCommunityGolds ?? false,
+        scoringStrategy: data.scoringStrategy ?? 'flat',
+        wrPoints: data.wrPoints ?? DEFAULT_WR_POINTS,
+        wrRatioExponent: data.wrRatioExponent ?? DEFAULT_WR_RATIO_EXPONENT,
+        categoryWeights: data.categoryWeights ?? {},
+        version: data.version ?? 0,
       };
     } else {
       // Return default config if document doesn't exist
@@ -5216,17 +6404,30 @@ export const getPointsConfigFirestore = async (): Promise<PointsConfig> => {
 };
 
 /**
- * Update the points configuration in Firestore
+ * Update the points configuration for the active game in Firestore
+ */
+/**
+ * Publish changes to the active game's points config
+ * Every save bumps the version and is recorded in the config history with who made it
  */
-export const updatePointsConfigFirestore = async (config: Partial<PointsConfig>): Promise<boolean> => {
+export const updatePointsConfigFirestore = async (
+  config: Partial<PointsConfig>,
+  changedBy?: { uid: string; name?: string }
+): Promise<boolean> => {
   if (!db) return false;
 
   try {
-    const configDocRef = doc(db, "pointsConfig", "default");
+    const gameId = getActiveGameId();
+    const configDocRef = doc(db, "pointsConfig", getPointsConfigDocId(gameId));
     const configDocSnap = await getDoc(configDocRef);
+    const previousConfig = await getPointsConfigFirestore(gameId);
     
+    // Every change bumps the version, so ledger entries record which rules they were calculated with
+    const currentVersion = configDocSnap.exists() ? (configDocSnap.data().version ?? 0) : 0;
     const updateData: Partial<PointsConfig> = {
       ...config,
+      gameId,
+      version: currentVersion + 1,
     };
     // Remove id from update data as it's the document ID
     delete updateData.id;
@@ -5236,6 +6437,7 @@ export const updatePointsConfigFirestore = async (config: Partial<PointsConfig>)
     } else {
       // Create new document with default values
       const defaultConfig: Omit<PointsConfig, 'id'> = {
+        gameId,
         basePoints: config.basePoints ?? 10,
         rank1Bonus: config.rank1Bonus ?? 50,
         rank2Bonus: config.rank2Bonus ?? 30,
@@ -5246,12 +6448,821 @@ export const updatePointsConfigFirestore = async (config: Partial<PointsConfig>)
         obsoleteMultiplier: config.obsoleteMultiplier ?? 0.5,
         applyRankBonusesToIL: config.applyRankBonusesToIL ?? false,
         applyRankBonusesToCommunityGolds: config.applyRankBonusesToCommunityGolds ?? false,
+        scoringStrategy: config.scoringStrategy ?? 'flat',
+        wrPoints: config.wrPoints ?? DEFAULT_WR_POINTS,
+        wrRatioExponent: config.wrRatioExponent ?? DEFAULT_WR_RATIO_EXPONENT,
+        categoryWeights: config.categoryWeights ?? {},
+        version: currentVersion + 1,
       };
       await setDoc(configDocRef, defaultConfig);
     }
     
+    // Record the published version so changes can be audited and rolled back
+    const publishedConfig = await getPointsConfigFirestore(gameId);
+    const { id: versionId, ...versionData } = createPointsConfigVersion(
+      previousConfig,
+      { ...publishedConfig, gameId, version: currentVersion + 1 },
+      changedBy
+    );
+    await setDoc(doc(db, "pointsConfigHistory", versionId), versionData);
+    await recordAuditEvent("pointsConfig.update", { type: 'pointsConfig', id: gameId, name: `v${currentVersion + 1}` }, previousConfig, publishedConfig);
+    
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Get every published version of a game's points config, newest first
+ */
+export const getPointsConfigHistoryFirestore = async (gameId: string = getActiveGameId()): Promise<PointsConfigVersion[]> => {
+  if (!db) return [];
+  try {
+    const historySnapshot = await getDocs(query(collection(db, "pointsConfigHistory"), where("gameId", "==", gameId)));
+    return historySnapshot.docs
+      .map(versionDoc => ({ id: versionDoc.id, ...versionDoc.data() } as PointsConfigVersion))
+      .sort((a, b) => b.version - a.version);
+  } catch (error) {
+    return [];
+  }
+};
+
+// Seasons
+
+/**
+ * Get the active game's seasons, newest first
+ */
+export const getSeasonsFirestore = async (): Promise<Season[]> => {
+  if (!db) return [];
+  try {
+    const seasonsSnapshot = await getDocs(collection(db, "seasons"));
+    const seasons = seasonsSnapshot.docs
+      .map(seasonDoc => ({ id: seasonDoc.id, ...seasonDoc.data() } as Season))
+      .filter(season => belongsToGame(season));
+    return sortSeasons(seasons);
+  } catch (error) {
+    return [];
+  }
+};
+
+export const getSeasonFirestore = async (seasonId: string): Promise<Season | null> => {
+  if (!db || !seasonId) return null;
+  try {
+    const seasonDoc = await getDoc(doc(db, "seasons", seasonId));
+    return seasonDoc.exists() ? ({ id: seasonDoc.id, ...seasonDoc.data() } as Season) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const addSeasonFirestore = async (season: Pick<Season, 'name' | 'startDate' | 'endDate'>): Promise<string | null> => {
+  if (!db || validateSeason(season)) return null;
+  try {
+    const seasonDocRef = doc(collection(db, "seasons"));
+    const newSeason = {
+      gameId: getActiveGameId(),
+      name: season.name.trim(),
+      startDate: season.startDate,
+      endDate: season.endDate,
+    };
+    await setDoc(seasonDocRef, newSeason);
+    await recordAuditEvent("season.add", { type: 'season', id: seasonDocRef.id, name: newSeason.name }, null, newSeason);
+    return seasonDocRef.id;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Rename a season or change its dates
+ * Archived seasons are final and can't be changed
+ */
+export const updateSeasonFirestore = async (seasonId: string, data: Partial<Pick<Season, 'name' | 'startDate' | 'endDate'>>): Promise<boolean> => {
+  if (!db) return false;
+  try {
+    const season = await getSeasonFirestore(seasonId);
+    if (!season || season.archived) return false;
+    
+    const updated = { ...season, ...data, name: (data.name ?? season.name).trim() };
+    if (validateSeason(updated)) return false;
+    
+    await updateDoc(doc(db, "seasons", seasonId), {
+      name: updated.name,
+      startDate: updated.startDate,
+      endDate: updated.endDate,
+    });
+    await recordAuditEvent("season.update", { type: 'season', id: seasonId, name: season.name }, season, updated);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const deleteSeasonFirestore = async (seasonId: string): Promise<boolean> => {
+  if (!db) return false;
+  try {
+    const season = await getSeasonFirestore(seasonId);
+    await deleteDoc(doc(db, "seasons", seasonId));
+    await recordAuditEvent("season.delete", { type: 'season', id: seasonId, name: season?.name }, season, null);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Tally a season's standings from the verified runs dated within it
+ */
+async function getLiveSeasonStandings(season: Season): Promise<SeasonStanding[]> {
+  if (!db) return [];
+  const runsSnapshot = await getDocs(query(
+    collection(db, "leaderboardEntries"),
+    where("verified", "==", true),
+    where("date", ">=", season.startDate),
+    where("date", "<=", season.endDate)
+  ));
+  const runs = runsSnapshot.docs
+    .map(runDoc => ({ id: runDoc.id, ...runDoc.data() } as LeaderboardEntry))
+    .filter(run => belongsToGame(run, season.gameId || DEFAULT_GAME_ID));
+  
+  const playerIds = new Set<string>();
+  runs.forEach(run => {
+    if (run.playerId) playerIds.add(run.playerId);
+    if (run.runType === 'co-op' && run.player2Id) playerIds.add(run.player2Id);
+  });
+  const playerSnapshots = await Promise.all(Array.from(playerIds).map(playerId => getDoc(doc(db!, "players", playerId))));
+  const players = new Map<string, Player>();
+  playerSnapshots
+    .filter(playerSnap => playerSnap.exists())
+    .forEach(playerSnap => players.set(playerSnap.id, playerSnap.data() as Player));
+  
+  return getSeasonStandings(season, runs, players);
+}
+
+/**
+ * Get a season's standings: the final results once it's archived, otherwise the current tally
+ */
+export const getSeasonStandingsFirestore = async (seasonId: string): Promise<SeasonStanding[]> => {
+  const season = await getSeasonFirestore(seasonId);
+  if (!season) return [];
+  if (season.archived) return season.finalStandings || [];
+  try {
+    return await getLiveSeasonStandings(season);
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Finalize a season that has ended, freezing its standings as the final results
+ * Later changes to its runs (verifications, edits, points config changes) no longer affect them
+ */
+export const archiveSeasonFirestore = async (seasonId: string): Promise<boolean> => {
+  if (!db) return false;
+  try {
+    const season = await getSeasonFirestore(seasonId);
+    if (!season || getSeasonStatus(season) !== 'ended') return false;
+    
+    const finalStandings = await getLiveSeasonStandings(season);
+    await updateDoc(doc(db, "seasons", seasonId), {
+      archived: true,
+      archivedAt: new Date().toISOString(),
+      finalStandings,
+    });
+    await recordAuditEvent("season.archive", { type: 'season', id: seasonId, name: season.name }, { archived: season.archived }, { archived: true }, {
+      players: finalStandings.length,
+    });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Get where a player placed in each of the active game's seasons that has started, newest first
+ */
+export const getPlayerSeasonPlacementsFirestore = async (playerId: string): Promise<SeasonPlacement[]> => {
+  if (!db || !playerId) return [];
+  try {
+    const seasons = (await getSeasonsFirestore()).filter(season => getSeasonStatus(season) !== 'upcoming');
+    const placements: SeasonPlacement[] = [];
+    for (const season of seasons) {
+      const standings = season.archived ? (season.finalStandings || []) : await getLiveSeasonStandings(season);
+      const standing = standings.find(entry => entry.playerId === playerId);
+      if (standing) {
+        const { finalStandings: _finalStandings, ...seasonInfo } = season;
+        placements.push({ season: seasonInfo, standing, totalPlayers: standings.length });
+      }
+    }
+    return placements;
+  } catch (error) {
+    return [];
+  }
+};
+
+// Audit log
+
+/**
+ * Get the most recent audit log entries matching the filters, newest first
+ * The most selective filter runs in the query (each has an index with createdAt); the rest are applied to its results
+ */
+export const getAuditLogFirestore = async (filters: AuditLogFilters = {}, limit: number = 200): Promise<AuditLogEntry[]> => {
+  if (!db) return [];
+  try {
+    const constraints: QueryConstraint[] = [];
+    const queryField = (['targetId', 'actorUid', 'action', 'targetType'] as const).find(field => filters[field]);
+    if (queryField) {
+      constraints.push(where(queryField, "==", filters[queryField]));
+    }
+    constraints.push(orderBy("createdAt", "desc"), firestoreLimit(limit));
+    
+    const auditSnapshot = await getDocs(query(collection(db, "auditLog"), ...constraints));
+    return auditSnapshot.docs
+      .map(entryDoc => ({ id: entryDoc.id, ...entryDoc.data() } as AuditLogEntry))
+      .filter(entry => matchesAuditFilters(entry, filters));
+  } catch (error) {
+    return [];
+  }
+};
+
+// Run revisions
+
+/**
+ * Get a run's revisions, newest first
+ */
+export const getRunRevisionsFirestore = async (runId: string): Promise<RunRevision[]> => {
+  if (!db || !runId) return [];
+  try {
+    const revisionsSnapshot = await getDocs(query(collection(db, "runRevisions"), where("runId", "==", runId)));
+    return sortRunRevisions(revisionsSnapshot.docs.map(revisionDoc => ({ id: revisionDoc.id, ...revisionDoc.data() } as RunRevision)));
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Revert a run to how it was at a revision (0 = as submitted)
+ * The revert is saved like any other edit, so it's recorded as a new revision and the run is re-ranked and rescored
+ */
+export const revertRunToRevisionFirestore = async (runId: string, revision: number): Promise<{ success: boolean; error?: string }> => {
+  if (!db) return { success: false, error: "Database not initialized" };
+  try {
+    const runDoc = await getDoc(doc(db, "leaderboardEntries", runId));
+    if (!runDoc.exists()) {
+      return { success: false, error: "Run not found" };
+    }
+    const snapshot = getRunRevisionSnapshot(await getRunRevisionsFirestore(runId), revision);
+    if (!snapshot) {
+      return { success: false, error: "Revision not found" };
+    }
+    
+    const update = getRunRevertUpdate({ id: runDoc.id, ...runDoc.data() } as LeaderboardEntry, snapshot);
+    if (Object.keys(update).length === 0) {
+      return { success: true };
+    }
+    const success = await updateLeaderboardEntryFirestore(runId, update, revision);
+    return success ? { success } : { success, error: "Failed to update the run" };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Delete the revisions of runs that have been permanently deleted
+ */
+async function deleteRunRevisions(runIds: string[]): Promise<void> {
+  if (!db) return;
+  for (const runId of runIds) {
+    const revisionsSnapshot = await getDocs(query(collection(db, "runRevisions"), where("runId", "==", runId)));
+    if (revisionsSnapshot.empty) continue;
+    const batch = writeBatch(db);
+    revisionsSnapshot.docs.forEach(revisionDoc => batch.delete(revisionDoc.ref));
+    await batch.commit();
+  }
+}
+
+// Trash
+
+/**
+ * Get every run and player in the trash, most recently deleted first
+ */
+export const getTrashFirestore = async (): Promise<TrashItem[]> => {
+  if (!db) return [];
+  try {
+    const trashSnapshot = await getDocs(collection(db, "trash"));
+    return trashSnapshot.docs
+      .map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() } as TrashItem))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Re-rank the boards of restored runs and recompute studs for their players
+ */
+async function rebuildRestoredRuns(restoredRuns: LeaderboardEntry[]): Promise<void> {
+  const verifiedRuns = restoredRuns.filter(run => run.verified);
+  if (verifiedRuns.length === 0) return;
+  
+  const boards = new Map<string, LeaderboardBoard>();
+  verifiedRuns.forEach(run => {
+    const board = getRunBoard(run);
+    boards.set(getBoardKey(board), board);
+  });
+  for (const board of boards.values()) {
+    await updateBoardRanks(board);
+  }
+  for (const run of verifiedRuns) {
+    const playerIds = [run.playerId, run.player2Id].filter((id): id is string => !!id);
+    if (playerIds.length > 0) {
+      await recalculatePointsForPlayers(playerIds, run);
+    }
+  }
+  await recalculateBoardPoints([...boards.values()]);
+}
+
+/**
+ * Restore a run or player from the trash
+ * A player's runs that were trashed with them are restored too, and their display name is reserved again.
+ * Documents are restored and removed from the trash in transactions (a player first, then their runs in chunks);
+ * boards are re-ranked afterwards
+ */
+export const restoreTrashItemFirestore = async (trashId: string): Promise<{ success: boolean; restoredRuns?: number; error?: string }> => {
+  if (!db) return { success: false, error: "Database not initialized" };
+  const firestore = db;
+  try {
+    const trashDocRef = doc(firestore, "trash", trashId);
+    const trashDoc = await getDoc(trashDocRef);
+    if (!trashDoc.exists()) {
+      return { success: false, error: "Item not found in the trash" };
+    }
+    const item = { id: trashDoc.id, ...trashDoc.data() } as TrashItem;
+    
+    if (item.type === 'run') {
+      const run = getRestoredRun(item);
+      const runDocRef = doc(firestore, "leaderboardEntries", item.itemId);
+      const error = await runTransaction(firestore, async (transaction) => {
+        if (!(await transaction.get(trashDocRef)).exists()) return "Item not found in the trash";
+        if ((await transaction.get(runDocRef)).exists()) return "A run with this ID already exists";
+        transaction.set(runDocRef, run);
+        transaction.delete(trashDocRef);
+        return null;
+      });
+      if (error) {
+        return { success: false, error };
+      }
+      
+      await rebuildRestoredRuns([{ id: item.itemId, ...run } as LeaderboardEntry]);
+      await recordAuditEvent("run.restore", getRunAuditTarget(item.itemId, run), null, run, { reason: item.reason });
+      return { success: true };
+    }
+    
+    const player = item.data as Omit<Player, 'id'>;
+    const playerDocRef = doc(firestore, "players", item.itemId);
+    const error = await runTransaction(firestore, async (transaction) => {
+      if (!(await transaction.get(trashDocRef)).exists()) return "Item not found in the trash";
+      if ((await transaction.get(playerDocRef)).exists()) return "A player with this ID already exists";
+      
+      if (player.displayName) {
+        const reserved = await reserveDisplayNameInTransaction(transaction, player.uid || item.itemId, player.displayName, undefined, {
+          id: item.itemId,
+          data: player,
+          create: true,
+        });
+        if (!reserved) {
+          return `The display name "${player.displayName}" has been taken by another player`;
+        }
+      } else {
+        transaction.set(playerDocRef, player);
+      }
+      transaction.delete(trashDocRef);
+      return null;
+    });
+    if (error) {
+      return { success: false, error };
+    }
+    
+    // The player's runs follow in their own transactions (two writes per run, Firestore allows 500 per transaction);
+    // runs that were purged or already restored are skipped, and any that fail stay in the trash to restore on their own
+    const MAX_RUNS_PER_TRANSACTION = 200;
+    const restoredRuns: LeaderboardEntry[] = [];
+    const runIds = item.runIds || [];
+    let failedRuns = 0;
+    for (let i = 0; i < runIds.length; i += MAX_RUNS_PER_TRANSACTION) {
+      const chunk = runIds.slice(i, i + MAX_RUNS_PER_TRANSACTION);
+      try {
+        restoredRuns.push(...await runTransaction(firestore, async (transaction) => {
+          const runItems: TrashItem[] = [];
+          for (const runId of chunk) {
+            const runTrashDoc = await transaction.get(doc(firestore, "trash", getTrashItemId('run', runId)));
+            if (!runTrashDoc.exists()) continue;
+            if ((await transaction.get(doc(firestore, "leaderboardEntries", runId))).exists()) continue;
+            runItems.push({ id: runTrashDoc.id, ...runTrashDoc.data() } as TrashItem);
+          }
+          return runItems.map(runItem => {
+            const run = getRestoredRun(runItem);
+            transaction.set(doc(firestore, "leaderboardEntries", runItem.itemId), run);
+            transaction.delete(doc(firestore, "trash", runItem.id));
+            return { id: runItem.itemId, ...run } as LeaderboardEntry;
+          });
+        }));
+      } catch (error) {
+        failedRuns += chunk.length;
+      }
+    }
+    
+    await rebuildRestoredRuns(restoredRuns);
+    if (player.uid) {
+      await recalculatePlayerPointsFirestore(player.uid);
+    }
+    await recordAuditEvent("player.restore", { type: 'player', id: item.itemId, name: player.displayName }, null, player, {
+      restoredRuns: restoredRuns.length,
+      ...(failedRuns > 0 && { failedRuns }),
+    });
+    return {
+      success: true,
+      restoredRuns: restoredRuns.length,
+      ...(failedRuns > 0 && { error: `${failedRuns} runs couldn't be restored and are still in the trash` }),
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Permanently delete an item from the trash
+ */
+export const purgeTrashItemFirestore = async (trashId: string): Promise<boolean> => {
+  if (!db) return false;
+  try {
+    const trashDocRef = doc(db, "trash", trashId);
+    const trashDoc = await getDoc(trashDocRef);
+    if (!trashDoc.exists()) return false;
+    const item = { id: trashDoc.id, ...trashDoc.data() } as TrashItem;
+    
+    await deleteDoc(trashDocRef);
+    if (item.type === 'run') {
+      await deleteRunRevisions([item.itemId]);
+    }
+    await recordAuditEvent(`${item.type}.purge`, getTrashAuditTarget(item), item.data, null, { reason: item.reason });
     return true;
   } catch (error) {
     return false;
   }
 };
+
+/**
+ * Permanently delete every trash item past its retention period, recording each one in the audit log
+ * Returns how many were purged
+ */
+export const purgeExpiredTrashFirestore = async (): Promise<number> => {
+  if (!db) return 0;
+  try {
+    const expiredSnapshot = await getDocs(query(
+      collection(db, "trash"),
+      where("expiresAt", "<=", new Date().toISOString())
+    ));
+    if (expiredSnapshot.empty) return 0;
+    
+    const MAX_BATCH_SIZE = 500;
+    for (let i = 0; i < expiredSnapshot.docs.length; i += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      expiredSnapshot.docs.slice(i, i + MAX_BATCH_SIZE).forEach(itemDoc => batch.delete(itemDoc.ref));
+      await batch.commit();
+    }
+    const items = expiredSnapshot.docs.map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() } as TrashItem));
+    await deleteRunRevisions(items.filter(item => item.type === 'run').map(item => item.itemId));
+    for (const item of items) {
+      await recordAuditEvent(`${item.type}.purge`, getTrashAuditTarget(item), item.data, null, { reason: item.reason, expired: true });
+    }
+    return expiredSnapshot.size;
+  } catch (error) {
+    return 0;
+  }
+};
+
+// Backups
+
+/**
+ * Read every backed-up collection in full (across all games)
+ */
+async function readBackupCollections(): Promise<BackupCollections> {
+  const collections = {} as BackupCollections;
+  for (const collectionName of BACKUP_COLLECTIONS) {
+    const snapshot = await getDocs(collection(db!, collectionName));
+    collections[collectionName] = snapshot.docs.map(document => ({ id: document.id, ...document.data() } as BackupDocument));
+  }
+  return collections;
+}
+
+/**
+ * Snapshot the site's data into a backup archive
+ */
+export const createBackupFirestore = async (): Promise<BackupArchive | null> => {
+  if (!db) return null;
+  try {
+    const archive = createBackupArchive(await readBackupCollections(), getCurrentActor()?.uid);
+    await recordAuditEvent("backup.create", { type: 'backup' }, null, null, Object.fromEntries(
+      BACKUP_COLLECTIONS.map(collectionName => [collectionName, archive.collections[collectionName].length])
+    ));
+    return archive;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Preview what restoring a backup would change
+ * @param skipRunIds - Runs left out of the restore (e.g. ones that failed validation)
+ */
+export const getBackupDiffFirestore = async (archive: BackupArchive, skipRunIds: string[] = []): Promise<BackupCollectionDiff[]> => {
+  if (!db) return [];
+  return getBackupDiff(archive, await readBackupCollections(), skipRunIds);
+};
+
+/**
+ * Write a backup back to the site in batches: new and changed documents are written as they are in the backup,
+ * and with removeMissing, documents that aren't in the backup are deleted. The boards of restored runs are re-ranked afterwards
+ */
+export const restoreBackupFirestore = async (
+  archive: BackupArchive,
+  options: BackupRestoreOptions = {},
+  skipRunIds: string[] = [],
+  onProgress?: (progress: BackupRestoreProgress) => void
+): Promise<{ written: number; deleted: number; errors: string[] }> => {
+  const result = { written: 0, deleted: 0, errors: [] as string[] };
+  if (!db) {
+    result.errors.push("Firestore not initialized");
+    return result;
+  }
+  
+  let current: BackupCollections;
+  let diffs: BackupCollectionDiff[];
+  try {
+    current = await readBackupCollections();
+    diffs = getBackupDiff(archive, current, skipRunIds);
+  } catch (error) {
+    result.errors.push(`Failed to read the current data: ${error instanceof Error ? error.message : String(error)}`);
+    return result;
+  }
+  
+  // Firestore batch limit is 500
+  const MAX_BATCH_SIZE = 500;
+  for (const diff of diffs) {
+    const documentsById = new Map(archive.collections[diff.collection].map(document => [document.id, document]));
+    // Documents that aren't in the backup have no data and are deleted
+    const operations = [
+      ...[...diff.added, ...diff.changed].map(id => ({ id, document: documentsById.get(id) })),
+      ...(options.removeMissing ? diff.removed : []).map(id => ({ id, document: undefined as BackupDocument | undefined })),
+    ];
+    
+    for (let i = 0; i < operations.length; i += MAX_BATCH_SIZE) {
+      const chunk = operations.slice(i, i + MAX_BATCH_SIZE);
+      const batch = writeBatch(db);
+      chunk.forEach(({ id, document }) => {
+        if (document) {
+          const { id: _id, ...data } = document;
+          batch.set(doc(db!, diff.collection, id), data);
+        } else {
+          batch.delete(doc(db!, diff.collection, id));
+        }
+      });
+      
+      try {
+        await batch.commit();
+        const written = chunk.filter(operation => operation.document).length;
+        result.written += written;
+        result.deleted += chunk.length - written;
+      } catch (error) {
+        result.errors.push(`Failed to restore ${diff.collection}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      onProgress?.({ collection: diff.collection, completed: Math.min(i + MAX_BATCH_SIZE, operations.length), total: operations.length });
+    }
+  }
+  
+  // Ranks and studs depend on the rest of a board, so every board a restored or deleted run is on is re-ranked
+  const runsDiff = diffs.find(diff => diff.collection === 'leaderboardEntries');
+  const boards = new Map<string, LeaderboardBoard>();
+  if (runsDiff) {
+    const archivedRuns = new Map(archive.collections.leaderboardEntries.map(document => [document.id, document]));
+    const currentRuns = new Map(current.leaderboardEntries.map(document => [document.id, document]));
+    [...runsDiff.added, ...runsDiff.changed, ...(options.removeMissing ? runsDiff.removed : [])].forEach(id => {
+      [archivedRuns.get(id), currentRuns.get(id)].forEach(document => {
+        const run = document as unknown as LeaderboardEntry | undefined;
+        if (!run?.verified) return;
+        const board = getRunBoard(run);
+        boards.set(getBoardKey(board), board);
+      });
+    });
+  }
+  try {
+    for (const board of boards.values()) {
+      await updateBoardRanks(board);
+    }
+    await recalculateBoardPoints([...boards.values()]);
+  } catch (error) {
+    result.errors.push(`Failed to re-rank the restored boards: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  await recordAuditEvent("backup.restore", { type: 'backup', name: archive.createdAt }, null, null, {
+    written: result.written,
+    deleted: result.deleted,
+    removeMissing: !!options.removeMissing,
+    skippedRuns: skipRunIds.length,
+    boardsRanked: boards.size,
+  });
+  return result;
+};
+
+// Migrations
+
+/**
+ * Progress of every migration that has been started
+ */
+export const getMigrationStatusesFirestore = async (): Promise<MigrationStatus[]> => {
+  if (!db) return [];
+  try {
+    const snapshot = await getDocs(collection(db, "migrations"));
+    return snapshot.docs.map(statusDoc => ({ id: statusDoc.id, ...statusDoc.data() } as MigrationStatus));
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Run a migration over its collection in batches, resuming from where an earlier run stopped
+ * Every changed document's previous values are recorded in migrationChanges so the migration can be rolled back.
+ * A dry run reads the whole collection and reports what would change without writing anything
+ */
+export const runMigrationFirestore = async (
+  migrationId: string,
+  options: MigrationRunOptions = {},
+  onProgress?: (progress: { processed: number; changed: number; total: number }) => void
+): Promise<MigrationRunResult> => {
+  const result: MigrationRunResult = { processed: 0, changed: 0, total: 0, completed: false, samples: [], errors: [] };
+  if (!db) {
+    result.errors.push("Firestore not initialized");
+    return result;
+  }
+  const migration = getMigration(migrationId);
+  if (!migration) {
+    result.errors.push(`Unknown migration ${migrationId}`);
+    return result;
+  }
+  
+  const MAX_SAMPLES = 20;
+  const batchSize = Math.min(options.batchSize || 200, 200);
+  const statusRef = doc(db, "migrations", migrationId);
+  
+  try {
+    const statusSnapshot = await getDoc(statusRef);
+    const existingStatus = statusSnapshot.exists() ? { id: statusSnapshot.id, ...statusSnapshot.data() } as MigrationStatus : null;
+    if (!options.dryRun) {
+      if (existingStatus?.status === 'completed') {
+        result.errors.push("This migration has already been run");
+        return result;
+      }
+      const prerequisites = getPendingPrerequisites(migration, await getMigrationStatusesFirestore());
+      if (prerequisites.length > 0) {
+        result.errors.push(`Run ${prerequisites.map(getMigrationId).join(", ")} first`);
+        return result;
+      }
+    }
+    
+    result.total = (await getCountFromServer(collection(db, migration.collection))).data().count;
+    
+    // Resume a stopped run; a run after a rollback starts over
+    const resuming = !options.dryRun && existingStatus?.status === 'running';
+    let cursor = resuming ? existingStatus.cursor : undefined;
+    result.processed = resuming ? existingStatus.processed : 0;
+    result.changed = resuming ? existingStatus.changed : 0;
+    const status: MigrationStatus = resuming ? existingStatus : {
+      id: migrationId,
+      collection: migration.collection,
+      version: migration.version,
+      status: 'running',
+      processed: 0,
+      changed: 0,
+      startedAt: new Date().toISOString(),
+    };
+    if (!resuming && !options.dryRun) {
+      const actor = getCurrentActor();
+      if (actor) status.startedBy = actor.uid;
+      await setDoc(statusRef, JSON.parse(JSON.stringify(status)));
+    }
+    
+    while (true) {
+      const constraints: QueryConstraint[] = [orderBy(documentId())];
+      if (cursor) constraints.push(startAfter(cursor));
+      constraints.push(firestoreLimit(batchSize));
+      const snapshot = await getDocs(query(collection(db, migration.collection), ...constraints));
+      if (snapshot.empty) break;
+      
+      const batch = writeBatch(db);
+      let changedInBatch = 0;
+      snapshot.docs.forEach(documentSnapshot => {
+        const change = getMigrationChange(migration, documentSnapshot.id, documentSnapshot.data());
+        if (!change) return;
+        
+        const hasChanges = hasMigrationFieldChanges(change);
+        if (hasChanges) {
+          changedInBatch++;
+          if (result.samples.length < MAX_SAMPLES) result.samples.push(change);
+        }
+        if (options.dryRun) return;
+        
+        const update: UpdateData<DocumentData> = { schemaVersion: migration.version };
+        Object.keys(change.before).forEach(field => {
+          update[field] = field in change.after ? change.after[field] : deleteField();
+        });
+        change.addedFields.forEach(field => {
+          update[field] = change.after[field];
+        });
+        batch.update(documentSnapshot.ref, update);
+        if (hasChanges) {
+          const { id: changeId, ...changeData } = change;
+          batch.set(doc(db!, "migrationChanges", changeId), JSON.parse(JSON.stringify(changeData)));
+        }
+      });
+      
+      cursor = snapshot.docs[snapshot.docs.length - 1].id;
+      result.processed += snapshot.docs.length;
+      result.changed += changedInBatch;
+      if (!options.dryRun) {
+        batch.update(statusRef, { cursor, processed: result.processed, changed: result.changed });
+        await batch.commit();
+      }
+      onProgress?.({ processed: result.processed, changed: result.changed, total: result.total });
+      
+      if (snapshot.docs.length < batchSize) break;
+      if (options.shouldStop?.()) return result;
+    }
+    
+    result.completed = true;
+    if (!options.dryRun) {
+      // Re-ranked before the migration is marked completed, so a failure here is retried by running it again
+      const boardsRanked = migration.rebuildsBoardRanks ? await updateAllBoardRanks() : undefined;
+      await updateDoc(statusRef, { status: 'completed', completedAt: new Date().toISOString(), cursor: deleteField() });
+      await recordAuditEvent("migration.run", { type: 'migration', id: migrationId, name: migration.name }, null, null, {
+        processed: result.processed,
+        changed: result.changed,
+        ...(boardsRanked !== undefined && { boardsRanked }),
+      });
+    }
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : String(error));
+  }
+  return result;
+};
+
+/**
+ * Undo a completed migration from its recorded changes
+ * Changed documents get their previous values and schemaVersion back; documents it didn't change keep the new
+ * schemaVersion, since their data is the same under both versions
+ */
+export const rollbackMigrationFirestore = async (
+  migrationId: string,
+  onProgress?: (completed: number, total: number) => void
+): Promise<{ success: boolean; restored: number; error?: string }> => {
+  if (!db) return { success: false, restored: 0, error: "Firestore not initialized" };
+  const migration = getMigration(migrationId);
+  if (!migration) return { success: false, restored: 0, error: `Unknown migration ${migrationId}` };
+  
+  try {
+    if (!canRollbackMigration(migration, await getMigrationStatusesFirestore())) {
+      return { success: false, restored: 0, error: "Only the latest completed migration for a collection can be rolled back" };
+    }
+    
+    const changesSnapshot = await getDocs(query(collection(db, "migrationChanges"), where("migrationId", "==", migrationId)));
+    const changes = changesSnapshot.docs.map(changeDoc => ({ id: changeDoc.id, ...changeDoc.data() } as MigrationChange));
+    
+    // Two writes per change (the document and its change record)
+    const MAX_BATCH_SIZE = 250;
+    let restored = 0;
+    for (let i = 0; i < changes.length; i += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      changes.slice(i, i + MAX_BATCH_SIZE).forEach(change => {
+        const update: UpdateData<DocumentData> = {
+          ...change.before,
+          schemaVersion: change.previousSchemaVersion > 0 ? change.previousSchemaVersion : deleteField(),
+        };
+        change.addedFields.forEach(field => {
+          update[field] = deleteField();
+        });
+        batch.update(doc(db!, change.collection, change.documentId), update);
+        batch.delete(doc(db!, "migrationChanges", change.id));
+      });
+      await batch.commit();
+      restored = Math.min(i + MAX_BATCH_SIZE, changes.length);
+      onProgress?.(restored, changes.length);
+    }
+    
+    await updateDoc(doc(db, "migrations", migrationId), { status: 'rolledBack', rolledBackAt: new Date().toISOString() });
+    await recordAuditEvent("migration.rollback", { type: 'migration', id: migrationId, name: migration.name }, null, null, { restored });
+    return { success: true, restored };
+  } catch (error) {
+    return { success: false, restored: 0, error: error instanceof Error ? error.message : String(error) };
+  }
+};
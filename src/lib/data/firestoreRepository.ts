@@ -0,0 +1,220 @@
+/**
+ * Firestore implementation of the data repository
+ * Thin mapping onto the existing *Firestore functions
+ */
+
+import { DataRepository } from "./repository";
+import {
+  getLeaderboardEntriesFirestore,
+  getLeaderboardPageFirestore,
+  getLeaderboardEntryByIdFirestore,
+  addLeaderboardEntryFirestore,
+  updateLeaderboardEntryFirestore,
+  updateRunVerificationStatusFirestore,
+  updateRunObsoleteStatusFirestore,
+  deleteLeaderboardEntryFirestore,
+  getRecentRunsFirestore,
+  getRecentRunsPageFirestore,
+  getPlayerRunsFirestore,
+  getPlayerRunsPageFirestore,
+  getPlayerPendingRunsFirestore,
+  getUnverifiedLeaderboardEntriesFirestore,
+  getAllVerifiedRunsFirestore,
+  getRunsWithSplitsFirestore,
+  getUnclaimedRunsBySRCUsernameFirestore,
+  getUnassignedRunsFirestore,
+  claimRunFirestore,
+  getPlayerByUidFirestore,
+  getPlayerByDisplayNameFirestore,
+  createPlayerFirestore,
+  updatePlayerProfileFirestore,
+  isDisplayNameAvailableFirestore,
+  getAllPlayersFirestore,
+  getPlayersPageFirestore,
+  updatePlayerFirestore,
+  deletePlayerFirestore,
+  getPlayersByPointsFirestore,
+  getPlayersWithTwitchUsernamesFirestore,
+  getPlayersWithSRCUsernamesFirestore,
+  getCategoriesFirestore,
+  addCategoryFirestore,
+  updateCategoryFirestore,
+  updateCategoryTimingMethodsFirestore,
+  updateCategoryVariablesFirestore,
+  deleteCategoryFirestore,
+  moveCategoryUpFirestore,
+  moveCategoryDownFirestore,
+  getPlatformsFirestore,
+  addPlatformFirestore,
+  updatePlatformFirestore,
+  deletePlatformFirestore,
+  movePlatformUpFirestore,
+  movePlatformDownFirestore,
+  getLevelsFirestore,
+  addLevelFirestore,
+  updateLevelFirestore,
+  updateLevelCategoryDisabledFirestore,
+  deleteLevelFirestore,
+  moveLevelUpFirestore,
+  moveLevelDownFirestore,
+  getDownloadEntriesFirestore,
+  addDownloadEntryFirestore,
+  deleteDownloadEntryFirestore,
+  updateDownloadOrderFirestore,
+  moveDownloadUpFirestore,
+  moveDownloadDownFirestore,
+  getDownloadCategoriesFirestore,
+  addDownloadCategoryFirestore,
+  updateDownloadCategoryFirestore,
+  deleteDownloadCategoryFirestore,
+  getPointsConfigFirestore,
+  updatePointsConfigFirestore,
+  getPointsConfigHistoryFirestore,
+  getPointsLedgerFirestore,
+  backfillPointsForAllRunsFirestore,
+  planPointsRecalculationFirestore,
+  applyPointsRecalculationFirestore,
+  rebuildLeaderboardRanksFirestore,
+  getSeasonsFirestore,
+  getSeasonFirestore,
+  addSeasonFirestore,
+  updateSeasonFirestore,
+  deleteSeasonFirestore,
+  getSeasonStandingsFirestore,
+  archiveSeasonFirestore,
+  getPlayerSeasonPlacementsFirestore,
+  getRunRevisionsFirestore,
+  revertRunToRevisionFirestore,
+  getTrashFirestore,
+  restoreTrashItemFirestore,
+  purgeTrashItemFirestore,
+  purgeExpiredTrashFirestore,
+  getAuditLogFirestore,
+  getRunImportIndexFirestore,
+  importRunsFirestore,
+  createBackupFirestore,
+  getBackupDiffFirestore,
+  restoreBackupFirestore,
+  getMigrationStatusesFirestore,
+  runMigrationFirestore,
+  rollbackMigrationFirestore,
+  getGamesFirestore,
+  addGameFirestore,
+  updateGameFirestore,
+  deleteGameFirestore,
+} from "./firestore";
+
+export const firestoreRepository: DataRepository = {
+  getLeaderboardEntries: getLeaderboardEntriesFirestore,
+  getLeaderboardPage: getLeaderboardPageFirestore,
+  getLeaderboardEntryById: getLeaderboardEntryByIdFirestore,
+  addLeaderboardEntry: addLeaderboardEntryFirestore,
+  updateLeaderboardEntry: updateLeaderboardEntryFirestore,
+  updateRunVerificationStatus: updateRunVerificationStatusFirestore,
+  updateRunObsoleteStatus: updateRunObsoleteStatusFirestore,
+  deleteLeaderboardEntry: deleteLeaderboardEntryFirestore,
+  getRecentRuns: getRecentRunsFirestore,
+  getRecentRunsPage: getRecentRunsPageFirestore,
+  getPlayerRuns: getPlayerRunsFirestore,
+  getPlayerRunsPage: getPlayerRunsPageFirestore,
+  getPlayerPendingRuns: getPlayerPendingRunsFirestore,
+  getUnverifiedLeaderboardEntries: getUnverifiedLeaderboardEntriesFirestore,
+  getAllVerifiedRuns: getAllVerifiedRunsFirestore,
+  getRunsWithSplits: getRunsWithSplitsFirestore,
+  getUnclaimedRunsBySRCUsername: getUnclaimedRunsBySRCUsernameFirestore,
+  getUnassignedRuns: getUnassignedRunsFirestore,
+  claimRun: claimRunFirestore,
+
+  getPlayerByUid: getPlayerByUidFirestore,
+  getPlayerByDisplayName: getPlayerByDisplayNameFirestore,
+  createPlayer: createPlayerFirestore,
+  updatePlayerProfile: updatePlayerProfileFirestore,
+  isDisplayNameAvailable: isDisplayNameAvailableFirestore,
+  getAllPlayers: getAllPlayersFirestore,
+  getPlayersPage: getPlayersPageFirestore,
+  updatePlayer: updatePlayerFirestore,
+  deletePlayer: deletePlayerFirestore,
+  getPlayersByPoints: getPlayersByPointsFirestore,
+  getPlayersWithTwitchUsernames: getPlayersWithTwitchUsernamesFirestore,
+  getPlayersWithSRCUsernames: getPlayersWithSRCUsernamesFirestore,
+
+  getCategories: getCategoriesFirestore,
+  addCategory: addCategoryFirestore,
+  updateCategory: updateCategoryFirestore,
+  updateCategoryTimingMethods: updateCategoryTimingMethodsFirestore,
+  updateCategoryVariables: updateCategoryVariablesFirestore,
+  deleteCategory: deleteCategoryFirestore,
+  moveCategoryUp: moveCategoryUpFirestore,
+  moveCategoryDown: moveCategoryDownFirestore,
+
+  getPlatforms: getPlatformsFirestore,
+  addPlatform: addPlatformFirestore,
+  updatePlatform: updatePlatformFirestore,
+  deletePlatform: deletePlatformFirestore,
+  movePlatformUp: movePlatformUpFirestore,
+  movePlatformDown: movePlatformDownFirestore,
+
+  getLevels: getLevelsFirestore,
+  addLevel: addLevelFirestore,
+  updateLevel: updateLevelFirestore,
+  updateLevelCategoryDisabled: updateLevelCategoryDisabledFirestore,
+  deleteLevel: deleteLevelFirestore,
+  moveLevelUp: moveLevelUpFirestore,
+  moveLevelDown: moveLevelDownFirestore,
+
+  getDownloadEntries: getDownloadEntriesFirestore,
+  addDownloadEntry: addDownloadEntryFirestore,
+  deleteDownloadEntry: deleteDownloadEntryFirestore,
+  updateDownloadOrder: updateDownloadOrderFirestore,
+  moveDownloadUp: moveDownloadUpFirestore,
+  moveDownloadDown: moveDownloadDownFirestore,
+  getDownloadCategories: getDownloadCategoriesFirestore,
+  addDownloadCategory: addDownloadCategoryFirestore,
+  updateDownloadCategory: updateDownloadCategoryFirestore,
+  deleteDownloadCategory: deleteDownloadCategoryFirestore,
+
+  getPointsConfig: getPointsConfigFirestore,
+  updatePointsConfig: updatePointsConfigFirestore,
+  getPointsConfigHistory: getPointsConfigHistoryFirestore,
+  getPointsLedger: getPointsLedgerFirestore,
+
+  backfillPointsForAllRuns: backfillPointsForAllRunsFirestore,
+  planPointsRecalculation: planPointsRecalculationFirestore,
+  applyPointsRecalculation: applyPointsRecalculationFirestore,
+  rebuildLeaderboardRanks: rebuildLeaderboardRanksFirestore,
+
+  getSeasons: getSeasonsFirestore,
+  getSeason: getSeasonFirestore,
+  addSeason: addSeasonFirestore,
+  updateSeason: updateSeasonFirestore,
+  deleteSeason: deleteSeasonFirestore,
+  getSeasonStandings: getSeasonStandingsFirestore,
+  archiveSeason: archiveSeasonFirestore,
+  getPlayerSeasonPlacements: getPlayerSeasonPlacementsFirestore,
+
+  getRunRevisions: getRunRevisionsFirestore,
+  revertRunToRevision: revertRunToRevisionFirestore,
+
+  getTrash: getTrashFirestore,
+  restoreTrashItem: restoreTrashItemFirestore,
+  purgeTrashItem: purgeTrashItemFirestore,
+  purgeExpiredTrash: purgeExpiredTrashFirestore,
+
+  getAuditLog: getAuditLogFirestore,
+
+  getRunImportIndex: getRunImportIndexFirestore,
+  importRuns: importRunsFirestore,
+
+  createBackup: createBackupFirestore,
+  getBackupDiff: getBackupDiffFirestore,
+  restoreBackup: restoreBackupFirestore,
+
+  getMigrationStatuses: getMigrationStatusesFirestore,
+  runMigration: runMigrationFirestore,
+  rollbackMigration: rollbackMigrationFirestore,
+
+  getGames: getGamesFirestore,
+  addGame: addGameFirestore,
+  updateGame: updateGameFirestore,
+  deleteGame: deleteGameFirestore,
+};
@@ -0,0 +1,32 @@
+/**
+ * Tracks which game the site is currently showing
+ * Categories, levels, platforms, runs and points configs are scoped to this game
+ * Documents saved before multi-game support have no gameId and belong to the default game
+ */
+
+export const DEFAULT_GAME_ID = "lsw1";
+
+let activeGameId = DEFAULT_GAME_ID;
+
+/**
+ * Get the game that game-scoped queries read from and writes save to
+ */
+export function getActiveGameId(): string {
+  return activeGameId;
+}
+
+/**
+ * Switch the game used by game-scoped queries
+ * Set by GameProvider whenever the game in the URL changes
+ */
+export function setActiveGameId(gameId: string): void {
+  activeGameId = gameId || DEFAULT_GAME_ID;
+}
+
+/**
+ * Check whether a document belongs to a game (defaults to the active game)
+ */
+export function belongsToGame(item: { gameId?: string } | null | undefined, gameId: string = activeGameId): boolean {
+  if (!item) return false;
+  return (item.gameId || DEFAULT_GAME_ID) === gameId;
+}
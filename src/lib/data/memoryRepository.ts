@@ -0,0 +1,2004 @@
+/**
+ * In-memory implementation of the data repository
+ * Selected with VITE_DATA_BACKEND=memory for local development, and usable directly in tests
+ * Mirrors the Firestore backend's filtering, ranking and points rules; data is lost on reload
+ */
+
+import {
+  Player,
+  LeaderboardEntry,
+  DownloadEntry,
+  DownloadCategory,
+  Category,
+  Platform,
+  Level,
+  PointsConfig,
+  PointsBreakdown,
+  PointsLedgerEntry,
+  PointsConfigVersion,
+  TimingMethod,
+  Game,
+  Season,
+  SeasonStanding,
+  SeasonPlacement,
+  RunRevision,
+  TrashItem,
+  AuditLogEntry,
+  MigrationStatus,
+  MigrationChange,
+} from "@/types/database";
+import { calculatePointsBreakdown, parseTimeToSeconds, getPrimaryTimingMethod, getTimeForMethod, getTimeMs, matchesVariableFilters } from "@/lib/utils";
+import {
+  normalizeLeaderboardEntry,
+  validateLeaderboardEntry,
+  normalizeCategoryId,
+  normalizePlatformId,
+  normalizeLevelId,
+  normalizeDisplayName,
+} from "@/lib/dataValidation";
+import { DEFAULT_GAME_ID, getActiveGameId, belongsToGame } from "./gameScope";
+import { DataRepository, LeaderboardType, NewLeaderboardEntry, RunType } from "./repository";
+import { compareKeys, paginateSorted } from "./cursor";
+import { RunPoints, getLedgerChanges, getLedgerEntryId, sumLedger } from "./pointsLedger";
+import {
+  PointsRecalculationPlan,
+  PointsRecalculationProgressHandler,
+  getPlayerPointsChanges,
+  getRunPointsChange,
+} from "./pointsRecalculation";
+import { createPointsConfigVersion } from "./pointsConfigHistory";
+import { getSeasonStandings, getSeasonStatus, sortSeasons, validateSeason } from "./seasons";
+import { createRunRevision, getRunRevertUpdate, getRunRevisionSnapshot, sortRunRevisions } from "./runRevisions";
+import { createTrashItem, getRestoredRun, getTrashItemId, isTrashItemExpired } from "./trash";
+import { AuditActor, AuditTarget, createAuditEntry, getRunAuditTarget, getTrashAuditTarget, matchesAuditFilters } from "./audit";
+import { RunImportIndex } from "./runImport";
+import { getRunDuplicateKey } from "./runDuplicates";
+import {
+  BACKUP_COLLECTIONS,
+  BackupCollection,
+  BackupCollections,
+  BackupDocument,
+  createBackupArchive,
+  getBackupDiff,
+} from "./backup";
+import {
+  MigrationCollection,
+  MigrationDocument,
+  MigrationRunResult,
+  canRollbackMigration,
+  getMigration,
+  getMigrationChange,
+  getMigrationId,
+  getPendingPrerequisites,
+  hasMigrationFieldChanges,
+} from "./migrations";
+import { getBoardScoringContexts } from "@/lib/scoring";
+
+export interface MemorySeed {
+  players?: Player[];
+  runs?: LeaderboardEntry[];
+  categories?: Category[];
+  platforms?: Platform[];
+  levels?: Level[];
+  downloads?: DownloadEntry[];
+  downloadCategories?: DownloadCategory[];
+  pointsConfigs?: PointsConfig[];
+  pointsLedger?: PointsLedgerEntry[];
+  pointsConfigHistory?: PointsConfigVersion[];
+  seasons?: Season[];
+  runRevisions?: RunRevision[];
+  trash?: TrashItem[];
+  auditLog?: AuditLogEntry[];
+  games?: Game[];
+}
+
+export interface MemoryRepositoryOptions {
+  getActor?: () => AuditActor | undefined; // The signed-in user, recorded on audit log entries and trash items
+}
+
+const DEFAULT_DOWNLOAD_CATEGORIES: Omit<DownloadCategory, 'id'>[] = [
+  { name: "Tools", order: 1 },
+  { name: "Guides", order: 2 },
+  { name: "Save Files", order: 3 },
+  { name: "Other", order: 4 },
+];
+
+function getDefaultPointsConfig(gameId: string): PointsConfig {
+  return {
+    id: gameId === DEFAULT_GAME_ID ? "default" : gameId,
+    gameId,
+    basePoints: 10,
+    rank1Bonus: 50,
+    rank2Bonus: 30,
+    rank3Bonus: 20,
+    coOpMultiplier: 0.5,
+    ilMultiplier: 1.0,
+    communityGoldsMultiplier: 1.0,
+    obsoleteMultiplier: 0.5,
+    applyRankBonusesToIL: false,
+    applyRankBonusesToCommunityGolds: false,
+    version: 0,
+  };
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function sortByOrder<T extends { order?: number; name?: string }>(items: T[]): T[] {
+  return items.sort((a, b) => {
+    const orderA = a.order !== undefined ? a.order : Infinity;
+    const orderB = b.order !== undefined ? b.order : Infinity;
+    if (orderA !== orderB) {
+      return orderA - orderB;
+    }
+    return (a.name || "").localeCompare(b.name || "");
+  });
+}
+
+/**
+ * Swap the order of an item with its neighbour in an already sorted list
+ */
+function swapOrder<T extends { id: string; order?: number }>(items: T[], id: string, direction: -1 | 1): boolean {
+  const currentIndex = items.findIndex(item => item.id === id);
+  const otherIndex = currentIndex + direction;
+  if (currentIndex < 0 || otherIndex < 0 || otherIndex >= items.length) return false;
+
+  const current = items[currentIndex];
+  const other = items[otherIndex];
+  const currentOrder = current.order ?? currentIndex;
+  current.order = other.order ?? otherIndex;
+  other.order = currentOrder;
+  return true;
+}
+
+/**
+ * Group key used to keep only the best run per player (matches the Firestore backend)
+ */
+function getPlayerGroupKey(run: LeaderboardEntry): string {
+  const playerId = run.playerId || run.playerName || "";
+  const player2Id = run.runType === 'co-op' ? (run.player2Name || "") : "";
+  return `${playerId}_${player2Id}_${run.category}_${run.platform}_${run.runType || 'solo'}_${run.leaderboardType || 'regular'}_${run.level || ''}`;
+}
+
+function isClaimed(playerId: string | undefined): boolean {
+  return !!playerId && playerId.trim() !== "";
+}
+
+export function createMemoryRepository(seed: MemorySeed = {}, options: MemoryRepositoryOptions = {}): DataRepository {
+  const players = new Map<string, Player>((seed.players || []).map(player => [player.uid, clone(player)]));
+  const runs = new Map<string, LeaderboardEntry>((seed.runs || []).map(run => [run.id, clone(run)]));
+  const categories = new Map<string, Category>((seed.categories || []).map(category => [category.id, clone(category)]));
+  const platforms = new Map<string, Platform>((seed.platforms || []).map(platform => [platform.id, clone(platform)]));
+  const levels = new Map<string, Level>((seed.levels || []).map(level => [level.id, clone(level)]));
+  const downloads = new Map<string, DownloadEntry>((seed.downloads || []).map(entry => [entry.id, clone(entry)]));
+  const downloadCategories = new Map<string, DownloadCategory>((seed.downloadCategories || []).map(category => [category.id, clone(category)]));
+  const pointsConfigs = new Map<string, PointsConfig>((seed.pointsConfigs || []).map(config => [config.gameId || DEFAULT_GAME_ID, clone(config)]));
+  const games = new Map<string, Game>((seed.games || []).map(game => [game.id, clone(game)]));
+  const seasons = new Map<string, Season>((seed.seasons || []).map(season => [season.id, clone(season)]));
+  const pointsLedger: PointsLedgerEntry[] = clone(seed.pointsLedger || []);
+  const pointsConfigHistory: PointsConfigVersion[] = clone(seed.pointsConfigHistory || []);
+  const runRevisions: RunRevision[] = clone(seed.runRevisions || []);
+  const trash = new Map<string, TrashItem>((seed.trash || []).map(item => [item.id, clone(item)]));
+  const auditLog: AuditLogEntry[] = clone(seed.auditLog || []);
+  const migrationStatuses = new Map<string, MigrationStatus>();
+  // Previous values of every document a migration changed, for rolling it back
+  const migrationChanges = new Map<string, MigrationChange>();
+  // Rule breakdown of each scored run, recorded on ledger entries
+  const runBreakdowns = new Map<string, { breakdown: PointsBreakdown; configVersion: number }>();
+
+  const getLiveSeasonStandings = (season: Season): SeasonStanding[] => {
+    const seasonRuns = Array.from(runs.values()).filter(run => belongsToGame(run, season.gameId || DEFAULT_GAME_ID));
+    return getSeasonStandings(season, seasonRuns, players);
+  };
+
+  // Deterministic IDs make test assertions and local fixtures predictable
+  let nextId = 1;
+  const newId = (collectionName: string) => `${collectionName}_${nextId++}`;
+
+  /**
+   * Record an admin action in the audit log (like the Firestore backend, nothing is recorded without a signed-in user)
+   */
+  const recordAuditEvent = (
+    action: string,
+    target: AuditTarget,
+    before?: object | null,
+    after?: object | null,
+    details?: AuditLogEntry['details']
+  ): void => {
+    const actor = options.getActor?.();
+    if (!actor) return;
+    const entry = createAuditEntry(action, actor, target, before, after, details);
+    auditLog.push(clone({ ...entry, id: newId("auditLog"), gameId: getActiveGameId() }));
+  };
+
+  const getPlayerMap = () => {
+    const playerMap = new Map<string, Player>();
+    players.forEach(player => {
+      playerMap.set(player.uid, player);
+      if (player.displayName) {
+        playerMap.set(player.displayName.toLowerCase(), player);
+      }
+    });
+    return playerMap;
+  };
+
+  // Display names are unique ignoring case, as enforced by the displayNames index in Firestore
+  const findPlayerByDisplayName = (displayName: string | undefined): Player | undefined => {
+    const normalizedDisplayName = normalizeDisplayName(displayName);
+    if (!normalizedDisplayName) return undefined;
+    return Array.from(players.values()).find(player => normalizeDisplayName(player.displayName) === normalizedDisplayName);
+  };
+
+  const isDisplayNameTaken = (displayName: string | undefined, uid?: string): boolean => {
+    const holder = findPlayerByDisplayName(displayName);
+    return !!holder && holder.uid !== uid;
+  };
+
+  const enrichEntry = (entry: LeaderboardEntry, playerMap: Map<string, Player> = getPlayerMap()): LeaderboardEntry => {
+    if (!isClaimed(entry.playerId)) {
+      // Unclaimed runs show their SRC player names
+      if (entry.srcPlayerName) {
+        entry.playerName = entry.srcPlayerName;
+      }
+      if (entry.srcPlayer2Name && entry.runType === 'co-op') {
+        entry.player2Name = entry.srcPlayer2Name;
+      }
+      return entry;
+    }
+
+    const player = playerMap.get(entry.playerId);
+    if (player) {
+      if (player.displayName) {
+        entry.playerName = player.displayName;
+      }
+      if (player.nameColor) {
+        entry.nameColor = player.nameColor;
+      }
+    }
+
+    if (entry.runType === 'co-op' && entry.player2Name) {
+      const player2 = (entry.player2Id && playerMap.get(entry.player2Id)) || playerMap.get(entry.player2Name.trim().toLowerCase());
+      if (player2) {
+        entry.player2Name = player2.displayName || entry.player2Name;
+        if (player2.nameColor) {
+          entry.player2Color = player2.nameColor;
+        }
+        entry.player2Id = player2.uid;
+      }
+    }
+    return entry;
+  };
+
+  const getCategoryTimingMethod = (categoryId: string | undefined): TimingMethod => {
+    return getPrimaryTimingMethod(categoryId ? categories.get(categoryId) : null);
+  };
+
+  const getRunSeconds = (run: LeaderboardEntry, method: TimingMethod): number => {
+    return parseTimeToSeconds(getTimeForMethod(run, method)) || Infinity;
+  };
+
+  const isOnBoard = (run: LeaderboardEntry, other: LeaderboardEntry): boolean => {
+    const leaderboardType = run.leaderboardType || 'regular';
+    if ((other.gameId || DEFAULT_GAME_ID) !== (run.gameId || DEFAULT_GAME_ID)) return false;
+    if ((other.leaderboardType || 'regular') !== leaderboardType) return false;
+    if (other.category !== run.category || other.platform !== run.platform) return false;
+    if ((other.runType || 'solo') !== (run.runType || 'solo')) return false;
+    return leaderboardType === 'regular' || other.level === run.level;
+  };
+
+  /**
+   * Work out the ranks on a run's leaderboard without storing them (matches the Firestore backend)
+   * Every verified run gets timeMs, and the best non-obsolete run per player gets its board position as rank
+   */
+  const getBoardRanking = (run: LeaderboardEntry) => {
+    const primaryTimingMethod = getCategoryTimingMethod(run.category);
+    const boardRuns = Array.from(runs.values()).filter(other => other.verified && isOnBoard(run, other));
+    const timeMsById = new Map(boardRuns.map(other => [other.id, getTimeMs(other, primaryTimingMethod)]));
+
+    const playerBestRuns = new Map<string, LeaderboardEntry>();
+    boardRuns
+      .filter(other => !other.isObsolete)
+      .sort((a, b) => (timeMsById.get(a.id) ?? Infinity) - (timeMsById.get(b.id) ?? Infinity))
+      .forEach(other => {
+        const groupKey = getPlayerGroupKey(other);
+        if (!playerBestRuns.has(groupKey)) {
+          playerBestRuns.set(groupKey, other);
+        }
+      });
+
+    const rankMap = new Map<string, number>();
+    Array.from(playerBestRuns.values()).forEach((bestRun, index) => rankMap.set(bestRun.id, index + 1));
+    return { runs: boardRuns, rankMap, timeMsById };
+  };
+
+  /**
+   * Recalculate and store the ranks on a run's leaderboard
+   * Returns a map of run ID to rank (1-based)
+   */
+  const updateBoardRanks = (run: LeaderboardEntry): Map<string, number> => {
+    const { runs: boardRuns, rankMap, timeMsById } = getBoardRanking(run);
+    boardRuns.forEach(other => {
+      const timeMs = timeMsById.get(other.id);
+      if (timeMs !== undefined) {
+        other.timeMs = timeMs;
+      } else {
+        delete other.timeMs;
+      }
+      const rank = rankMap.get(other.id);
+      if (rank !== undefined) {
+        other.rank = rank;
+      } else {
+        delete other.rank;
+      }
+    });
+    return rankMap;
+  };
+
+  /**
+   * One verified run from each board in the active game, to re-rank or re-score the boards by
+   */
+  const getBoards = (gameId: string = getActiveGameId()): LeaderboardEntry[] => {
+    const boards: LeaderboardEntry[] = [];
+    runs.forEach(run => {
+      if (run.verified && belongsToGame(run, gameId) && !boards.some(board => isOnBoard(board, run))) {
+        boards.push(run);
+      }
+    });
+    return boards;
+  };
+
+  /**
+   * Re-rank every board in the active game, returning the number of boards
+   */
+  const updateAllBoardRanks = (): number => {
+    const boards = getBoards();
+    boards.forEach(board => updateBoardRanks(board));
+    return boards.length;
+  };
+
+  /**
+   * Where each run on a run's (already ranked) leaderboard stands, for time-relative scoring
+   */
+  const getScoringContexts = (run: LeaderboardEntry) => {
+    return getBoardScoringContexts(Array.from(runs.values()).filter(other => other.verified && isOnBoard(run, other)));
+  };
+
+  const getPointsConfig = async (gameId: string = getActiveGameId()): Promise<PointsConfig> => {
+    return clone(pointsConfigs.get(gameId) || getDefaultPointsConfig(gameId));
+  };
+
+  /**
+   * Store points on a verified run, using its rank after re-ranking its leaderboard
+   */
+  const scoreRun = async (run: LeaderboardEntry): Promise<void> => {
+    const calculatedRank = updateBoardRanks(run).get(run.id);
+    const rank = !run.isObsolete && calculatedRank !== undefined && calculatedRank <= 3 ? calculatedRank : undefined;
+    const pointsConfig = await getPointsConfig(run.gameId || DEFAULT_GAME_ID);
+    const breakdown = await calculatePointsBreakdown(
+      rank,
+      (run.runType || 'solo') as RunType,
+      run.leaderboardType || 'regular',
+      run.isObsolete,
+      pointsConfig,
+      getScoringContexts(run).get(run.id)
+    );
+    run.points = breakdown.total;
+    runBreakdowns.set(run.id, { breakdown, configVersion: pointsConfig.version ?? 0 });
+  };
+
+  /**
+   * Recompute a player's stored total from their verified runs, returning false when they have no profile
+   */
+  const recalculatePlayerTotal = (playerId: string): boolean => {
+    const player = players.get(playerId);
+    if (!player) return false;
+
+    const playerRuns = Array.from(runs.values()).filter(other =>
+      other.verified && (other.playerId === playerId || (other.runType === 'co-op' && other.player2Id === playerId))
+    );
+    // Seeded runs that were never scored here keep their stored points
+    const runPoints: RunPoints[] = playerRuns.map(other => ({
+      run: other,
+      ...(runBreakdowns.get(other.id) || { breakdown: { basePoints: 0, total: other.points || 0 }, configVersion: 0 }),
+    }));
+    const playerLedger = pointsLedger.filter(entry => entry.playerId === playerId);
+    getLedgerChanges(playerId, playerLedger, runPoints).forEach(change => {
+      const entry = { ...change, id: getLedgerEntryId(change) };
+      pointsLedger.push(entry);
+      playerLedger.push(entry);
+    });
+    player.totalPoints = sumLedger(playerLedger);
+    player.totalRuns = playerRuns.length;
+    return true;
+  };
+
+  /**
+   * Recompute stored totals for the players on a run
+   */
+  const recalculatePlayerTotals = (run: LeaderboardEntry): void => {
+    [run.playerId, run.runType === 'co-op' ? run.player2Id : undefined]
+      .filter(isClaimed)
+      .forEach(playerId => recalculatePlayerTotal(playerId));
+  };
+
+  /**
+   * Re-score the other runs on a run's leaderboard after its ranks changed, and update the totals of
+   * the players whose runs moved in or out of the top 3 (matches the Firestore backend)
+   */
+  const rescoreBoard = async (run: LeaderboardEntry): Promise<void> => {
+    const rankMap = updateBoardRanks(run);
+    const scoringContexts = getScoringContexts(run);
+    const boardRuns = Array.from(runs.values()).filter(other => other.verified && isOnBoard(run, other));
+    for (const other of boardRuns) {
+      const pointsConfig = await getPointsConfig(other.gameId || DEFAULT_GAME_ID);
+      const change = await getRunPointsChange(other, rankMap.get(other.id), pointsConfig, scoringContexts.get(other.id));
+      if (!change) continue;
+      other.points = change.pointsAfter;
+      runBreakdowns.set(other.id, { breakdown: change.breakdown, configVersion: change.configVersion });
+      recalculatePlayerTotals(other);
+    }
+  };
+
+  /**
+   * Work out the studs every run on the given boards should have after re-ranking them, without writing anything
+   */
+  const planBoardsPointsRecalculation = async (
+    boards: LeaderboardEntry[],
+    onProgress?: PointsRecalculationProgressHandler
+  ): Promise<PointsRecalculationPlan> => {
+    const plan: PointsRecalculationPlan = {
+      scope: 'runs',
+      config: await getPointsConfig(),
+      boardsChecked: 0,
+      runsChecked: 0,
+      runChanges: [],
+      playerChanges: [],
+    };
+
+    for (const board of boards) {
+      const { runs: boardRuns, rankMap, timeMsById } = getBoardRanking(board);
+      const scoringContexts = getBoardScoringContexts(boardRuns.map(run => ({
+        id: run.id,
+        category: run.category,
+        rank: rankMap.get(run.id),
+        timeMs: timeMsById.get(run.id),
+      })));
+      for (const run of boardRuns) {
+        const config = await getPointsConfig(run.gameId || DEFAULT_GAME_ID);
+        const change = await getRunPointsChange(clone(run), rankMap.get(run.id), config, scoringContexts.get(run.id));
+        if (change) plan.runChanges.push(change);
+      }
+      plan.runsChecked += boardRuns.length;
+      plan.boardsChecked++;
+      onProgress?.({ stage: 'planning', completed: plan.boardsChecked, total: boards.length });
+    }
+    plan.playerChanges = getPlayerPointsChanges(plan.runChanges, players);
+    return plan;
+  };
+
+  /**
+   * Work out the studs every run in the game would have under a proposed points config
+   */
+  const planConfigPointsRecalculation = async (
+    proposedConfig: PointsConfig,
+    onProgress?: PointsRecalculationProgressHandler
+  ): Promise<PointsRecalculationPlan> => {
+    // Saving the config bumps its version, so the plan is calculated with the version it will have
+    const currentConfig = await getPointsConfig(proposedConfig.gameId || getActiveGameId());
+    const config: PointsConfig = { ...currentConfig, ...proposedConfig, version: (currentConfig.version ?? 0) + 1 };
+    const plan: PointsRecalculationPlan = { scope: 'config', config, boardsChecked: 0, runsChecked: 0, runChanges: [], playerChanges: [] };
+
+    const boards = getBoards(config.gameId);
+    const gameRuns = Array.from(runs.values()).filter(run => run.verified && belongsToGame(run, config.gameId));
+    for (const board of boards) {
+      // Ranks and times don't depend on the config, so the stored ones are used as is
+      const boardRuns = gameRuns.filter(run => isOnBoard(board, run));
+      const scoringContexts = getBoardScoringContexts(boardRuns);
+      for (const run of boardRuns) {
+        const change = await getRunPointsChange(clone(run), run.rank, config, scoringContexts.get(run.id));
+        if (change) plan.runChanges.push(change);
+        plan.runsChecked++;
+      }
+      onProgress?.({ stage: 'planning', completed: plan.runsChecked, total: gameRuns.length });
+    }
+    plan.boardsChecked = boards.length;
+    plan.playerChanges = getPlayerPointsChanges(plan.runChanges, players);
+    return plan;
+  };
+
+  /**
+   * Update a run's fields and record the edit as a revision
+   */
+  const updateRun = async (runId: string, data: Partial<LeaderboardEntry>, revertedTo?: number): Promise<boolean> => {
+    const run = runs.get(runId);
+    if (!run) return false;
+    const previous = clone(run);
+
+    // null removes a field, undefined leaves it unchanged
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      if (value === null) {
+        delete (run as unknown as Record<string, unknown>)[key];
+      } else {
+        (run as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    const latestRevision = runRevisions.reduce((latest, entry) => entry.runId === runId ? Math.max(latest, entry.revision) : latest, 0);
+    const runRevision = createRunRevision(runId, latestRevision + 1, previous, run, undefined, revertedTo);
+    if (runRevision) {
+      runRevisions.push(clone(runRevision));
+    }
+    recordAuditEvent(
+      revertedTo === undefined ? "run.update" : "run.revert",
+      getRunAuditTarget(runId, previous),
+      previous,
+      clone(run),
+      revertedTo === undefined ? undefined : { revision: revertedTo }
+    );
+
+    if (run.verified && (data.time || data.times || data.category || data.platform)) {
+      await scoreRun(run);
+      recalculatePlayerTotals(run);
+    }
+    if (run.verified) {
+      await rescoreBoard(run);
+    }
+    // A run moved to another board leaves a gap on the old one
+    if (previous.verified && !isOnBoard(previous, run)) {
+      await rescoreBoard(previous);
+    }
+    return true;
+  };
+
+  /**
+   * Put trashed runs back and re-rank their boards (ranks and points are recomputed, not restored)
+   */
+  const restoreTrashedRuns = async (items: TrashItem[]): Promise<void> => {
+    const restoredRuns = items.map(item => {
+      const run = { ...clone(getRestoredRun(item)), id: item.itemId } as LeaderboardEntry;
+      runs.set(run.id, run);
+      trash.delete(item.id);
+      return run;
+    });
+    for (const run of restoredRuns.filter(run => run.verified)) {
+      await scoreRun(run);
+      recalculatePlayerTotals(run);
+      await rescoreBoard(run);
+    }
+  };
+
+  /**
+   * Permanently delete trash items, along with the revisions of their runs
+   */
+  const purgeTrashItems = (items: TrashItem[]): void => {
+    const runIds = new Set(items.filter(item => item.type === 'run').map(item => item.itemId));
+    items.forEach(item => trash.delete(item.id));
+    for (let i = runRevisions.length - 1; i >= 0; i--) {
+      if (runIds.has(runRevisions[i].runId)) runRevisions.splice(i, 1);
+    }
+  };
+
+  // Backed-up collections kept in maps by document ID, and in lists. The memory store has no displayNames
+  // index (names are checked against the players directly), so that collection is always empty
+  const backupMaps: Partial<Record<BackupCollection, Map<string, object>>> = {
+    games,
+    players,
+    leaderboardEntries: runs,
+    categories,
+    levels,
+    platforms,
+    downloads,
+    downloadCategories,
+    seasons,
+  };
+  const backupLists: Partial<Record<BackupCollection, Array<{ id: string }>>> = {
+    runRevisions,
+    pointsConfigHistory,
+    pointsLedger,
+  };
+
+  /**
+   * The store laid out as the backed-up Firestore collections
+   */
+  const readBackupCollections = (): BackupCollections => {
+    return Object.fromEntries(BACKUP_COLLECTIONS.map(collectionName => {
+      const map = backupMaps[collectionName];
+      const list = backupLists[collectionName];
+      let documents: BackupDocument[] = [];
+      if (map) {
+        documents = Array.from(map.entries(), ([id, value]) => ({ ...clone(value), id }) as BackupDocument);
+      } else if (list) {
+        documents = list.map(value => clone(value) as BackupDocument);
+      } else if (collectionName === 'pointsConfig') {
+        documents = Array.from(pointsConfigs.values(), config => clone(config) as unknown as BackupDocument);
+      }
+      return [collectionName, documents];
+    })) as BackupCollections;
+  };
+
+  /**
+   * Write a restored document, or delete it when there's none
+   */
+  const writeBackupDocument = (collectionName: BackupCollection, id: string, document: BackupDocument | undefined): void => {
+    const map = backupMaps[collectionName];
+    const list = backupLists[collectionName];
+    if (map) {
+      if (document) {
+        map.set(id, clone(document));
+      } else {
+        map.delete(id);
+      }
+    } else if (list) {
+      const index = list.findIndex(value => value.id === id);
+      if (index >= 0) list.splice(index, 1);
+      if (document) list.push(clone(document));
+    } else if (collectionName === 'pointsConfig') {
+      // Configs are kept by game rather than by document ID
+      const existing = Array.from(pointsConfigs.values()).find(config => config.id === id);
+      if (existing) pointsConfigs.delete(existing.gameId || DEFAULT_GAME_ID);
+      if (document) pointsConfigs.set((document.gameId as string) || DEFAULT_GAME_ID, clone(document) as unknown as PointsConfig);
+    }
+  };
+
+  const getMigrationDocuments = (collectionName: MigrationCollection) =>
+    (collectionName === 'players' ? players : runs) as unknown as Map<string, MigrationDocument>;
+
+  const getGameCategories = () => sortByOrder(Array.from(categories.values()).filter(category => belongsToGame(category)));
+  const getGamePlatforms = () => sortByOrder(Array.from(platforms.values()).filter(platform => belongsToGame(platform)));
+  const getGameLevels = () => sortByOrder(Array.from(levels.values()).filter(level => belongsToGame(level)));
+  const getSortedDownloads = () => Array.from(downloads.values()).sort((a, b) => {
+    const orderA = a.order ?? 999;
+    const orderB = b.order ?? 999;
+    if (orderA !== orderB) {
+      return orderA - orderB;
+    }
+    return a.name.localeCompare(b.name);
+  });
+
+  /**
+   * Move an item up or down its list, recording the move like the Firestore backend
+   */
+  const reorder = <T extends { id: string; name?: string; order?: number }>(
+    type: AuditTarget['type'],
+    items: T[],
+    id: string,
+    direction: -1 | 1
+  ): boolean => {
+    if (!swapOrder(items, id, direction)) return false;
+    const item = items.find(other => other.id === id);
+    recordAuditEvent(`${type}.reorder`, { type, id, name: item?.name }, null, null, { direction: direction < 0 ? "up" : "down" });
+    return true;
+  };
+
+  /**
+   * Filter a board and rank its entries (best run per player unless obsolete runs are included)
+   */
+  const getRankedEntries = (
+    categoryId?: string,
+    platformId?: string,
+    runType?: RunType,
+    includeObsolete?: boolean,
+    leaderboardType?: LeaderboardType,
+    levelId?: string,
+    subcategoryId?: string,
+    variableFilters?: Record<string, string>
+  ): LeaderboardEntry[] => {
+    const normalizedCategoryId = categoryId && categoryId !== "all" ? normalizeCategoryId(categoryId) : undefined;
+    const normalizedPlatformId = platformId && platformId !== "all" ? normalizePlatformId(platformId) : undefined;
+    const normalizedLevelId = levelId && levelId !== "all" ? normalizeLevelId(levelId) : undefined;
+    const selectedLevel = normalizedLevelId ? levels.get(normalizedLevelId) : undefined;
+    const primaryTimingMethod = getCategoryTimingMethod(normalizedCategoryId);
+    const isLevelBoard = leaderboardType === 'individual-level' || leaderboardType === 'community-golds';
+
+    const entries = Array.from(runs.values())
+      .map(run => ({ ...normalizeLeaderboardEntry(clone(run)), id: run.id } as LeaderboardEntry))
+      .filter(entry => {
+        if (!belongsToGame(entry) || entry.verified !== true || !validateLeaderboardEntry(entry).valid) return false;
+        if ((entry.leaderboardType || 'regular') !== (leaderboardType || 'regular')) return false;
+        if (isLevelBoard && (!entry.level || entry.level.trim() === '')) return false;
+        if (isLevelBoard && normalizedLevelId && entry.level !== normalizedLevelId) return false;
+        if (normalizedCategoryId && entry.category !== normalizedCategoryId) return false;
+        if (normalizedPlatformId && entry.platform !== normalizedPlatformId) return false;
+        if (runType && entry.runType !== runType) return false;
+        if (!entry.time || !entry.runType) return false;
+        if (!entry.category?.trim() && !entry.srcCategoryName?.trim()) return false;
+        if (!entry.platform?.trim() && !entry.srcPlatformName?.trim()) return false;
+
+        if (leaderboardType === 'regular' && subcategoryId) {
+          // __none__ means only runs without a subcategory
+          if (subcategoryId === '__none__' ? !!entry.subcategory?.trim() : entry.subcategory !== subcategoryId) {
+            return false;
+          }
+        }
+        if (leaderboardType === 'regular' && !matchesVariableFilters(entry, variableFilters)) return false;
+
+        // Skip categories disabled for the selected level
+        if (isLevelBoard && selectedLevel && entry.category && selectedLevel.disabledCategories?.[entry.category] === true) {
+          return false;
+        }
+        return true;
+      });
+
+    const sortByTime = (list: LeaderboardEntry[]) =>
+      list.sort((a, b) => getRunSeconds(a, primaryTimingMethod) - getRunSeconds(b, primaryTimingMethod));
+
+    let nonObsoleteEntries: LeaderboardEntry[];
+    let obsoleteEntries: LeaderboardEntry[] = [];
+    if (!includeObsolete) {
+      // Only the best non-obsolete time per player
+      const playerBestRuns = new Map<string, LeaderboardEntry>();
+      for (const entry of entries) {
+        if (entry.isObsolete) continue;
+        const groupKey = getPlayerGroupKey(entry);
+        const existing = playerBestRuns.get(groupKey);
+        if (!existing || getRunSeconds(entry, primaryTimingMethod) < getRunSeconds(existing, primaryTimingMethod)) {
+          playerBestRuns.set(groupKey, entry);
+        }
+      }
+      nonObsoleteEntries = Array.from(playerBestRuns.values());
+    } else {
+      nonObsoleteEntries = entries.filter(entry => !entry.isObsolete);
+      obsoleteEntries = entries.filter(entry => entry.isObsolete === true);
+    }
+
+    const ranked = sortByTime(nonObsoleteEntries);
+    const rankedObsolete = sortByTime(obsoleteEntries);
+    ranked.forEach((entry, index) => { entry.rank = index + 1; });
+    rankedObsolete.forEach((entry, index) => { entry.rank = ranked.length + index + 1; });
+
+    return [...ranked, ...rankedObsolete];
+  };
+
+  const repository: DataRepository = {
+    // Runs
+    getLeaderboardEntries: async (categoryId, platformId, runType, includeObsolete, leaderboardType, levelId, subcategoryId, variableFilters) => {
+      const playerMap = getPlayerMap();
+      return getRankedEntries(categoryId, platformId, runType, includeObsolete, leaderboardType, levelId, subcategoryId, variableFilters)
+        .slice(0, 200)
+        .map(entry => enrichEntry(entry, playerMap));
+    },
+
+    getLeaderboardPage: async (categoryId, platformId, runType, includeObsolete, leaderboardType, levelId, subcategoryId, variableFilters, page = {}) => {
+      const entries = getRankedEntries(categoryId, platformId, runType, includeObsolete, leaderboardType, levelId, subcategoryId, variableFilters);
+      const entriesPage = paginateSorted(entries, entry => [entry.rank ?? 0], page);
+      const playerMap = getPlayerMap();
+      return { ...entriesPage, items: entriesPage.items.map(entry => enrichEntry(entry, playerMap)) };
+    },
+
+    getLeaderboardEntryById: async (runId) => {
+      const run = runs.get(runId);
+      if (!run) return null;
+      return enrichEntry(clone(run));
+    },
+
+    addLeaderboardEntry: async (entry) => {
+      const normalized = normalizeLeaderboardEntry(entry);
+      const isImportedRun = !!normalized.importedFromSRC;
+
+      if (isImportedRun && normalized.srcRunId?.trim()) {
+        if (Array.from(runs.values()).some(run => run.srcRunId === normalized.srcRunId)) {
+          throw new Error(`Run with srcRunId ${normalized.srcRunId} already exists`);
+        }
+      }
+      if (isImportedRun) {
+        if (!normalized.playerName?.trim()) throw new Error("Player name is required");
+        if (!normalized.time?.trim()) throw new Error("Time is required");
+        if (!normalized.date?.trim()) throw new Error("Date is required");
+      } else {
+        const validation = validateLeaderboardEntry(normalized);
+        if (!validation.valid) {
+          throw new Error(`Invalid entry data: ${validation.errors.join(', ')}`);
+        }
+      }
+
+      const id = newId("run");
+      const newEntry = {
+        ...normalized,
+        id,
+        gameId: normalized.gameId || getActiveGameId(),
+        playerId: normalized.playerId || entry.playerId,
+        category: normalized.category ?? "",
+        platform: normalized.platform ?? "",
+        runType: normalized.runType || 'solo',
+        leaderboardType: normalized.leaderboardType || 'regular',
+        verified: normalized.verified ?? false,
+        isObsolete: false,
+      } as LeaderboardEntry;
+      if (newEntry.splits) {
+        newEntry.hasSplits = true;
+      }
+      runs.set(id, clone(newEntry));
+      if (newEntry.verified) {
+        updateBoardRanks(runs.get(id)!);
+      }
+      return id;
+    },
+
+    updateLeaderboardEntry: (runId, data) => updateRun(runId, data),
+
+    updateRunVerificationStatus: async (runId, verified, verifiedBy) => {
+      const run = runs.get(runId);
+      if (!run) return false;
+
+      const wasVerified = run.verified;
+      const needsPoints = verified && verifiedBy && isClaimed(run.playerId) &&
+        (!wasVerified || run.points === undefined || run.points === null);
+
+      const previous = { verified: run.verified, verifiedBy: run.verifiedBy, points: run.points };
+      run.verified = verified;
+      if (needsPoints) {
+        run.verifiedBy = verifiedBy;
+        await scoreRun(run);
+        recalculatePlayerTotals(run);
+        await rescoreBoard(run);
+        recordAuditEvent("run.verify", getRunAuditTarget(runId, run), previous, { verified, verifiedBy, points: run.points });
+        return true;
+      } else if (!verified && wasVerified) {
+        delete run.rank;
+        recalculatePlayerTotals(run);
+        await rescoreBoard(run);
+      } else if (verified && !wasVerified) {
+        updateBoardRanks(run);
+      }
+      if (verified !== !!wasVerified) {
+        recordAuditEvent(verified ? "run.verify" : "run.unverify", getRunAuditTarget(runId, run), { verified: wasVerified }, { verified });
+      }
+      return true;
+    },
+
+    updateRunObsoleteStatus: async (runId, isObsolete) => {
+      const run = runs.get(runId);
+      if (!run) return false;
+      recordAuditEvent(isObsolete ? "run.markObsolete" : "run.restoreObsolete", getRunAuditTarget(runId, run), { isObsolete: run.isObsolete }, { isObsolete });
+      run.isObsolete = isObsolete;
+      if (run.verified) {
+        await rescoreBoard(run);
+      }
+      return true;
+    },
+
+    deleteLeaderboardEntry: async (runId) => {
+      const run = runs.get(runId);
+      if (!run) return false;
+      // Moved to the trash, where it can be restored until it's purged
+      const trashItem = createTrashItem('run', runId, clone(run), 'deleted', options.getActor?.());
+      trash.set(trashItem.id, trashItem);
+      runs.delete(runId);
+      recordAuditEvent("run.delete", getRunAuditTarget(runId, run), run, null);
+      if (run.verified) {
+        recalculatePlayerTotals(run);
+        await rescoreBoard(run);
+      }
+      return true;
+    },
+
+    getRecentRuns: async (limitCount = 10) => {
+      const playerMap = getPlayerMap();
+      return Array.from(runs.values())
+        .filter(run => run.verified && !run.isObsolete && belongsToGame(run))
+        .sort((a, b) => (b.date || "").localeCompare(a.date || ""))
+        .slice(0, limitCount)
+        .map(run => enrichEntry(clone(run), playerMap));
+    },
+
+    getRecentRunsPage: async (page = {}) => {
+      const recentRuns = Array.from(runs.values())
+        .filter(run => run.verified && !run.isObsolete && belongsToGame(run))
+        .sort((a, b) => compareKeys([a.date, a.id], [b.date, b.id], ['desc', 'desc']));
+      const runsPage = paginateSorted(recentRuns, run => [run.date, run.id], page, ['desc', 'desc']);
+      const playerMap = getPlayerMap();
+      return { ...runsPage, items: runsPage.items.map(run => enrichEntry(clone(run), playerMap)) };
+    },
+
+    getPlayerRuns: async (playerId) => {
+      if (!players.has(playerId)) return [];
+      const playerMap = getPlayerMap();
+      return Array.from(runs.values())
+        .filter(run => run.verified && !run.isObsolete &&
+          (run.playerId === playerId || (run.runType === 'co-op' && run.player2Id === playerId)))
+        .map(run => enrichEntry(clone(run), playerMap));
+    },
+
+    getPlayerRunsPage: async (playerId, filters = {}, page = {}) => {
+      if (!players.has(playerId)) return { items: [], nextCursor: null, prevCursor: null };
+      const playerRuns = Array.from(runs.values())
+        .filter(run => {
+          if (!run.verified || run.isObsolete) return false;
+          if (run.playerId !== playerId && !(run.runType === 'co-op' && run.player2Id === playerId)) return false;
+          const leaderboardType = run.leaderboardType || 'regular';
+          if (filters.leaderboardType && leaderboardType !== filters.leaderboardType) return false;
+          if (filters.levelId && filters.leaderboardType && filters.leaderboardType !== 'regular' && run.level !== filters.levelId) return false;
+          if (filters.categoryId && run.category !== filters.categoryId) return false;
+          if (filters.platformId && run.platform !== filters.platformId) return false;
+          if (filters.runType && run.runType !== filters.runType) return false;
+          if (filters.subcategoryId && filters.leaderboardType === 'regular' && run.subcategory !== filters.subcategoryId) return false;
+          return true;
+        })
+        .sort((a, b) => compareKeys([a.date, a.id], [b.date, b.id], ['desc', 'desc']));
+      const runsPage = paginateSorted(playerRuns, run => [run.date, run.id], page, ['desc', 'desc']);
+      const playerMap = getPlayerMap();
+      return { ...runsPage, items: runsPage.items.map(run => enrichEntry(clone(run), playerMap)) };
+    },
+
+    getPlayerPendingRuns: async (playerId) => {
+      if (!playerId) return [];
+      const playerMap = getPlayerMap();
+      return Array.from(runs.values())
+        .filter(run => run.playerId === playerId && run.verified === false)
+        .sort((a, b) => (b.date || "").localeCompare(a.date || ""))
+        .map(run => enrichEntry(clone(run), playerMap));
+    },
+
+    getUnverifiedLeaderboardEntries: async () => {
+      const playerMap = getPlayerMap();
+      return Array.from(runs.values())
+        .filter(run => run.verified === false && belongsToGame(run))
+        .map(run => enrichEntry(clone(run), playerMap));
+    },
+
+    getAllVerifiedRuns: async () => {
+      return Array.from(runs.values())
+        .filter(run => run.verified && belongsToGame(run))
+        .map(run => clone(run));
+    },
+
+    getRunsWithSplits: async (categoryId) => {
+      return Array.from(runs.values())
+        .filter(run => run.verified && run.hasSplits && belongsToGame(run) &&
+          (!categoryId || run.category === categoryId) &&
+          run.splits?.segments?.length > 0)
+        .map(run => clone(run));
+    },
+
+    getUnclaimedRunsBySRCUsername: async (srcUsername, currentUserId) => {
+      if (!srcUsername?.trim()) return [];
+      const searchUsername = srcUsername.trim().toLowerCase();
+      return Array.from(runs.values())
+        .filter(run => {
+          if (!run.verified || !run.importedFromSRC) return false;
+          const srcPlayer1 = (run.srcPlayerName || run.playerName || "").trim().toLowerCase();
+          const srcPlayer2 = (run.srcPlayer2Name || run.player2Name || "").trim().toLowerCase();
+          const matchesPlayer1 = srcPlayer1 === searchUsername;
+          const matchesPlayer2 = run.runType === 'co-op' && srcPlayer2 === searchUsername;
+          if (matchesPlayer1 && !isClaimed(run.playerId)) return true;
+          if (matchesPlayer2 && !isClaimed(run.player2Id)) return true;
+          return false;
+        })
+        .filter(run => !currentUserId || (run.playerId !== currentUserId && run.player2Id !== currentUserId))
+        .map(run => clone(run));
+    },
+
+    getUnassignedRuns: async (limit = 500) => {
+      return Array.from(runs.values())
+        .filter(run => run.verified && !isClaimed(run.playerId))
+        .slice(0, limit)
+        .map(run => clone(run));
+    },
+
+    claimRun: async (runId, userId) => {
+      const run = runs.get(runId);
+      if (!run) {
+        throw new Error("Run not found");
+      }
+      const player = players.get(userId);
+      if (!player) {
+        throw new Error("Player profile not found");
+      }
+      if (!run.importedFromSRC) {
+        throw new Error("Only runs imported from Speedrun.com can be claimed. Manual runs are automatically assigned.");
+      }
+      if (!player.srcUsername?.trim()) {
+        throw new Error("Please set your Speedrun.com username in Settings to claim runs.");
+      }
+      if (isClaimed(run.playerId)) {
+        throw new Error("This run is already claimed.");
+      }
+
+      const userSRC = player.srcUsername.trim().toLowerCase();
+      const matchesPlayer1 = (run.srcPlayerName || run.playerName || "").trim().toLowerCase() === userSRC;
+      const matchesPlayer2 = (run.srcPlayer2Name || run.player2Name || "").trim().toLowerCase() === userSRC;
+      if (!matchesPlayer1 && !matchesPlayer2) {
+        throw new Error(`Your Speedrun.com username "${player.srcUsername}" does not match this run's player.`);
+      }
+
+      if (matchesPlayer1) {
+        run.playerId = userId;
+        run.playerName = player.displayName;
+      }
+      if (matchesPlayer2 && run.runType === 'co-op') {
+        run.player2Id = userId;
+        run.player2Name = player.displayName;
+      }
+
+      await repository.updateRunVerificationStatus(runId, true, player.displayName || player.email || userId);
+      recalculatePlayerTotals(run);
+      return true;
+    },
+
+    // Players
+    getPlayerByUid: async (uid) => {
+      const player = players.get(uid);
+      return player ? { ...clone(player), id: uid } : null;
+    },
+
+    getPlayerByDisplayName: async (displayName) => {
+      const player = findPlayerByDisplayName(displayName);
+      return player ? { ...clone(player), id: player.uid } : null;
+    },
+
+    createPlayer: async (player) => {
+      if (isDisplayNameTaken(player.displayName, player.uid)) return null;
+      players.set(player.uid, { ...clone(player), id: player.uid, displayNameLower: normalizeDisplayName(player.displayName) } as Player);
+      return player.uid;
+    },
+
+    updatePlayerProfile: async (uid, data) => {
+      if (data.displayName !== undefined && isDisplayNameTaken(data.displayName, uid)) return false;
+      let player = players.get(uid);
+      if (!player) {
+        player = {
+          id: uid,
+          uid,
+          displayName: "",
+          email: "",
+          joinDate: new Date().toISOString().split('T')[0],
+          totalRuns: 0,
+          bestRank: null,
+          favoriteCategory: null,
+          favoritePlatform: null,
+          nameColor: "#cba6f7",
+          isAdmin: false,
+          totalPoints: 0,
+        };
+        players.set(uid, player);
+      }
+
+      // Empty strings remove optional profile fields
+      for (const [key, value] of Object.entries(data)) {
+        if (value === undefined) continue;
+        if (['bio', 'pronouns', 'twitchUsername', 'srcUsername', 'profilePicture'].includes(key) && value === '') {
+          delete (player as unknown as Record<string, unknown>)[key];
+        } else {
+          (player as unknown as Record<string, unknown>)[key] = value;
+        }
+      }
+      if (data.displayName !== undefined) {
+        player.displayName = data.displayName.trim();
+        player.displayNameLower = normalizeDisplayName(data.displayName);
+      }
+      return true;
+    },
+
+    isDisplayNameAvailable: async (displayName, currentUid) => {
+      if (!displayName?.trim()) return false;
+      return !isDisplayNameTaken(displayName, currentUid);
+    },
+
+    getAllPlayers: async (sortBy = 'joinDate', sortOrder = 'desc', limit) => {
+      const sorted = Array.from(players.values()).sort((a, b) => {
+        if (sortBy === 'displayName' || sortBy === 'joinDate') {
+          const aVal = String(a[sortBy] || '');
+          const bVal = String(b[sortBy] || '');
+          return sortOrder === 'desc' ? bVal.localeCompare(aVal) : aVal.localeCompare(bVal);
+        }
+        const aVal = Number(a[sortBy]) || 0;
+        const bVal = Number(b[sortBy]) || 0;
+        return sortOrder === 'desc' ? bVal - aVal : aVal - bVal;
+      });
+      return (limit ? sorted.slice(0, limit) : sorted).map(player => ({ ...clone(player), id: player.uid }));
+    },
+
+    getPlayersPage: async (sortBy = 'joinDate', sortOrder = 'desc', page = {}) => {
+      // Players without the sort field are left out, as in Firestore
+      const getKey = (player: Player) => [player[sortBy] as string | number, player.uid];
+      const sorted = Array.from(players.values())
+        .filter(player => player[sortBy] !== undefined && player[sortBy] !== null)
+        .sort((a, b) => compareKeys(getKey(a), getKey(b), [sortOrder, sortOrder]));
+      const playersPage = paginateSorted(sorted, getKey, page, [sortOrder, sortOrder]);
+      return { ...playersPage, items: playersPage.items.map(player => ({ ...clone(player), id: player.uid })) };
+    },
+
+    updatePlayer: async (playerId, updates) => {
+      const player = players.get(playerId);
+      if (!player) return false;
+      if (updates.displayName !== undefined && isDisplayNameTaken(updates.displayName, player.uid)) return false;
+      const previous = clone(player);
+      Object.assign(player, clone(updates));
+      if (updates.displayName !== undefined) {
+        player.displayName = updates.displayName.trim();
+        player.displayNameLower = normalizeDisplayName(updates.displayName);
+      }
+      // Admin flag changes are the most sensitive player edits, so they get their own actions
+      const adminChanged = updates.isAdmin !== undefined && updates.isAdmin !== !!previous.isAdmin;
+      recordAuditEvent(
+        adminChanged ? (updates.isAdmin ? "player.grantAdmin" : "player.revokeAdmin") : "player.update",
+        { type: 'player', id: playerId, name: previous.displayName },
+        previous,
+        clone(player)
+      );
+      return true;
+    },
+
+    deletePlayer: async (playerId, deleteRuns = false) => {
+      const player = players.get(playerId);
+      if (!player) {
+        return { success: false, error: "Player not found" };
+      }
+
+      // The player and their runs move to the trash; restoring the player restores their runs too
+      const trashedRunIds: string[] = [];
+      if (deleteRuns) {
+        for (const run of Array.from(runs.values())) {
+          if (run.playerId === player.uid || run.player2Id === player.uid) {
+            const runItem = createTrashItem('run', run.id, clone(run), 'playerDeleted', options.getActor?.());
+            trash.set(runItem.id, runItem);
+            runs.delete(run.id);
+            trashedRunIds.push(run.id);
+          }
+        }
+      }
+      const playerItem = createTrashItem('player', playerId, clone(player), 'deleted', options.getActor?.());
+      if (trashedRunIds.length > 0) playerItem.runIds = trashedRunIds;
+      trash.set(playerItem.id, playerItem);
+      players.delete(playerId);
+      recordAuditEvent("player.delete", { type: 'player', id: playerId, name: player.displayName }, player, null, {
+        deleteRuns,
+        deletedRuns: trashedRunIds.length,
+      });
+      return { success: true, deletedRuns: trashedRunIds.length };
+    },
+
+    getPlayersByPoints: async (limit = 100) => {
+      // Skip players without points, without a UID or named "Unknown"
+      return Array.from(players.values())
+        .filter(player => player.uid && (player.totalPoints || 0) > 0 && player.displayName?.trim().toLowerCase() !== "unknown")
+        .sort((a, b) => (b.totalPoints || 0) - (a.totalPoints || 0))
+        .slice(0, limit)
+        .map(player => ({ ...clone(player), id: player.uid }));
+    },
+
+    getPlayersWithTwitchUsernames: async () => {
+      return Array.from(players.values())
+        .filter(player => player.twitchUsername?.trim())
+        .map(player => ({
+          uid: player.uid,
+          displayName: player.displayName || "",
+          twitchUsername: player.twitchUsername!.trim(),
+          nameColor: player.nameColor,
+          profilePicture: player.profilePicture,
+        }));
+    },
+
+    getPlayersWithSRCUsernames: async () => {
+      return Array.from(players.values())
+        .filter(player => player.srcUsername?.trim())
+        .map(player => ({ uid: player.uid, srcUsername: player.srcUsername!.trim() }));
+    },
+
+    // Categories
+    getCategories: async (leaderboardType?: LeaderboardType) => {
+      return getGameCategories()
+        .filter(category => !leaderboardType || (category.leaderboardType || 'regular') === leaderboardType)
+        .map(category => clone(category));
+    },
+
+    addCategory: async (name, leaderboardType) => {
+      const trimmedName = name.trim();
+      if (!trimmedName) return null;
+
+      const typeToCheck = leaderboardType || 'regular';
+      const sameType = getGameCategories().filter(category => (category.leaderboardType || 'regular') === typeToCheck);
+      if (sameType.some(category => category.name?.trim().toLowerCase() === trimmedName.toLowerCase())) {
+        return null;
+      }
+
+      const id = newId("category");
+      const maxOrder = sameType.reduce((max, category) => Math.max(max, category.order ?? -1), -1);
+      const newCategory: Category = { id, gameId: getActiveGameId(), name: trimmedName, order: maxOrder + 1, leaderboardType: typeToCheck };
+      categories.set(id, newCategory);
+      recordAuditEvent("category.add", { type: 'category', id, name: trimmedName }, null, newCategory);
+      return id;
+    },
+
+    updateCategory: async (id, name, subcategories, srcCategoryId, srcSubcategoryVariableName) => {
+      const trimmedName = name.trim();
+      const category = categories.get(id);
+      if (!trimmedName || !category) return false;
+      const previous = clone(category);
+
+      if ((category.name || "").trim().toLowerCase() !== trimmedName.toLowerCase()) {
+        const conflict = Array.from(categories.values()).some(other =>
+          other.id !== id &&
+          belongsToGame(other, category.gameId || DEFAULT_GAME_ID) &&
+          (other.name || "").trim().toLowerCase() === trimmedName.toLowerCase()
+        );
+        if (conflict) return false;
+        category.name = trimmedName;
+      }
+      if (subcategories !== undefined) {
+        category.subcategories = clone(subcategories);
+      }
+      if (srcCategoryId !== undefined) {
+        category.srcCategoryId = srcCategoryId?.trim() || null;
+      }
+      if (srcSubcategoryVariableName !== undefined) {
+        category.srcSubcategoryVariableName = srcSubcategoryVariableName?.trim() || null;
+      }
+      recordAuditEvent("category.update", { type: 'category', id, name: previous.name }, previous, clone(category));
+      return true;
+    },
+
+    updateCategoryTimingMethods: async (id, timingMethods, primaryTimingMethod) => {
+      const category = categories.get(id);
+      if (!category || timingMethods.length === 0 || !timingMethods.includes(primaryTimingMethod)) return false;
+      recordAuditEvent(
+        "category.updateTimingMethods",
+        { type: 'category', id, name: category.name },
+        { timingMethods: category.timingMethods, primaryTimingMethod: category.primaryTimingMethod },
+        { timingMethods, primaryTimingMethod }
+      );
+      category.timingMethods = [...timingMethods];
+      category.primaryTimingMethod = primaryTimingMethod;
+      // Re-rank every board of the category under the new primary timing method
+      const rankedBoards = new Set<string>();
+      runs.forEach(run => {
+        if (!run.verified || run.category !== id) return;
+        const boardKey = `${run.leaderboardType || 'regular'}_${run.level || ''}_${run.platform}_${run.runType || 'solo'}`;
+        if (rankedBoards.has(boardKey)) return;
+        rankedBoards.add(boardKey);
+        updateBoardRanks(run);
+      });
+      return true;
+    },
+
+    updateCategoryVariables: async (id, variables) => {
+      const category = categories.get(id);
+      if (!category) return false;
+
+      // Variable names must be unique within the category, value names within their variable
+      const variableNames = new Set<string>();
+      for (const variable of variables) {
+        const variableName = variable.name.trim().toLowerCase();
+        if (!variableName || variableNames.has(variableName)) return false;
+        variableNames.add(variableName);
+
+        const valueNames = new Set<string>();
+        for (const value of variable.values) {
+          const valueName = value.name.trim().toLowerCase();
+          if (!valueName || valueNames.has(valueName)) return false;
+          valueNames.add(valueName);
+        }
+      }
+
+      const previousVariables = clone(category.variables);
+      category.variables = variables.map(variable => ({
+        ...clone(variable),
+        name: variable.name.trim(),
+        isSubcategory: Boolean(variable.isSubcategory),
+        values: variable.values.map(value => ({ ...clone(value), name: value.name.trim() })),
+      }));
+      recordAuditEvent("category.updateVariables", { type: 'category', id, name: category.name }, { variables: previousVariables }, { variables: category.variables });
+      return true;
+    },
+
+    deleteCategory: async (id) => {
+      const category = categories.get(id);
+      if (!category) return false;
+      categories.delete(id);
+      recordAuditEvent("category.delete", { type: 'category', id, name: category.name }, category, null);
+      return true;
+    },
+
+    moveCategoryUp: async (categoryId) => reorder('category', getGameCategories(), categoryId, -1),
+    moveCategoryDown: async (categoryId) => reorder('category', getGameCategories(), categoryId, 1),
+
+    // Platforms
+    getPlatforms: async () => getGamePlatforms().map(platform => clone(platform)),
+
+    addPlatform: async (name) => {
+      const trimmedName = name.trim();
+      if (!trimmedName) return null;
+
+      const gamePlatforms = getGamePlatforms();
+      if (gamePlatforms.some(platform => platform.name?.trim().toLowerCase() === trimmedName.toLowerCase())) {
+        return null;
+      }
+
+      const id = newId("platform");
+      const maxOrder = gamePlatforms.reduce((max, platform) => Math.max(max, platform.order ?? -1), -1);
+      const newPlatform: Platform = { id, gameId: getActiveGameId(), name: trimmedName, order: maxOrder + 1 };
+      platforms.set(id, newPlatform);
+      recordAuditEvent("platform.add", { type: 'platform', id, name: trimmedName }, null, newPlatform);
+      return id;
+    },
+
+    updatePlatform: async (id, name) => {
+      const trimmedName = name.trim();
+      const platform = platforms.get(id);
+      if (!trimmedName || !platform) return false;
+
+      const conflict = Array.from(platforms.values()).some(other =>
+        other.id !== id &&
+        belongsToGame(other, platform.gameId || DEFAULT_GAME_ID) &&
+        (other.name || "").trim().toLowerCase() === trimmedName.toLowerCase()
+      );
+      if (conflict) return false;
+      recordAuditEvent("platform.update", { type: 'platform', id, name: platform.name }, { name: platform.name }, { name: trimmedName });
+      platform.name = trimmedName;
+      return true;
+    },
+
+    deletePlatform: async (id) => {
+      const platform = platforms.get(id);
+      if (!platform) return false;
+      platforms.delete(id);
+      recordAuditEvent("platform.delete", { type: 'platform', id, name: platform.name }, platform, null);
+      return true;
+    },
+
+    movePlatformUp: async (platformId) => reorder('platform', getGamePlatforms(), platformId, -1),
+    movePlatformDown: async (platformId) => reorder('platform', getGamePlatforms(), platformId, 1),
+
+    // Levels
+    getLevels: async () => getGameLevels().map(level => clone(level)),
+
+    addLevel: async (name) => {
+      const trimmedName = name.trim();
+      if (!trimmedName) return null;
+
+      const gameLevels = getGameLevels();
+      if (gameLevels.some(level => level.name?.trim().toLowerCase() === trimmedName.toLowerCase())) {
+        return null;
+      }
+
+      const id = newId("level");
+      const maxOrder = gameLevels.reduce((max, level) => Math.max(max, level.order ?? -1), -1);
+      const newLevel: Level = { id, gameId: getActiveGameId(), name: trimmedName, order: maxOrder + 1 };
+      levels.set(id, newLevel);
+      recordAuditEvent("level.add", { type: 'level', id, name: trimmedName }, null, newLevel);
+      return id;
+    },
+
+    updateLevel: async (id, name) => {
+      const trimmedName = name.trim();
+      const level = levels.get(id);
+      if (!trimmedName || !level) return false;
+
+      const conflict = Array.from(levels.values()).some(other =>
+        other.id !== id &&
+        belongsToGame(other, level.gameId || DEFAULT_GAME_ID) &&
+        (other.name || "").trim().toLowerCase() === trimmedName.toLowerCase()
+      );
+      if (conflict) return false;
+      recordAuditEvent("level.update", { type: 'level', id, name: level.name }, { name: level.name }, { name: trimmedName });
+      level.name = trimmedName;
+      return true;
+    },
+
+    updateLevelCategoryDisabled: async (levelId, categoryId, disabled) => {
+      const level = levels.get(levelId);
+      if (!level) return false;
+      const previousDisabledCategories = clone(level.disabledCategories);
+      const disabledCategories = level.disabledCategories || {};
+      if (disabled) {
+        disabledCategories[categoryId] = true;
+      } else {
+        delete disabledCategories[categoryId];
+      }
+      level.disabledCategories = disabledCategories;
+      recordAuditEvent(
+        disabled ? "level.disableCategory" : "level.enableCategory",
+        { type: 'level', id: levelId, name: level.name },
+        { disabledCategories: previousDisabledCategories },
+        { disabledCategories },
+        { categoryId }
+      );
+      return true;
+    },
+
+    deleteLevel: async (id) => {
+      const level = levels.get(id);
+      levels.delete(id);
+      recordAuditEvent("level.delete", { type: 'level', id, name: level?.name }, level, null);
+      return true;
+    },
+
+    moveLevelUp: async (id) => reorder('level', getGameLevels(), id, -1),
+    moveLevelDown: async (id) => reorder('level', getGameLevels(), id, 1),
+
+    // Downloads
+    getDownloadEntries: async () => getSortedDownloads().map(entry => clone(entry)),
+
+    addDownloadEntry: async (entry, addedByUid) => {
+      const existing = getSortedDownloads();
+      const maxOrder = existing.length > 0 ? Math.max(...existing.map(d => d.order ?? 0), 0) : -1;
+      const id = newId("download");
+      const newEntry: DownloadEntry = {
+        ...clone(entry),
+        id,
+        addedBy: addedByUid,
+        dateAdded: new Date().toISOString().split('T')[0],
+        order: maxOrder + 1,
+      };
+      downloads.set(id, newEntry);
+      recordAuditEvent("download.add", { type: 'download', id, name: newEntry.name }, null, newEntry);
+      return id;
+    },
+
+    deleteDownloadEntry: async (id) => {
+      const entry = downloads.get(id);
+      if (!entry) return false;
+      downloads.delete(id);
+      recordAuditEvent("download.delete", { type: 'download', id, name: entry.name }, entry, null);
+      return true;
+    },
+
+    updateDownloadOrder: async (id, order) => {
+      const entry = downloads.get(id);
+      if (!entry) return false;
+      entry.order = order;
+      return true;
+    },
+
+    moveDownloadUp: async (downloadId) => reorder('download', getSortedDownloads(), downloadId, -1),
+    moveDownloadDown: async (downloadId) => reorder('download', getSortedDownloads(), downloadId, 1),
+
+    getDownloadCategories: async () => {
+      if (downloadCategories.size === 0) {
+        DEFAULT_DOWNLOAD_CATEGORIES.forEach(category => {
+          const id = category.name.toLowerCase().replace(/\s+/g, '_');
+          downloadCategories.set(id, { id, ...category });
+        });
+      }
+      return Array.from(downloadCategories.values())
+        .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity))
+        .map(category => clone(category));
+    },
+
+    addDownloadCategory: async (name, order) => {
+      const id = name.toLowerCase().replace(/\s+/g, '_');
+      if (downloadCategories.has(id)) return null;
+      const nextOrder = order ?? (await repository.getDownloadCategories()).length + 1;
+      downloadCategories.set(id, { id, name, order: nextOrder });
+      recordAuditEvent("downloadCategory.add", { type: 'downloadCategory', id, name }, null, { name, order: nextOrder });
+      return id;
+    },
+
+    updateDownloadCategory: async (categoryId, name, order) => {
+      const category = downloadCategories.get(categoryId);
+      if (!category) return false;
+      const previous = clone(category);
+      if (name !== undefined) category.name = name;
+      if (order !== undefined) category.order = order;
+      recordAuditEvent("downloadCategory.update", { type: 'downloadCategory', id: categoryId, name: previous.name }, previous, clone(category));
+      return true;
+    },
+
+    deleteDownloadCategory: async (categoryId) => {
+      const category = downloadCategories.get(categoryId);
+      downloadCategories.delete(categoryId);
+      recordAuditEvent("downloadCategory.delete", { type: 'downloadCategory', id: categoryId, name: category?.name }, category, null);
+      return true;
+    },
+
+    // Points config
+    getPointsConfig,
+
+    updatePointsConfig: async (config, changedBy) => {
+      const gameId = getActiveGameId();
+      const current = pointsConfigs.get(gameId) || getDefaultPointsConfig(gameId);
+      const updates = clone(config);
+      // The ID is derived from the game, never stored from input
+      delete updates.id;
+      const published = { ...current, ...updates, gameId, version: (current.version ?? 0) + 1 };
+      pointsConfigs.set(gameId, published);
+      pointsConfigHistory.push(createPointsConfigVersion(current, clone(published), changedBy));
+      recordAuditEvent("pointsConfig.update", { type: 'pointsConfig', id: gameId, name: `v${published.version}` }, current, published);
+      return true;
+    },
+
+    getPointsConfigHistory: async (gameId = getActiveGameId()) => {
+      return pointsConfigHistory
+        .filter(version => version.gameId === gameId)
+        .sort((a, b) => b.version - a.version)
+        .map(version => clone(version));
+    },
+
+    getPointsLedger: async (playerId) => {
+      return pointsLedger
+        .filter(entry => entry.playerId === playerId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(entry => clone(entry));
+    },
+
+    // Points recalculation
+    backfillPointsForAllRuns: async () => {
+      const plan = await planBoardsPointsRecalculation(getBoards());
+      const result = await repository.applyPointsRecalculation(plan);
+      // Every total is rebuilt, not just the ones the plan changed
+      result.playersUpdated = Array.from(players.keys()).filter(playerId => recalculatePlayerTotal(playerId)).length;
+      recordAuditEvent("pointsConfig.backfill", { type: 'pointsConfig' }, null, null, {
+        runsUpdated: result.runsUpdated,
+        playersUpdated: result.playersUpdated,
+        errors: result.errors.length,
+      });
+      return result;
+    },
+
+    planPointsRecalculation: async (scope, onProgress) => {
+      if (scope.type === 'config') {
+        return planConfigPointsRecalculation(scope.config, onProgress);
+      }
+      const boards: LeaderboardEntry[] = [];
+      scope.runIds.forEach(runId => {
+        const run = runs.get(runId);
+        if (run && !boards.some(board => isOnBoard(board, run))) boards.push(run);
+      });
+      return planBoardsPointsRecalculation(boards, onProgress);
+    },
+
+    applyPointsRecalculation: async (plan, onProgress) => {
+      const result = { runsUpdated: 0, playersUpdated: 0, errors: [] as string[] };
+      const playerIds = new Set<string>();
+      plan.runChanges.forEach(change => {
+        const run = runs.get(change.run.id);
+        if (!run) {
+          result.errors.push(`Failed to update run ${change.run.id}: it no longer exists`);
+          return;
+        }
+        run.points = change.pointsAfter;
+        if (change.rankAfter !== change.rankBefore) {
+          if (change.rankAfter !== undefined) {
+            run.rank = change.rankAfter;
+          } else {
+            delete run.rank;
+          }
+        }
+        runBreakdowns.set(run.id, { breakdown: change.breakdown, configVersion: change.configVersion });
+        change.playerIds.forEach(playerId => playerIds.add(playerId));
+        result.runsUpdated++;
+      });
+      const total = plan.runChanges.length + playerIds.size;
+      onProgress?.({ stage: 'applying', completed: plan.runChanges.length, total });
+
+      // Players who never signed up have no profile to total their studs on
+      playerIds.forEach(playerId => {
+        if (recalculatePlayerTotal(playerId)) result.playersUpdated++;
+      });
+      onProgress?.({ stage: 'applying', completed: total, total });
+      return result;
+    },
+
+    rebuildLeaderboardRanks: async () => {
+      const boardsUpdated = updateAllBoardRanks();
+      recordAuditEvent("leaderboard.rebuildRanks", { type: 'leaderboard' }, null, null, { boardsUpdated });
+      return { boardsUpdated, errors: [] };
+    },
+
+    // Seasons
+    getSeasons: async () => sortSeasons(Array.from(seasons.values()).filter(season => belongsToGame(season))).map(season => clone(season)),
+
+    getSeason: async (seasonId) => {
+      const season = seasons.get(seasonId);
+      return season ? clone(season) : null;
+    },
+
+    addSeason: async (season) => {
+      if (validateSeason(season)) return null;
+      const id = newId("season");
+      const newSeason: Season = { id, gameId: getActiveGameId(), name: season.name.trim(), startDate: season.startDate, endDate: season.endDate };
+      seasons.set(id, newSeason);
+      recordAuditEvent("season.add", { type: 'season', id, name: newSeason.name }, null, newSeason);
+      return id;
+    },
+
+    updateSeason: async (seasonId, data) => {
+      const season = seasons.get(seasonId);
+      if (!season || season.archived) return false;
+      const updated = { ...season, ...data, name: (data.name ?? season.name).trim() };
+      if (validateSeason(updated)) return false;
+      seasons.set(seasonId, updated);
+      recordAuditEvent("season.update", { type: 'season', id: seasonId, name: season.name }, season, updated);
+      return true;
+    },
+
+    deleteSeason: async (seasonId) => {
+      const season = seasons.get(seasonId);
+      if (!season) return false;
+      seasons.delete(seasonId);
+      recordAuditEvent("season.delete", { type: 'season', id: seasonId, name: season.name }, season, null);
+      return true;
+    },
+
+    getSeasonStandings: async (seasonId) => {
+      const season = seasons.get(seasonId);
+      if (!season) return [];
+      return clone(season.archived ? season.finalStandings || [] : getLiveSeasonStandings(season));
+    },
+
+    archiveSeason: async (seasonId) => {
+      const season = seasons.get(seasonId);
+      if (!season || getSeasonStatus(season) !== 'ended') return false;
+      const finalStandings = getLiveSeasonStandings(season);
+      seasons.set(seasonId, {
+        ...season,
+        archived: true,
+        archivedAt: new Date().toISOString(),
+        finalStandings,
+      });
+      recordAuditEvent("season.archive", { type: 'season', id: seasonId, name: season.name }, { archived: season.archived }, { archived: true }, {
+        players: finalStandings.length,
+      });
+      return true;
+    },
+
+    getPlayerSeasonPlacements: async (playerId) => {
+      const placements: SeasonPlacement[] = [];
+      sortSeasons(Array.from(seasons.values()).filter(season => belongsToGame(season) && getSeasonStatus(season) !== 'upcoming'))
+        .forEach(season => {
+          const standings = season.archived ? season.finalStandings || [] : getLiveSeasonStandings(season);
+          const standing = standings.find(entry => entry.playerId === playerId);
+          if (standing) {
+            const { finalStandings: _finalStandings, ...seasonInfo } = season;
+            placements.push({ season: clone(seasonInfo), standing: clone(standing), totalPlayers: standings.length });
+          }
+        });
+      return placements;
+    },
+
+    // Run revisions
+    getRunRevisions: async (runId) => sortRunRevisions(runRevisions.filter(entry => entry.runId === runId)).map(entry => clone(entry)),
+
+    revertRunToRevision: async (runId, revision) => {
+      const run = runs.get(runId);
+      if (!run) return { success: false, error: "Run not found" };
+      const snapshot = getRunRevisionSnapshot(runRevisions.filter(entry => entry.runId === runId), revision);
+      if (!snapshot) return { success: false, error: "Revision not found" };
+      const update = getRunRevertUpdate(run, snapshot);
+      if (Object.keys(update).length === 0) return { success: true };
+      return { success: await updateRun(runId, update, revision) };
+    },
+
+    // Trash
+    getTrash: async () => Array.from(trash.values())
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+      .map(item => clone(item)),
+
+    restoreTrashItem: async (trashId) => {
+      const item = trash.get(trashId);
+      if (!item) return { success: false, error: "Item not found in the trash" };
+
+      if (item.type === 'run') {
+        if (runs.has(item.itemId)) return { success: false, error: "A run with this ID already exists" };
+        await restoreTrashedRuns([item]);
+        recordAuditEvent("run.restore", getTrashAuditTarget(item), null, item.data, { reason: item.reason });
+        return { success: true };
+      }
+
+      if (players.has(item.itemId)) return { success: false, error: "A player with this ID already exists" };
+      const player = { ...clone(item.data), id: item.itemId } as Player;
+      if (isDisplayNameTaken(player.displayName, player.uid)) {
+        return { success: false, error: `The display name "${player.displayName}" has been taken by another player` };
+      }
+      players.set(item.itemId, player);
+      trash.delete(item.id);
+
+      // Runs that were purged or already restored are skipped
+      const runItems = (item.runIds || [])
+        .map(runId => trash.get(getTrashItemId('run', runId)))
+        .filter((runItem): runItem is TrashItem => !!runItem && !runs.has(runItem.itemId));
+      await restoreTrashedRuns(runItems);
+      recordAuditEvent("player.restore", getTrashAuditTarget(item), null, item.data, { restoredRuns: runItems.length });
+      return { success: true, restoredRuns: runItems.length };
+    },
+
+    purgeTrashItem: async (trashId) => {
+      const item = trash.get(trashId);
+      if (!item) return false;
+      purgeTrashItems([item]);
+      recordAuditEvent(`${item.type}.purge`, getTrashAuditTarget(item), item.data, null, { reason: item.reason });
+      return true;
+    },
+
+    purgeExpiredTrash: async () => {
+      const expiredItems = Array.from(trash.values()).filter(item => isTrashItemExpired(item));
+      purgeTrashItems(expiredItems);
+      expiredItems.forEach(item => {
+        recordAuditEvent(`${item.type}.purge`, getTrashAuditTarget(item), item.data, null, { reason: item.reason, expired: true });
+      });
+      return expiredItems.length;
+    },
+
+    // Audit log
+    getAuditLog: async (filters = {}, limit = 200) => {
+      return auditLog
+        .filter(entry => matchesAuditFilters(entry, filters))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, limit)
+        .map(entry => clone(entry));
+    },
+
+    // Run import
+    getRunImportIndex: async () => {
+      const index: RunImportIndex = { duplicateKeys: {}, players: [] };
+      runs.forEach(run => {
+        const key = getRunDuplicateKey(run, players);
+        if (!index.duplicateKeys[key]) {
+          index.duplicateKeys[key] = run.id;
+        }
+      });
+      index.players = await repository.getAllPlayers();
+      return index;
+    },
+
+    importRuns: async (importedRuns, onProgress) => {
+      const result = { imported: 0, errors: [] as string[] };
+      for (let i = 0; i < importedRuns.length; i++) {
+        const run = importedRuns[i];
+        try {
+          // Added unverified so they go through the verification queue like any other submission
+          await repository.addLeaderboardEntry({ ...run, verified: false } as NewLeaderboardEntry);
+          result.imported++;
+        } catch (error) {
+          result.errors.push(`${run.playerName} (${run.time}): ${error instanceof Error ? error.message : String(error)}`);
+        }
+        onProgress?.(i + 1, importedRuns.length);
+      }
+      recordAuditEvent("run.importCsv", { type: 'run' }, null, null, {
+        imported: result.imported,
+        failed: result.errors.length,
+      });
+      return result;
+    },
+
+    // Backups
+    createBackup: async () => {
+      const archive = createBackupArchive(readBackupCollections(), options.getActor?.()?.uid);
+      recordAuditEvent("backup.create", { type: 'backup' }, null, null, Object.fromEntries(
+        BACKUP_COLLECTIONS.map(collectionName => [collectionName, archive.collections[collectionName].length])
+      ));
+      return archive;
+    },
+
+    getBackupDiff: async (archive, skipRunIds = []) => getBackupDiff(archive, readBackupCollections(), skipRunIds),
+
+    restoreBackup: async (archive, restoreOptions = {}, skipRunIds = [], onProgress) => {
+      const result = { written: 0, deleted: 0, errors: [] as string[] };
+      const current = readBackupCollections();
+      const diffs = getBackupDiff(archive, current, skipRunIds);
+
+      for (const diff of diffs) {
+        const documentsById = new Map(archive.collections[diff.collection].map(document => [document.id, document]));
+        const written = [...diff.added, ...diff.changed];
+        const deleted = restoreOptions.removeMissing ? diff.removed : [];
+        written.forEach(id => writeBackupDocument(diff.collection, id, documentsById.get(id)));
+        deleted.forEach(id => writeBackupDocument(diff.collection, id, undefined));
+        result.written += written.length;
+        result.deleted += deleted.length;
+        onProgress?.({ collection: diff.collection, completed: written.length + deleted.length, total: written.length + deleted.length });
+      }
+
+      // Ranks and studs depend on the rest of a board, so every board a restored or deleted run is on is re-ranked
+      const boards: LeaderboardEntry[] = [];
+      const runsDiff = diffs.find(diff => diff.collection === 'leaderboardEntries');
+      if (runsDiff) {
+        const archivedRuns = new Map(archive.collections.leaderboardEntries.map(document => [document.id, document]));
+        const currentRuns = new Map(current.leaderboardEntries.map(document => [document.id, document]));
+        [...runsDiff.added, ...runsDiff.changed, ...(restoreOptions.removeMissing ? runsDiff.removed : [])].forEach(id => {
+          [archivedRuns.get(id), currentRuns.get(id)].forEach(document => {
+            const run = document as unknown as LeaderboardEntry | undefined;
+            if (run?.verified && !boards.some(board => isOnBoard(board, run))) boards.push(run);
+          });
+        });
+      }
+      for (const board of boards) {
+        await rescoreBoard(board);
+      }
+
+      recordAuditEvent("backup.restore", { type: 'backup', name: archive.createdAt }, null, null, {
+        written: result.written,
+        deleted: result.deleted,
+        removeMissing: !!restoreOptions.removeMissing,
+        skippedRuns: skipRunIds.length,
+        boardsRanked: boards.length,
+      });
+      return result;
+    },
+
+    // Migrations
+    getMigrationStatuses: async () => Array.from(migrationStatuses.values()).map(status => clone(status)),
+
+    runMigration: async (migrationId, runOptions = {}, onProgress) => {
+      const result: MigrationRunResult = { processed: 0, changed: 0, total: 0, completed: false, samples: [], errors: [] };
+      const migration = getMigration(migrationId);
+      if (!migration) {
+        result.errors.push(`Unknown migration ${migrationId}`);
+        return result;
+      }
+
+      const MAX_SAMPLES = 20;
+      const batchSize = Math.min(runOptions.batchSize || 200, 200);
+      const existingStatus = migrationStatuses.get(migrationId);
+      if (!runOptions.dryRun) {
+        if (existingStatus?.status === 'completed') {
+          result.errors.push("This migration has already been run");
+          return result;
+        }
+        const prerequisites = getPendingPrerequisites(migration, Array.from(migrationStatuses.values()));
+        if (prerequisites.length > 0) {
+          result.errors.push(`Run ${prerequisites.map(getMigrationId).join(", ")} first`);
+          return result;
+        }
+      }
+
+      // Documents are walked in ID order, like the Firestore backend's cursor
+      const documents = getMigrationDocuments(migration.collection);
+      const documentIds = Array.from(documents.keys()).sort();
+      result.total = documentIds.length;
+
+      // Resume a stopped run; a run after a rollback starts over
+      const resuming = !runOptions.dryRun && existingStatus?.status === 'running';
+      const cursor = resuming ? existingStatus.cursor : undefined;
+      result.processed = resuming ? existingStatus.processed : 0;
+      result.changed = resuming ? existingStatus.changed : 0;
+      const status: MigrationStatus = resuming ? existingStatus : {
+        id: migrationId,
+        collection: migration.collection,
+        version: migration.version,
+        status: 'running',
+        processed: 0,
+        changed: 0,
+        startedAt: new Date().toISOString(),
+      };
+      if (!resuming && !runOptions.dryRun) {
+        const actor = options.getActor?.();
+        if (actor) status.startedBy = actor.uid;
+        migrationStatuses.set(migrationId, status);
+      }
+
+      const pendingIds = documentIds.filter(documentId => !cursor || documentId > cursor);
+      for (let i = 0; i < pendingIds.length; i += batchSize) {
+        const batchIds = pendingIds.slice(i, i + batchSize);
+        batchIds.forEach(documentId => {
+          const document = documents.get(documentId)!;
+          const change = getMigrationChange(migration, documentId, document);
+          if (!change) return;
+
+          const hasChanges = hasMigrationFieldChanges(change);
+          if (hasChanges) {
+            result.changed++;
+            if (result.samples.length < MAX_SAMPLES) result.samples.push(clone(change));
+          }
+          if (runOptions.dryRun) return;
+
+          Object.keys(change.before).forEach(field => {
+            if (field in change.after) {
+              document[field] = clone(change.after[field]);
+            } else {
+              delete document[field];
+            }
+          });
+          change.addedFields.forEach(field => {
+            document[field] = clone(change.after[field]);
+          });
+          document.schemaVersion = migration.version;
+          if (hasChanges) migrationChanges.set(change.id, clone(change));
+        });
+
+        result.processed += batchIds.length;
+        if (!runOptions.dryRun) {
+          Object.assign(status, { cursor: batchIds[batchIds.length - 1], processed: result.processed, changed: result.changed });
+        }
+        onProgress?.({ processed: result.processed, changed: result.changed, total: result.total });
+        if (i + batchSize < pendingIds.length && runOptions.shouldStop?.()) return result;
+      }
+
+      result.completed = true;
+      if (!runOptions.dryRun) {
+        const boardsRanked = migration.rebuildsBoardRanks ? updateAllBoardRanks() : undefined;
+        status.status = 'completed';
+        status.completedAt = new Date().toISOString();
+        delete status.cursor;
+        recordAuditEvent("migration.run", { type: 'migration', id: migrationId, name: migration.name }, null, null, {
+          processed: result.processed,
+          changed: result.changed,
+          ...(boardsRanked !== undefined && { boardsRanked }),
+        });
+      }
+      return result;
+    },
+
+    rollbackMigration: async (migrationId, onProgress) => {
+      const migration = getMigration(migrationId);
+      if (!migration) return { success: false, restored: 0, error: `Unknown migration ${migrationId}` };
+      const status = migrationStatuses.get(migrationId);
+      if (!status || !canRollbackMigration(migration, Array.from(migrationStatuses.values()))) {
+        return { success: false, restored: 0, error: "Only the latest completed migration for a collection can be rolled back" };
+      }
+
+      // Changed documents get their previous values and schemaVersion back
+      const documents = getMigrationDocuments(migration.collection);
+      const changes = Array.from(migrationChanges.values()).filter(change => change.migrationId === migrationId);
+      changes.forEach(change => {
+        const document = documents.get(change.documentId);
+        if (document) {
+          Object.assign(document, clone(change.before));
+          change.addedFields.forEach(field => {
+            delete document[field];
+          });
+          if (change.previousSchemaVersion > 0) {
+            document.schemaVersion = change.previousSchemaVersion;
+          } else {
+            delete document.schemaVersion;
+          }
+        }
+        migrationChanges.delete(change.id);
+      });
+      onProgress?.(changes.length, changes.length);
+
+      status.status = 'rolledBack';
+      status.rolledBackAt = new Date().toISOString();
+      recordAuditEvent("migration.rollback", { type: 'migration', id: migrationId, name: migration.name }, null, null, { restored: changes.length });
+      return { success: true, restored: changes.length };
+    },
+
+    // Games
+    getGames: async () => sortByOrder(Array.from(games.values())).map(game => clone(game)),
+
+    addGame: async (game) => {
+      const gameId = game.id.trim().toLowerCase();
+      const trimmedName = game.name.trim();
+      if (!/^[a-z0-9-]+$/.test(gameId) || !trimmedName || games.has(gameId)) {
+        return null;
+      }
+
+      const maxOrder = Array.from(games.values()).reduce((max, existing) => Math.max(max, existing.order ?? -1), -1);
+      const newGame: Game = { id: gameId, name: trimmedName, order: maxOrder + 1 };
+      if (game.shortName?.trim()) newGame.shortName = game.shortName.trim();
+      if (game.srcAbbreviation?.trim()) newGame.srcAbbreviation = game.srcAbbreviation.trim();
+      if (game.twitchChannel?.trim()) newGame.twitchChannel = game.twitchChannel.trim();
+      games.set(gameId, newGame);
+      recordAuditEvent("game.add", { type: 'game', id: gameId, name: trimmedName }, null, newGame);
+      return gameId;
+    },
+
+    updateGame: async (id, data) => {
+      const game = games.get(id);
+      if (!game) return false;
+      const previous = clone(game);
+      if (data.name !== undefined) {
+        if (!data.name.trim()) return false;
+        game.name = data.name.trim();
+      }
+      // Empty optional fields are removed rather than stored as empty strings
+      for (const key of ['shortName', 'srcAbbreviation', 'twitchChannel'] as const) {
+        if (data[key] !== undefined) {
+          if (data[key]?.trim()) {
+            game[key] = data[key]!.trim();
+          } else {
+            delete game[key];
+          }
+        }
+      }
+      if (data.order !== undefined) {
+        game.order = data.order;
+      }
+      recordAuditEvent("game.update", { type: 'game', id, name: previous.name }, previous, clone(game));
+      return true;
+    },
+
+    deleteGame: async (id) => {
+      if (id === DEFAULT_GAME_ID) return false;
+      if (Array.from(categories.values()).some(category => belongsToGame(category, id))) return false;
+      const game = games.get(id);
+      if (!game) return false;
+      games.delete(id);
+      recordAuditEvent("game.delete", { type: 'game', id, name: game.name }, game, null);
+      return true;
+    },
+  };
+
+  return repository;
+}
@@ -0,0 +1,109 @@
+/**
+ * Schema migrations
+ * Every migration is declared in its own module and listed here; migrations for a collection run in version order.
+ * To add one, create a module with the next version for its collection and append it to MIGRATIONS
+ */
+
+import { MigrationChange, MigrationStatus } from "@/types/database";
+import { Migration, MigrationCollection, MigrationDocument } from "./types";
+import { runsV1IlLeaderboardType } from "./runsV1IlLeaderboardType";
+import { runsV2NormalizeFields } from "./runsV2NormalizeFields";
+import { runsV3BoardRanks } from "./runsV3BoardRanks";
+import { playersV1StatDefaults } from "./playersV1StatDefaults";
+import { playersV2DisplayNameLower } from "./playersV2DisplayNameLower";
+
+export type { Migration, MigrationCollection, MigrationDocument, MigrationRunOptions, MigrationRunResult } from "./types";
+
+export const MIGRATIONS: Migration[] = [
+  runsV1IlLeaderboardType,
+  runsV2NormalizeFields,
+  runsV3BoardRanks,
+  playersV1StatDefaults,
+  playersV2DisplayNameLower,
+];
+
+export function getMigrationId(migration: Pick<Migration, 'collection' | 'version'>): string {
+  return `${migration.collection}_v${migration.version}`;
+}
+
+export function getMigration(migrationId: string): Migration | undefined {
+  return MIGRATIONS.find(migration => getMigrationId(migration) === migrationId);
+}
+
+/**
+ * The schemaVersion new documents in a collection are saved with (the latest migration's version)
+ */
+export function getSchemaVersion(collection: MigrationCollection): number {
+  return MIGRATIONS
+    .filter(migration => migration.collection === collection)
+    .reduce((latest, migration) => Math.max(latest, migration.version), 0);
+}
+
+/**
+ * Earlier migrations for the same collection that haven't completed, which must run first
+ */
+export function getPendingPrerequisites(migration: Migration, statuses: MigrationStatus[]): Migration[] {
+  return MIGRATIONS.filter(candidate =>
+    candidate.collection === migration.collection &&
+    candidate.version < migration.version &&
+    statuses.find(status => status.id === getMigrationId(candidate))?.status !== 'completed'
+  );
+}
+
+/**
+ * Only the latest completed migration for a collection can be rolled back, so versions are undone in reverse order
+ */
+export function canRollbackMigration(migration: Migration, statuses: MigrationStatus[]): boolean {
+  const isCompleted = (candidate: Migration) => statuses.find(status => status.id === getMigrationId(candidate))?.status === 'completed';
+  return isCompleted(migration) && !MIGRATIONS.some(candidate =>
+    candidate.collection === migration.collection &&
+    candidate.version > migration.version &&
+    (isCompleted(candidate) || statuses.find(status => status.id === getMigrationId(candidate))?.status === 'running')
+  );
+}
+
+/**
+ * What a migration changes on one document, with the previous values needed to roll it back
+ * Returns null when the document is already at or past the migration's version, or needs no change
+ */
+export function getMigrationChange(
+  migration: Migration,
+  documentId: string,
+  document: MigrationDocument,
+  changedAt: string = new Date().toISOString()
+): MigrationChange | null {
+  const previousSchemaVersion = typeof document.schemaVersion === "number" ? document.schemaVersion : 0;
+  if (previousSchemaVersion >= migration.version) return null;
+
+  const update = migration.migrate(document) || {};
+  const change: MigrationChange = {
+    id: `${getMigrationId(migration)}_${documentId}`,
+    migrationId: getMigrationId(migration),
+    collection: migration.collection,
+    documentId,
+    before: {},
+    addedFields: [],
+    after: {},
+    previousSchemaVersion,
+    changedAt,
+  };
+  Object.entries(update).forEach(([field, value]) => {
+    if (JSON.stringify(document[field]) === JSON.stringify(value)) return;
+    if (document[field] === undefined) {
+      change.addedFields.push(field);
+    } else {
+      change.before[field] = document[field];
+    }
+    if (value !== undefined) {
+      change.after[field] = value;
+    }
+  });
+  return change;
+}
+
+/**
+ * Whether a migration change touches any fields (documents without changes only get their schemaVersion bumped)
+ */
+export function hasMigrationFieldChanges(change: MigrationChange): boolean {
+  return change.addedFields.length > 0 || Object.keys(change.before).length > 0;
+}
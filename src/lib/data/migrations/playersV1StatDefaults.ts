@@ -0,0 +1,22 @@
+import { Migration } from "./types";
+
+/**
+ * Players created before points existed have no totalPoints (and some older profiles no totalRuns),
+ * so Firestore leaves them out of queries ordered by those fields and the points leaderboard falls back
+ * to sorting every player in memory
+ */
+export const playersV1StatDefaults: Migration = {
+  collection: 'players',
+  version: 1,
+  name: "Player stat defaults",
+  description: "Stores zero points and runs, and no best rank or favorites, on players that are missing those fields.",
+  migrate(player) {
+    const changes: Record<string, unknown> = {};
+    if (typeof player.totalPoints !== "number") changes.totalPoints = 0;
+    if (typeof player.totalRuns !== "number") changes.totalRuns = 0;
+    if (player.bestRank === undefined) changes.bestRank = null;
+    if (player.favoriteCategory === undefined) changes.favoriteCategory = null;
+    if (player.favoritePlatform === undefined) changes.favoritePlatform = null;
+    return Object.keys(changes).length > 0 ? changes : null;
+  },
+};
@@ -0,0 +1,18 @@
+import { normalizeDisplayName } from "@/lib/dataValidation";
+import { Migration } from "./types";
+
+/**
+ * Players who joined before the display name index have no displayNameLower, so the case-insensitive name checks
+ * for players missing from the index can't find them
+ */
+export const playersV2DisplayNameLower: Migration = {
+  collection: 'players',
+  version: 2,
+  name: "Lowercase display names",
+  description: "Stores the lowercased display name used for case-insensitive name checks on players that are missing it.",
+  migrate(player) {
+    if (typeof player.displayName !== "string") return null;
+    const displayNameLower = normalizeDisplayName(player.displayName);
+    return player.displayNameLower !== displayNameLower ? { displayNameLower } : null;
+  },
+};
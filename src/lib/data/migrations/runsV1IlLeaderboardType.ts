@@ -0,0 +1,19 @@
+import { Migration } from "./types";
+
+/**
+ * Individual level runs saved before leaderboard types existed have a level but no
+ * (or the regular) leaderboard type, so they show up on the full game boards
+ */
+export const runsV1IlLeaderboardType: Migration = {
+  collection: 'leaderboardEntries',
+  version: 1,
+  name: "IL leaderboard type",
+  description: "Sets the individual level leaderboard type on runs that have a level but were saved as full game runs.",
+  migrate(run) {
+    const hasLevel = typeof run.level === "string" && run.level.trim() !== "";
+    if (hasLevel && (!run.leaderboardType || run.leaderboardType === 'regular')) {
+      return { leaderboardType: 'individual-level' };
+    }
+    return null;
+  },
+};
@@ -0,0 +1,56 @@
+import { Migration } from "./types";
+import {
+  normalizeCategoryId,
+  normalizeLeaderboardType,
+  normalizePlatformId,
+  normalizeRunType,
+  normalizeTime,
+  normalizeTimes,
+} from "@/lib/dataValidation";
+import { LeaderboardEntry } from "@/types/database";
+
+/**
+ * Older runs were saved without going through normalizeLeaderboardEntry, so reads have to cope with
+ * untrimmed IDs, "coop" run types, unpadded times and importedFromSRC stored as a string
+ */
+export const runsV2NormalizeFields: Migration = {
+  collection: 'leaderboardEntries',
+  version: 2,
+  name: "Normalize run fields",
+  description: "Stores run types, leaderboard types, category and platform IDs, times and the imported flag in their normalized form.",
+  migrate(document) {
+    const run = document as Partial<LeaderboardEntry> & { importedFromSRC?: unknown };
+    const changes: Record<string, unknown> = {};
+
+    if (run.runType !== undefined && normalizeRunType(run.runType) !== run.runType) {
+      changes.runType = normalizeRunType(run.runType);
+    }
+    if (run.leaderboardType !== undefined && normalizeLeaderboardType(run.leaderboardType) !== run.leaderboardType) {
+      changes.leaderboardType = normalizeLeaderboardType(run.leaderboardType);
+    }
+    if (typeof run.category === "string" && normalizeCategoryId(run.category) !== run.category) {
+      changes.category = normalizeCategoryId(run.category);
+    }
+    if (typeof run.platform === "string" && normalizePlatformId(run.platform) !== run.platform) {
+      changes.platform = normalizePlatformId(run.platform);
+    }
+    // Times that don't parse are left for an admin to fix rather than being reset to zero
+    if (typeof run.time === "string") {
+      const time = normalizeTime(run.time);
+      if (time !== run.time && time !== "00:00:00") {
+        changes.time = time;
+      }
+    }
+    if (run.times) {
+      const times = normalizeTimes(run.times);
+      if (times && JSON.stringify(times) !== JSON.stringify(run.times)) {
+        changes.times = times;
+      }
+    }
+    if (run.importedFromSRC !== undefined && typeof run.importedFromSRC !== "boolean") {
+      changes.importedFromSRC = run.importedFromSRC === 1 || run.importedFromSRC === "true";
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  },
+};
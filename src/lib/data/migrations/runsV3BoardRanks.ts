@@ -0,0 +1,17 @@
+import { Migration } from "./types";
+
+/**
+ * Leaderboards are ordered by the rank and timeMs fields updateBoardRanks stores on verified runs,
+ * so runs saved before those fields existed are missing from every board until their board is re-ranked.
+ * A run's rank depends on the rest of its board, so documents are left as they are and every board is re-ranked afterwards
+ */
+export const runsV3BoardRanks: Migration = {
+  collection: 'leaderboardEntries',
+  version: 3,
+  name: "Store board ranks",
+  description: "Re-ranks every board, storing the rank and time in milliseconds that leaderboards are ordered by.",
+  migrate() {
+    return null;
+  },
+  rebuildsBoardRanks: true,
+};
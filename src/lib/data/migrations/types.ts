@@ -0,0 +1,41 @@
+/**
+ * Schema migration types
+ */
+
+import { MigrationChange } from "@/types/database";
+
+export type MigrationCollection = 'leaderboardEntries' | 'players';
+
+export type MigrationDocument = Record<string, unknown>;
+
+/**
+ * A migration upgrades every document in one collection to its version
+ * Migrations for a collection run in version order, and each document's schemaVersion records the last one applied
+ */
+export interface Migration {
+  collection: MigrationCollection;
+  version: number; // schemaVersion documents have once migrated, starting at 1 for each collection
+  name: string;
+  description: string;
+  /**
+   * Fields to change on a document, or null when it needs no change
+   * Only return fields that differ; undefined removes a field
+   */
+  migrate(document: MigrationDocument): MigrationDocument | null;
+  rebuildsBoardRanks?: boolean; // Re-rank every board once the documents are migrated, for board-level values like rank
+}
+
+export interface MigrationRunOptions {
+  dryRun?: boolean; // Check what would change without writing anything
+  batchSize?: number; // Documents per batch (at most 200: each can take two writes)
+  shouldStop?: () => boolean; // Checked between batches; a stopped migration resumes where it left off
+}
+
+export interface MigrationRunResult {
+  processed: number; // Documents checked, including ones from earlier sessions
+  changed: number;
+  total: number; // Documents in the collection
+  completed: boolean;
+  samples: MigrationChange[]; // The first few changes, for previews
+  errors: string[];
+}
@@ -0,0 +1,65 @@
+/**
+ * Points config history helpers shared by the data backends
+ * Every save of a game's points config is recorded as a version with the rules that changed
+ */
+
+import { PointsConfig, PointsConfigChange, PointsConfigRule, PointsConfigVersion } from "@/types/database";
+
+export const POINTS_CONFIG_RULES: PointsConfigRule[] = [
+  'basePoints',
+  'rank1Bonus',
+  'rank2Bonus',
+  'rank3Bonus',
+  'coOpMultiplier',
+  'ilMultiplier',
+  'communityGoldsMultiplier',
+  'obsoleteMultiplier',
+  'applyRankBonusesToIL',
+  'applyRankBonusesToCommunityGolds',
+  'scoringStrategy',
+  'wrPoints',
+  'wrRatioExponent',
+  'categoryWeights',
+];
+
+/**
+ * Rules whose value differs between two configs
+ */
+export function getPointsConfigChanges(previous: Partial<PointsConfig> | null, next: PointsConfig): PointsConfigChange[] {
+  // Category weights are an object, so rules are compared by value
+  return POINTS_CONFIG_RULES
+    .filter(rule => JSON.stringify(previous?.[rule]) !== JSON.stringify(next[rule]))
+    .map(rule => {
+      const change: PointsConfigChange = { rule };
+      // Firestore rejects undefined fields
+      if (previous?.[rule] !== undefined) change.from = previous[rule];
+      if (next[rule] !== undefined) change.to = next[rule];
+      return change;
+    });
+}
+
+/**
+ * Build the history record for a newly published config
+ */
+export function createPointsConfigVersion(
+  previous: Partial<PointsConfig> | null,
+  config: PointsConfig & { gameId: string; version: number },
+  changedBy?: { uid: string; name?: string },
+  changedAt: string = new Date().toISOString()
+): PointsConfigVersion {
+  const version: PointsConfigVersion = {
+    id: getPointsConfigVersionId(config.gameId, config.version),
+    gameId: config.gameId,
+    version: config.version,
+    config,
+    changes: getPointsConfigChanges(previous, config),
+    changedAt,
+  };
+  if (changedBy?.uid) version.changedBy = changedBy.uid;
+  if (changedBy?.name) version.changedByName = changedBy.name;
+  return version;
+}
+
+export function getPointsConfigVersionId(gameId: string, version: number): string {
+  return `${gameId}_v${version}`;
+}
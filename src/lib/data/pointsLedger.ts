@@ -0,0 +1,103 @@
+/**
+ * Points ledger helpers shared by the data backends
+ * Every change to the studs a player gets from a run is appended as a ledger entry,
+ * and a player's totalPoints is the sum of their entries
+ */
+
+import { LeaderboardEntry, PointsBreakdown, PointsLedgerEntry } from "@/types/database";
+
+export type NewPointsLedgerEntry = Omit<PointsLedgerEntry, 'id'>;
+
+/**
+ * Studs a player currently gets from a run, with the rules and config version they were calculated with
+ */
+export interface RunPoints {
+  run: LeaderboardEntry;
+  breakdown: PointsBreakdown;
+  configVersion: number;
+}
+
+/**
+ * Entries are keyed by run, player and sequence, so two recalculations appending the same change
+ * write the same document instead of counting it twice
+ */
+export function getLedgerEntryId(entry: Pick<PointsLedgerEntry, 'runId' | 'playerId' | 'sequence'>): string {
+  return `${entry.runId}_${entry.playerId}_${entry.sequence}`;
+}
+
+export function sumLedger(entries: Array<Pick<PointsLedgerEntry, 'points'>>): number {
+  return entries.reduce((total, entry) => total + entry.points, 0);
+}
+
+/**
+ * Ledger entries needed to bring a player's ledger in line with the studs their runs are worth now:
+ * an award for a run's first studs, an adjustment when they change, and a revoke for runs that no longer count
+ * Returns no entries when the ledger is already up to date
+ * Pass revokeMissing: false when runPoints only covers some of the player's runs (incremental recalculations)
+ */
+export function getLedgerChanges(
+  playerId: string,
+  existing: PointsLedgerEntry[],
+  runPoints: RunPoints[],
+  { createdAt = new Date().toISOString(), revokeMissing = true }: { createdAt?: string; revokeMissing?: boolean } = {}
+): NewPointsLedgerEntry[] {
+  const entriesByRun = new Map<string, PointsLedgerEntry[]>();
+  existing.forEach(entry => {
+    entriesByRun.set(entry.runId, [...(entriesByRun.get(entry.runId) || []), entry]);
+  });
+
+  const changes: NewPointsLedgerEntry[] = [];
+  const runSnapshot = (run: Pick<PointsLedgerEntry, 'gameId' | 'leaderboardType' | 'category' | 'platform' | 'runType' | 'level'>) => {
+    const snapshot: Partial<NewPointsLedgerEntry> = {};
+    // Firestore rejects undefined fields, so only copy the ones that are set
+    if (run.gameId) snapshot.gameId = run.gameId;
+    if (run.leaderboardType) snapshot.leaderboardType = run.leaderboardType;
+    if (run.category) snapshot.category = run.category;
+    if (run.platform) snapshot.platform = run.platform;
+    if (run.runType) snapshot.runType = run.runType;
+    if (run.level) snapshot.level = run.level;
+    return snapshot;
+  };
+
+  for (const { run, breakdown, configVersion } of runPoints) {
+    const runEntries = entriesByRun.get(run.id) || [];
+    entriesByRun.delete(run.id);
+    const change = breakdown.total - sumLedger(runEntries);
+    if (change === 0 && runEntries.length > 0) continue;
+
+    changes.push({
+      ...runSnapshot(run),
+      playerId,
+      runId: run.id,
+      points: change,
+      reason: runEntries.length === 0 ? 'award' : 'adjustment',
+      sequence: runEntries.length + 1,
+      runTotal: breakdown.total,
+      breakdown,
+      configVersion,
+      createdAt,
+    });
+  }
+
+  if (!revokeMissing) return changes;
+
+  // Runs with studs on the ledger that no longer count (deleted, unverified or reassigned)
+  entriesByRun.forEach((runEntries, runId) => {
+    const remaining = sumLedger(runEntries);
+    if (remaining === 0) return;
+    const lastEntry = runEntries.reduce((latest, entry) => entry.createdAt > latest.createdAt ? entry : latest);
+    changes.push({
+      ...runSnapshot(lastEntry),
+      playerId,
+      runId,
+      points: -remaining,
+      reason: 'revoke',
+      sequence: runEntries.length + 1,
+      runTotal: 0,
+      configVersion: lastEntry.configVersion,
+      createdAt,
+    });
+  });
+
+  return changes;
+}
@@ -0,0 +1,182 @@
+/**
+ * Incremental points recalculation helpers shared by the data backends
+ * Rather than re-scoring every run, a recalculation is planned for just the runs whose studs can change
+ * (the runs on a re-ranked board, or every run when the points config changes), compared against
+ * the studs stored on them, and only the runs and players that actually differ are written
+ */
+
+import { LeaderboardEntry, PointsBreakdown, PointsConfig } from "@/types/database";
+import { calculatePointsBreakdown } from "@/lib/utils";
+import { ScoringContext } from "@/lib/scoring";
+
+/**
+ * A run whose studs (or stored rank) differ from what it should have now
+ */
+export interface RunPointsChange {
+  run: LeaderboardEntry;
+  playerIds: string[]; // Claimed players who get the run's studs (both players for co-op runs)
+  rankBefore?: number;
+  rankAfter?: number;
+  pointsBefore: number;
+  pointsAfter: number;
+  breakdown: PointsBreakdown;
+  configVersion: number;
+}
+
+/**
+ * How a player's total studs change when a plan is applied
+ */
+export interface PlayerPointsChange {
+  playerId: string;
+  displayName?: string;
+  pointsBefore: number;
+  pointsAfter: number;
+}
+
+/**
+ * What to recalculate: every run in the game under a proposed points config,
+ * or the boards the given runs are ranked on (after they were verified, edited or deleted)
+ */
+export type PointsRecalculationScope =
+  | { type: 'config'; config: PointsConfig }
+  | { type: 'runs'; runIds: string[] };
+
+/**
+ * Everything a recalculation would change, worked out without writing anything
+ */
+export interface PointsRecalculationPlan {
+  scope: PointsRecalculationScope['type'];
+  config: PointsConfig; // The config the studs were calculated with (the proposed one for config changes)
+  boardsChecked: number;
+  runsChecked: number;
+  runChanges: RunPointsChange[];
+  playerChanges: PlayerPointsChange[];
+}
+
+export interface PointsRecalculationProgress {
+  stage: 'planning' | 'applying';
+  completed: number;
+  total: number;
+}
+
+export type PointsRecalculationProgressHandler = (progress: PointsRecalculationProgress) => void;
+
+/**
+ * Claimed players who get studs for a run
+ */
+export function getRunPlayerIds(run: Pick<LeaderboardEntry, 'playerId' | 'player2Id' | 'runType'>): string[] {
+  const playerIds = [run.playerId, run.runType === 'co-op' ? run.player2Id : undefined]
+    .map(playerId => playerId?.trim() || "")
+    .filter(playerId => playerId !== "");
+  return Array.from(new Set(playerIds));
+}
+
+/**
+ * Work out the studs a verified run should have at the given board rank
+ * Returns null when the stored points and rank are already right
+ */
+export async function getRunPointsChange(
+  run: LeaderboardEntry,
+  rank: number | undefined,
+  config: PointsConfig,
+  context?: ScoringContext
+): Promise<RunPointsChange | null> {
+  // Only the top 3 non-obsolete runs get a rank bonus
+  const bonusRank = !run.isObsolete && rank !== undefined && rank >= 1 && rank <= 3 ? rank : undefined;
+  const breakdown = await calculatePointsBreakdown(
+    bonusRank,
+    run.runType || 'solo',
+    run.leaderboardType || 'regular',
+    run.isObsolete,
+    config,
+    context
+  );
+  const pointsBefore = run.points ?? 0;
+  if (breakdown.total === pointsBefore && run.points !== undefined && run.rank === rank) {
+    return null;
+  }
+
+  return {
+    run,
+    playerIds: getRunPlayerIds(run),
+    rankBefore: run.rank,
+    rankAfter: rank,
+    pointsBefore,
+    pointsAfter: breakdown.total,
+    breakdown,
+    configVersion: config.version ?? 0,
+  };
+}
+
+/**
+ * Total up how each player's studs change, starting from their current totals
+ * Players whose total doesn't move (e.g. only a rank was fixed) are left out
+ */
+export function getPlayerPointsChanges(
+  runChanges: RunPointsChange[],
+  players: Map<string, { displayName?: string; totalPoints?: number }>
+): PlayerPointsChange[] {
+  const deltas = new Map<string, number>();
+  runChanges.forEach(change => {
+    change.playerIds.forEach(playerId => {
+      deltas.set(playerId, (deltas.get(playerId) || 0) + change.pointsAfter - change.pointsBefore);
+    });
+  });
+
+  return Array.from(deltas.entries())
+    .filter(([playerId, delta]) => delta !== 0 && players.has(playerId))
+    .map(([playerId, delta]) => {
+      const player = players.get(playerId)!;
+      const pointsBefore = player.totalPoints || 0;
+      return { playerId, displayName: player.displayName, pointsBefore, pointsAfter: pointsBefore + delta };
+    })
+    .sort((a, b) => Math.abs(b.pointsAfter - b.pointsBefore) - Math.abs(a.pointsAfter - a.pointsBefore));
+}
+
+/**
+ * A player's place on the studs leaderboard before and after a recalculation
+ */
+export interface StudsLeaderboardPreviewEntry {
+  playerId: string;
+  displayName?: string;
+  pointsBefore: number;
+  pointsAfter: number;
+  rankBefore?: number; // Absent when the player had no studs
+  rankAfter?: number; // Absent when the player ends up with no studs
+}
+
+/**
+ * Project the studs leaderboard with a plan's player changes applied, ordered by the new ranking
+ * Ranks follow the points leaderboard: players with studs, most first
+ */
+export function getStudsLeaderboardPreview(
+  players: Array<{ uid: string; displayName?: string; totalPoints?: number }>,
+  playerChanges: PlayerPointsChange[]
+): StudsLeaderboardPreviewEntry[] {
+  const entries = new Map<string, StudsLeaderboardPreviewEntry>();
+  players.forEach(player => {
+    const points = player.totalPoints || 0;
+    entries.set(player.uid, { playerId: player.uid, displayName: player.displayName, pointsBefore: points, pointsAfter: points });
+  });
+  playerChanges.forEach(change => {
+    entries.set(change.playerId, {
+      playerId: change.playerId,
+      displayName: change.displayName ?? entries.get(change.playerId)?.displayName,
+      pointsBefore: change.pointsBefore,
+      pointsAfter: change.pointsAfter,
+    });
+  });
+
+  const rankBy = (points: (entry: StudsLeaderboardPreviewEntry) => number, setRank: (entry: StudsLeaderboardPreviewEntry, rank: number) => void) => {
+    Array.from(entries.values())
+      .filter(entry => points(entry) > 0)
+      .sort((a, b) => points(b) - points(a))
+      .forEach((entry, index) => setRank(entry, index + 1));
+  };
+  rankBy(entry => entry.pointsBefore, (entry, rank) => { entry.rankBefore = rank; });
+  rankBy(entry => entry.pointsAfter, (entry, rank) => { entry.rankAfter = rank; });
+
+  return Array.from(entries.values())
+    .filter(entry => entry.rankBefore !== undefined || entry.rankAfter !== undefined)
+    .sort((a, b) => (a.rankAfter ?? Infinity) - (b.rankAfter ?? Infinity) || (a.rankBefore ?? Infinity) - (b.rankBefore ?? Infinity));
+}
@@ -0,0 +1,208 @@
+/**
+ * Storage-agnostic data repository
+ * Pages and services talk to this interface (through @/lib/db) instead of a specific backend,
+ * so Firestore can be swapped for the in-memory backend in local development and tests
+ */
+
+import {
+  Player,
+  LeaderboardEntry,
+  DownloadEntry,
+  DownloadCategory,
+  Category,
+  CategoryVariable,
+  Platform,
+  Level,
+  PointsConfig,
+  PointsConfigVersion,
+  PointsLedgerEntry,
+  Season,
+  SeasonStanding,
+  SeasonPlacement,
+  RunRevision,
+  TrashItem,
+  AuditLogEntry,
+  AuditLogFilters,
+  MigrationStatus,
+  TimingMethod,
+  Game,
+  Page,
+  PageRequest,
+  PlayerRunFilters,
+} from "@/types/database";
+import { PointsRecalculationPlan, PointsRecalculationProgressHandler, PointsRecalculationScope } from "./pointsRecalculation";
+import { RunImportIndex } from "./runImport";
+import { BackupArchive, BackupCollectionDiff, BackupRestoreOptions, BackupRestoreProgress } from "./backup";
+import { MigrationRunOptions, MigrationRunResult } from "./migrations";
+
+export type LeaderboardType = 'regular' | 'individual-level' | 'community-golds';
+export type RunType = 'solo' | 'co-op';
+export type NewLeaderboardEntry = Omit<LeaderboardEntry, 'id' | 'rank' | 'isObsolete'> & { verified?: boolean };
+export type SubcategoryInput = Array<{ id: string; name: string; order?: number; srcVariableId?: string; srcValueId?: string }>;
+export type PlayerSortField = 'joinDate' | 'displayName' | 'totalPoints' | 'totalRuns';
+export type TwitchPlayer = { uid: string; displayName: string; twitchUsername: string; nameColor?: string; profilePicture?: string };
+
+export interface DataRepository {
+  // Runs
+  getLeaderboardEntries(
+    categoryId?: string,
+    platformId?: string,
+    runType?: RunType,
+    includeObsolete?: boolean,
+    leaderboardType?: LeaderboardType,
+    levelId?: string,
+    subcategoryId?: string,
+    variableFilters?: Record<string, string>
+  ): Promise<LeaderboardEntry[]>;
+  getLeaderboardPage(
+    categoryId?: string,
+    platformId?: string,
+    runType?: RunType,
+    includeObsolete?: boolean,
+    leaderboardType?: LeaderboardType,
+    levelId?: string,
+    subcategoryId?: string,
+    variableFilters?: Record<string, string>,
+    page?: PageRequest
+  ): Promise<Page<LeaderboardEntry>>;
+  getLeaderboardEntryById(runId: string): Promise<LeaderboardEntry | null>;
+  addLeaderboardEntry(entry: NewLeaderboardEntry): Promise<string | null>;
+  updateLeaderboardEntry(runId: string, data: Partial<LeaderboardEntry>): Promise<boolean>;
+  updateRunVerificationStatus(runId: string, verified: boolean, verifiedBy?: string): Promise<boolean>;
+  updateRunObsoleteStatus(runId: string, isObsolete: boolean): Promise<boolean>;
+  deleteLeaderboardEntry(runId: string): Promise<boolean>;
+  getRecentRuns(limitCount?: number): Promise<LeaderboardEntry[]>;
+  getRecentRunsPage(page?: PageRequest): Promise<Page<LeaderboardEntry>>;
+  getPlayerRuns(playerId: string): Promise<LeaderboardEntry[]>;
+  getPlayerRunsPage(playerId: string, filters?: PlayerRunFilters, page?: PageRequest): Promise<Page<LeaderboardEntry>>;
+  getPlayerPendingRuns(playerId: string): Promise<LeaderboardEntry[]>;
+  getUnverifiedLeaderboardEntries(): Promise<LeaderboardEntry[]>;
+  getAllVerifiedRuns(): Promise<LeaderboardEntry[]>;
+  getRunsWithSplits(categoryId?: string): Promise<LeaderboardEntry[]>;
+  getUnclaimedRunsBySRCUsername(srcUsername: string, currentUserId?: string): Promise<LeaderboardEntry[]>;
+  getUnassignedRuns(limit?: number): Promise<LeaderboardEntry[]>;
+  claimRun(runId: string, userId: string): Promise<boolean>;
+
+  // Players
+  getPlayerByUid(uid: string): Promise<Player | null>;
+  getPlayerByDisplayName(displayName: string): Promise<Player | null>;
+  createPlayer(player: Omit<Player, 'id'>): Promise<string | null>;
+  updatePlayerProfile(uid: string, data: Partial<Player>): Promise<boolean>;
+  isDisplayNameAvailable(displayName: string, currentUid?: string): Promise<boolean>;
+  getAllPlayers(sortBy?: PlayerSortField, sortOrder?: 'asc' | 'desc', limit?: number): Promise<Player[]>;
+  getPlayersPage(sortBy?: PlayerSortField, sortOrder?: 'asc' | 'desc', page?: PageRequest): Promise<Page<Player>>;
+  updatePlayer(playerId: string, updates: Partial<Omit<Player, 'id' | 'uid'>>): Promise<boolean>;
+  deletePlayer(playerId: string, deleteRuns?: boolean): Promise<{ success: boolean; deletedRuns?: number; error?: string }>;
+  getPlayersByPoints(limit?: number): Promise<Player[]>;
+  getPlayersWithTwitchUsernames(): Promise<TwitchPlayer[]>;
+  getPlayersWithSRCUsernames(): Promise<Array<{ uid: string; srcUsername: string }>>;
+
+  // Categories
+  getCategories(leaderboardType?: LeaderboardType): Promise<Category[]>;
+  addCategory(name: string, leaderboardType?: LeaderboardType): Promise<string | null>;
+  updateCategory(id: string, name: string, subcategories?: SubcategoryInput, srcCategoryId?: string | null, srcSubcategoryVariableName?: string | null): Promise<boolean>;
+  updateCategoryTimingMethods(id: string, timingMethods: TimingMethod[], primaryTimingMethod: TimingMethod): Promise<boolean>;
+  updateCategoryVariables(id: string, variables: CategoryVariable[]): Promise<boolean>;
+  deleteCategory(id: string): Promise<boolean>;
+  moveCategoryUp(categoryId: string): Promise<boolean>;
+  moveCategoryDown(categoryId: string): Promise<boolean>;
+
+  // Platforms
+  getPlatforms(): Promise<Platform[]>;
+  addPlatform(name: string): Promise<string | null>;
+  updatePlatform(id: string, name: string): Promise<boolean>;
+  deletePlatform(id: string): Promise<boolean>;
+  movePlatformUp(platformId: string): Promise<boolean>;
+  movePlatformDown(platformId: string): Promise<boolean>;
+
+  // Levels
+  getLevels(): Promise<Level[]>;
+  addLevel(name: string): Promise<string | null>;
+  updateLevel(id: string, name: string): Promise<boolean>;
+  updateLevelCategoryDisabled(levelId: string, categoryId: string, disabled: boolean): Promise<boolean>;
+  deleteLevel(id: string): Promise<boolean>;
+  moveLevelUp(id: string): Promise<boolean>;
+  moveLevelDown(id: string): Promise<boolean>;
+
+  // Downloads
+  getDownloadEntries(): Promise<DownloadEntry[]>;
+  addDownloadEntry(entry: Omit<DownloadEntry, 'id' | 'dateAdded' | 'order'>, addedByUid: string): Promise<string | null>;
+  deleteDownloadEntry(id: string): Promise<boolean>;
+  updateDownloadOrder(id: string, order: number): Promise<boolean>;
+  moveDownloadUp(downloadId: string): Promise<boolean>;
+  moveDownloadDown(downloadId: string): Promise<boolean>;
+  getDownloadCategories(): Promise<DownloadCategory[]>;
+  addDownloadCategory(name: string, order?: number): Promise<string | null>;
+  updateDownloadCategory(categoryId: string, name?: string, order?: number): Promise<boolean>;
+  deleteDownloadCategory(categoryId: string): Promise<boolean>;
+
+  // Points config and ledger
+  getPointsConfig(gameId?: string): Promise<PointsConfig>;
+  updatePointsConfig(config: Partial<PointsConfig>, changedBy?: { uid: string; name?: string }): Promise<boolean>;
+  getPointsConfigHistory(gameId?: string): Promise<PointsConfigVersion[]>;
+  getPointsLedger(playerId: string): Promise<PointsLedgerEntry[]>;
+
+  // Points recalculation
+  backfillPointsForAllRuns(): Promise<{ runsUpdated: number; playersUpdated: number; errors: string[] }>;
+  planPointsRecalculation(scope: PointsRecalculationScope, onProgress?: PointsRecalculationProgressHandler): Promise<PointsRecalculationPlan>;
+  applyPointsRecalculation(
+    plan: PointsRecalculationPlan,
+    onProgress?: PointsRecalculationProgressHandler
+  ): Promise<{ runsUpdated: number; playersUpdated: number; errors: string[] }>;
+  rebuildLeaderboardRanks(): Promise<{ boardsUpdated: number; errors: string[] }>;
+
+  // Seasons
+  getSeasons(): Promise<Season[]>;
+  getSeason(seasonId: string): Promise<Season | null>;
+  addSeason(season: Pick<Season, 'name' | 'startDate' | 'endDate'>): Promise<string | null>;
+  updateSeason(seasonId: string, data: Partial<Pick<Season, 'name' | 'startDate' | 'endDate'>>): Promise<boolean>;
+  deleteSeason(seasonId: string): Promise<boolean>;
+  getSeasonStandings(seasonId: string): Promise<SeasonStanding[]>;
+  archiveSeason(seasonId: string): Promise<boolean>;
+  getPlayerSeasonPlacements(playerId: string): Promise<SeasonPlacement[]>;
+
+  // Run revisions
+  getRunRevisions(runId: string): Promise<RunRevision[]>;
+  revertRunToRevision(runId: string, revision: number): Promise<{ success: boolean; error?: string }>;
+
+  // Trash
+  getTrash(): Promise<TrashItem[]>;
+  restoreTrashItem(trashId: string): Promise<{ success: boolean; restoredRuns?: number; error?: string }>;
+  purgeTrashItem(trashId: string): Promise<boolean>;
+  purgeExpiredTrash(): Promise<number>;
+
+  // Audit log
+  getAuditLog(filters?: AuditLogFilters, limit?: number): Promise<AuditLogEntry[]>;
+
+  // Run import
+  getRunImportIndex(): Promise<RunImportIndex>;
+  importRuns(
+    runs: Array<Partial<LeaderboardEntry>>,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<{ imported: number; errors: string[] }>;
+
+  // Backups
+  createBackup(): Promise<BackupArchive | null>;
+  getBackupDiff(archive: BackupArchive, skipRunIds?: string[]): Promise<BackupCollectionDiff[]>;
+  restoreBackup(
+    archive: BackupArchive,
+    options?: BackupRestoreOptions,
+    skipRunIds?: string[],
+    onProgress?: (progress: BackupRestoreProgress) => void
+  ): Promise<{ written: number; deleted: number; errors: string[] }>;
+
+  // Migrations
+  getMigrationStatuses(): Promise<MigrationStatus[]>;
+  runMigration(
+    migrationId: string,
+    options?: MigrationRunOptions,
+    onProgress?: (progress: { processed: number; changed: number; total: number }) => void
+  ): Promise<MigrationRunResult>;
+  rollbackMigration(migrationId: string, onProgress?: (completed: number, total: number) => void): Promise<{ success: boolean; restored: number; error?: string }>;
+
+  // Games
+  getGames(): Promise<Game[]>;
+  addGame(game: Omit<Game, 'order'>): Promise<string | null>;
+  updateGame(id: string, data: Partial<Omit<Game, 'id'>>): Promise<boolean>;
+  deleteGame(id: string): Promise<boolean>;
+}
@@ -0,0 +1,50 @@
+/**
+ * Duplicate run detection helpers
+ * Two runs are duplicates when they have the same players, board and time
+ */
+
+import { LeaderboardEntry, Player } from "@/types/database";
+import { normalizeSRCUsername } from "@/lib/speedruncom";
+
+/**
+ * Normalized identifier for one of a run's players
+ * Uses the linked player's display name first, then their SRC username, then the names stored on the run
+ */
+function getRunPlayerKey(
+  playerId: string | undefined,
+  playerName: string | undefined,
+  srcPlayerName: string | undefined,
+  players: Map<string, Player>
+): string {
+  const player = playerId ? players.get(playerId) : null;
+  if (player) {
+    if (player.displayName && player.displayName.trim()) {
+      return player.displayName.trim().toLowerCase();
+    }
+    if (player.srcUsername) {
+      return normalizeSRCUsername(player.srcUsername);
+    }
+    return (playerName || "").trim().toLowerCase();
+  }
+  if (playerName && playerName.trim()) {
+    return playerName.trim().toLowerCase();
+  }
+  return srcPlayerName ? normalizeSRCUsername(srcPlayerName) : "";
+}
+
+/**
+ * Key runs are grouped by when looking for duplicates:
+ * player1|player2|category|platform|runType|time|leaderboardType|level
+ * Co-op players are sorted so the order they're listed in doesn't matter
+ * @param players - Linked players by UID, for runs that have a playerId
+ */
+export function getRunDuplicateKey(run: Partial<LeaderboardEntry>, players: Map<string, Player> = new Map()): string {
+  let player1Key = getRunPlayerKey(run.playerId, run.playerName, run.srcPlayerName, players);
+  let player2Key = run.runType === 'co-op'
+    ? getRunPlayerKey(run.player2Id, run.player2Name, run.srcPlayer2Name, players)
+    : "";
+  if (run.runType === 'co-op' && player2Key) {
+    [player1Key, player2Key] = [player1Key, player2Key].sort();
+  }
+  return `${player1Key}|${player2Key}|${run.category || ''}|${run.platform || ''}|${run.runType || 'solo'}|${run.time || ''}|${run.leaderboardType || 'regular'}|${run.level || ''}`;
+}
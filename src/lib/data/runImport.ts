@@ -0,0 +1,326 @@
+/**
+ * CSV run import helpers
+ * Spreadsheet rows are mapped to run fields, their names resolved to category, platform and level IDs
+ * the same way imported SRC runs are, and checked against the site before anything is added
+ */
+
+import { Category, LeaderboardEntry, Level, Platform, Player } from "@/types/database";
+import { normalizeLeaderboardEntry, normalizeRunType, validateLeaderboardEntry } from "@/lib/dataValidation";
+import { autofillRunFields } from "./runFieldService";
+import { getRunDuplicateKey } from "./runDuplicates";
+
+export const RUN_IMPORT_FIELDS = [
+  'playerName',
+  'player2Name',
+  'leaderboardType',
+  'category',
+  'subcategory',
+  'level',
+  'platform',
+  'runType',
+  'time',
+  'date',
+  'videoUrl',
+  'comment',
+] as const;
+
+export type RunImportField = typeof RUN_IMPORT_FIELDS[number];
+
+export const RUN_IMPORT_FIELD_LABELS: Record<RunImportField, string> = {
+  playerName: "Player",
+  player2Name: "Player 2",
+  leaderboardType: "Leaderboard",
+  category: "Category",
+  subcategory: "Subcategory",
+  level: "Level",
+  platform: "Platform",
+  runType: "Run type",
+  time: "Time",
+  date: "Date",
+  videoUrl: "Video URL",
+  comment: "Description",
+};
+
+export const REQUIRED_RUN_IMPORT_FIELDS: RunImportField[] = ['playerName', 'category', 'platform', 'time', 'date'];
+
+/**
+ * Column index each run field is read from
+ */
+export type RunImportColumnMapping = Partial<Record<RunImportField, number>>;
+
+export interface RunImportLookups {
+  categories: Category[];
+  platforms: Platform[];
+  levels: Array<Pick<Level, 'id' | 'name'>>;
+}
+
+/**
+ * Existing data import rows are checked against
+ */
+export interface RunImportIndex {
+  duplicateKeys: Record<string, string>; // Duplicate key -> ID of an existing run with it
+  players: Player[];
+}
+
+export interface RunImportRow {
+  line: number; // Line in the file, counting the header as line 1
+  run: Partial<LeaderboardEntry>;
+  errors: string[]; // Rows with errors aren't imported
+  duplicateOf?: string; // ID of an existing run this one duplicates
+  duplicateOfLine?: number; // Earlier line in the file this one duplicates
+  unknownPlayers: string[]; // Player names that don't match an account; the run is saved claimable by them
+}
+
+/**
+ * Parse CSV text into rows of fields
+ * Handles quoted fields with commas, doubled quotes and line breaks; blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+// Header names each field is recognized by, after lowercasing and dropping everything but letters and digits
+const fieldHeaderAliases: Record<RunImportField, string[]> = {
+  playerName: ["player", "playername", "player1", "runner", "name"],
+  player2Name: ["player2", "player2name", "partner", "runner2"],
+  leaderboardType: ["leaderboard", "leaderboardtype", "type", "board"],
+  category: ["category", "categoryname"],
+  subcategory: ["subcategory", "subcategoryname"],
+  level: ["level", "levelname", "stage"],
+  platform: ["platform", "platformname", "system", "console"],
+  runType: ["runtype", "coop", "solocoop"],
+  time: ["time", "runtime", "finaltime", "rta"],
+  date: ["date", "rundate", "datesubmitted", "dateachieved"],
+  videoUrl: ["video", "videourl", "videolink", "link", "url"],
+  comment: ["comment", "comments", "description", "notes"],
+};
+
+/**
+ * Guess the column mapping from the header row; columns that aren't recognized are left unmapped
+ */
+export function guessRunImportMapping(headers: string[]): RunImportColumnMapping {
+  const mapping: RunImportColumnMapping = {};
+  const normalizedHeaders = headers.map(header => header.toLowerCase().replace(/[^a-z0-9]/g, ""));
+  RUN_IMPORT_FIELDS.forEach(field => {
+    const index = normalizedHeaders.findIndex((header, headerIndex) =>
+      fieldHeaderAliases[field].includes(header) && !Object.values(mapping).includes(headerIndex)
+    );
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+}
+
+/**
+ * Read a leaderboard type from its ID or display name ("Full Game", "Individual Level", "Community Gold")
+ */
+function parseLeaderboardType(value: string): LeaderboardEntry['leaderboardType'] | null {
+  const normalized = value.toLowerCase().replace(/[^a-z]/g, "");
+  if (["", "regular", "fullgame", "fg"].includes(normalized)) return 'regular';
+  if (["individuallevel", "individuallevels", "il", "ils"].includes(normalized)) return 'individual-level';
+  if (["communitygold", "communitygolds", "cg"].includes(normalized)) return 'community-golds';
+  return null;
+}
+
+/**
+ * Read a time as HH:MM:SS(.mmm), allowing MM:SS(.mmm) for short runs
+ */
+function parseRunTime(value: string): string | null {
+  const time = /^\d{1,2}:\d{2}(\.\d{1,3})?$/.test(value) ? `0:${value}` : value;
+  const match = time.match(/^(\d{1,2}):(\d{2}):(\d{2})(\.\d{1,3})?$/);
+  if (!match || Number(match[2]) > 59 || Number(match[3]) > 59) return null;
+  return `${match[1].padStart(2, '0')}:${match[2]}:${match[3]}${match[4] || ""}`;
+}
+
+/**
+ * Read a date as YYYY-MM-DD, allowing single-digit months and days
+ */
+function parseRunDate(value: string): string | null {
+  const match = value.split('T')[0].match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  return isNaN(new Date(`${date}T00:00:00Z`).getTime()) ? null : date;
+}
+
+/**
+ * Map CSV rows to runs, resolving names with autofillRunFields and checking them with validateLeaderboardEntry
+ * @param rows - Data rows, without the header
+ */
+export function getRunImportRows(rows: string[][], mapping: RunImportColumnMapping, lookups: RunImportLookups): RunImportRow[] {
+  return rows.map((cells, index) => {
+    const cell = (field: RunImportField): string => {
+      const column = mapping[field];
+      return column !== undefined ? (cells[column] || "").trim() : "";
+    };
+    const errors: string[] = [];
+
+    const leaderboardType = parseLeaderboardType(cell('leaderboardType'));
+    if (!leaderboardType) {
+      errors.push(`Unknown leaderboard type "${cell('leaderboardType')}"`);
+    }
+    const runType = normalizeRunType(cell('runType') || (cell('player2Name') ? 'co-op' : 'solo'));
+
+    if (!cell('playerName')) {
+      errors.push("Player name is required");
+    }
+    if (runType === 'co-op' && !cell('player2Name')) {
+      errors.push("Co-op runs need a second player");
+    }
+
+    const time = parseRunTime(cell('time'));
+    if (!time) {
+      errors.push(cell('time') ? `Time "${cell('time')}" must be in format HH:MM:SS or HH:MM:SS.mmm` : "Time is required");
+    }
+    const date = parseRunDate(cell('date'));
+    if (!date) {
+      errors.push(cell('date') ? `Date "${cell('date')}" must be in format YYYY-MM-DD` : "Date is required");
+    }
+
+    // Names are matched like an imported SRC run's; cells holding an ID are matched directly
+    const resolved = autofillRunFields({
+      category: cell('category'),
+      platform: cell('platform'),
+      // Level IDs aren't checked by autofillRunFields, so only pass ones that exist
+      level: lookups.levels.some(level => level.id === cell('level')) ? cell('level') : "",
+      leaderboardType: leaderboardType || 'regular',
+      srcCategoryName: cell('category'),
+      srcPlatformName: cell('platform'),
+      srcLevelName: cell('level'),
+    } as LeaderboardEntry, lookups.categories, lookups.platforms, lookups.levels);
+
+    if (!resolved.category) {
+      errors.push(cell('category') ? `Unknown category "${cell('category')}"` : "Category is required");
+    }
+    if (!resolved.platform) {
+      errors.push(cell('platform') ? `Unknown platform "${cell('platform')}"` : "Platform is required");
+    }
+    if (leaderboardType && leaderboardType !== 'regular' && !resolved.level) {
+      errors.push(cell('level') ? `Unknown level "${cell('level')}"` : "Level is required for individual level and community gold runs");
+    }
+
+    let subcategory: string | undefined;
+    if (cell('subcategory') && resolved.category) {
+      const subcategoryName = cell('subcategory').toLowerCase();
+      const subcategories = lookups.categories.find(category => category.id === resolved.category)?.subcategories || [];
+      subcategory = subcategories.find(candidate => candidate.id === cell('subcategory') || candidate.name.toLowerCase().trim() === subcategoryName)?.id;
+      if (!subcategory) {
+        errors.push(`Unknown subcategory "${cell('subcategory')}"`);
+      }
+    }
+
+    const run = normalizeLeaderboardEntry({
+      playerName: cell('playerName'),
+      player2Name: runType === 'co-op' ? cell('player2Name') : undefined,
+      category: resolved.category,
+      subcategory,
+      platform: resolved.platform,
+      level: resolved.level || undefined,
+      leaderboardType: leaderboardType || 'regular',
+      runType,
+      time: time || "",
+      date: date || "",
+      videoUrl: cell('videoUrl') || undefined,
+      comment: cell('comment') || undefined,
+      verified: false,
+    });
+
+    // Rows that couldn't be read would only repeat the same problems here
+    if (errors.length === 0) {
+      errors.push(...validateLeaderboardEntry(run).errors);
+    }
+
+    return { line: index + 2, run, errors, unknownPlayers: [] };
+  });
+}
+
+/**
+ * Link rows to existing players and flag duplicates of existing runs or of earlier rows
+ * Players are matched by display name, then by SRC username. Runs with a player who has no account are marked
+ * claimable like an imported SRC run (importedFromSRC with the player's name as their SRC name), so the player
+ * can claim them once they sign up
+ */
+export function checkRunImportRows(rows: RunImportRow[], index: RunImportIndex): RunImportRow[] {
+  const playersById = new Map(index.players.map(player => [player.uid, player]));
+  const playerIdsByName = new Map<string, string>();
+  index.players.forEach(player => {
+    if (player.srcUsername) playerIdsByName.set(player.srcUsername.trim().toLowerCase(), player.uid);
+  });
+  index.players.forEach(player => {
+    if (player.displayName) playerIdsByName.set(player.displayName.trim().toLowerCase(), player.uid);
+  });
+
+  const linesByKey = new Map<string, number>();
+  return rows.map(row => {
+    if (row.errors.length > 0) return row;
+
+    const run = { ...row.run };
+    const unknownPlayers: string[] = [];
+    const playerId = playerIdsByName.get((run.playerName || "").toLowerCase());
+    if (playerId) {
+      run.playerId = playerId;
+    } else {
+      unknownPlayers.push(run.playerName || "");
+    }
+    if (run.runType === 'co-op' && run.player2Name) {
+      const player2Id = playerIdsByName.get(run.player2Name.toLowerCase());
+      if (player2Id) {
+        run.player2Id = player2Id;
+      } else {
+        unknownPlayers.push(run.player2Name);
+      }
+    }
+    if (unknownPlayers.length > 0) {
+      run.importedFromSRC = true;
+      run.srcPlayerName = run.playerName;
+      if (run.runType === 'co-op' && run.player2Name) {
+        run.srcPlayer2Name = run.player2Name;
+      }
+    }
+
+    const key = getRunDuplicateKey(run, playersById);
+    const checked: RunImportRow = { ...row, run, unknownPlayers };
+    if (index.duplicateKeys[key]) {
+      checked.duplicateOf = index.duplicateKeys[key];
+    }
+    if (linesByKey.has(key)) {
+      checked.duplicateOfLine = linesByKey.get(key);
+    } else {
+      linesByKey.set(key, row.line);
+    }
+    return checked;
+  });
+}
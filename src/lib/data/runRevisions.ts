@@ -0,0 +1,95 @@
+/**
+ * Run revision helpers shared by the data backends
+ * Every edit of a run is recorded as a revision with the fields it changed, so a run can be reverted to any earlier state
+ */
+
+import { LeaderboardEntry, RunRevision } from "@/types/database";
+import { getAuditChanges } from "./audit";
+
+/**
+ * Fields left out of revisions: ranks, points and colors are derived from other runs and players,
+ * verification has its own actions, splits are parsed once from the attached file, and revisionCount numbers the revisions
+ */
+const UNREVISIONED_RUN_FIELDS = ['id', 'rank', 'points', 'timeMs', 'nameColor', 'player2Color', 'verified', 'verifiedBy', 'splits', 'schemaVersion', 'revisionCount'];
+
+export function getRunRevisionId(runId: string, revision: number): string {
+  return `${runId}_r${revision}`;
+}
+
+/**
+ * The fields of a run that revisions track
+ */
+export function getRevisionedRunFields(run: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(run).filter(([field, value]) => value !== undefined && !UNREVISIONED_RUN_FIELDS.includes(field))
+  );
+}
+
+/**
+ * Build the revision for an edit, or null when it changed none of the revisioned fields
+ */
+export function createRunRevision(
+  runId: string,
+  revision: number,
+  before: object,
+  after: object,
+  editedBy?: { uid: string; name?: string },
+  revertedTo?: number,
+  editedAt: string = new Date().toISOString()
+): RunRevision | null {
+  const snapshot = getRevisionedRunFields(after);
+  const changes = getAuditChanges(getRevisionedRunFields(before), snapshot);
+  if (changes.length === 0) return null;
+
+  const runRevision: RunRevision = {
+    id: getRunRevisionId(runId, revision),
+    runId,
+    revision,
+    changes,
+    snapshot,
+    editedAt,
+  };
+  if (revertedTo !== undefined) runRevision.revertedTo = revertedTo;
+  if (editedBy?.uid) runRevision.editedBy = editedBy.uid;
+  if (editedBy?.name) runRevision.editedByName = editedBy.name;
+  return runRevision;
+}
+
+/**
+ * The revisioned fields of a run at a revision, where revision 0 is the run as submitted (before its first edit)
+ * Returns null if the revision isn't in the list
+ */
+export function getRunRevisionSnapshot(revisions: RunRevision[], revision: number): Record<string, unknown> | null {
+  if (revision > 0) {
+    return revisions.find(entry => entry.revision === revision)?.snapshot || null;
+  }
+  const first = revisions.find(entry => entry.revision === 1);
+  if (!first) return null;
+  const original = { ...first.snapshot };
+  first.changes.forEach(change => {
+    if (change.from === undefined) {
+      delete original[change.field];
+    } else {
+      original[change.field] = change.from;
+    }
+  });
+  return original;
+}
+
+/**
+ * The update that brings a run's revisioned fields back to a snapshot (null removes a field)
+ */
+export function getRunRevertUpdate(run: LeaderboardEntry, snapshot: Record<string, unknown>): Partial<LeaderboardEntry> {
+  const update: Record<string, unknown> = {};
+  getAuditChanges(getRevisionedRunFields(run), snapshot).forEach(change => {
+    update[change.field] = change.to === undefined ? null : change.to;
+  });
+  return update as Partial<LeaderboardEntry>;
+}
+
+/**
+ * Revisions newest first
+ */
+export function sortRunRevisions(revisions: RunRevision[]): RunRevision[] {
+  return [...revisions].sort((a, b) => b.revision - a.revision);
+}
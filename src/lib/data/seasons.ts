@@ -0,0 +1,83 @@
+/**
+ * Season helpers shared by the data backends
+ * A season's standings are the studs players earned from verified runs dated within it;
+ * once a season is archived its standings are frozen on the season itself
+ */
+
+import { LeaderboardEntry, Player, Season, SeasonStanding } from "@/types/database";
+
+export type SeasonStatus = 'upcoming' | 'active' | 'ended' | 'archived';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a season's name and dates, returning what's wrong or null when it's valid
+ */
+export function validateSeason(season: Pick<Season, 'name' | 'startDate' | 'endDate'>): string | null {
+  if (!season.name?.trim()) return "Season name is required";
+  if (!DATE_PATTERN.test(season.startDate) || !DATE_PATTERN.test(season.endDate)) {
+    return "Season dates must be in YYYY-MM-DD format";
+  }
+  if (season.startDate > season.endDate) return "Season must start before it ends";
+  return null;
+}
+
+export function isDateInSeason(date: string | undefined, season: Pick<Season, 'startDate' | 'endDate'>): boolean {
+  // YYYY-MM-DD dates compare correctly as strings
+  return !!date && date >= season.startDate && date <= season.endDate;
+}
+
+export function getSeasonStatus(season: Season, today: string = new Date().toISOString().slice(0, 10)): SeasonStatus {
+  if (season.archived) return 'archived';
+  if (today < season.startDate) return 'upcoming';
+  if (today > season.endDate) return 'ended';
+  return 'active';
+}
+
+/**
+ * Seasons newest first
+ */
+export function sortSeasons(seasons: Season[]): Season[] {
+  return [...seasons].sort((a, b) => b.startDate.localeCompare(a.startDate) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Tally the studs each player earned from a season's runs (co-op runs count for both claimed players)
+ * Only players with a profile and studs in the season are ranked, most studs first
+ */
+export function getSeasonStandings(
+  season: Pick<Season, 'startDate' | 'endDate'>,
+  runs: LeaderboardEntry[],
+  players: Map<string, Pick<Player, 'displayName' | 'nameColor'>>
+): SeasonStanding[] {
+  const tallies = new Map<string, { points: number; runs: number }>();
+  runs
+    .filter(run => run.verified && isDateInSeason(run.date, season))
+    .forEach(run => {
+      const playerIds = new Set([run.playerId, run.runType === 'co-op' ? run.player2Id : undefined]);
+      playerIds.forEach(playerId => {
+        if (!playerId || !players.has(playerId)) return;
+        const tally = tallies.get(playerId) || { points: 0, runs: 0 };
+        tally.points += run.points || 0;
+        tally.runs += 1;
+        tallies.set(playerId, tally);
+      });
+    });
+
+  return Array.from(tallies.entries())
+    .filter(([, tally]) => tally.points > 0)
+    .sort(([, a], [, b]) => b.points - a.points)
+    .map(([playerId, tally], index) => {
+      const player = players.get(playerId)!;
+      const standing: SeasonStanding = {
+        rank: index + 1,
+        playerId,
+        displayName: player.displayName || "Unknown Player",
+        points: tally.points,
+        runs: tally.runs,
+      };
+      // Firestore rejects undefined fields when the standings are archived
+      if (player.nameColor) standing.nameColor = player.nameColor;
+      return standing;
+    });
+}
@@ -0,0 +1,54 @@
+/**
+ * Trash helpers shared by the data backends
+ * Deleted runs and players are moved to the trash instead of being removed, so they can be restored
+ * until the retention period runs out
+ */
+
+import { LeaderboardEntry, Player, TrashItem, TrashReason } from "@/types/database";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export function getTrashItemId(type: TrashItem['type'], itemId: string): string {
+  return `${type}_${itemId}`;
+}
+
+/**
+ * Build the trash item for a deleted run or player
+ */
+export function createTrashItem(
+  type: TrashItem['type'],
+  itemId: string,
+  data: LeaderboardEntry | Player | TrashItem['data'],
+  reason: TrashReason,
+  deletedBy?: { uid: string; name?: string },
+  deletedAt: Date = new Date()
+): TrashItem {
+  // The ID is the document ID, not part of the stored data
+  const { id: _id, ...itemData } = data as TrashItem['data'] & { id?: string };
+  const expiresAt = new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const item: TrashItem = {
+    id: getTrashItemId(type, itemId),
+    type,
+    itemId,
+    data: itemData,
+    reason,
+    deletedAt: deletedAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+  if (deletedBy?.uid) item.deletedBy = deletedBy.uid;
+  if (deletedBy?.name) item.deletedByName = deletedBy.name;
+  if (type === 'run' && (itemData as LeaderboardEntry).gameId) item.gameId = (itemData as LeaderboardEntry).gameId;
+  return item;
+}
+
+export function isTrashItemExpired(item: Pick<TrashItem, 'expiresAt'>, now: string = new Date().toISOString()): boolean {
+  return item.expiresAt <= now;
+}
+
+/**
+ * A run as it's restored from the trash: ranks and points are recomputed for its board, not restored
+ */
+export function getRestoredRun(item: TrashItem): Omit<LeaderboardEntry, 'id'> {
+  const { rank: _rank, ...run } = item.data as Omit<LeaderboardEntry, 'id'>;
+  return run;
+}
@@ -1,4 +1,4 @@
-import { LeaderboardEntry } from "@/types/database";
+import { LeaderboardEntry, TimingMethod } from "@/types/database";
 
 /**
  * Normalize category ID to string
@@ -34,6 +34,14 @@ export function normalizePlayerName(name: string | undefined | null): string {
   return normalized || "Unknown";
 }
 
+/**
+ * Normalize a display name for case-insensitive lookups and uniqueness (stored as displayNameLower)
+ */
+export function normalizeDisplayName(name: string | undefined | null): string {
+  if (!name) return "";
+  return String(name).trim().toLowerCase();
+}
+
 /**
  * Normalize time string format
  */
@@ -42,28 +50,65 @@ export function normalizeTime(time: string | undefined | null): string {
   const normalized = String(time).trim();
   
   // Handle empty or invalid strings
-  if (normalized === "" || normalized === "00:00:00") {
+  if (normalized === "" || normalized === "00:00:00" || normalized === "00:00:00.000") {
     return "00:00:00";
   }
   
-  // Validate format (HH:MM:SS or H:MM:SS)
-  // This regex allows 1-2 digits for hours, and exactly 2 digits for minutes and seconds
-  if (/^\d{1,2}:\d{2}:\d{2}$/.test(normalized)) {
+  // Validate format (HH:MM:SS or H:MM:SS, with optional .mmm milliseconds)
+  // This regex allows 1-2 digits for hours, exactly 2 digits for minutes and seconds,
+  // and 1-3 digits for the fractional part
+  const match = normalized.match(/^(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?$/);
+  if (match) {
     // Ensure proper padding: convert "1:23:45" to "01:23:45"
-    const parts = normalized.split(':');
-    if (parts.length === 3) {
-      const hours = parts[0].padStart(2, '0');
-      const minutes = parts[1].padStart(2, '0');
-      const seconds = parts[2].padStart(2, '0');
-      return `${hours}:${minutes}:${seconds}`;
+    const hours = match[1].padStart(2, '0');
+    const base = `${hours}:${match[2]}:${match[3]}`;
+    if (!match[4]) {
+      return base;
     }
-    return normalized;
+    // Right-pad milliseconds: "1:23:45.5" becomes "01:23:45.500"
+    const milliseconds = match[4].padEnd(3, '0');
+    // Drop an all-zero fraction so "00:12:34.000" stores the same as "00:12:34"
+    return milliseconds === '000' ? base : `${base}.${milliseconds}`;
   }
   
   // If format doesn't match, return default
   return "00:00:00";
 }
 
+/**
+ * Normalize per-timing-method times
+ * Drops unknown methods and values that don't parse, returns undefined when nothing is left
+ */
+export function normalizeTimes(times: Partial<Record<TimingMethod, string>> | undefined | null): Partial<Record<TimingMethod, string>> | undefined {
+  if (!times || typeof times !== 'object') return undefined;
+  const validMethods: TimingMethod[] = ['realtime', 'realtime_noloads', 'ingame'];
+  const normalized: Partial<Record<TimingMethod, string>> = {};
+  for (const method of validMethods) {
+    const value = normalizeTime(times[method]);
+    if (value !== "00:00:00") {
+      normalized[method] = value;
+    }
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Normalize a run's variable value map (variable ID -> value ID, or SRC variable name -> label)
+ * Trims keys and values and drops empty ones, returns undefined when nothing is left
+ */
+export function normalizeVariableValues(values: Record<string, string> | undefined | null): Record<string, string> | undefined {
+  if (!values || typeof values !== 'object') return undefined;
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const trimmedKey = String(key).trim();
+    const trimmedValue = value !== undefined && value !== null ? String(value).trim() : "";
+    if (trimmedKey && trimmedValue) {
+      normalized[trimmedKey] = trimmedValue;
+    }
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
 /**
  * Normalize date string format (YYYY-MM-DD)
  */
@@ -127,6 +172,7 @@ export function normalizeLeaderboardEntry(entry: Partial<LeaderboardEntry>): Par
     platform: normalizePlatformId(entry.platform),
     level: normalizeLevelId(entry.level),
     time: normalizeTime(entry.time),
+    times: normalizeTimes(entry.times),
     date: normalizeDate(entry.date),
     runType: normalizeRunType(entry.runType),
     leaderboardType: normalizeLeaderboardType(entry.leaderboardType),
@@ -146,6 +192,9 @@ export function normalizeLeaderboardEntry(entry: Partial<LeaderboardEntry>): Par
     // Preserve subcategory info
     subcategory: entry.subcategory ? String(entry.subcategory).trim() : undefined,
     srcSubcategory: entry.srcSubcategory ? String(entry.srcSubcategory).trim() : undefined,
+    // Preserve variable values
+    variables: normalizeVariableValues(entry.variables),
+    srcVariables: normalizeVariableValues(entry.srcVariables),
   };
 }
 
@@ -285,8 +334,17 @@ export function validateLeaderboardEntry(entry: Partial<LeaderboardEntry>): {
   }
   
   // Validate time format
-  if (entry.time && !/^\d{1,2}:\d{2}:\d{2}$/.test(entry.time)) {
-    errors.push("Time must be in format HH:MM:SS");
+  if (entry.time && !/^\d{1,2}:\d{2}:\d{2}(\.\d{1,3})?$/.test(entry.time)) {
+    errors.push("Time must be in format HH:MM:SS or HH:MM:SS.mmm");
+  }
+  
+  // Validate per-timing-method times (same format as time)
+  if (entry.times) {
+    for (const [method, value] of Object.entries(entry.times)) {
+      if (value && !/^\d{1,2}:\d{2}:\d{2}(\.\d{1,3})?$/.test(value)) {
+        errors.push(`Time for ${method} must be in format HH:MM:SS or HH:MM:SS.mmm`);
+      }
+    }
   }
   
   // Validate date format
@@ -1,56 +1,5 @@
-import { db } from "@/lib/firebase";
-import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
 import {
-  getLeaderboardEntriesFirestore,
-  getLeaderboardEntryByIdFirestore,
-  addLeaderboardEntryFirestore,
-  getPlayerByUidFirestore,
-  getPlayerByDisplayNameFirestore,
-  createPlayerFirestore,
-  updatePlayerProfileFirestore,
-  getRecentRunsFirestore,
-  getPlayerRunsFirestore,
-  getPlayerPendingRunsFirestore,
-  getUnverifiedLeaderboardEntriesFirestore,
-  updateRunVerificationStatusFirestore,
-  deleteLeaderboardEntryFirestore,
   deleteAllLeaderboardEntriesFirestore,
-  updateRunObsoleteStatusFirestore,
-  getDownloadEntriesFirestore,
-  addDownloadEntryFirestore,
-  deleteDownloadEntryFirestore,
-  updateDownloadOrderFirestore,
-  moveDownloadUpFirestore,
-  moveDownloadDownFirestore,
-  getCategoriesFirestore,
-  addCategoryFirestore,
-  updateCategoryFirestore,
-  deleteCategoryFirestore,
-  moveCategoryUpFirestore,
-  moveCategoryDownFirestore,
-  getPlatformsFirestore,
-  addPlatformFirestore,
-  updatePlatformFirestore,
-  deletePlatformFirestore,
-  movePlatformUpFirestore,
-  movePlatformDownFirestore,
-  getUnclaimedRunsBySRCUsernameFirestore,
-  getUnassignedRunsFirestore,
-  claimRunFirestore,
-  getAllVerifiedRunsFirestore,
-  getPlayersByPointsFirestore,
-  getLevelsFirestore,
-  addLevelFirestore,
-  updateLevelFirestore,
-  deleteLevelFirestore,
-  moveLevelUpFirestore,
-  moveLevelDownFirestore,
-  updateLevelCategoryDisabledFirestore,
-  getPlayersWithTwitchUsernamesFirestore,
-  getDownloadCategoriesFirestore,
-  addDownloadCategoryFirestore,
-  updateDownloadCategoryFirestore,
-  deleteDownloadCategoryFirestore,
   checkSRCRunExistsFirestore,
   getImportedSRCRunsFirestore,
   getAllRunsForDuplicateCheckFirestore,
@@ -60,20 +9,78 @@ import {
   findDuplicateRunsFirestore,
   removeDuplicateRunsFirestore,
   autoClaimRunsBySRCUsernameFirestore,
-  isDisplayNameAvailableFirestore,
-  getAllPlayersFirestore,
-  updatePlayerFirestore,
-  deletePlayerFirestore,
-  getPlayersWithSRCUsernamesFirestore,
   runAutoclaimingForAllUsersFirestore,
   getIlRunsToFixFirestore,
   wipeAllImportedSRCRunsFirestore,
   getUnclaimedImportedRunsFirestore,
   deleteAllUnclaimedImportedRunsFirestore,
-  getPointsConfigFirestore,
-  updatePointsConfigFirestore,
+  migrateDisplayNameIndexFirestore,
+  wipeLeaderboardsFirestore,
 } from "./data/firestore";
+import { auth } from "./firebase";
+import { DataRepository } from "./data/repository";
+import { firestoreRepository } from "./data/firestoreRepository";
+import { createMemoryRepository } from "./data/memoryRepository";
+import { DEFAULT_GAME_ID, getActiveGameId } from "./data/gameScope";
+import { LeaderboardEntry, Category, Game, TimingMethod } from "@/types/database";
 
+/**
+ * Backend behind the data functions below
+ * Set VITE_DATA_BACKEND=memory to run against an in-memory store instead of Firestore
+ * SRC import tooling and the Firestore-only maintenance tasks further down (display name index, wipes) talk to Firestore directly
+ */
+export const repository: DataRepository = import.meta.env.VITE_DATA_BACKEND === "memory"
+  ? createMemoryRepository({}, {
+    getActor: () => auth?.currentUser
+      ? { uid: auth.currentUser.uid, name: auth.currentUser.displayName || auth.currentUser.email || undefined }
+      : undefined,
+  })
+  : firestoreRepository;
+
+const defaultGames: Game[] = [
+  {
+    id: DEFAULT_GAME_ID,
+    name: "LEGO Star Wars: The Video Game",
+    shortName: "LSW1",
+    srcAbbreviation: "lsw",
+    twitchChannel: "lsw1live",
+  },
+];
+
+export const initializeDefaultGames = async (): Promise<void> => {
+  try {
+    const existingGames = await repository.getGames();
+    if (existingGames.length === 0) {
+      for (const game of defaultGames) {
+        await repository.addGame(game);
+      }
+    }
+  } catch (error) {
+    // Silent fail
+  }
+};
+
+export const getGames = async (): Promise<Game[]> => {
+  try {
+    let firestoreGames = await repository.getGames();
+    
+    if (firestoreGames.length === 0) {
+      await initializeDefaultGames();
+      firestoreGames = await repository.getGames();
+    }
+    
+    // Fall back to the built-in defaults if Firestore is unavailable
+    return firestoreGames.length > 0 ? firestoreGames : defaultGames;
+  } catch (error) {
+    return defaultGames;
+  }
+};
+export const addGame = repository.addGame;
+export const updateGame = repository.updateGame;
+export const deleteGame = repository.deleteGame;
+
+// Default categories and platforms are only seeded for the original game
+// Other games start empty and are set up from the admin panel
 const defaultCategories = [
   { name: "Any%" },
   { name: "Free Play" },
@@ -82,11 +89,12 @@ const defaultCategories = [
 ];
 
 export const initializeDefaultCategories = async (): Promise<void> => {
+  if (getActiveGameId() !== DEFAULT_GAME_ID) return;
   try {
-    const existingCategories = await getCategoriesFirestore();
+    const existingCategories = await repository.getCategories();
     if (existingCategories.length === 0) {
       for (let i = 0; i < defaultCategories.length; i++) {
-        await addCategoryFirestore(defaultCategories[i].name);
+        await repository.addCategory(defaultCategories[i].name);
       }
     }
   } catch (error) {
@@ -94,15 +102,15 @@ export const initializeDefaultCategories = async (): Promise<void> => {
   }
 };
 
-export const getCategories = async (leaderboardType?: 'regular' | 'individual-level' | 'community-golds'): Promise<{ id: string; name: string }[]> => {
+export const getCategories = async (leaderboardType?: 'regular' | 'individual-level' | 'community-golds'): Promise<Category[]> => {
   try {
     const type = leaderboardType || 'regular';
-    let firestoreCategories = await getCategoriesFirestore(type);
+    let firestoreCategories = await repository.getCategories(type);
     
     // Only initialize default categories for regular leaderboard type
     if (firestoreCategories.length === 0 && type === 'regular') {
       await initializeDefaultCategories();
-      firestoreCategories = await getCategoriesFirestore(type);
+      firestoreCategories = await repository.getCategories(type);
     }
     
     return firestoreCategories;
@@ -119,11 +127,12 @@ const defaultPlatforms = [
 ];
 
 export const initializeDefaultPlatforms = async (): Promise<void> => {
+  if (getActiveGameId() !== DEFAULT_GAME_ID) return;
   try {
-    const existingPlatforms = await getPlatformsFirestore();
+    const existingPlatforms = await repository.getPlatforms();
     if (existingPlatforms.length === 0) {
       for (let i = 0; i < defaultPlatforms.length; i++) {
-        await addPlatformFirestore(defaultPlatforms[i].name);
+        await repository.addPlatform(defaultPlatforms[i].name);
       }
     }
   } catch (error) {
@@ -133,11 +142,11 @@ export const initializeDefaultPlatforms = async (): Promise<void> => {
 
 export const getPlatforms = async (): Promise<{ id: string; name: string }[]> => {
   try {
-    let firestorePlatforms = await getPlatformsFirestore();
+    let firestorePlatforms = await repository.getPlatforms();
     
     if (firestorePlatforms.length === 0) {
       await initializeDefaultPlatforms();
-      firestorePlatforms = await getPlatformsFirestore();
+      firestorePlatforms = await repository.getPlatforms();
     }
     
     return firestorePlatforms;
@@ -151,6 +160,12 @@ export const runTypes = [
   { id: "co-op", name: "Co-op" },
 ];
 
+export const timingMethods: Array<{ id: TimingMethod; name: string; shortName: string }> = [
+  { id: "realtime", name: "Real Time", shortName: "RTA" },
+  { id: "realtime_noloads", name: "Load Removed Time", shortName: "LRT" },
+  { id: "ingame", name: "In-Game Time", shortName: "IGT" },
+];
+
 export const getLeaderboardEntries = async (
   categoryId?: string,
   platformId?: string,
@@ -158,84 +173,90 @@ export const getLeaderboardEntries = async (
   includeObsolete?: boolean,
   leaderboardType?: 'regular' | 'individual-level' | 'community-golds',
   levelId?: string,
-  subcategoryId?: string
+  subcategoryId?: string,
+  variableFilters?: Record<string, string>
 ): Promise<LeaderboardEntry[]> => {
-  return getLeaderboardEntriesFirestore(categoryId, platformId, runType, includeObsolete, leaderboardType, levelId, subcategoryId);
+  return repository.getLeaderboardEntries(categoryId, platformId, runType, includeObsolete, leaderboardType, levelId, subcategoryId, variableFilters);
 };
-export const getLeaderboardEntryById = getLeaderboardEntryByIdFirestore;
-export const addLeaderboardEntry = addLeaderboardEntryFirestore;
-export const getPlayerByUid = getPlayerByUidFirestore;
-export const getPlayerByDisplayName = getPlayerByDisplayNameFirestore;
-export const createPlayer = createPlayerFirestore;
-export const updatePlayerProfile = updatePlayerProfileFirestore;
-export const getRecentRuns = getRecentRunsFirestore;
-export const getPlayerRuns = getPlayerRunsFirestore;
-export const getPlayerPendingRuns = getPlayerPendingRunsFirestore;
-export const getUnverifiedLeaderboardEntries = getUnverifiedLeaderboardEntriesFirestore;
+export const getLeaderboardPage = repository.getLeaderboardPage;
+export const getLeaderboardEntryById = repository.getLeaderboardEntryById;
+export const addLeaderboardEntry = repository.addLeaderboardEntry;
+export const getPlayerByUid = repository.getPlayerByUid;
+export const getPlayerByDisplayName = repository.getPlayerByDisplayName;
+export const createPlayer = repository.createPlayer;
+export const updatePlayerProfile = repository.updatePlayerProfile;
+export const getRecentRuns = repository.getRecentRuns;
+export const getRecentRunsPage = repository.getRecentRunsPage;
+export const getPlayerRuns = repository.getPlayerRuns;
+export const getPlayerRunsPage = repository.getPlayerRunsPage;
+export const getPlayerPendingRuns = repository.getPlayerPendingRuns;
+export const getUnverifiedLeaderboardEntries = repository.getUnverifiedLeaderboardEntries;
 export const updateLeaderboardEntry = async (runId: string, data: Partial<LeaderboardEntry>): Promise<boolean> => {
-  const { updateLeaderboardEntryFirestore } = await import("./data/firestore");
   try {
-    return await updateLeaderboardEntryFirestore(runId, data);
+    return await repository.updateLeaderboardEntry(runId, data);
   } catch (error: any) {
     // Re-throw with more context
     throw new Error(error.message || error.code || "Failed to update run");
   }
 };
-export const updateRunVerificationStatus = updateRunVerificationStatusFirestore;
-export const deleteLeaderboardEntry = deleteLeaderboardEntryFirestore;
+export const updateRunVerificationStatus = repository.updateRunVerificationStatus;
+export const deleteLeaderboardEntry = repository.deleteLeaderboardEntry;
 export const deleteAllLeaderboardEntries = deleteAllLeaderboardEntriesFirestore;
-export const updateRunObsoleteStatus = updateRunObsoleteStatusFirestore;
+export const updateRunObsoleteStatus = repository.updateRunObsoleteStatus;
 
-export const getDownloadEntries = getDownloadEntriesFirestore;
-export const addDownloadEntry = addDownloadEntryFirestore;
-export const deleteDownloadEntry = deleteDownloadEntryFirestore;
-export const updateDownloadOrder = updateDownloadOrderFirestore;
-export const moveDownloadUp = moveDownloadUpFirestore;
-export const moveDownloadDown = moveDownloadDownFirestore;
+export const getDownloadEntries = repository.getDownloadEntries;
+export const addDownloadEntry = repository.addDownloadEntry;
+export const deleteDownloadEntry = repository.deleteDownloadEntry;
+export const updateDownloadOrder = repository.updateDownloadOrder;
+export const moveDownloadUp = repository.moveDownloadUp;
+export const moveDownloadDown = repository.moveDownloadDown;
 
 export const getCategoriesFromFirestore = async (leaderboardType?: 'regular' | 'individual-level' | 'community-golds'): Promise<Category[]> => {
-  return getCategoriesFirestore(leaderboardType);
+  return repository.getCategories(leaderboardType);
 };
 export const addCategory = async (name: string, leaderboardType?: 'regular' | 'individual-level' | 'community-golds'): Promise<string | null> => {
-  return addCategoryFirestore(name, leaderboardType);
+  return repository.addCategory(name, leaderboardType);
 };
 export const updateCategory = async (id: string, name: string, subcategories?: Array<{ id: string; name: string; order?: number; srcVariableId?: string; srcValueId?: string }>, srcCategoryId?: string | null, srcSubcategoryVariableName?: string | null): Promise<boolean> => {
-  return updateCategoryFirestore(id, name, subcategories, srcCategoryId, srcSubcategoryVariableName);
+  return repository.updateCategory(id, name, subcategories, srcCategoryId, srcSubcategoryVariableName);
 };
-export const deleteCategory = deleteCategoryFirestore;
-export const moveCategoryUp = moveCategoryUpFirestore;
-export const moveCategoryDown = moveCategoryDownFirestore;
+export const updateCategoryTimingMethods = repository.updateCategoryTimingMethods;
+export const updateCategoryVariables = repository.updateCategoryVariables;
+export const deleteCategory = repository.deleteCategory;
+export const moveCategoryUp = repository.moveCategoryUp;
+export const moveCategoryDown = repository.moveCategoryDown;
 
-export const getPlatformsFromFirestore = getPlatformsFirestore;
-export const addPlatform = addPlatformFirestore;
-export const updatePlatform = updatePlatformFirestore;
-export const deletePlatform = deletePlatformFirestore;
-export const movePlatformUp = movePlatformUpFirestore;
-export const movePlatformDown = movePlatformDownFirestore;
+export const getPlatformsFromFirestore = repository.getPlatforms;
+export const addPlatform = repository.addPlatform;
+export const updatePlatform = repository.updatePlatform;
+export const deletePlatform = repository.deletePlatform;
+export const movePlatformUp = repository.movePlatformUp;
+export const movePlatformDown = repository.movePlatformDown;
 
-export const getUnclaimedRunsBySRCUsername = getUnclaimedRunsBySRCUsernameFirestore;
-export const getUnassignedRuns = getUnassignedRunsFirestore;
-export const claimRun = claimRunFirestore;
+export const getUnclaimedRunsBySRCUsername = repository.getUnclaimedRunsBySRCUsername;
+export const getUnassignedRuns = repository.getUnassignedRuns;
+export const claimRun = repository.claimRun;
 
-export const getAllVerifiedRuns = getAllVerifiedRunsFirestore;
+export const getAllVerifiedRuns = repository.getAllVerifiedRuns;
+export const getRunsWithSplits = repository.getRunsWithSplits;
 
-export const getPlayersByPoints = getPlayersByPointsFirestore;
+export const getPlayersByPoints = repository.getPlayersByPoints;
 
-export const getLevels = getLevelsFirestore;
-export const addLevel = addLevelFirestore;
-export const updateLevel = updateLevelFirestore;
-export const deleteLevel = deleteLevelFirestore;
-export const moveLevelUp = moveLevelUpFirestore;
-export const moveLevelDown = moveLevelDownFirestore;
-export const updateLevelCategoryDisabled = updateLevelCategoryDisabledFirestore;
+export const getLevels = repository.getLevels;
+export const addLevel = repository.addLevel;
+export const updateLevel = repository.updateLevel;
+export const deleteLevel = repository.deleteLevel;
+export const moveLevelUp = repository.moveLevelUp;
+export const moveLevelDown = repository.moveLevelDown;
+export const updateLevelCategoryDisabled = repository.updateLevelCategoryDisabled;
 
-export const getPlayersWithTwitchUsernames = getPlayersWithTwitchUsernamesFirestore;
+export const getPlayersWithTwitchUsernames = repository.getPlayersWithTwitchUsernames;
 
-// Download Categories (managed in Firestore)
-export const getDownloadCategories = getDownloadCategoriesFirestore;
-export const addDownloadCategory = addDownloadCategoryFirestore;
-export const updateDownloadCategory = updateDownloadCategoryFirestore;
-export const deleteDownloadCategory = deleteDownloadCategoryFirestore;
+// Download Categories
+export const getDownloadCategories = repository.getDownloadCategories;
+export const addDownloadCategory = repository.addDownloadCategory;
+export const updateDownloadCategory = repository.updateDownloadCategory;
+export const deleteDownloadCategory = repository.deleteDownloadCategory;
 
 export const checkSRCRunExists = checkSRCRunExistsFirestore;
 export const getImportedSRCRuns = getImportedSRCRunsFirestore;
@@ -250,25 +271,55 @@ export const deleteAllUnclaimedImportedRuns = deleteAllUnclaimedImportedRunsFire
 export const findDuplicateRuns = findDuplicateRunsFirestore;
 export const removeDuplicateRuns = removeDuplicateRunsFirestore;
 export const autoClaimRunsBySRCUsername = autoClaimRunsBySRCUsernameFirestore;
-export const isDisplayNameAvailable = isDisplayNameAvailableFirestore;
-export const getAllPlayers = getAllPlayersFirestore;
-export const updatePlayer = updatePlayerFirestore;
-export const deletePlayer = deletePlayerFirestore;
-export const getPlayersWithSRCUsernames = getPlayersWithSRCUsernamesFirestore;
+export const isDisplayNameAvailable = repository.isDisplayNameAvailable;
+export const getAllPlayers = repository.getAllPlayers;
+export const getPlayersPage = repository.getPlayersPage;
+export const updatePlayer = repository.updatePlayer;
+export const deletePlayer = repository.deletePlayer;
+export const getPlayersWithSRCUsernames = repository.getPlayersWithSRCUsernames;
 export const runAutoclaimingForAllUsers = runAutoclaimingForAllUsersFirestore;
 
-export const getPointsConfig = getPointsConfigFirestore;
-export const updatePointsConfig = updatePointsConfigFirestore;
+export const getPointsConfig = repository.getPointsConfig;
+export const updatePointsConfig = repository.updatePointsConfig;
+export const getPointsConfigHistory = repository.getPointsConfigHistory;
+export const getPointsLedger = repository.getPointsLedger;
 
-export const backfillPointsForAllRuns = async () => {
-  const { backfillPointsForAllRunsFirestore } = await import("./data/firestore");
-  return backfillPointsForAllRunsFirestore();
-};
+export const getSeasons = repository.getSeasons;
+export const getSeason = repository.getSeason;
+export const addSeason = repository.addSeason;
+export const updateSeason = repository.updateSeason;
+export const deleteSeason = repository.deleteSeason;
+export const getSeasonStandings = repository.getSeasonStandings;
+export const archiveSeason = repository.archiveSeason;
+export const getPlayerSeasonPlacements = repository.getPlayerSeasonPlacements;
 
-export const wipeLeaderboards = async () => {
-  const { wipeLeaderboardsFirestore } = await import("./data/firestore");
-  return wipeLeaderboardsFirestore();
-};
+export const getRunRevisions = repository.getRunRevisions;
+export const revertRunToRevision = repository.revertRunToRevision;
+
+export const backfillPointsForAllRuns = repository.backfillPointsForAllRuns;
+export const planPointsRecalculation = repository.planPointsRecalculation;
+export const applyPointsRecalculation = repository.applyPointsRecalculation;
+export const rebuildLeaderboardRanks = repository.rebuildLeaderboardRanks;
+export const migrateDisplayNameIndex = migrateDisplayNameIndexFirestore;
+export const wipeLeaderboards = wipeLeaderboardsFirestore;
+
+export const getAuditLog = repository.getAuditLog;
+
+export const getRunImportIndex = repository.getRunImportIndex;
+export const importRuns = repository.importRuns;
+
+export const createBackup = repository.createBackup;
+export const getBackupDiff = repository.getBackupDiff;
+export const restoreBackup = repository.restoreBackup;
+
+export const getMigrationStatuses = repository.getMigrationStatuses;
+export const runMigration = repository.runMigration;
+export const rollbackMigration = repository.rollbackMigration;
+
+export const getTrash = repository.getTrash;
+export const restoreTrashItem = repository.restoreTrashItem;
+export const purgeTrashItem = repository.purgeTrashItem;
+export const purgeExpiredTrash = repository.purgeExpiredTrash;
 
 /**
  * Set admin status for a player
@@ -294,31 +345,9 @@ export const setPlayerAdminStatus = async (uid: string, isAdmin: boolean): Promi
       };
       const result = await createPlayer(newPlayer);
       return result !== null;
-    } else {
-      const playerDocRef = doc(db, "players", uid);
-      const docSnap = await getDoc(playerDocRef);
-      
-      if (docSnap.exists()) {
-        try {
-          await updateDoc(playerDocRef, { isAdmin });
-          return true;
-        } catch (updateError: any) {
-          // Try alternative method if permission denied
-          if (updateError?.code === 'permission-denied') {
-            try {
-              await setDoc(playerDocRef, { uid, isAdmin }, { merge: true });
-              return true;
-            } catch {
-              return false;
-            }
-          }
-          return false;
-        }
-      } else {
-        await setDoc(playerDocRef, { uid, isAdmin }, { merge: true });
-        return true;
-      }
     }
+    
+    return await repository.updatePlayer(uid, { isAdmin });
   } catch {
     return false;
   }
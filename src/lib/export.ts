@@ -0,0 +1,160 @@
+/**
+ * Run data export
+ * Turns runs into flat rows with resolved names, formatted times and run URLs, as CSV or JSON files
+ */
+
+import type { Category, LeaderboardEntry } from "@/types/database";
+import { formatTime, getCategoryVariables } from "@/lib/utils";
+import { getCategoryName, getPlatformName, getLevelName } from "@/lib/dataValidation";
+
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * Names the exported IDs are resolved against
+ */
+export interface ExportLookups {
+  categories: Array<Pick<Category, 'id' | 'name' | 'subcategories' | 'variables'>>;
+  platforms: Array<{ id: string; name: string }>;
+  levels: Array<{ id: string; name: string }>;
+}
+
+export interface RunExportRow {
+  rank: number | null;
+  player: string;
+  player2: string | null;
+  leaderboardType: string;
+  category: string;
+  subcategory: string | null;
+  variables: string | null; // "Variable: Value" pairs, separated by "; "
+  level: string | null;
+  platform: string;
+  runType: string;
+  time: string;
+  date: string;
+  points: number | null;
+  obsolete: boolean;
+  videoUrl: string | null;
+  runUrl: string;
+  runId: string;
+}
+
+const leaderboardTypeNames: Record<NonNullable<LeaderboardEntry['leaderboardType']>, string> = {
+  'regular': "Full Game",
+  'individual-level': "Individual Level",
+  'community-golds': "Community Gold",
+};
+
+function getSubcategoryName(run: LeaderboardEntry, category: ExportLookups['categories'][number] | undefined): string | null {
+  if (!run.subcategory) return run.srcSubcategory || null;
+  return category?.subcategories?.find(subcategory => subcategory.id === run.subcategory)?.name || run.srcSubcategory || run.subcategory;
+}
+
+function getVariablesLabel(run: LeaderboardEntry, category: ExportLookups['categories'][number] | undefined): string | null {
+  const variables = getCategoryVariables(category);
+  const labels = Object.entries(run.variables || {}).map(([variableId, valueId]) => {
+    const variable = variables.find(candidate => candidate.id === variableId);
+    const value = variable?.values.find(candidate => candidate.id === valueId);
+    return `${variable?.name || variableId}: ${value?.name || valueId}`;
+  });
+  if (labels.length === 0 && run.srcVariables) {
+    labels.push(...Object.entries(run.srcVariables).map(([name, value]) => `${name}: ${value}`));
+  }
+  return labels.length > 0 ? labels.join("; ") : null;
+}
+
+/**
+ * One export row per run, in the order given
+ * @param origin - Site origin the run URLs point at
+ */
+export function getRunExportRows(runs: LeaderboardEntry[], lookups: ExportLookups, origin: string = window.location.origin): RunExportRow[] {
+  return runs.map(run => {
+    const category = lookups.categories.find(candidate => candidate.id === run.category);
+    const leaderboardType = run.leaderboardType || 'regular';
+    return {
+      rank: run.rank ?? null,
+      player: run.playerName || "Unknown",
+      player2: run.runType === 'co-op' ? run.player2Name || null : null,
+      leaderboardType: leaderboardTypeNames[leaderboardType],
+      category: getCategoryName(run.category, lookups.categories, run.srcCategoryName),
+      subcategory: getSubcategoryName(run, category),
+      variables: getVariablesLabel(run, category),
+      level: leaderboardType !== 'regular' ? getLevelName(run.level, lookups.levels, run.srcLevelName) : null,
+      platform: getPlatformName(run.platform, lookups.platforms, run.srcPlatformName),
+      runType: run.runType === 'co-op' ? "Co-op" : "Solo",
+      time: formatTime(run.time),
+      date: run.date || "",
+      points: run.points ?? null,
+      obsolete: !!run.isObsolete,
+      videoUrl: run.videoUrl || null,
+      runUrl: `${origin}/run/${run.id}`,
+      runId: run.id,
+    };
+  });
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break
+ * Text starting like a formula (=, +, -, @, tab or carriage return) gets a leading ' so spreadsheets show it instead of running it
+ */
+function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a header row from the first row's keys
+ */
+export function toCsv<T extends object>(rows: T[]): string {
+  if (rows.length === 0) return "";
+  const columns = Object.keys(rows[0]);
+  const lines = rows.map(row => columns.map(column => escapeCsvField((row as Record<string, unknown>)[column])).join(","));
+  return [columns.join(","), ...lines].join("\r\n");
+}
+
+/**
+ * Save a file in the browser
+ */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export runs as a CSV or JSON download
+ * @param filename - File name without its extension
+ * @param meta - Extra JSON properties describing the export (e.g. the filters it used); CSV files only hold the runs
+ */
+export function exportRuns(
+  runs: LeaderboardEntry[],
+  lookups: ExportLookups,
+  format: ExportFormat,
+  filename: string,
+  meta?: Record<string, unknown>
+): void {
+  const rows = getRunExportRows(runs, lookups);
+  if (format === 'csv') {
+    // The BOM makes spreadsheet apps read the file as UTF-8
+    downloadFile(`${filename}.csv`, `\uFEFF${toCsv(rows)}`, "text/csv;charset=utf-8");
+  } else {
+    const content = { ...meta, exportedAt: new Date().toISOString(), runs: rows };
+    downloadFile(`${filename}.json`, JSON.stringify(content, null, 2), "application/json");
+  }
+}
+
+/**
+ * A file name from its parts, e.g. "any-pc-solo"
+ */
+export function getExportFilename(...parts: Array<string | undefined | null>): string {
+  return parts
+    .filter((part): part is string => !!part)
+    .map(part => part.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, ""))
+    .filter(part => part.length > 0)
+    .join("-") || "export";
+}
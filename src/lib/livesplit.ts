@@ -0,0 +1,371 @@
+/**
+ * LiveSplit (.lss) splits file parsing
+ * Turns the splits XML into segments with split times, best segments and attempt counts
+ */
+
+import type { RunSplits, SplitSegment, TimingMethod, LeaderboardEntry, Level, CommunityGold } from "@/types/database";
+
+export type LiveSplitTimingMethod = 'RealTime' | 'GameTime';
+
+export interface LiveSplitTime {
+  realTime: number | null; // Seconds (null if not recorded)
+  gameTime: number | null; // Seconds (null if not recorded)
+}
+
+export interface LiveSplitSegment {
+  name: string;
+  splitTimes: Record<string, LiveSplitTime>; // Comparison name -> cumulative split time
+  bestSegmentTime: LiveSplitTime;
+  historyCount: number; // Number of attempts that completed this segment
+}
+
+export interface LiveSplitAttempt {
+  id: number;
+  started?: string; // Raw LiveSplit timestamp (e.g. "10/19/2025 18:00:00", UTC)
+  ended?: string;
+  time: LiveSplitTime; // Final time (both null if the attempt was reset)
+}
+
+export interface LiveSplitFile {
+  gameName: string;
+  categoryName: string;
+  attemptCount: number;
+  offset: number; // Timer start offset in seconds
+  comparisons: string[]; // Comparison names found in the file ("Personal Best" first when present)
+  segments: LiveSplitSegment[];
+  attempts: LiveSplitAttempt[];
+}
+
+export const PERSONAL_BEST_COMPARISON = "Personal Best";
+
+/**
+ * Parse a LiveSplit time string to seconds
+ * Handles "HH:MM:SS.fffffff", an optional "d." day prefix and a leading "-" (used for offsets)
+ */
+export function parseLiveSplitTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(-)?(?:(\d+)\.)?(\d+):(\d{2}):(\d{2})(?:\.(\d+))?$/);
+  if (!match) return null;
+  const days = parseInt(match[2] || "0", 10);
+  const hours = parseInt(match[3], 10);
+  const minutes = parseInt(match[4], 10);
+  const seconds = parseInt(match[5], 10);
+  // LiveSplit stores 7 fractional digits, round to milliseconds like the rest of the site
+  const milliseconds = match[6] ? Math.round(parseFloat(`0.${match[6]}`) * 1000) : 0;
+  const totalMs = ((days * 24 + hours) * 3600 + minutes * 60 + seconds) * 1000 + milliseconds;
+  return (match[1] ? -totalMs : totalMs) / 1000;
+}
+
+/**
+ * Read the RealTime/GameTime children of a LiveSplit time element
+ */
+function readTime(element: Element | null | undefined): LiveSplitTime {
+  const child = (name: string) => {
+    if (!element) return null;
+    const found = Array.from(element.children).find(c => c.tagName === name);
+    return parseLiveSplitTime(found?.textContent);
+  };
+  return {
+    realTime: child("RealTime"),
+    gameTime: child("GameTime"),
+  };
+}
+
+/**
+ * Get the direct child element of a node by tag name
+ */
+function childElement(parent: Element | null | undefined, tagName: string): Element | null {
+  if (!parent) return null;
+  return Array.from(parent.children).find(c => c.tagName === tagName) || null;
+}
+
+/**
+ * Parse the contents of a LiveSplit .lss file
+ * @throws Error if the text is not a LiveSplit splits file
+ */
+export function parseLiveSplitFile(xml: string): LiveSplitFile {
+  const document = new DOMParser().parseFromString(xml, "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Splits file is not valid XML");
+  }
+
+  const run = document.documentElement;
+  if (!run || run.tagName !== "Run") {
+    throw new Error("Not a LiveSplit splits file (missing <Run> element)");
+  }
+
+  const segmentsElement = childElement(run, "Segments");
+  const segmentElements = segmentsElement
+    ? Array.from(segmentsElement.children).filter(c => c.tagName === "Segment")
+    : [];
+  if (segmentElements.length === 0) {
+    throw new Error("Splits file has no segments");
+  }
+
+  const comparisons = new Set<string>();
+  const segments: LiveSplitSegment[] = segmentElements.map(segmentElement => {
+    const splitTimes: Record<string, LiveSplitTime> = {};
+    const splitTimesElement = childElement(segmentElement, "SplitTimes");
+    if (splitTimesElement) {
+      for (const splitTimeElement of Array.from(splitTimesElement.children)) {
+        const comparison = splitTimeElement.getAttribute("name");
+        if (!comparison) continue;
+        comparisons.add(comparison);
+        splitTimes[comparison] = readTime(splitTimeElement);
+      }
+    }
+
+    const historyElement = childElement(segmentElement, "SegmentHistory");
+    const historyCount = historyElement
+      ? Array.from(historyElement.children).filter(c => c.tagName === "Time").length
+      : 0;
+
+    return {
+      name: childElement(segmentElement, "Name")?.textContent?.trim() || "",
+      splitTimes,
+      bestSegmentTime: readTime(childElement(segmentElement, "BestSegmentTime")),
+      historyCount,
+    };
+  });
+
+  const attemptHistoryElement = childElement(run, "AttemptHistory");
+  const attempts: LiveSplitAttempt[] = attemptHistoryElement
+    ? Array.from(attemptHistoryElement.children)
+        .filter(c => c.tagName === "Attempt")
+        .map(attemptElement => ({
+          id: parseInt(attemptElement.getAttribute("id") || "0", 10),
+          started: attemptElement.getAttribute("started") || undefined,
+          ended: attemptElement.getAttribute("ended") || undefined,
+          time: readTime(attemptElement),
+        }))
+    : [];
+
+  // Always list Personal Best first since it's the comparison most runners submit
+  const comparisonList = Array.from(comparisons).sort((a, b) => {
+    if (a === PERSONAL_BEST_COMPARISON) return -1;
+    if (b === PERSONAL_BEST_COMPARISON) return 1;
+    return a.localeCompare(b);
+  });
+
+  return {
+    gameName: childElement(run, "GameName")?.textContent?.trim() || "",
+    categoryName: childElement(run, "CategoryName")?.textContent?.trim() || "",
+    attemptCount: parseInt(childElement(run, "AttemptCount")?.textContent || "0", 10) || 0,
+    offset: parseLiveSplitTime(childElement(run, "Offset")?.textContent) || 0,
+    comparisons: comparisonList,
+    segments,
+    attempts,
+  };
+}
+
+/**
+ * Get the LiveSplit timing method matching a site timing method
+ * LiveSplit only tracks real time and game time, so load-removed time maps to game time
+ * (load removers report through the game time timer)
+ */
+export function getLiveSplitTimingMethod(method?: TimingMethod): LiveSplitTimingMethod {
+  return method === 'ingame' || method === 'realtime_noloads' ? 'GameTime' : 'RealTime';
+}
+
+/**
+ * Build the splits summary stored on a run from a parsed file
+ * @param file - Parsed LiveSplit file
+ * @param comparison - Comparison to read split times from (defaults to Personal Best)
+ * @param timingMethod - Which LiveSplit timer to use
+ */
+export function buildRunSplits(
+  file: LiveSplitFile,
+  comparison: string = PERSONAL_BEST_COMPARISON,
+  timingMethod: LiveSplitTimingMethod = 'RealTime'
+): RunSplits {
+  const pick = (time: LiveSplitTime | undefined) =>
+    time ? (timingMethod === 'GameTime' ? time.gameTime : time.realTime) : null;
+
+  let previousSplit = 0;
+  const segments: SplitSegment[] = file.segments.map(segment => {
+    const splitTime = pick(segment.splitTimes[comparison]);
+    // Skipped splits have no time, so the next segment's time spans both
+    const segmentTime = splitTime !== null ? splitTime - previousSplit : null;
+    if (splitTime !== null) {
+      previousSplit = splitTime;
+    }
+    return {
+      name: segment.name,
+      splitTime,
+      segmentTime,
+      bestSegmentTime: pick(segment.bestSegmentTime),
+      attempts: segment.historyCount,
+    };
+  });
+
+  return {
+    gameName: file.gameName,
+    categoryName: file.categoryName,
+    attemptCount: file.attemptCount,
+    completedAttemptCount: file.attempts.filter(attempt => pick(attempt.time) !== null).length,
+    comparison,
+    timingMethod,
+    segments,
+  };
+}
+
+/**
+ * Get the final split time of a run's splits (the run's time), in seconds
+ */
+export function getFinalSplitTime(splits: Pick<RunSplits, 'segments'>): number | null {
+  const last = splits.segments[splits.segments.length - 1];
+  return last ? last.splitTime : null;
+}
+
+/**
+ * Convert a LiveSplit attempt timestamp ("MM/DD/YYYY HH:mm:ss", UTC) to a YYYY-MM-DD date
+ */
+export function parseLiveSplitDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (!match) return null;
+  const month = match[1].padStart(2, '0');
+  const day = match[2].padStart(2, '0');
+  return `${match[3]}-${month}-${day}`;
+}
+
+/**
+ * Find the attempt a comparison's split times came from
+ * Matches the attempt whose final time equals the comparison's final split, falling back to
+ * the most recent completed attempt (custom comparisons don't always come from a single attempt)
+ */
+export function getComparisonAttempt(
+  file: LiveSplitFile,
+  comparison: string = PERSONAL_BEST_COMPARISON,
+  timingMethod: LiveSplitTimingMethod = 'RealTime'
+): LiveSplitAttempt | null {
+  const pick = (time: LiveSplitTime | undefined) =>
+    time ? (timingMethod === 'GameTime' ? time.gameTime : time.realTime) : null;
+
+  const completed = file.attempts.filter(attempt => pick(attempt.time) !== null);
+  if (completed.length === 0) return null;
+
+  const lastSegment = file.segments[file.segments.length - 1];
+  const finalSplit = pick(lastSegment?.splitTimes[comparison]);
+  if (finalSplit !== null) {
+    const matching = completed.filter(attempt => Math.abs((pick(attempt.time) as number) - finalSplit) < 0.001);
+    if (matching.length > 0) {
+      return matching[matching.length - 1];
+    }
+  }
+
+  return completed.reduce((latest, attempt) => (attempt.id > latest.id ? attempt : latest));
+}
+
+/**
+ * Normalize a name for matching splits file names against site names
+ * Lowercases and drops punctuation/whitespace but keeps "%" (Any% vs Any)
+ */
+function normalizeMatchName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9%]/g, "");
+}
+
+/**
+ * Match a name from a splits file (game or category name) against a list of named items
+ * Prefers an exact match, otherwise the longest item name contained in the splits name
+ * (so "Any% - Story" matches "Any%" and a level name inside the category name is found)
+ */
+export function matchLiveSplitName<T extends { name: string }>(name: string, items: T[]): T | undefined {
+  const normalized = normalizeMatchName(name || "");
+  if (!normalized) return undefined;
+
+  const exact = items.find(item => normalizeMatchName(item.name) === normalized);
+  if (exact) return exact;
+
+  let best: T | undefined;
+  let bestLength = 0;
+  for (const item of items) {
+    const itemName = normalizeMatchName(item.name);
+    if (itemName && normalized.includes(itemName) && itemName.length > bestLength) {
+      best = item;
+      bestLength = itemName.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Get every usable segment time from a run's splits as community gold candidates
+ * Segments are keyed by matched level, or by normalized segment name when no level matches.
+ * Segments following a skipped split are left out since their time covers more than one segment.
+ */
+function getRunSegmentGolds(run: LeaderboardEntry, levels: Level[]): Array<{ key: string; gold: CommunityGold }> {
+  const segments = run.splits?.segments || [];
+  const candidates: Array<{ key: string; gold: CommunityGold }> = [];
+
+  segments.forEach((segment, index) => {
+    if (segment.segmentTime === null || segment.segmentTime <= 0) return;
+    if (index > 0 && segments[index - 1].splitTime === null) return;
+
+    const level = matchLiveSplitName(segment.name, levels);
+    const key = level ? `level:${level.id}` : `segment:${normalizeMatchName(segment.name) || index}`;
+    candidates.push({
+      key,
+      gold: {
+        segmentName: segment.name,
+        levelId: level?.id,
+        time: segment.segmentTime,
+        runId: run.id,
+        playerId: run.playerId,
+        playerName: run.playerName,
+        player2Name: run.player2Name,
+        category: run.category,
+        date: run.date,
+      },
+    });
+  });
+
+  return candidates;
+}
+
+/**
+ * Compute the community's best segment times from runs with splits
+ * Golds are returned in route order (the order segments first appear in the given runs),
+ * so pass runs sorted fastest first for the most representative order
+ * @param runs - Verified runs with parsed splits
+ * @param levels - Levels to match segment names against
+ */
+export function computeCommunityGolds(runs: LeaderboardEntry[], levels: Level[] = []): CommunityGold[] {
+  const golds = new Map<string, CommunityGold>();
+
+  for (const run of runs) {
+    for (const { key, gold } of getRunSegmentGolds(run, levels)) {
+      const current = golds.get(key);
+      // Ties go to the earlier run
+      if (!current || gold.time < current.time || (gold.time === current.time && gold.date < current.date)) {
+        golds.set(key, gold);
+      }
+    }
+  }
+
+  // Map preserves first-insertion order, which is the route order
+  return Array.from(golds.values());
+}
+
+/**
+ * Get each player's best segment time for a level from runs with splits, fastest first
+ * @param runs - Verified runs with parsed splits
+ * @param levels - Levels to match segment names against
+ * @param levelId - Level to get segment times for
+ */
+export function getLevelSegmentTimes(runs: LeaderboardEntry[], levels: Level[], levelId: string): CommunityGold[] {
+  const bestByPlayer = new Map<string, CommunityGold>();
+
+  for (const run of runs) {
+    for (const { gold } of getRunSegmentGolds(run, levels)) {
+      if (gold.levelId !== levelId) continue;
+      const playerKey = `${gold.playerId || gold.playerName}|${gold.player2Name || ""}`;
+      const current = bestByPlayer.get(playerKey);
+      if (!current || gold.time < current.time) {
+        bestByPlayer.set(playerKey, gold);
+      }
+    }
+  }
+
+  return Array.from(bestByPlayer.values()).sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,109 @@
+/**
+ * Scoring strategies for the base studs of a run, selected by scoringStrategy in the points config
+ * Each strategy is a pure function of the run's place on its board; type multipliers, rank bonuses
+ * and the co-op split are applied on top by calculatePointsBreakdown
+ */
+
+import { LeaderboardEntry, PointsBreakdown, PointsConfig, ScoringStrategyId } from "@/types/database";
+
+export const DEFAULT_WR_POINTS = 100;
+export const DEFAULT_WR_RATIO_EXPONENT = 2;
+
+/**
+ * Where a run stands on its board, needed by the time-relative strategies
+ */
+export interface ScoringContext {
+  categoryId?: string;
+  timeMs?: number; // The run's time in the board's primary timing method
+  wrTimeMs?: number; // The fastest ranked time on the board
+  position?: number; // The run's board rank (any position, not just the top 3)
+  rankedRuns?: number; // How many runs are ranked on the board
+}
+
+/**
+ * Flat scoring: every run earns the same base points
+ */
+export function flatScore(basePoints: number): number {
+  return basePoints;
+}
+
+/**
+ * WR-ratio scoring (speedrun.com style): wrPoints × (wr / time)^k, so a WR earns wrPoints
+ * and slower runs earn less the further they are off it
+ * Returns null when either time is unknown
+ */
+export function wrRatioScore(timeMs: number | undefined, wrTimeMs: number | undefined, wrPoints: number, exponent: number): number | null {
+  if (!timeMs || !wrTimeMs || timeMs <= 0 || wrTimeMs <= 0) return null;
+  // A run can't beat the WR it's measured against (e.g. obsolete runs faster than the current board)
+  const ratio = Math.min(wrTimeMs / timeMs, 1);
+  return wrPoints * Math.pow(ratio, exponent);
+}
+
+/**
+ * Percentile scoring: wrPoints × the share of ranked runs the run is level with or ahead of,
+ * so first earns wrPoints and last earns wrPoints / rankedRuns
+ * Returns null when the run has no position on the board
+ */
+export function percentileScore(position: number | undefined, rankedRuns: number | undefined, wrPoints: number): number | null {
+  if (!position || !rankedRuns || position < 1 || position > rankedRuns) return null;
+  return wrPoints * (rankedRuns - position + 1) / rankedRuns;
+}
+
+/**
+ * Weight of a category, 1 unless the config sets one
+ */
+export function getCategoryWeight(config: Pick<PointsConfig, 'categoryWeights'>, categoryId?: string): number {
+  const weight = categoryId ? config.categoryWeights?.[categoryId] : undefined;
+  return typeof weight === "number" && weight >= 0 ? weight : 1;
+}
+
+/**
+ * Base studs for a run under the config's scoring strategy, before type multipliers, rank bonuses and the co-op split
+ * Time-relative strategies fall back to flat base points for runs they can't place (e.g. obsolete runs have no position)
+ */
+export function scoreBasePoints(
+  context: ScoringContext,
+  config: PointsConfig
+): { points: number; breakdown: Pick<PointsBreakdown, 'basePoints' | 'scoring' | 'categoryWeight'> } {
+  const strategy: ScoringStrategyId = config.scoringStrategy || 'flat';
+  const wrPoints = config.wrPoints ?? DEFAULT_WR_POINTS;
+  const categoryWeight = getCategoryWeight(config, context.categoryId);
+
+  let points = flatScore(config.basePoints);
+  const breakdown: Pick<PointsBreakdown, 'basePoints' | 'scoring' | 'categoryWeight'> = { basePoints: config.basePoints };
+
+  const score = strategy === 'wr-ratio'
+    ? wrRatioScore(context.timeMs, context.wrTimeMs, wrPoints, config.wrRatioExponent ?? DEFAULT_WR_RATIO_EXPONENT)
+    : strategy === 'percentile'
+      ? percentileScore(context.position, context.rankedRuns, wrPoints)
+      : null;
+  if (score !== null && strategy !== 'flat') {
+    points = score;
+    breakdown.basePoints = wrPoints;
+    breakdown.scoring = { strategy, factor: Math.round((score / wrPoints) * 1000) / 1000 };
+  }
+
+  if (categoryWeight !== 1) {
+    points = points * categoryWeight;
+    breakdown.categoryWeight = categoryWeight;
+  }
+  return { points, breakdown };
+}
+
+/**
+ * Scoring context for every run on one board, from the ranks and times it has (or should have)
+ */
+export function getBoardScoringContexts(
+  boardRuns: Array<Pick<LeaderboardEntry, 'id' | 'category' | 'rank' | 'timeMs'>>
+): Map<string, ScoringContext> {
+  const rankedRuns = boardRuns.filter(run => run.rank !== undefined && run.rank !== null);
+  const wrRun = rankedRuns.find(run => run.rank === 1);
+
+  return new Map(boardRuns.map(run => [run.id, {
+    categoryId: run.category,
+    timeMs: run.timeMs,
+    wrTimeMs: wrRun?.timeMs,
+    position: run.rank,
+    rankedRuns: rankedRuns.length,
+  }]));
+}
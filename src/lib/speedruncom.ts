@@ -3,6 +3,8 @@
  * https://github.com/speedruncomorg/api
  */
 
+import type { Category, LeaderboardEntry, TimingMethod } from "@/types/database";
+
 const SPEEDRUNCOM_API_BASE = "https://www.speedrun.com/api/v1";
 
 /**
@@ -45,6 +47,7 @@ export interface SRCCategory {
     data: Array<{
       id: string;
       name: string;
+      "is-subcategory"?: boolean; // Whether SRC shows this variable as a leaderboard split (vs a filter)
       values: {
         values: Record<string, { label: string }>;
       };
@@ -92,6 +95,8 @@ export interface SRCRun {
     realtime_t?: number;
     realtime_noloads?: string;
     realtime_noloads_t?: number;
+    ingame?: string;
+    ingame_t?: number;
   };
   videos?: {
     links?: Array<{
@@ -123,6 +128,7 @@ export interface SRCRunData {
 
 /**
  * Convert ISO 8601 duration to HH:MM:SS format
+ * Fractional seconds (e.g. "PT1M2.345S") are kept as HH:MM:SS.mmm
  */
 export function isoDurationToTime(duration: string): string {
   const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?/);
@@ -132,37 +138,33 @@ export function isoDurationToTime(duration: string): string {
   const minutes = parseInt(match[2] || "0", 10);
   const seconds = parseFloat(match[3] || "0");
   
-  const secondsInt = Math.floor(seconds);
-  
-  const hoursStr = hours.toString().padStart(2, "0");
-  const minutesStr = minutes.toString().padStart(2, "0");
-  const secondsStr = secondsInt.toString().padStart(2, "0");
-  
-  return `${hoursStr}:${minutesStr}:${secondsStr}`;
+  return secondsToTime(hours * 3600 + minutes * 60 + seconds);
 }
 
 /**
  * Convert seconds to HH:MM:SS format
+ * Appends .mmm when the value has a non-zero millisecond part
  */
 export function secondsToTime(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  
-  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  
+  const time = `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  return ms > 0 ? `${time}.${ms.toString().padStart(3, "0")}` : time;
 }
 
 /**
- * Get game ID for LEGO Star Wars: The Video Game
+ * Get the speedrun.com game ID for a game abbreviation (e.g. "lsw1")
+ * The /games/{id} endpoint accepts either a game ID or its abbreviation
  */
-export async function getLSWGameId(): Promise<string | null> {
+export async function getSRCGameId(abbreviation: string): Promise<string | null> {
+  if (!abbreviation?.trim()) return null;
   try {
-    const data = await fetchSRCAPI<{ data: SRCGame[] }>("/games?name=LEGO%20Star%20Wars&abbreviation=lsw");
-    if (data.data && data.data.length > 0) {
-      const lswGame = data.data.find((game: SRCGame) => game.abbreviation === "lsw");
-      return lswGame?.id || null;
-    }
-    return null;
+    const data = await fetchSRCAPI<{ data: SRCGame }>(`/games/${encodeURIComponent(abbreviation.trim())}`);
+    return data.data?.id || null;
   } catch (error) {
     return null;
   }
@@ -600,8 +602,8 @@ export async function mapSRCRunToLeaderboardEntry(
   srcLevelIdToName?: Map<string, string>,
   playerIdToNameCache?: Map<string, string>,
   platformIdToNameCache?: Map<string, string>,
-  localCategories?: import("@/types/database").Category[] // Local categories with subcategories for matching
-): Promise<Partial<import("@/types/database").LeaderboardEntry> & {
+  localCategories?: Category[] // Local categories with subcategories for matching
+): Promise<Partial<LeaderboardEntry> & {
   srcRunId: string;
   importedFromSRC: boolean;
 }> {
@@ -766,6 +768,27 @@ export async function mapSRCRunToLeaderboardEntry(
     time = secondsToTime(run.times.primary_t);
   }
   
+  // Keep every timing method SRC has a value for (SRC reports missing ones as null / 0)
+  const times: Partial<Record<TimingMethod, string>> = {};
+  const timingMethodKeys = ['realtime', 'realtime_noloads', 'ingame'] as const;
+  for (const method of timingMethodKeys) {
+    const seconds = run.times[`${method}_t`];
+    const duration = run.times[method];
+    if (seconds !== undefined && seconds !== null && seconds > 0) {
+      times[method] = secondsToTime(seconds);
+    } else if (duration) {
+      times[method] = isoDurationToTime(duration);
+    }
+  }
+  
+  // If the local category ranks by a specific method and the run has it, use it as the primary time
+  const timingCategory = ourCategoryId && localCategories
+    ? localCategories.find(c => c.id === ourCategoryId)
+    : undefined;
+  if (timingCategory?.primaryTimingMethod && times[timingCategory.primaryTimingMethod]) {
+    time = times[timingCategory.primaryTimingMethod]!;
+  }
+  
   // Validate time conversion - log if conversion failed or returned 00:00:00 for a real run
   if (time === "00:00:00" && run.times.primary_t && run.times.primary_t > 0) {
   }
@@ -873,6 +896,48 @@ export async function mapSRCRunToLeaderboardEntry(
     }
   }
   
+  // === Map SRC Variables to local category variables ===
+  // Every variable on the run is mapped (not just the subcategory one) so runs can be
+  // filtered by any combination of variables
+  let variables: Record<string, string> | undefined;
+  let srcVariables: Record<string, string> | undefined;
+  
+  if (leaderboardType === 'regular' && run.values && Object.keys(run.values).length > 0) {
+    let categoryData: SRCCategory | undefined;
+    if (typeof run.category === 'object' && run.category?.data) {
+      categoryData = run.category.data as SRCCategory;
+    } else if (embeddedData?.category) {
+      categoryData = embeddedData.category;
+    }
+    
+    const localCategory = ourCategoryId && localCategories
+      ? localCategories.find(c => c.id === ourCategoryId)
+      : undefined;
+    const localVariables = localCategory?.variables || [];
+    
+    for (const [srcVariableId, srcValueId] of Object.entries(run.values)) {
+      const srcVariable = categoryData?.variables?.data?.find(v => v.id === srcVariableId);
+      const variableName = srcVariable?.name;
+      const valueLabel = srcVariable?.values?.values?.[srcValueId]?.label;
+      
+      // Store the SRC names for display
+      srcVariables = srcVariables || {};
+      srcVariables[variableName || srcVariableId] = valueLabel || srcValueId;
+      
+      // Match the local variable by SRC ID first, then by name (case-insensitive)
+      const localVariable = localVariables.find(v => v.srcVariableId === srcVariableId)
+        || (variableName ? localVariables.find(v => v.name.toLowerCase().trim() === variableName.toLowerCase().trim()) : undefined);
+      if (!localVariable) continue;
+      
+      const localValue = localVariable.values.find(v => v.srcValueId === srcValueId)
+        || (valueLabel ? localVariable.values.find(v => v.name.toLowerCase().trim() === valueLabel.toLowerCase().trim()) : undefined);
+      if (localValue) {
+        variables = variables || {};
+        variables[localVariable.id] = localValue.id;
+      }
+    }
+  }
+  
   // === Build Result ===
   return {
     playerId: defaultPlayerId,
@@ -884,6 +949,7 @@ export async function mapSRCRunToLeaderboardEntry(
     leaderboardType,
     level: ourLevelId || undefined,
     time,
+    times: Object.keys(times).length > 0 ? times : undefined,
     date,
     videoUrl,
     comment: run.comment || undefined,
@@ -902,5 +968,8 @@ export async function mapSRCRunToLeaderboardEntry(
     // Store subcategory info
     subcategory: subcategoryId,
     srcSubcategory: srcSubcategory,
+    // Store variable values
+    variables,
+    srcVariables,
   };
 }
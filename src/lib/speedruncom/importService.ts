@@ -4,9 +4,11 @@
  */
 
 import { 
-  getLSWGameId, 
+  getSRCGameId, 
   fetchRunsNotOnLeaderboards,
   mapSRCRunToLeaderboardEntry,
+  isoDurationToTime,
+  secondsToTime,
   fetchCategories as fetchSRCCategories,
   fetchLevels as fetchSRCLevels,
   fetchPlatformById,
@@ -58,8 +60,8 @@ interface SRCMappings {
 // Cache for player and platform names fetched from API during import (prevents duplicate API calls)
 const playerIdToNameCache = new Map<string, string>();
 const platformIdToNameCache = new Map<string, string>();
-// Cache for gameId to avoid redundant API calls
-let cachedGameId: string | null = null;
+// Cache for SRC game IDs (keyed by abbreviation) to avoid redundant API calls
+const cachedGameIds = new Map<string, string>();
 
 /**
  * Extract platform ID and name from SRC run data
@@ -407,8 +409,8 @@ function validateMappedRun(
 
   if (!run.time || run.time.trim() === '') {
     errors.push('missing time');
-  } else if (!/^\d{1,2}:\d{2}:\d{2}$/.test(run.time)) {
-    errors.push(`invalid time format "${run.time}" (expected HH:MM:SS)`);
+  } else if (!/^\d{1,2}:\d{2}:\d{2}(\.\d{1,3})?$/.test(run.time)) {
+    errors.push(`invalid time format "${run.time}" (expected HH:MM:SS or HH:MM:SS.mmm)`);
   }
 
   if (!run.date || run.date.trim() === '') {
@@ -449,10 +451,12 @@ function validateMappedRun(
 }
 
 /**
- * Import runs from speedrun.com
+ * Import runs from speedrun.com into the active game
  * Simplified, robust implementation with clear error handling
+ * @param srcAbbreviation - Speedrun.com abbreviation of the game to import from
  */
 export async function importSRCRuns(
+  srcAbbreviation: string | undefined,
   onProgress?: (progress: ImportProgress) => void
 ): Promise<ImportResult> {
   const result: ImportResult = {
@@ -464,15 +468,19 @@ export async function importSRCRuns(
 
   try {
     // Step 1: Get game ID (use cache if available)
-    let gameId: string | null = cachedGameId;
+    if (!srcAbbreviation) {
+      result.errors.push("This game has no speedrun.com abbreviation set");
+      return result;
+    }
+    let gameId: string | null = cachedGameIds.get(srcAbbreviation) || null;
     if (!gameId) {
-      gameId = await getLSWGameId();
+      gameId = await getSRCGameId(srcAbbreviation);
       if (gameId) {
-        cachedGameId = gameId; // Cache for future imports
+        cachedGameIds.set(srcAbbreviation, gameId); // Cache for future imports
       }
     }
     if (!gameId) {
-      result.errors.push("Could not find LEGO Star Wars game on speedrun.com");
+      result.errors.push(`Could not find game "${srcAbbreviation}" on speedrun.com`);
       return result;
     }
 
@@ -21,6 +21,15 @@ type OurFileRouter = {
       type: string;
     };
   };
+  splitsFile: {
+    input: Record<string, never>;
+    output: {
+      url: string;
+      name: string;
+      size: number;
+      type: string;
+    };
+  };
 };
 
 export const { useUploadThing, uploadFiles } = generateReactHelpers<OurFileRouter>({
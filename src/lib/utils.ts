@@ -16,33 +16,44 @@ export function formatDate(dateString: string): string {
 }
 
 /**
- * Parse a time string (HH:MM:SS) to total seconds
- * @param timeString - Time string in HH:MM:SS format
- * @returns Total seconds
+ * Parse a time string (HH:MM:SS or HH:MM:SS.mmm) to total seconds
+ * Milliseconds are optional so existing whole-second times keep working
+ * @param timeString - Time string in HH:MM:SS(.mmm) or MM:SS(.mmm) format
+ * @returns Total seconds (fractional when milliseconds are present)
  */
 export function parseTimeToSeconds(timeString: string): number {
-  const parts = timeString.split(':').map(Number);
-  if (parts.length === 3) {
-    return parts[0] * 3600 + parts[1] * 60 + parts[2];
-  }
-  return 0;
+  if (!timeString) return 0;
+  const match = timeString.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/);
+  if (!match) return 0;
+  const hours = parseInt(match[1] || "0", 10);
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  // Right-pad the fraction so ".5" means 500ms, not 5ms
+  const milliseconds = match[4] ? parseInt(match[4].padEnd(3, '0'), 10) : 0;
+  // Sum in whole milliseconds to avoid floating point drift
+  return (hours * 3600000 + minutes * 60000 + seconds * 1000 + milliseconds) / 1000;
 }
 
 /**
  * Format total seconds to HH:MM:SS format
- * @param totalSeconds - Total seconds
- * @returns Time string in HH:MM:SS format
+ * Appends .mmm only when the value has a non-zero millisecond part
+ * @param totalSeconds - Total seconds (may be fractional)
+ * @returns Time string in HH:MM:SS or HH:MM:SS.mmm format
  */
 export function formatSecondsToTime(totalSeconds: number): string {
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  const totalMs = Math.round(totalSeconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const milliseconds = totalMs % 1000;
+  const base = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return milliseconds > 0 ? `${base}.${String(milliseconds).padStart(3, '0')}` : base;
 }
 
 /**
  * Format a time string to display without hours if under 1 hour
- * @param timeString - Time string in HH:MM:SS format
+ * Any millisecond part (e.g. "00:12:34.567") is kept on the seconds field
+ * @param timeString - Time string in HH:MM:SS or HH:MM:SS.mmm format
  * @returns Formatted time string (MM:SS if under 1 hour, otherwise HH:MM:SS)
  */
 export function formatTime(timeString: string): string {
@@ -85,27 +96,104 @@ export function formatTime(timeString: string): string {
   return trimmed;
 }
 
-import type { PointsConfig } from "@/types/database";
+import type { PointsConfig, PointsBreakdown, TimingMethod, LeaderboardEntry, Category, CategoryVariable } from "@/types/database";
+import { getActiveGameId } from "@/lib/data/gameScope";
+import { ScoringContext, scoreBasePoints } from "@/lib/scoring";
+
+/**
+ * Get the timing methods enabled for a category, primary method first
+ * Categories without timing configuration only use real time
+ */
+export function getCategoryTimingMethods(category?: Pick<Category, 'timingMethods' | 'primaryTimingMethod'> | null): TimingMethod[] {
+  const primary = getPrimaryTimingMethod(category);
+  const methods = category?.timingMethods?.length ? category.timingMethods : [primary];
+  return [primary, ...methods.filter(method => method !== primary)];
+}
 
-// Cache for points config to avoid repeated Firestore reads
-let cachedPointsConfig: PointsConfig | null = null;
-let configCacheTime: number = 0;
+/**
+ * Get the timing method a category ranks by (defaults to real time)
+ */
+export function getPrimaryTimingMethod(category?: Pick<Category, 'timingMethods' | 'primaryTimingMethod'> | null): TimingMethod {
+  return category?.primaryTimingMethod || category?.timingMethods?.[0] || 'realtime';
+}
+
+/**
+ * Get a run's time for a specific timing method
+ * Runs submitted before timing methods existed only have `time`, so it is used as the
+ * fallback when no method is given or the run has no separate value for that method
+ * @param entry - The run
+ * @param method - Timing method to read (omit for the run's primary time)
+ * @param fallbackToTime - Whether to fall back to `time` when the method has no value
+ */
+export function getTimeForMethod(
+  entry: Pick<LeaderboardEntry, 'time' | 'times'>,
+  method?: TimingMethod,
+  fallbackToTime: boolean = true
+): string {
+  const methodTime = method ? entry.times?.[method] : undefined;
+  if (methodTime) return methodTime;
+  return fallbackToTime ? entry.time : "";
+}
+
+/**
+ * Get a run's time in milliseconds for a timing method
+ * Returns undefined if the time can't be parsed
+ */
+export function getTimeMs(entry: Pick<LeaderboardEntry, 'time' | 'times'>, method?: TimingMethod): number | undefined {
+  const seconds = parseTimeToSeconds(getTimeForMethod(entry, method));
+  return seconds > 0 ? Math.round(seconds * 1000) : undefined;
+}
+
+/**
+ * Get a category's variables with variables and their values sorted by display order
+ */
+export function getCategoryVariables(category?: Pick<Category, 'variables'> | null): CategoryVariable[] {
+  const byOrder = (a: { order?: number }, b: { order?: number }) => (a.order ?? Infinity) - (b.order ?? Infinity);
+  return [...(category?.variables || [])]
+    .sort(byOrder)
+    .map(variable => ({ ...variable, values: [...(variable.values || [])].sort(byOrder) }));
+}
+
+/**
+ * Check whether a run matches a set of variable filters
+ * A filter value of "" or "all" matches any run, "__none__" matches runs without a value
+ * @param entry - The run
+ * @param filters - Map of variable ID -> value ID
+ */
+export function matchesVariableFilters(
+  entry: Pick<LeaderboardEntry, 'variables'>,
+  filters?: Record<string, string>
+): boolean {
+  if (!filters) return true;
+  return Object.entries(filters).every(([variableId, valueId]) => {
+    if (!valueId || valueId === 'all') return true;
+    const runValue = entry.variables?.[variableId];
+    if (valueId === '__none__') return !runValue;
+    return runValue === valueId;
+  });
+}
+
+// Cache for points configs (one per game) to avoid repeated Firestore reads
+const cachedPointsConfigs = new Map<string, { config: PointsConfig; time: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 /**
  * Get points configuration (with caching)
+ * @param gameId - Game to get the configuration for (defaults to the active game)
  */
-async function getPointsConfigCached(): Promise<PointsConfig> {
+export async function getPointsConfigCached(gameId?: string): Promise<PointsConfig> {
   const now = Date.now();
-  if (cachedPointsConfig && (now - configCacheTime) < CACHE_DURATION) {
-    return cachedPointsConfig;
+  const cacheKey = gameId || getActiveGameId();
+  const cached = cachedPointsConfigs.get(cacheKey);
+  if (cached && (now - cached.time) < CACHE_DURATION) {
+    return cached.config;
   }
 
   try {
     const { getPointsConfig } = await import("@/lib/db");
-    cachedPointsConfig = await getPointsConfig();
-    configCacheTime = now;
-    return cachedPointsConfig;
+    const config = await getPointsConfig(cacheKey);
+    cachedPointsConfigs.set(cacheKey, { config, time: now });
+    return config;
   } catch (error) {
     // Return default config on error
     return {
@@ -128,23 +216,23 @@ async function getPointsConfigCached(): Promise<PointsConfig> {
  * Clear the points config cache (useful after updating config)
  */
 export function clearPointsConfigCache(): void {
-  cachedPointsConfig = null;
-  configCacheTime = 0;
+  cachedPointsConfigs.clear();
 }
 
 /**
  * Calculate studs for a run using configurable rates
  * 
- * @param timeString - Time string in HH:MM:SS format (not used but kept for compatibility)
+ * @param timeString - Time string in HH:MM:SS format, used for the run's time when the context has none
  * @param categoryName - Name of the category (not used but kept for compatibility)
  * @param platformName - Name of the platform (not used but kept for compatibility)
- * @param categoryId - Optional category ID (not used but kept for compatibility)
+ * @param categoryId - Optional category ID (for category weights)
  * @param platformId - Optional platform ID (not used but kept for compatibility)
  * @param rank - Optional rank of the run in its category (1-3 for bonus studs)
  * @param runType - Optional run type ('solo' or 'co-op')
  * @param leaderboardType - Optional leaderboard type ('regular', 'individual-level', or 'community-golds')
  * @param isObsolete - Optional flag indicating if the run is obsolete
  * @param config - Optional points configuration (if not provided, will fetch from Firestore)
+ * @param context - Optional place of the run on its board (for time-relative scoring strategies)
  * @returns Studs awarded for the run (already split for co-op runs)
  */
 export async function calculatePoints(
@@ -157,8 +245,37 @@ export async function calculatePoints(
   runType?: 'solo' | 'co-op',
   leaderboardType?: 'regular' | 'individual-level' | 'community-golds',
   isObsolete?: boolean,
-  config?: PointsConfig
+  config?: PointsConfig,
+  context?: ScoringContext
 ): Promise<number> {
+  const seconds = parseTimeToSeconds(timeString);
+  const breakdown = await calculatePointsBreakdown(rank, runType, leaderboardType, isObsolete, config, {
+    categoryId,
+    timeMs: seconds > 0 ? Math.round(seconds * 1000) : undefined,
+    ...context,
+  });
+  return breakdown.total;
+}
+
+/**
+ * Calculate studs for a run, returning which rules were applied (recorded in the points ledger)
+ * 
+ * @param rank - Optional rank of the run in its category (1-3 for bonus studs)
+ * @param runType - Optional run type ('solo' or 'co-op')
+ * @param leaderboardType - Optional leaderboard type ('regular', 'individual-level', or 'community-golds')
+ * @param isObsolete - Optional flag indicating if the run is obsolete
+ * @param config - Optional points configuration (if not provided, will fetch from Firestore)
+ * @param context - Optional place of the run on its board (for time-relative scoring strategies and category weights)
+ * @returns Rule breakdown, with the studs awarded for the run (already split for co-op runs) as total
+ */
+export async function calculatePointsBreakdown(
+  rank?: number,
+  runType?: 'solo' | 'co-op',
+  leaderboardType?: 'regular' | 'individual-level' | 'community-golds',
+  isObsolete?: boolean,
+  config?: PointsConfig,
+  context: ScoringContext = {}
+): Promise<PointsBreakdown> {
   // Get config if not provided
   const pointsConfig = config || await getPointsConfigCached();
   
@@ -172,18 +289,23 @@ export async function calculatePoints(
                  (typeof runType === 'string' && runType.toLowerCase().includes('co-op')) ||
                  (typeof runType === 'string' && runType.toLowerCase() === 'coop');
   
-  // Start with base points
-  let points = pointsConfig.basePoints;
+  // Start with base points from the config's scoring strategy
+  const baseScore = scoreBasePoints(context, pointsConfig);
+  let points = baseScore.points;
+  const breakdown: PointsBreakdown = { ...baseScore.breakdown, total: 0 };
   
   // Apply obsolete multiplier if obsolete
   if (isObsolete === true) {
     points = points * pointsConfig.obsoleteMultiplier;
+    breakdown.typeMultiplier = { rule: 'obsolete', value: pointsConfig.obsoleteMultiplier };
   } else {
     // Apply IL/Community Gold multiplier if applicable
     if (isIL) {
       points = points * pointsConfig.ilMultiplier;
+      breakdown.typeMultiplier = { rule: 'individual-level', value: pointsConfig.ilMultiplier };
     } else if (isCommunityGold) {
       points = points * pointsConfig.communityGoldsMultiplier;
+      breakdown.typeMultiplier = { rule: 'community-golds', value: pointsConfig.communityGoldsMultiplier };
     }
   }
   
@@ -211,21 +333,23 @@ export async function calculatePoints(
       (isCommunityGold && pointsConfig.applyRankBonusesToCommunityGolds);
     
     if (canApplyRankBonus) {
-      if (numericRank === 1) {
-        points += pointsConfig.rank1Bonus;
-      } else if (numericRank === 2) {
-        points += pointsConfig.rank2Bonus;
-      } else if (numericRank === 3) {
-        points += pointsConfig.rank3Bonus;
-      }
+      const rankBonus = numericRank === 1
+        ? pointsConfig.rank1Bonus
+        : numericRank === 2
+          ? pointsConfig.rank2Bonus
+          : pointsConfig.rank3Bonus;
+      points += rankBonus;
+      breakdown.rankBonus = { rank: numericRank, points: rankBonus };
     }
   }
   
   // Apply co-op multiplier
   if (isCoOp) {
     points = points * pointsConfig.coOpMultiplier;
+    breakdown.coOpMultiplier = pointsConfig.coOpMultiplier;
   }
   
   // Round to nearest integer to avoid floating point issues
-  return Math.round(points);
+  breakdown.total = Math.round(points);
+  return breakdown;
 }
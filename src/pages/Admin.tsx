@@ -9,20 +9,27 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, XCircle, ShieldAlert, ExternalLink, Download, PlusCircle, Trash2, Wrench, Edit2, FolderTree, Play, ArrowUp, ArrowDown, Gamepad2, UserPlus, UserMinus, Trophy, Upload, Star, Gem, RefreshCw, X, AlertTriangle, Users, Search, Save, UserX, Coins } from "lucide-react";
+import { CheckCircle, XCircle, ShieldAlert, ExternalLink, Download, PlusCircle, Trash2, Wrench, Edit2, FolderTree, Play, ArrowUp, ArrowDown, Gamepad2, UserPlus, UserMinus, Trophy, Upload, Star, Gem, RefreshCw, X, AlertTriangle, Users, Search, Save, UserX, Coins, History, CalendarDays, Archive, ScrollText, RotateCcw } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Switch } from "@/components/ui/switch";
-import { Pagination } from "@/components/Pagination";
+import { Progress } from "@/components/ui/progress";
+import { Pagination, CursorPagination } from "@/components/Pagination";
 import { useAuth } from "@/components/AuthProvider";
+import { useGame } from "@/hooks/useGame";
 import { useToast } from "@/hooks/use-toast";
+import { useCursorPagination } from "@/hooks/useCursorPagination";
 import { 
+  addGame,
+  updateGame,
+  deleteGame,
   getUnverifiedLeaderboardEntries, 
   updateRunVerificationStatus, 
   deleteLeaderboardEntry,
   addLeaderboardEntry,
   updateLeaderboardEntry,
   getPlayerByDisplayName,
+  isDisplayNameAvailable,
   getPlayerByUid,
   setPlayerAdminStatus,
   getDownloadEntries,
@@ -33,6 +40,9 @@ import {
   getCategoriesFromFirestore,
   addCategory,
   updateCategory,
+  updateCategoryTimingMethods,
+  updateCategoryVariables,
+  timingMethods,
   deleteCategory,
   moveCategoryUp,
   moveCategoryDown,
@@ -43,12 +53,15 @@ import {
   movePlatformUp,
   movePlatformDown,
   getLevels,
+  getAllVerifiedRuns,
   addLevel,
   updateLevel,
   deleteLevel,
   moveLevelUp,
   moveLevelDown,
   backfillPointsForAllRuns,
+  rebuildLeaderboardRanks,
+  migrateDisplayNameIndex,
   getDownloadCategories,
   getImportedSRCRuns,
   checkSRCRunExists,
@@ -61,31 +74,54 @@ import {
   findDuplicateRuns,
   removeDuplicateRuns,
   claimRun,
-  getRecentRuns,
+  getRecentRunsPage,
   getAllPlayers,
+  getPlayersPage,
   updatePlayer,
   deletePlayer,
   getIlRunsToFix,
   wipeAllImportedSRCRuns,
   getPointsConfig,
   updatePointsConfig,
+  planPointsRecalculation,
+  applyPointsRecalculation,
+  getPointsConfigHistory,
+  getPlayersByPoints,
+  getSeasons,
+  addSeason,
+  deleteSeason,
+  archiveSeason,
 } from "@/lib/db";
 import { importSRCRuns, type ImportResult } from "@/lib/speedruncom/importService";
-import { fetchCategoryVariables, getLSWGameId, fetchCategories as fetchSRCCategories, type SRCCategory } from "@/lib/speedruncom";
+import { fetchCategoryVariables, getSRCGameId, fetchCategories as fetchSRCCategories, type SRCCategory } from "@/lib/speedruncom";
 import { useUploadThing } from "@/lib/uploadthing";
-import { LeaderboardEntry, DownloadEntry, Category, Level, Subcategory, PointsConfig } from "@/types/database";
+import { LeaderboardEntry, DownloadEntry, Category, CategoryVariable, Game, Level, Subcategory, PointsConfig, PointsConfigVersion, ScoringStrategyId, Season, TimingMethod, Page } from "@/types/database";
 import { useNavigate } from "react-router-dom";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
-import { formatTime } from "@/lib/utils";
+import { PointsConfigPreview } from "@/components/PointsConfigPreview";
+import { PointsConfigHistory } from "@/components/PointsConfigHistory";
+import { SeasonStatusBadge } from "@/components/SeasonStatusBadge";
+import { AuditLog } from "@/components/AuditLog";
+import { TrashBin } from "@/components/TrashBin";
+import { ExportMenu } from "@/components/ExportMenu";
+import { BackupRestore } from "@/components/BackupRestore";
+import { RunCsvImport } from "@/components/RunCsvImport";
+import { MigrationRunner } from "@/components/MigrationRunner";
+import { ExportFormat, exportRuns } from "@/lib/export";
+import { getSeasonStatus, validateSeason } from "@/lib/data/seasons";
+import { DEFAULT_WR_POINTS, DEFAULT_WR_RATIO_EXPONENT } from "@/lib/scoring";
+import { formatTime, getCategoryTimingMethods, getCategoryVariables } from "@/lib/utils";
 import { getCategoryName, getPlatformName, getLevelName, normalizeCategoryId, normalizePlatformId, normalizeLevelId } from "@/lib/dataValidation";
 import { db } from "@/lib/firebase";
 import { collection, query, getDocs, limit as firestoreLimit } from "firebase/firestore";
 import { Player } from "@/types/database";
 import { prepareRunForVerification, batchVerifyRuns } from "@/lib/data/runFieldService";
+import { PointsRecalculationPlan, PointsRecalculationProgress } from "@/lib/data/pointsRecalculation";
 import { getLeaderboardEntryById } from "@/lib/db";
 
 const Admin = () => {
   const { currentUser, loading: authLoading } = useAuth();
+  const { games, currentGame, refreshGames } = useGame();
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -113,7 +149,9 @@ const Admin = () => {
   const [showConfirmClearUnverifiedDialog, setShowConfirmClearUnverifiedDialog] = useState(false);
   const [batchVerifying, setBatchVerifying] = useState(false);
   const [batchVerifyingAll, setBatchVerifyingAll] = useState(false);
-  const [recentRuns, setRecentRuns] = useState<LeaderboardEntry[]>([]);
+  const [recentRunsPage, setRecentRunsPage] = useState<Page<LeaderboardEntry>>({ items: [], nextCursor: null, prevCursor: null });
+  const recentRuns = recentRunsPage.items;
+  const recentRunsPagination = useCursorPagination("recent");
   const [loadingRecentRuns, setLoadingRecentRuns] = useState(false);
   const [deletingRunId, setDeletingRunId] = useState<string | null>(null);
   const [wipingImportedRuns, setWipingImportedRuns] = useState(false);
@@ -154,6 +192,7 @@ const Admin = () => {
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [editingCategoryName, setEditingCategoryName] = useState("");
   const [editingCategorySrcId, setEditingCategorySrcId] = useState("");
+  const [editingCategoryTimingMethods, setEditingCategoryTimingMethods] = useState<TimingMethod[]>([]);
   const [addingCategory, setAddingCategory] = useState(false);
   const [updatingCategory, setUpdatingCategory] = useState(false);
   const [reorderingCategory, setReorderingCategory] = useState<string | null>(null);
@@ -161,8 +200,13 @@ const Admin = () => {
   // Subcategory management state
   const [categoryManagementTab, setCategoryManagementTab] = useState<'categories' | 'subcategories'>('categories');
   const [selectedCategoryForSubcategories, setSelectedCategoryForSubcategories] = useState<Category | null>(null);
-  const [srcVariables, setSrcVariables] = useState<Array<{ id: string; name: string; values: { values: Record<string, { label: string }> } }>>([]);
+  const [srcVariables, setSrcVariables] = useState<Array<{ id: string; name: string; "is-subcategory"?: boolean; values: { values: Record<string, { label: string }> } }>>([]);
   const [loadingSRCVariables, setLoadingSRCVariables] = useState(false);
+  // Variable management state (shares the selected category with subcategory management)
+  const [newVariableName, setNewVariableName] = useState("");
+  const [newVariableIsSubcategory, setNewVariableIsSubcategory] = useState(true);
+  const [newVariableValueNames, setNewVariableValueNames] = useState<Record<string, string>>({});
+  const [updatingVariables, setUpdatingVariables] = useState(false);
   const [editingSubcategory, setEditingSubcategory] = useState<Subcategory | null>(null);
   const [newSubcategoryName, setNewSubcategoryName] = useState("");
   const [editingSubcategoryName, setEditingSubcategoryName] = useState("");
@@ -178,6 +222,11 @@ const Admin = () => {
   const [updatingPlatform, setUpdatingPlatform] = useState(false);
   const [reorderingPlatform, setReorderingPlatform] = useState<string | null>(null);
   
+  const [newGame, setNewGame] = useState({ id: "", name: "", shortName: "", srcAbbreviation: "", twitchChannel: "" });
+  const [addingGame, setAddingGame] = useState(false);
+  const [editingGame, setEditingGame] = useState<Game | null>(null);
+  const [updatingGame, setUpdatingGame] = useState(false);
+  
   const [newLevelName, setNewLevelName] = useState("");
   const [editingLevel, setEditingLevel] = useState<{ id: string; name: string } | null>(null);
   const [editingLevelName, setEditingLevelName] = useState("");
@@ -211,6 +260,8 @@ const Admin = () => {
   const [foundPlayer, setFoundPlayer] = useState<{ uid: string; displayName: string; email: string; isAdmin: boolean } | null>(null);
   const [searchingPlayer, setSearchingPlayer] = useState(false);
   const [backfillingPoints, setBackfillingPoints] = useState(false);
+  const [rebuildingRanks, setRebuildingRanks] = useState(false);
+  const [indexingDisplayNames, setIndexingDisplayNames] = useState(false);
   const [duplicateRuns, setDuplicateRuns] = useState<Array<{ runs: LeaderboardEntry[]; key: string }>>([]);
   const [loadingDuplicates, setLoadingDuplicates] = useState(false);
   const [removingDuplicates, setRemovingDuplicates] = useState(false);
@@ -223,6 +274,10 @@ const Admin = () => {
   const [playersSearchQuery, setPlayersSearchQuery] = useState("");
   const [playersSortBy, setPlayersSortBy] = useState<'joinDate' | 'displayName' | 'totalPoints' | 'totalRuns'>('joinDate');
   const [playersSortOrder, setPlayersSortOrder] = useState<'asc' | 'desc'>('desc');
+  // Browsing pages through the data layer; searching loads all users and filters client-side
+  const [playersCursorPage, setPlayersCursorPage] = useState<Page<Player>>({ items: [], nextCursor: null, prevCursor: null });
+  const usersPagination = useCursorPagination("users");
+  const isSearchingPlayers = playersSearchQuery.trim() !== "";
   const [editingPlayer, setEditingPlayer] = useState<Player | null>(null);
   const [editingPlayerForm, setEditingPlayerForm] = useState<Partial<Player>>({});
   const [savingPlayer, setSavingPlayer] = useState(false);
@@ -236,6 +291,14 @@ const Admin = () => {
   const [loadingPointsConfig, setLoadingPointsConfig] = useState(false);
   const [savingPointsConfig, setSavingPointsConfig] = useState(false);
   const [pointsConfigForm, setPointsConfigForm] = useState<Partial<PointsConfig>>({});
+  const [pointsRecalculationPlan, setPointsRecalculationPlan] = useState<PointsRecalculationPlan | null>(null);
+  const [pointsRecalculationProgress, setPointsRecalculationProgress] = useState<PointsRecalculationProgress | null>(null);
+  const [pointsPreviewPlayers, setPointsPreviewPlayers] = useState<Player[]>([]);
+  const [pointsConfigHistory, setPointsConfigHistory] = useState<PointsConfigVersion[]>([]);
+  const [pointsCategories, setPointsCategories] = useState<Category[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [newSeason, setNewSeason] = useState({ name: "", startDate: "", endDate: "" });
+  const [savingSeason, setSavingSeason] = useState(false);
 
   useEffect(() => {
     fetchPlatforms();
@@ -309,9 +372,19 @@ const Admin = () => {
       const loadPointsConfig = async () => {
         setLoadingPointsConfig(true);
         try {
-          const config = await getPointsConfig();
+          const [config, history, regularCategories, ilCategories, communityGoldsCategories, seasonsData] = await Promise.all([
+            getPointsConfig(),
+            getPointsConfigHistory(),
+            getCategories('regular'),
+            getCategories('individual-level'),
+            getCategories('community-golds'),
+            getSeasons(),
+          ]);
           setPointsConfig(config);
           setPointsConfigForm(config);
+          setPointsConfigHistory(history);
+          setSeasons(seasonsData);
+          setPointsCategories([...regularCategories, ...ilCategories, ...communityGoldsCategories]);
         } catch (error) {
           toast({
             title: "Error",
@@ -326,38 +399,183 @@ const Admin = () => {
     }
   }, [activeTab, toast]);
 
-  const handleSavePointsConfig = async () => {
+  // A preview only applies to the form values it was made from
+  useEffect(() => {
+    setPointsRecalculationPlan(null);
+  }, [pointsConfigForm]);
+
+  // Work out which runs and players the new configuration changes before saving anything
+  const handlePreviewPointsConfig = async () => {
     if (!pointsConfig) return;
     
+    setSavingPointsConfig(true);
+    setPointsRecalculationPlan(null);
+    try {
+      // Apply the draft to every verified run and compare the studs leaderboard it would produce
+      const [plan, players] = await Promise.all([
+        planPointsRecalculation(
+          { type: 'config', config: { ...pointsConfig, ...pointsConfigForm } },
+          setPointsRecalculationProgress
+        ),
+        getPlayersByPoints(1000),
+      ]);
+      setPointsPreviewPlayers(players);
+      setPointsRecalculationPlan(plan);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to preview points changes.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingPointsConfig(false);
+      setPointsRecalculationProgress(null);
+    }
+  };
+
+  const handleSavePointsConfig = async () => {
+    if (!pointsConfig || !pointsRecalculationPlan) return;
+    
     setSavingPointsConfig(true);
     try {
-      const success = await updatePointsConfig(pointsConfigForm);
+      const success = await updatePointsConfig(pointsConfigForm, {
+        uid: currentUser?.uid || "",
+        name: currentUser?.displayName || currentUser?.email || undefined,
+      });
       if (success) {
-        // Reload config to get updated values
-        const updatedConfig = await getPointsConfig();
-        setPointsConfig(updatedConfig);
-        setPointsConfigForm(updatedConfig);
-        
         // Clear cache so new config is used immediately
         const { clearPointsConfigCache } = await import("@/lib/utils");
         clearPointsConfigCache();
         
-        toast({
-          title: "Success",
-          description: "Points configuration saved successfully.",
-        });
+        // Only the runs and players in the preview are rewritten
+        const result = await applyPointsRecalculation(pointsRecalculationPlan, setPointsRecalculationProgress);
+        setPointsRecalculationPlan(null);
+        
+        // Reload config to get updated values
+        const [updatedConfig, history] = await Promise.all([getPointsConfig(), getPointsConfigHistory()]);
+        setPointsConfig(updatedConfig);
+        setPointsConfigForm(updatedConfig);
+        setPointsConfigHistory(history);
+        
+        if (result.errors.length > 0) {
+          toast({
+            title: "Saved with Errors",
+            description: `Configuration saved. Updated ${result.runsUpdated} runs and ${result.playersUpdated} players. ${result.errors.length} error(s) occurred.`,
+            variant: "destructive",
+          });
+        } else {
+          toast({
+            title: "Success",
+            description: `Points configuration saved. Updated ${result.runsUpdated} runs and ${result.playersUpdated} players.`,
+          });
+        }
       } else {
         throw new Error("Failed to save configuration");
       }
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message || "Failed to save points configuration.",
+        description: error instanceof Error ? error.message : "Failed to save points configuration.",
         variant: "destructive",
       });
     } finally {
       setSavingPointsConfig(false);
+      setPointsRecalculationProgress(null);
+    }
+  };
+
+  const handleAddSeason = async () => {
+    const validationError = validateSeason(newSeason);
+    if (validationError) {
+      toast({
+        title: "Invalid Season",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+    setSavingSeason(true);
+    try {
+      const seasonId = await addSeason(newSeason);
+      if (!seasonId) {
+        throw new Error("Failed to add season");
+      }
+      setNewSeason({ name: "", startDate: "", endDate: "" });
+      setSeasons(await getSeasons());
+      toast({
+        title: "Season Added",
+        description: `${newSeason.name.trim()} has been added.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add season.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingSeason(false);
+    }
+  };
+
+  const handleDeleteSeason = async (season: Season) => {
+    if (!window.confirm(`Are you sure you want to delete ${season.name}? Its standings${season.archived ? " and archived results" : ""} will no longer be shown.`)) {
+      return;
     }
+    try {
+      if (!await deleteSeason(season.id)) {
+        throw new Error("Failed to delete season");
+      }
+      setSeasons(seasons.filter(s => s.id !== season.id));
+      toast({
+        title: "Season Deleted",
+        description: `${season.name} has been deleted.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete season.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleArchiveSeason = async (season: Season) => {
+    if (!window.confirm(`Finalize ${season.name}? Its current standings become the final results and later changes to its runs won't affect them.`)) {
+      return;
+    }
+    setSavingSeason(true);
+    try {
+      if (!await archiveSeason(season.id)) {
+        throw new Error("Failed to archive season");
+      }
+      setSeasons(await getSeasons());
+      toast({
+        title: "Season Finalized",
+        description: `${season.name}'s final standings have been archived.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to archive season.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingSeason(false);
+    }
+  };
+
+  const handleExportAllRuns = async (format: ExportFormat) => {
+    const [runs, categories, platforms, levels] = await Promise.all([
+      getAllVerifiedRuns(),
+      getCategoriesFromFirestore(),
+      getPlatformsFromFirestore(),
+      getLevels(),
+    ]);
+    exportRuns(runs, { categories, platforms, levels }, format, `verified-runs-${new Date().toISOString().slice(0, 10)}`);
+    toast({
+      title: "Export Ready",
+      description: `Exported ${runs.length} verified runs.`,
+    });
   };
 
   // Fetch categories for level management when levelLeaderboardType changes
@@ -707,8 +925,8 @@ const Admin = () => {
   const fetchRecentRuns = async () => {
     setLoadingRecentRuns(true);
     try {
-      const data = await getRecentRuns(50); // Fetch 50 most recent runs
-      setRecentRuns(data);
+      const page = await getRecentRunsPage(recentRunsPagination.request);
+      setRecentRunsPage(page);
     } catch (error) {
       toast({
         title: "Error",
@@ -721,7 +939,7 @@ const Admin = () => {
   };
 
   const handleDeleteRecentRun = async (runId: string) => {
-    if (!window.confirm("Are you sure you want to delete this run? This action cannot be undone.")) {
+    if (!window.confirm("Are you sure you want to delete this run? It will be moved to the trash, where it can be restored for 30 days.")) {
       return;
     }
     
@@ -734,7 +952,7 @@ const Admin = () => {
           description: "The run has been successfully deleted.",
         });
         // Remove from local state and refresh
-        setRecentRuns(prev => prev.filter(run => run.id !== runId));
+        setRecentRunsPage(prev => ({ ...prev, items: prev.items.filter(run => run.id !== runId) }));
         await refreshAllRunData();
       } else {
         throw new Error("Failed to delete run.");
@@ -750,10 +968,10 @@ const Admin = () => {
     }
   };
 
-  // Fetch recent runs on mount
+  // Fetch recent runs on mount and when the page changes
   useEffect(() => {
     fetchRecentRuns();
-  }, []);
+  }, [recentRunsPagination.request]);
 
   // Fetch data on mount
   useEffect(() => {
@@ -1064,7 +1282,7 @@ const Admin = () => {
       });
 
       // Use the new import service
-      const result: ImportResult = await importSRCRuns((progress) => {
+      const result: ImportResult = await importSRCRuns(currentGame.srcAbbreviation, (progress) => {
         setImportProgress(progress);
       });
       
@@ -1109,11 +1327,11 @@ const Admin = () => {
   const fetchSRCCategoriesWithVariables = async () => {
     setLoadingSRCCategories(true);
     try {
-      const gameId = await getLSWGameId();
+      const gameId = currentGame.srcAbbreviation ? await getSRCGameId(currentGame.srcAbbreviation) : null;
       if (!gameId) {
         toast({
           title: "Error",
-          description: "Could not find LEGO Star Wars game on speedrun.com",
+          description: `Could not find ${currentGame.name} on speedrun.com. Check the game's SRC abbreviation.`,
           variant: "destructive",
         });
         return;
@@ -1151,7 +1369,7 @@ const Admin = () => {
 
 
   const handleClearImportedRuns = async () => {
-    if (!window.confirm("Are you sure you want to delete all imported runs from speedrun.com? This action cannot be undone.")) {
+    if (!window.confirm("Are you sure you want to delete all imported runs from speedrun.com? They will be moved to the trash, where they can be restored for 30 days.")) {
       return;
     }
 
@@ -1709,12 +1927,29 @@ const Admin = () => {
     setEditingCategory(category);
     setEditingCategoryName(category.name);
     setEditingCategorySrcId(category.srcCategoryId || "");
+    setEditingCategoryTimingMethods(getCategoryTimingMethods(category));
   };
   
   const handleCancelEditCategory = () => {
     setEditingCategory(null);
     setEditingCategoryName("");
     setEditingCategorySrcId("");
+    setEditingCategoryTimingMethods([]);
+  };
+  
+  // Toggle a timing method for the category being edited (at least one must stay enabled)
+  const handleToggleEditingCategoryTimingMethod = (method: TimingMethod) => {
+    setEditingCategoryTimingMethods(prev => {
+      if (prev.includes(method)) {
+        return prev.length > 1 ? prev.filter(m => m !== method) : prev;
+      }
+      return [...prev, method];
+    });
+  };
+  
+  // Make a timing method the primary (ranking) method by moving it to the front
+  const handleSetEditingCategoryPrimaryTiming = (method: TimingMethod) => {
+    setEditingCategoryTimingMethods(prev => [method, ...prev.filter(m => m !== method)]);
   };
   
   const handleSaveEditCategory = async () => {
@@ -1729,7 +1964,13 @@ const Admin = () => {
       const subcategories = currentCategory?.subcategories || [];
       const srcCategoryId = editingCategorySrcId.trim() || null;
       
-      const success = await updateCategory(editingCategory.id, editingCategoryName.trim(), subcategories, srcCategoryId);
+      let success = await updateCategory(editingCategory.id, editingCategoryName.trim(), subcategories, srcCategoryId);
+      
+      // Only write timing methods if they changed, so untouched categories keep their defaults
+      const currentTimingMethods = getCategoryTimingMethods(currentCategory);
+      if (success && editingCategoryTimingMethods.length > 0 && editingCategoryTimingMethods.join(",") !== currentTimingMethods.join(",")) {
+        success = await updateCategoryTimingMethods(editingCategory.id, editingCategoryTimingMethods, editingCategoryTimingMethods[0]);
+      }
       if (success) {
         toast({
           title: "Category Updated",
@@ -1745,6 +1986,7 @@ const Admin = () => {
         setEditingCategory(null);
         setEditingCategoryName("");
         setEditingCategorySrcId("");
+        setEditingCategoryTimingMethods([]);
         fetchCategories(categoryLeaderboardType);
       } else {
         throw new Error("Another category with this name already exists.");
@@ -2245,6 +2487,271 @@ const Admin = () => {
     }
   };
 
+  // Variable management handlers
+  const getSelectedCategoryVariables = (): CategoryVariable[] => {
+    if (!selectedCategoryForSubcategories) return [];
+    const currentCategory = firestoreCategories.find(c => c.id === selectedCategoryForSubcategories.id) as Category | undefined;
+    return getCategoryVariables(currentCategory || selectedCategoryForSubcategories);
+  };
+
+  const saveCategoryVariables = async (variables: CategoryVariable[], successTitle: string, successDescription: string): Promise<boolean> => {
+    if (!selectedCategoryForSubcategories) return false;
+    
+    setUpdatingVariables(true);
+    try {
+      // Store the current display order so it survives round trips
+      const orderedVariables = variables.map((variable, index) => ({
+        ...variable,
+        order: index + 1,
+        values: variable.values.map((value, valueIndex) => ({ ...value, order: valueIndex + 1 })),
+      }));
+      const success = await updateCategoryVariables(selectedCategoryForSubcategories.id, orderedVariables);
+      if (!success) {
+        throw new Error("Failed to update variables. Variable and value names must be unique.");
+      }
+      
+      toast({
+        title: successTitle,
+        description: successDescription,
+      });
+      await fetchCategories(categoryLeaderboardType);
+      // Refresh selected category
+      const updated = await getCategoriesFromFirestore(categoryLeaderboardType);
+      const refreshed = updated.find(c => c.id === selectedCategoryForSubcategories.id) as Category | undefined;
+      if (refreshed) {
+        setSelectedCategoryForSubcategories(refreshed);
+      }
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update variables.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setUpdatingVariables(false);
+    }
+  };
+
+  const handleAddVariable = async () => {
+    if (!newVariableName.trim()) return;
+    
+    const newVariable: CategoryVariable = {
+      id: `var_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: newVariableName.trim(),
+      isSubcategory: newVariableIsSubcategory,
+      values: [],
+    };
+    const success = await saveCategoryVariables(
+      [...getSelectedCategoryVariables(), newVariable],
+      "Variable Added",
+      `Added "${newVariable.name}". Add some values to start using it.`
+    );
+    if (success) {
+      setNewVariableName("");
+    }
+  };
+
+  const handleToggleVariableSubcategory = async (variableId: string) => {
+    const variables = getSelectedCategoryVariables().map(variable =>
+      variable.id === variableId ? { ...variable, isSubcategory: !variable.isSubcategory } : variable
+    );
+    const variable = variables.find(v => v.id === variableId);
+    await saveCategoryVariables(
+      variables,
+      "Variable Updated",
+      variable?.isSubcategory
+        ? `"${variable.name}" now splits the leaderboard.`
+        : `"${variable?.name}" is now a leaderboard filter.`
+    );
+  };
+
+  const handleDeleteVariable = async (variableId: string) => {
+    if (!window.confirm("Are you sure you want to delete this variable? Runs keep their values but they will no longer be shown or filtered.")) {
+      return;
+    }
+    await saveCategoryVariables(
+      getSelectedCategoryVariables().filter(variable => variable.id !== variableId),
+      "Variable Deleted",
+      "Variable has been removed."
+    );
+  };
+
+  const handleAddVariableValue = async (variableId: string) => {
+    const valueName = (newVariableValueNames[variableId] || "").trim();
+    if (!valueName) return;
+    
+    const variables = getSelectedCategoryVariables().map(variable =>
+      variable.id === variableId
+        ? {
+            ...variable,
+            values: [...variable.values, { id: `val_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, name: valueName }],
+          }
+        : variable
+    );
+    const success = await saveCategoryVariables(variables, "Value Added", `Added "${valueName}".`);
+    if (success) {
+      setNewVariableValueNames(prev => ({ ...prev, [variableId]: "" }));
+    }
+  };
+
+  const handleDeleteVariableValue = async (variableId: string, valueId: string) => {
+    if (!window.confirm("Are you sure you want to delete this value? This may affect existing runs.")) {
+      return;
+    }
+    const variables = getSelectedCategoryVariables().map(variable =>
+      variable.id === variableId
+        ? { ...variable, values: variable.values.filter(value => value.id !== valueId) }
+        : variable
+    );
+    await saveCategoryVariables(variables, "Value Deleted", "Value has been removed.");
+  };
+
+  const handleImportVariablesFromSRC = async () => {
+    if (!selectedCategoryForSubcategories || !srcVariables.length) {
+      toast({
+        title: "Error",
+        description: "Please select a category with SRC variables available.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    // Merge SRC variables into copies of the existing ones, matching by SRC ID then by name
+    const variables = getSelectedCategoryVariables().map(variable => ({
+      ...variable,
+      values: variable.values.map(value => ({ ...value })),
+    }));
+    let addedVariables = 0;
+    let addedValues = 0;
+    
+    for (const srcVariable of srcVariables) {
+      let variable = variables.find(v => v.srcVariableId === srcVariable.id)
+        || variables.find(v => v.name.toLowerCase().trim() === srcVariable.name.toLowerCase().trim());
+      if (!variable) {
+        variable = {
+          id: `var_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: srcVariable.name,
+          isSubcategory: srcVariable["is-subcategory"] === true,
+          srcVariableId: srcVariable.id,
+          values: [],
+        };
+        variables.push(variable);
+        addedVariables++;
+      } else if (!variable.srcVariableId) {
+        variable.srcVariableId = srcVariable.id;
+      }
+      
+      for (const [valueId, valueData] of Object.entries(srcVariable.values.values)) {
+        const existingValue = variable.values.find(v => v.srcValueId === valueId)
+          || variable.values.find(v => v.name.toLowerCase().trim() === valueData.label.toLowerCase().trim());
+        if (existingValue) {
+          existingValue.srcValueId = existingValue.srcValueId || valueId;
+          continue;
+        }
+        variable.values.push({
+          id: `val_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: valueData.label,
+          srcValueId: valueId,
+        });
+        addedValues++;
+      }
+    }
+    
+    await saveCategoryVariables(
+      variables,
+      "Variables Imported",
+      `Imported ${addedVariables} variable(s) and ${addedValues} value(s) from SRC.`
+    );
+  };
+
+  // Game management handlers
+  const handleAddGame = async () => {
+    if (!newGame.id.trim() || !newGame.name.trim()) {
+      return;
+    }
+    setAddingGame(true);
+    try {
+      const gameId = await addGame(newGame);
+      if (gameId) {
+        toast({
+          title: "Game Added",
+          description: `${newGame.name.trim()} is now available at /${gameId}.`,
+        });
+        setNewGame({ id: "", name: "", shortName: "", srcAbbreviation: "", twitchChannel: "" });
+        await refreshGames();
+      } else {
+        throw new Error("The URL slug must be unique and only use lowercase letters, numbers and dashes.");
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add game.",
+        variant: "destructive",
+      });
+    } finally {
+      setAddingGame(false);
+    }
+  };
+
+  const handleSaveEditGame = async () => {
+    if (!editingGame || !editingGame.name.trim()) {
+      return;
+    }
+    setUpdatingGame(true);
+    try {
+      const success = await updateGame(editingGame.id, {
+        name: editingGame.name,
+        shortName: editingGame.shortName || "",
+        srcAbbreviation: editingGame.srcAbbreviation || "",
+        twitchChannel: editingGame.twitchChannel || "",
+      });
+      if (success) {
+        toast({
+          title: "Game Updated",
+          description: "Game has been updated.",
+        });
+        setEditingGame(null);
+        await refreshGames();
+      } else {
+        throw new Error("Failed to update game.");
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update game.",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingGame(false);
+    }
+  };
+
+  const handleDeleteGame = async (gameId: string) => {
+    if (!window.confirm("Are you sure you want to delete this game?")) {
+      return;
+    }
+    try {
+      const success = await deleteGame(gameId);
+      if (success) {
+        toast({
+          title: "Game Deleted",
+          description: "Game has been removed.",
+        });
+        await refreshGames();
+      } else {
+        throw new Error("The default game and games that still have categories can't be deleted.");
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete game.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Platform management handlers
   const handleAddPlatform = async () => {
     if (!newPlatformName.trim()) {
@@ -2609,8 +3116,13 @@ const Admin = () => {
   const fetchPlayers = async () => {
     setLoadingPlayers(true);
     try {
-      const players = await getAllPlayers(playersSortBy, playersSortOrder);
-      setAllPlayers(players);
+      if (isSearchingPlayers) {
+        const players = await getAllPlayers(playersSortBy, playersSortOrder);
+        setAllPlayers(players);
+      } else {
+        const page = await getPlayersPage(playersSortBy, playersSortOrder, usersPagination.request);
+        setPlayersCursorPage(page);
+      }
     } catch (error) {
       toast({
         title: "Error",
@@ -2626,7 +3138,7 @@ const Admin = () => {
     if (activeTab === "users") {
       fetchPlayers();
     }
-  }, [activeTab, playersSortBy, playersSortOrder]);
+  }, [activeTab, playersSortBy, playersSortOrder, usersPagination.request, isSearchingPlayers]);
 
   // Auto-run duplicate checking when tools tab is opened
   useEffect(() => {
@@ -2665,6 +3177,12 @@ const Admin = () => {
     
     setSavingPlayer(true);
     try {
+      if (editingPlayerForm.displayName !== undefined) {
+        const isAvailable = await isDisplayNameAvailable(editingPlayerForm.displayName, editingPlayer.uid);
+        if (!isAvailable) {
+          throw new Error("This display name is already taken.");
+        }
+      }
       const success = await updatePlayer(editingPlayer.id, editingPlayerForm);
       if (success) {
         toast({
@@ -2735,10 +3253,9 @@ const Admin = () => {
     );
   });
 
-  const paginatedPlayers = filteredPlayers.slice(
-    (playersPage - 1) * itemsPerPage,
-    playersPage * itemsPerPage
-  );
+  const paginatedPlayers = isSearchingPlayers
+    ? filteredPlayers.slice((playersPage - 1) * itemsPerPage, playersPage * itemsPerPage)
+    : playersCursorPage.items;
 
   const handleAddManualRun = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -2906,7 +3423,7 @@ const Admin = () => {
           </h1>
           </div>
           <p className="text-base text-ctp-subtext1 max-w-3xl mx-auto animate-fade-in-delay">
-            Review and manage submitted speedruns and site resources.
+            Review and manage submitted speedruns and site resources for {currentGame.name}.
           </p>
         </div>
 
@@ -2918,6 +3435,13 @@ const Admin = () => {
             >
               Unverified Runs
             </TabsTrigger>
+            <TabsTrigger 
+              value="games" 
+              className="data-[state=active]:bg-[#f9e2af] data-[state=active]:text-[#11111b] bg-ctp-surface0 text-ctp-text transition-all duration-300 font-medium border border-transparent hover:bg-ctp-surface1 hover:border-[#f9e2af]/50 text-xs sm:text-sm py-1.5 sm:py-2 px-2 sm:px-3 whitespace-nowrap"
+            >
+              <Gamepad2 className="h-4 w-4 mr-1.5" />
+              Games
+            </TabsTrigger>
             <TabsTrigger 
               value="categories" 
               className="data-[state=active]:bg-[#f9e2af] data-[state=active]:text-[#11111b] bg-ctp-surface0 text-ctp-text transition-all duration-300 font-medium border border-transparent hover:bg-ctp-surface1 hover:border-[#f9e2af]/50 text-xs sm:text-sm py-1.5 sm:py-2 px-2 sm:px-3 whitespace-nowrap"
@@ -2967,21 +3491,110 @@ const Admin = () => {
             >
               Tools
             </TabsTrigger>
+            <TabsTrigger 
+              value="audit" 
+              className="data-[state=active]:bg-[#f9e2af] data-[state=active]:text-[#11111b] bg-ctp-surface0 text-ctp-text transition-all duration-300 font-medium border border-transparent hover:bg-ctp-surface1 hover:border-[#f9e2af]/50 text-xs sm:text-sm py-1.5 sm:py-2 px-2 sm:px-3 whitespace-nowrap"
+            >
+              <ScrollText className="h-4 w-4 mr-1.5" />
+              Audit
+            </TabsTrigger>
+            <TabsTrigger 
+              value="trash" 
+              className="data-[state=active]:bg-[#f9e2af] data-[state=active]:text-[#11111b] bg-ctp-surface0 text-ctp-text transition-all duration-300 font-medium border border-transparent hover:bg-ctp-surface1 hover:border-[#f9e2af]/50 text-xs sm:text-sm py-1.5 sm:py-2 px-2 sm:px-3 whitespace-nowrap"
+            >
+              <RotateCcw className="h-4 w-4 mr-1.5" />
+              Trash
+            </TabsTrigger>
           </TabsList>
 
+          {/* Audit Log Section */}
+          <TabsContent value="audit" className="space-y-4 animate-fade-in">
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#f2cdcd]">
+                  <ScrollText className="h-5 w-5" />
+                  Audit Log
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <AuditLog />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Trash Section */}
+          <TabsContent value="trash" className="space-y-4 animate-fade-in">
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#f2cdcd]">
+                  <RotateCcw className="h-5 w-5" />
+                  Trash
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <TrashBin />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Tools Section */}
           <TabsContent value="tools" className="space-y-4 animate-fade-in">
-            {/* Duplicate Detection Card */}
+            {/* Data Export Card */}
             <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
               <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
                 <CardTitle className="flex items-center gap-2 text-xl text-[#f2cdcd]">
                   <span>
-                    Duplicate Run Detection
+                    Export Verified Runs
                   </span>
                 </CardTitle>
               </CardHeader>
-              <CardContent className="pt-6">
-                <p className="text-sm text-ctp-subtext1 leading-relaxed mb-4">
+              <CardContent className="pt-6 flex items-center justify-between gap-4 flex-wrap">
+                <p className="text-sm text-ctp-subtext1 leading-relaxed">
+                  Download every verified run as a spreadsheet (CSV) or JSON, with category, platform and level names, formatted times and run links.
+                </p>
+                <ExportMenu onExport={handleExportAllRuns} label="Export All" />
+              </CardContent>
+            </Card>
+
+            {/* Backup & Restore Card */}
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#f2cdcd]">
+                  <span>
+                    Backup &amp; Restore
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <BackupRestore />
+              </CardContent>
+            </Card>
+
+            {/* Schema Migrations Card */}
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#f2cdcd]">
+                  <span>
+                    Schema Migrations
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <MigrationRunner />
+              </CardContent>
+            </Card>
+
+            {/* Duplicate Detection Card */}
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#f2cdcd]">
+                  <span>
+                    Duplicate Run Detection
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <p className="text-sm text-ctp-subtext1 leading-relaxed mb-4">
                   Find and remove duplicate runs from the database. Duplicates are detected based on player names, category, platform, run type, time, leaderboard type, and level. When removing duplicates, the system keeps the best run (verified over unverified, older date over newer).
                 </p>
                 
@@ -3143,7 +3756,7 @@ const Admin = () => {
                       onClick={async () => {
                         if (!window.confirm(
                           `This will remove ${duplicateRuns.reduce((sum, group) => sum + group.runs.length - 1, 0)} duplicate run(s). ` +
-                          "This operation cannot be undone. Continue?"
+                          "They will be moved to the trash, where they can be restored for 30 days. Continue?"
                         )) {
                           return;
                         }
@@ -3420,7 +4033,7 @@ const Admin = () => {
                     <div>
                       <h4 className="text-sm font-semibold text-[#f2cdcd] mb-1">Wipe All Imported SRC Runs</h4>
                       <p className="text-xs text-[hsl(222,15%,60%)]">
-                        Delete all runs imported from Speedrun.com (both verified and unverified). This action cannot be undone.
+                        Delete all runs imported from Speedrun.com (both verified and unverified). They are moved to the trash for 30 days.
                       </p>
                     </div>
                   </div>
@@ -3436,7 +4049,7 @@ const Admin = () => {
                     onClick={async () => {
                       if (!window.confirm(
                         "WARNING: This will delete ALL runs imported from Speedrun.com, including verified runs.\n\n" +
-                        "This action cannot be undone. Are you absolutely sure you want to continue?"
+                        "They will be moved to the trash for 30 days. Are you absolutely sure you want to continue?"
                       )) {
                         return;
                       }
@@ -3578,6 +4191,17 @@ const Admin = () => {
                         })}
                       </TableBody>
                     </Table>
+                    {(recentRunsPage.prevCursor || recentRunsPage.nextCursor) && (
+                      <div className="mt-4">
+                        <CursorPagination
+                          pageNumber={recentRunsPagination.pageNumber}
+                          prevCursor={recentRunsPage.prevCursor}
+                          nextCursor={recentRunsPage.nextCursor}
+                          onPrev={recentRunsPagination.goToPrev}
+                          onNext={recentRunsPagination.goToNext}
+                        />
+                      </div>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -3644,7 +4268,7 @@ const Admin = () => {
                         type="text"
                         value={manualRun.time}
                         onChange={(e) => setManualRun({ ...manualRun, time: e.target.value })}
-                        placeholder="HH:MM:SS"
+                        placeholder="HH:MM:SS or HH:MM:SS.mmm"
                         required
                         className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
                       />
@@ -4661,6 +5285,19 @@ const Admin = () => {
               </CardContent>
             </Card>
 
+            {/* Import Runs from CSV */}
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#f2cdcd]">
+                  <Upload className="h-5 w-5" />
+                  <span>Import Runs from CSV</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <RunCsvImport />
+              </CardContent>
+            </Card>
+
           </TabsContent>
 
         {/* Unverified Runs Section */}
@@ -4938,7 +5575,7 @@ const Admin = () => {
                                   size="sm"
                                   variant="destructive"
                                   onClick={async () => {
-                                    if (!window.confirm(`Delete this run permanently? This action cannot be undone.`)) return;
+                                    if (!window.confirm(`Delete this run? It will be moved to the trash, where it can be restored for 30 days.`)) return;
                                     try {
                                       await deleteLeaderboardEntry(run.id);
                                       toast({
@@ -4983,7 +5620,7 @@ const Admin = () => {
             <div className="py-4">
               <p className="text-[hsl(222,15%,60%)] mb-4">
                 Are you sure you want to delete all {unverifiedRuns.filter(run => !run.importedFromSRC).length} unverified runs?
-                This action cannot be undone and will permanently delete all manually submitted runs that are awaiting verification.
+                All manually submitted runs that are awaiting verification will be moved to the trash, where they can be restored for 30 days.
               </p>
               <p className="text-sm text-red-400 mb-4">
                 Note: This will only delete manually submitted runs. Imported runs will remain in the Imported Runs tab.
@@ -5318,6 +5955,7 @@ const Admin = () => {
                     <TableRow className="border-b border-[hsl(235,13%,30%)] hover:bg-transparent">
                               <TableHead className="py-2 px-3 text-left text-xs">Name</TableHead>
                               <TableHead className="py-2 px-3 text-left text-xs">SRC Category ID</TableHead>
+                              <TableHead className="py-2 px-3 text-left text-xs">Timing</TableHead>
                               <TableHead className="py-2 px-3 text-center text-xs">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -5350,6 +5988,48 @@ const Admin = () => {
                             </span>
                           )}
                         </TableCell>
+                                <TableCell className="py-2 px-3 text-sm">
+                                  {editingCategory?.id === category.id ? (
+                                    <div className="space-y-1">
+                                      <div className="flex flex-wrap gap-1">
+                                        {timingMethods.map((method) => (
+                                          <Badge
+                                            key={method.id}
+                                            variant="outline"
+                                            onClick={() => handleToggleEditingCategoryTimingMethod(method.id)}
+                                            className={`cursor-pointer text-xs ${editingCategoryTimingMethods.includes(method.id) ? 'border-[#94e2d5] text-[#94e2d5]' : 'border-[hsl(235,13%,30%)] text-[hsl(222,15%,60%)]'}`}
+                                            title={method.name}
+                                          >
+                                            {method.shortName}
+                                          </Badge>
+                                        ))}
+                                      </div>
+                                      {editingCategoryTimingMethods.length > 1 && (
+                                        <Select
+                                          value={editingCategoryTimingMethods[0]}
+                                          onValueChange={(value) => handleSetEditingCategoryPrimaryTiming(value as TimingMethod)}
+                                        >
+                                          <SelectTrigger className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-7 text-xs">
+                                            <SelectValue placeholder="Rank by" />
+                                          </SelectTrigger>
+                                          <SelectContent>
+                                            {timingMethods.filter(method => editingCategoryTimingMethods.includes(method.id)).map((method) => (
+                                              <SelectItem key={method.id} value={method.id} className="text-xs">
+                                                Rank by {method.shortName}
+                                              </SelectItem>
+                                            ))}
+                                          </SelectContent>
+                                        </Select>
+                                      )}
+                                    </div>
+                                  ) : (
+                                    <span className="text-[hsl(222,15%,60%)]">
+                                      {getCategoryTimingMethods(category)
+                                        .map(method => timingMethods.find(m => m.id === method)?.shortName || method)
+                                        .join(" / ")}
+                                    </span>
+                                  )}
+                                </TableCell>
                                 <TableCell className="py-2 px-3 text-center space-x-1">
                           {editingCategory?.id === category.id ? (
                             <>
@@ -5705,6 +6385,139 @@ const Admin = () => {
                                 );
                               })()}
                             </div>
+
+                            {/* Variables */}
+                            <div className="bg-[hsl(240,21%,15%)] rounded-lg p-4 border border-[hsl(235,13%,30%)] space-y-4">
+                              <div className="flex items-center justify-between gap-2 flex-wrap">
+                                <div>
+                                  <h4 className="text-sm font-semibold text-[#f2cdcd]">Variables</h4>
+                                  <p className="text-xs text-[hsl(222,15%,60%)] mt-1">
+                                    Combine several variables (e.g. version and difficulty). Subcategory variables split the leaderboard, filters narrow it down.
+                                  </p>
+                                </div>
+                                {selectedCategoryForSubcategories.srcCategoryId && srcVariables.length > 0 && (
+                                  <Button
+                                    onClick={handleImportVariablesFromSRC}
+                                    disabled={updatingVariables || loadingSRCVariables}
+                                    size="sm"
+                                    variant="outline"
+                                    className="border-[hsl(235,13%,30%)] text-xs"
+                                  >
+                                    <Download className="h-3 w-3 mr-1" />
+                                    Import Variables from SRC
+                                  </Button>
+                                )}
+                              </div>
+
+                              <form onSubmit={(e) => { e.preventDefault(); handleAddVariable(); }} className="flex flex-col sm:flex-row sm:items-end gap-3">
+                                <div className="flex-1">
+                                  <Label htmlFor="new-variable-name" className="text-xs">Variable Name</Label>
+                                  <Input
+                                    id="new-variable-name"
+                                    type="text"
+                                    value={newVariableName}
+                                    onChange={(e) => setNewVariableName(e.target.value)}
+                                    placeholder="e.g., Difficulty"
+                                    required
+                                    className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-9 text-sm"
+                                  />
+                                </div>
+                                <div className="flex items-center gap-2 h-9">
+                                  <Switch
+                                    id="new-variable-is-subcategory"
+                                    checked={newVariableIsSubcategory}
+                                    onCheckedChange={setNewVariableIsSubcategory}
+                                  />
+                                  <Label htmlFor="new-variable-is-subcategory" className="text-xs">Subcategory</Label>
+                                </div>
+                                <Button
+                                  type="submit"
+                                  disabled={updatingVariables}
+                                  size="sm"
+                                  className="bg-gradient-to-r from-[#cba6f7] to-[#b4a0e2] hover:from-[#b4a0e2] hover:to-[#cba6f7] text-[hsl(240,21%,15%)] font-bold flex items-center gap-2"
+                                >
+                                  <PlusCircle className="h-3 w-3" />
+                                  Add Variable
+                                </Button>
+                              </form>
+
+                              {(() => {
+                                const variables = getSelectedCategoryVariables();
+                                if (variables.length === 0) {
+                                  return (
+                                    <p className="text-[hsl(222,15%,60%)] text-center py-2 text-sm">
+                                      No variables yet.
+                                    </p>
+                                  );
+                                }
+
+                                return (
+                                  <div className="space-y-3">
+                                    {variables.map((variable) => (
+                                      <div key={variable.id} className="rounded-md border border-[hsl(235,13%,30%)] p-3">
+                                        <div className="flex items-center gap-2 flex-wrap mb-2">
+                                          <span className="font-medium text-sm">{variable.name}</span>
+                                          {variable.srcVariableId && (
+                                            <Badge variant="outline" className="text-xs border-green-600/50 text-green-400">SRC</Badge>
+                                          )}
+                                          <div className="ml-auto flex items-center gap-2">
+                                            <Switch
+                                              id={`variable-subcategory-${variable.id}`}
+                                              checked={variable.isSubcategory}
+                                              onCheckedChange={() => handleToggleVariableSubcategory(variable.id)}
+                                              disabled={updatingVariables}
+                                            />
+                                            <Label htmlFor={`variable-subcategory-${variable.id}`} className="text-xs">
+                                              {variable.isSubcategory ? "Subcategory" : "Filter"}
+                                            </Label>
+                                            <Button
+                                              variant="ghost"
+                                              size="sm"
+                                              onClick={() => handleDeleteVariable(variable.id)}
+                                              disabled={updatingVariables}
+                                              className="text-red-500 hover:bg-red-900/20 h-7 w-7 p-0"
+                                            >
+                                              <Trash2 className="h-3 w-3" />
+                                            </Button>
+                                          </div>
+                                        </div>
+                                        <div className="flex flex-wrap gap-2 mb-2">
+                                          {variable.values.length === 0 && (
+                                            <span className="text-xs text-[hsl(222,15%,60%)]">No values yet.</span>
+                                          )}
+                                          {variable.values.map((value) => (
+                                            <Badge key={value.id} variant="outline" className="border-[hsl(235,13%,30%)] text-xs flex items-center gap-1">
+                                              {value.name}
+                                              <button
+                                                type="button"
+                                                onClick={() => handleDeleteVariableValue(variable.id, value.id)}
+                                                disabled={updatingVariables}
+                                                className="text-red-400 hover:text-red-300"
+                                                aria-label={`Delete ${value.name}`}
+                                              >
+                                                <X className="h-3 w-3" />
+                                              </button>
+                                            </Badge>
+                                          ))}
+                                        </div>
+                                        <form onSubmit={(e) => { e.preventDefault(); handleAddVariableValue(variable.id); }} className="flex gap-2">
+                                          <Input
+                                            type="text"
+                                            value={newVariableValueNames[variable.id] || ""}
+                                            onChange={(e) => setNewVariableValueNames(prev => ({ ...prev, [variable.id]: e.target.value }))}
+                                            placeholder="New value"
+                                            className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-8 text-sm"
+                                          />
+                                          <Button type="submit" size="sm" variant="outline" disabled={updatingVariables} className="h-8 border-[hsl(235,13%,30%)]">
+                                            <PlusCircle className="h-3 w-3" />
+                                          </Button>
+                                        </form>
+                                      </div>
+                                    ))}
+                                  </div>
+                                );
+                              })()}
+                            </div>
                           </>
                         )}
 
@@ -5758,6 +6571,7 @@ const Admin = () => {
                               <TableRow className="border-b border-[hsl(235,13%,30%)] hover:bg-transparent">
                                 <TableHead className="py-2 px-3 text-left text-xs">Name</TableHead>
                                 <TableHead className="py-2 px-3 text-left text-xs">SRC Category ID</TableHead>
+                                <TableHead className="py-2 px-3 text-left text-xs">Timing</TableHead>
                                 <TableHead className="py-2 px-3 text-center text-xs">Actions</TableHead>
                               </TableRow>
                             </TableHeader>
@@ -5790,6 +6604,48 @@ const Admin = () => {
                                       </span>
                                     )}
                                   </TableCell>
+                                  <TableCell className="py-2 px-3 text-sm">
+                                    {editingCategory?.id === category.id ? (
+                                      <div className="space-y-1">
+                                        <div className="flex flex-wrap gap-1">
+                                          {timingMethods.map((method) => (
+                                            <Badge
+                                              key={method.id}
+                                              variant="outline"
+                                              onClick={() => handleToggleEditingCategoryTimingMethod(method.id)}
+                                              className={`cursor-pointer text-xs ${editingCategoryTimingMethods.includes(method.id) ? 'border-[#94e2d5] text-[#94e2d5]' : 'border-[hsl(235,13%,30%)] text-[hsl(222,15%,60%)]'}`}
+                                              title={method.name}
+                                            >
+                                              {method.shortName}
+                                            </Badge>
+                                          ))}
+                                        </div>
+                                        {editingCategoryTimingMethods.length > 1 && (
+                                          <Select
+                                            value={editingCategoryTimingMethods[0]}
+                                            onValueChange={(value) => handleSetEditingCategoryPrimaryTiming(value as TimingMethod)}
+                                          >
+                                            <SelectTrigger className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-7 text-xs">
+                                              <SelectValue placeholder="Rank by" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                              {timingMethods.filter(method => editingCategoryTimingMethods.includes(method.id)).map((method) => (
+                                                <SelectItem key={method.id} value={method.id} className="text-xs">
+                                                  Rank by {method.shortName}
+                                                </SelectItem>
+                                              ))}
+                                            </SelectContent>
+                                          </Select>
+                                        )}
+                                      </div>
+                                    ) : (
+                                      <span className="text-[hsl(222,15%,60%)]">
+                                        {getCategoryTimingMethods(category)
+                                          .map(method => timingMethods.find(m => m.id === method)?.shortName || method)
+                                          .join(" / ")}
+                                      </span>
+                                    )}
+                                  </TableCell>
                                   <TableCell className="py-2 px-3 text-center space-x-1">
                                     {editingCategory?.id === category.id ? (
                                       <>
@@ -6271,6 +7127,204 @@ const Admin = () => {
 
           </TabsContent>
 
+          {/* Games Section */}
+          <TabsContent value="games" className="space-y-4 animate-fade-in">
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#f2cdcd]">
+                  <span>Manage Games</span>
+                </CardTitle>
+                <p className="text-sm text-[hsl(222,15%,60%)]">
+                  Categories, levels, platforms, runs and points settings are managed per game. Use the game switcher in the header to manage another game.
+                </p>
+              </CardHeader>
+              <CardContent className="p-4">
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <div>
+                    <h3 className="text-base font-semibold mb-3">Add New Game</h3>
+                    <form onSubmit={(e) => { e.preventDefault(); handleAddGame(); }} className="space-y-3">
+                      <div>
+                        <Label htmlFor="gameId" className="text-sm">URL Slug</Label>
+                        <Input
+                          id="gameId"
+                          type="text"
+                          value={newGame.id}
+                          onChange={(e) => setNewGame({ ...newGame, id: e.target.value.toLowerCase() })}
+                          placeholder="e.g., lsw2"
+                          required
+                          className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-9 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="gameName" className="text-sm">Name</Label>
+                        <Input
+                          id="gameName"
+                          type="text"
+                          value={newGame.name}
+                          onChange={(e) => setNewGame({ ...newGame, name: e.target.value })}
+                          placeholder="e.g., LEGO Star Wars II: The Original Trilogy"
+                          required
+                          className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-9 text-sm"
+                        />
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <div>
+                          <Label htmlFor="gameShortName" className="text-sm">Short Name</Label>
+                          <Input
+                            id="gameShortName"
+                            type="text"
+                            value={newGame.shortName}
+                            onChange={(e) => setNewGame({ ...newGame, shortName: e.target.value })}
+                            placeholder="e.g., LSW2"
+                            className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-9 text-sm"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="gameSrcAbbreviation" className="text-sm">SRC Abbreviation</Label>
+                          <Input
+                            id="gameSrcAbbreviation"
+                            type="text"
+                            value={newGame.srcAbbreviation}
+                            onChange={(e) => setNewGame({ ...newGame, srcAbbreviation: e.target.value })}
+                            placeholder="e.g., lsw2"
+                            className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-9 text-sm"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="gameTwitchChannel" className="text-sm">Twitch Channel</Label>
+                          <Input
+                            id="gameTwitchChannel"
+                            type="text"
+                            value={newGame.twitchChannel}
+                            onChange={(e) => setNewGame({ ...newGame, twitchChannel: e.target.value })}
+                            placeholder="e.g., lsw2live"
+                            className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-9 text-sm"
+                          />
+                        </div>
+                      </div>
+                      <Button
+                        type="submit"
+                        disabled={addingGame}
+                        size="sm"
+                        className="bg-gradient-to-r from-[#cba6f7] to-[#b4a0e2] hover:from-[#b4a0e2] hover:to-[#cba6f7] text-[hsl(240,21%,15%)] font-bold flex items-center gap-2 transition-all duration-300 hover:scale-105 hover:shadow-lg"
+                      >
+                        <PlusCircle className="h-3 w-3" />
+                        {addingGame ? "Adding..." : "Add Game"}
+                      </Button>
+                    </form>
+                  </div>
+                  <div>
+                    <h3 className="text-base font-semibold mb-3">Existing Games</h3>
+                    <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="border-b border-[hsl(235,13%,30%)] hover:bg-transparent">
+                            <TableHead className="py-2 px-3 text-left text-xs">Game</TableHead>
+                            <TableHead className="py-2 px-3 text-left text-xs">SRC / Twitch</TableHead>
+                            <TableHead className="py-2 px-3 text-center text-xs">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {games.map((game) => (
+                            <TableRow key={game.id} className="border-b border-[hsl(235,13%,30%)] hover:bg-[hsl(235,19%,13%)] transition-all duration-200 hover:shadow-sm">
+                              {editingGame?.id === game.id ? (
+                                <>
+                                  <TableCell className="py-2 px-3 space-y-1">
+                                    <Input
+                                      value={editingGame.name}
+                                      onChange={(e) => setEditingGame({ ...editingGame, name: e.target.value })}
+                                      placeholder="Name"
+                                      className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-8 text-sm"
+                                      autoFocus
+                                    />
+                                    <Input
+                                      value={editingGame.shortName || ""}
+                                      onChange={(e) => setEditingGame({ ...editingGame, shortName: e.target.value })}
+                                      placeholder="Short name"
+                                      className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-8 text-sm"
+                                    />
+                                  </TableCell>
+                                  <TableCell className="py-2 px-3 space-y-1">
+                                    <Input
+                                      value={editingGame.srcAbbreviation || ""}
+                                      onChange={(e) => setEditingGame({ ...editingGame, srcAbbreviation: e.target.value })}
+                                      placeholder="SRC abbreviation"
+                                      className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-8 text-sm"
+                                    />
+                                    <Input
+                                      value={editingGame.twitchChannel || ""}
+                                      onChange={(e) => setEditingGame({ ...editingGame, twitchChannel: e.target.value })}
+                                      placeholder="Twitch channel"
+                                      className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] h-8 text-sm"
+                                    />
+                                  </TableCell>
+                                  <TableCell className="py-2 px-3 text-center space-x-1">
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={handleSaveEditGame}
+                                      disabled={updatingGame}
+                                      className="text-green-500 hover:bg-green-900/20 h-7"
+                                    >
+                                      Save
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setEditingGame(null)}
+                                      disabled={updatingGame}
+                                      className="text-gray-500 hover:bg-gray-900/20 h-7"
+                                    >
+                                      Cancel
+                                    </Button>
+                                  </TableCell>
+                                </>
+                              ) : (
+                                <>
+                                  <TableCell className="py-2 px-3 text-sm">
+                                    <div className="font-medium flex items-center gap-2">
+                                      {game.name}
+                                      {game.id === currentGame.id && (
+                                        <Badge variant="outline" className="text-xs border-[#f9e2af]/50 text-[#f9e2af]">Current</Badge>
+                                      )}
+                                    </div>
+                                    <div className="text-xs text-[hsl(222,15%,60%)]">/{game.id}{game.shortName ? ` • ${game.shortName}` : ""}</div>
+                                  </TableCell>
+                                  <TableCell className="py-2 px-3 text-xs text-[hsl(222,15%,60%)]">
+                                    <div>{game.srcAbbreviation || "—"}</div>
+                                    <div>{game.twitchChannel || "—"}</div>
+                                  </TableCell>
+                                  <TableCell className="py-2 px-3 text-center space-x-1">
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setEditingGame(game)}
+                                      className="text-blue-500 hover:bg-blue-900/20 h-7 w-7 p-0 transition-all duration-200 hover:scale-110"
+                                    >
+                                      <Edit2 className="h-3 w-3" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => handleDeleteGame(game.id)}
+                                      className="text-red-500 hover:bg-red-900/20 h-7 w-7 p-0 transition-all duration-200 hover:scale-110"
+                                    >
+                                      <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                  </TableCell>
+                                </>
+                              )}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Users Section */}
           <TabsContent value="users" className="space-y-4 animate-fade-in">
             <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
@@ -6304,6 +7358,7 @@ const Admin = () => {
                         onChange={(e) => {
                           setPlayersSearchQuery(e.target.value);
                           setPlayersPage(1);
+                          usersPagination.reset();
                         }}
                         className="pl-10 bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] text-ctp-text"
                       />
@@ -6314,6 +7369,7 @@ const Admin = () => {
                         onValueChange={(value: 'joinDate' | 'displayName' | 'totalPoints' | 'totalRuns') => {
                           setPlayersSortBy(value);
                           setPlayersPage(1);
+                          usersPagination.reset();
                         }}
                       >
                         <SelectTrigger className="w-[180px] bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] text-ctp-text">
@@ -6332,6 +7388,7 @@ const Admin = () => {
                         onClick={() => {
                           setPlayersSortOrder(playersSortOrder === 'asc' ? 'desc' : 'asc');
                           setPlayersPage(1);
+                          usersPagination.reset();
                         }}
                         className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)] text-ctp-text"
                       >
@@ -6346,7 +7403,7 @@ const Admin = () => {
                   <div className="flex items-center justify-center py-8">
                     <LoadingSpinner size="md" />
                   </div>
-                ) : filteredPlayers.length === 0 ? (
+                ) : paginatedPlayers.length === 0 ? (
                   <p className="text-sm text-ctp-subtext1 text-center py-8">
                     {playersSearchQuery ? "No users found matching your search." : "No users found."}
                   </p>
@@ -6424,14 +7481,26 @@ const Admin = () => {
                         </TableBody>
                       </Table>
                     </div>
-                    {filteredPlayers.length > itemsPerPage && (
+                    {isSearchingPlayers ? (
+                      filteredPlayers.length > itemsPerPage && (
+                        <div className="mt-4">
+                          <Pagination
+                            currentPage={playersPage}
+                            totalPages={Math.ceil(filteredPlayers.length / itemsPerPage)}
+                            onPageChange={setPlayersPage}
+                            itemsPerPage={itemsPerPage}
+                            totalItems={filteredPlayers.length}
+                          />
+                        </div>
+                      )
+                    ) : (playersCursorPage.prevCursor || playersCursorPage.nextCursor) && (
                       <div className="mt-4">
-                        <Pagination
-                          currentPage={playersPage}
-                          totalPages={Math.ceil(filteredPlayers.length / itemsPerPage)}
-                          onPageChange={setPlayersPage}
-                          itemsPerPage={itemsPerPage}
-                          totalItems={filteredPlayers.length}
+                        <CursorPagination
+                          pageNumber={usersPagination.pageNumber}
+                          prevCursor={playersCursorPage.prevCursor}
+                          nextCursor={playersCursorPage.nextCursor}
+                          onPrev={usersPagination.goToPrev}
+                          onNext={usersPagination.goToNext}
                         />
                       </div>
                     )}
@@ -6566,7 +7635,7 @@ const Admin = () => {
                 </DialogHeader>
                 <div className="space-y-4">
                   <p className="text-ctp-text">
-                    Are you sure you want to delete <strong>{playerToDelete?.displayName}</strong>? This action cannot be undone.
+                    Are you sure you want to delete <strong>{playerToDelete?.displayName}</strong>? They will be moved to the trash, where they can be restored for 30 days.
                   </p>
                   <div className="flex items-center gap-2">
                     <input
@@ -6648,6 +7717,56 @@ const Admin = () => {
                       </p>
                     </div>
 
+                    {/* Scoring Strategy */}
+                    <div className="space-y-4">
+                      <Label className="text-base font-semibold">Scoring Strategy</Label>
+                      <Select
+                        value={pointsConfigForm.scoringStrategy ?? pointsConfig.scoringStrategy ?? 'flat'}
+                        onValueChange={(value) => setPointsConfigForm({ ...pointsConfigForm, scoringStrategy: value as ScoringStrategyId })}
+                      >
+                        <SelectTrigger className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="flat">Flat (base points for every run)</SelectItem>
+                          <SelectItem value="wr-ratio">WR ratio (WR studs × (WR / time)^k)</SelectItem>
+                          <SelectItem value="percentile">Percentile (WR studs × share of the board beaten)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {(pointsConfigForm.scoringStrategy ?? pointsConfig.scoringStrategy ?? 'flat') !== 'flat' && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="wrPoints">WR Studs</Label>
+                            <Input
+                              id="wrPoints"
+                              type="number"
+                              min="0"
+                              value={pointsConfigForm.wrPoints ?? pointsConfig.wrPoints ?? DEFAULT_WR_POINTS}
+                              onChange={(e) => setPointsConfigForm({ ...pointsConfigForm, wrPoints: parseInt(e.target.value) || 0 })}
+                              className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
+                            />
+                          </div>
+                          {(pointsConfigForm.scoringStrategy ?? pointsConfig.scoringStrategy) === 'wr-ratio' && (
+                            <div className="space-y-2">
+                              <Label htmlFor="wrRatioExponent">Exponent (k)</Label>
+                              <Input
+                                id="wrRatioExponent"
+                                type="number"
+                                step="0.1"
+                                min="0"
+                                value={pointsConfigForm.wrRatioExponent ?? pointsConfig.wrRatioExponent ?? DEFAULT_WR_RATIO_EXPONENT}
+                                onChange={(e) => setPointsConfigForm({ ...pointsConfigForm, wrRatioExponent: parseFloat(e.target.value) || 0 })}
+                                className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
+                              />
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      <p className="text-xs text-[hsl(222,15%,60%)]">
+                        Time-relative strategies replace base points with a share of the WR studs. Runs they can't place on a board (such as obsolete runs) still get base points.
+                      </p>
+                    </div>
+
                     {/* Rank Bonuses */}
                     <div className="space-y-4">
                       <Label className="text-base font-semibold">Rank Bonuses</Label>
@@ -6797,22 +7916,89 @@ const Admin = () => {
                       </div>
                     </div>
 
+                    {/* Category Weights */}
+                    {pointsCategories.length > 0 && (
+                      <div className="space-y-4">
+                        <Label className="text-base font-semibold">Category Weights</Label>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                          {pointsCategories.map(category => {
+                            const categoryWeights = pointsConfigForm.categoryWeights ?? pointsConfig.categoryWeights ?? {};
+                            return (
+                              <div key={category.id} className="space-y-2">
+                                <Label htmlFor={`categoryWeight-${category.id}`}>{category.name}</Label>
+                                <Input
+                                  id={`categoryWeight-${category.id}`}
+                                  type="number"
+                                  step="0.1"
+                                  min="0"
+                                  value={categoryWeights[category.id] ?? 1}
+                                  onChange={(e) => {
+                                    const weight = parseFloat(e.target.value);
+                                    const { [category.id]: _previous, ...otherWeights } = categoryWeights;
+                                    // A weight of 1 is the default, so it isn't stored
+                                    setPointsConfigForm({
+                                      ...pointsConfigForm,
+                                      categoryWeights: isNaN(weight) || weight === 1 ? otherWeights : { ...otherWeights, [category.id]: weight },
+                                    });
+                                  }}
+                                  className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
+                                />
+                              </div>
+                            );
+                          })}
+                        </div>
+                        <p className="text-xs text-[hsl(222,15%,60%)]">
+                          Multiplies the base studs of runs in each category (1 leaves them unchanged).
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Points changes preview */}
+                    {pointsRecalculationProgress && (
+                      <div className="space-y-2 pt-4 border-t border-[hsl(235,13%,30%)]">
+                        <p className="text-xs text-ctp-overlay0">
+                          {pointsRecalculationProgress.stage === 'planning' ? "Checking runs" : "Applying changes"}... {pointsRecalculationProgress.completed} / {pointsRecalculationProgress.total}
+                        </p>
+                        <Progress value={pointsRecalculationProgress.total > 0 ? (pointsRecalculationProgress.completed / pointsRecalculationProgress.total) * 100 : 0} />
+                      </div>
+                    )}
+                    {pointsRecalculationPlan && (
+                      <div className="pt-4 border-t border-[hsl(235,13%,30%)]">
+                        <PointsConfigPreview plan={pointsRecalculationPlan} players={pointsPreviewPlayers} />
+                      </div>
+                    )}
+
                     {/* Save Button */}
-                    <div className="flex justify-end pt-4 border-t border-[hsl(235,13%,30%)]">
+                    <div className="flex justify-end gap-2 pt-4 border-t border-[hsl(235,13%,30%)]">
+                      {pointsRecalculationPlan && (
+                        <Button
+                          variant="outline"
+                          onClick={() => setPointsRecalculationPlan(null)}
+                          disabled={savingPointsConfig}
+                          className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)]"
+                        >
+                          Cancel
+                        </Button>
+                      )}
                       <Button
-                        onClick={handleSavePointsConfig}
+                        onClick={pointsRecalculationPlan ? handleSavePointsConfig : handlePreviewPointsConfig}
                         disabled={savingPointsConfig}
                         className="bg-gradient-to-r from-[#fab387] to-[#f9e2af] hover:from-[#f9e2af] hover:to-[#fab387] text-[hsl(240,21%,15%)] font-bold"
                       >
                         {savingPointsConfig ? (
                           <>
                             <LoadingSpinner size="sm" className="mr-2" />
-                            Saving...
+                            {pointsRecalculationPlan ? "Publishing..." : "Checking..."}
                           </>
-                        ) : (
+                        ) : pointsRecalculationPlan ? (
                           <>
                             <Save className="h-4 w-4 mr-2" />
-                            Save Configuration
+                            Publish Changes
+                          </>
+                        ) : (
+                          <>
+                            <Search className="h-4 w-4 mr-2" />
+                            Preview Changes
                           </>
                         )}
                       </Button>
@@ -6826,6 +8012,121 @@ const Admin = () => {
               </CardContent>
             </Card>
 
+            {/* Points Config History Card */}
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#fab387]">
+                  <History className="h-5 w-5" />
+                  Configuration History
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <PointsConfigHistory
+                  versions={pointsConfigHistory}
+                  currentVersion={pointsConfig?.version}
+                  onLoadVersion={(version) => {
+                    setPointsConfigForm({ ...version.config });
+                    toast({
+                      title: "Version Loaded",
+                      description: `Version ${version.version} is now the draft. Preview the changes before publishing it again.`,
+                    });
+                  }}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Seasons Card */}
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#fab387]">
+                  <CalendarDays className="h-5 w-5" />
+                  Seasons
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-6">
+                <p className="text-sm text-ctp-subtext1">
+                  Studs from verified runs dated within a season are tallied into its own standings. Finalize a season once it has ended to archive its results.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="seasonName">Name</Label>
+                    <Input
+                      id="seasonName"
+                      value={newSeason.name}
+                      onChange={(e) => setNewSeason({ ...newSeason, name: e.target.value })}
+                      placeholder="Season 1"
+                      className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="seasonStartDate">Start Date</Label>
+                    <Input
+                      id="seasonStartDate"
+                      type="date"
+                      value={newSeason.startDate}
+                      onChange={(e) => setNewSeason({ ...newSeason, startDate: e.target.value })}
+                      className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="seasonEndDate">End Date</Label>
+                    <Input
+                      id="seasonEndDate"
+                      type="date"
+                      value={newSeason.endDate}
+                      onChange={(e) => setNewSeason({ ...newSeason, endDate: e.target.value })}
+                      className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleAddSeason}
+                    disabled={savingSeason}
+                    className="bg-gradient-to-r from-[#fab387] to-[#f9e2af] hover:from-[#f9e2af] hover:to-[#fab387] text-[hsl(240,21%,15%)] font-bold"
+                  >
+                    <PlusCircle className="h-4 w-4 mr-2" />
+                    Add Season
+                  </Button>
+                </div>
+                {seasons.length === 0 ? (
+                  <p className="text-sm text-ctp-overlay0">No seasons have been defined yet.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {seasons.map(season => (
+                      <li key={season.id} className="flex items-center justify-between gap-2 flex-wrap border border-[hsl(235,13%,30%)] p-3">
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="font-semibold text-ctp-text">{season.name}</span>
+                          <SeasonStatusBadge season={season} />
+                          <span className="text-ctp-subtext1">{season.startDate} – {season.endDate}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {getSeasonStatus(season) === 'ended' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleArchiveSeason(season)}
+                              disabled={savingSeason}
+                              className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)]"
+                            >
+                              <Archive className="h-4 w-4 mr-2" />
+                              Finalize
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteSeason(season)}
+                            className="border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)] text-[#f38ba8]"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Recalculate Points Card */}
             <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
               <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
@@ -6904,6 +8205,138 @@ const Admin = () => {
                   </Button>
               </CardContent>
             </Card>
+
+            {/* Rebuild Rankings Card */}
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#fab387]">
+                  <Trophy className="h-5 w-5" />
+                  <span>
+                      Rebuild Leaderboard Rankings
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <p className="text-sm text-ctp-subtext1 leading-relaxed mb-4">
+                  Recompute the stored rank and time of every verified run in this game. Rankings are kept up to date automatically when runs change, so this is only needed once for runs added before rankings were stored, or after editing runs directly in the database.
+                </p>
+                <Button
+                  onClick={() => {
+                    if (!window.confirm("This will rebuild the rankings of every leaderboard in this game. Continue?")) {
+                      return;
+                    }
+                    
+                    setRebuildingRanks(true);
+                    setTimeout(async () => {
+                      try {
+                        const result = await rebuildLeaderboardRanks();
+                        if (result.errors.length > 0) {
+                          toast({
+                            title: "Rebuild Failed",
+                            description: result.errors[0],
+                            variant: "destructive",
+                          });
+                        } else {
+                          toast({
+                            title: "Rankings Rebuilt",
+                            description: `Rebuilt rankings for ${result.boardsUpdated} leaderboard(s).`,
+                          });
+                        }
+                      } catch (error) {
+                        toast({
+                          title: "Error",
+                          description: error instanceof Error ? error.message : "Failed to rebuild rankings.",
+                          variant: "destructive",
+                        });
+                      } finally {
+                        setRebuildingRanks(false);
+                      }
+                    }, 0);
+                  }}
+                  disabled={rebuildingRanks}
+                  className="bg-gradient-to-r from-[#FFD700] to-[#FFA500] hover:from-[#FFA500] hover:to-[#FFD700] text-black font-semibold w-full sm:w-auto transition-all duration-300 hover:scale-105 hover:shadow-xl hover:shadow-[#FFD700]/50"
+                >
+                  {rebuildingRanks ? (
+                    <>
+                      <LoadingSpinner size="sm" className="mr-2" />
+                      Rebuilding Rankings...
+                    </>
+                  ) : (
+                    <>
+                      <Trophy className="h-4 w-4 mr-2" />
+                      Rebuild Rankings
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Display Name Index Card */}
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="flex items-center gap-2 text-xl text-[#fab387]">
+                  <Users className="h-5 w-5" />
+                  <span>
+                      Index Display Names
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-6">
+                <p className="text-sm text-ctp-subtext1 leading-relaxed mb-4">
+                  Add every existing player to the case-insensitive display name index used for player lookups and name uniqueness. New sign-ups and renames are indexed automatically, so this is only needed for players who joined before the index existed, or once more to move older index entries to the ID format the security rules check. If two players share a name, the earliest to join keeps it and the others are listed so they can be renamed.
+                </p>
+                <Button
+                  onClick={() => {
+                    setIndexingDisplayNames(true);
+                    setTimeout(async () => {
+                      try {
+                        const result = await migrateDisplayNameIndex();
+                        if (result.errors.length > 0) {
+                          toast({
+                            title: "Indexing Failed",
+                            description: result.errors[0],
+                            variant: "destructive",
+                          });
+                        } else if (result.conflicts.length > 0) {
+                          toast({
+                            title: "Display Names Indexed With Conflicts",
+                            description: `Indexed ${result.playersIndexed} player(s). These names are already taken and need renaming: ${result.conflicts.map(conflict => `${conflict.displayName} (${conflict.uid})`).join(", ")}`,
+                            variant: "destructive",
+                          });
+                        } else {
+                          toast({
+                            title: "Display Names Indexed",
+                            description: `Indexed ${result.playersIndexed} player(s).`,
+                          });
+                        }
+                      } catch (error) {
+                        toast({
+                          title: "Error",
+                          description: error instanceof Error ? error.message : "Failed to index display names.",
+                          variant: "destructive",
+                        });
+                      } finally {
+                        setIndexingDisplayNames(false);
+                      }
+                    }, 0);
+                  }}
+                  disabled={indexingDisplayNames}
+                  className="bg-gradient-to-r from-[#FFD700] to-[#FFA500] hover:from-[#FFA500] hover:to-[#FFD700] text-black font-semibold w-full sm:w-auto transition-all duration-300 hover:scale-105 hover:shadow-xl hover:shadow-[#FFD700]/50"
+                >
+                  {indexingDisplayNames ? (
+                    <>
+                      <LoadingSpinner size="sm" className="mr-2" />
+                      Indexing Display Names...
+                    </>
+                  ) : (
+                    <>
+                      <Users className="h-4 w-4 mr-2" />
+                      Index Display Names
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
           </TabsContent>
 
         {/* Manage Downloads Section */}
@@ -7371,7 +8804,7 @@ const Admin = () => {
                     )}
                   </div>
                   <div>
-                    <Label htmlFor="edit-time">Time (HH:MM:SS) <span className="text-red-500">*</span></Label>
+                    <Label htmlFor="edit-time">Time (HH:MM:SS or HH:MM:SS.mmm) <span className="text-red-500">*</span></Label>
                     <Input
                       id="edit-time"
                       value={editingImportedRunForm.time ?? editingImportedRun.time ?? ""}
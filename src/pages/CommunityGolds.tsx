@@ -0,0 +1,221 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { Gem, Sparkles } from "lucide-react";
+import { getCategoriesFromFirestore, getLevels, getPlatforms, getRunsWithSplits, runTypes } from "@/lib/db";
+import { Category, LeaderboardEntry, Level } from "@/types/database";
+import { computeCommunityGolds, getLiveSplitTimingMethod } from "@/lib/livesplit";
+import { formatTime, formatSecondsToTime, formatDate, parseTimeToSeconds, getPrimaryTimingMethod, getTimeForMethod } from "@/lib/utils";
+
+const CommunityGolds = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [levels, setLevels] = useState<Level[]>([]);
+  const [platforms, setPlatforms] = useState<{ id: string; name: string }[]>([]);
+  const [runs, setRuns] = useState<LeaderboardEntry[]>([]);
+  const [categoriesLoading, setCategoriesLoading] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [selectedRunType, setSelectedRunType] = useState(runTypes[0]?.id || "solo");
+  const [selectedPlatform, setSelectedPlatform] = useState("all");
+
+  const selectedCategory = searchParams.get("category") || categories[0]?.id || "";
+  const category = categories.find(c => c.id === selectedCategory);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setCategoriesLoading(true);
+      try {
+        const [fetchedCategories, fetchedLevels, fetchedPlatforms] = await Promise.all([
+          getCategoriesFromFirestore('regular'),
+          getLevels(),
+          getPlatforms(),
+        ]);
+        setCategories(fetchedCategories);
+        setLevels(fetchedLevels);
+        setPlatforms(fetchedPlatforms);
+      } catch (error) {
+        // Silent fail
+      } finally {
+        setCategoriesLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedCategory) {
+      setRuns([]);
+      setLoading(categoriesLoading);
+      return;
+    }
+
+    const fetchRuns = async () => {
+      setLoading(true);
+      try {
+        setRuns(await getRunsWithSplits(selectedCategory));
+      } catch (error) {
+        setRuns([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRuns();
+  }, [selectedCategory, categoriesLoading]);
+
+  const golds = useMemo(() => {
+    const primaryTimingMethod = getPrimaryTimingMethod(category);
+    // Only compare splits recorded with the timer matching the category's ranking method
+    const splitsTimingMethod = getLiveSplitTimingMethod(primaryTimingMethod);
+    const filteredRuns = runs
+      .filter(run => run.runType === selectedRunType)
+      .filter(run => selectedPlatform === "all" || run.platform === selectedPlatform)
+      .filter(run => run.splits?.timingMethod === splitsTimingMethod)
+      .sort((a, b) =>
+        parseTimeToSeconds(getTimeForMethod(a, primaryTimingMethod)) - parseTimeToSeconds(getTimeForMethod(b, primaryTimingMethod))
+      );
+    return computeCommunityGolds(filteredRuns, levels);
+  }, [runs, levels, category, selectedRunType, selectedPlatform]);
+
+  const sumOfGolds = golds.reduce((sum, gold) => sum + gold.time, 0);
+
+  const formatSegment = (seconds: number) => formatTime(formatSecondsToTime(seconds));
+
+  return (
+    <div className="min-h-screen bg-[#1e1e2e] text-ctp-text py-4 sm:py-6 overflow-x-hidden">
+      <div className="max-w-5xl mx-auto px-2 sm:px-4 lg:px-6 w-full">
+        <div className="text-center mb-6">
+          <div className="flex items-center justify-center gap-2 mb-4">
+            <Gem className="h-6 w-6 text-[#f9e2af]" />
+            <h1 className="text-3xl md:text-4xl font-bold text-[#f9e2af]">
+              Sum of Community Golds
+            </h1>
+          </div>
+          <p className="text-base text-ctp-subtext1 max-w-3xl mx-auto leading-relaxed">
+            The fastest segment the community has completed for each split, taken from verified runs with splits attached
+          </p>
+        </div>
+
+        {categoriesLoading ? (
+          <Skeleton className="h-10 w-full mb-4" />
+        ) : categories.length > 0 && (
+          <div className="mb-4">
+            <Tabs value={selectedCategory} onValueChange={(value) => setSearchParams({ category: value })}>
+              <TabsList className="flex w-full p-0.5 gap-1 overflow-x-auto overflow-y-hidden scrollbar-hide rounded-none">
+                {categories.map((cat) => (
+                  <TabsTrigger
+                    key={cat.id}
+                    value={cat.id}
+                    className="data-[state=active]:bg-[#94e2d5] data-[state=active]:text-[#11111b] bg-ctp-surface0 text-ctp-text transition-all duration-300 font-medium border border-transparent hover:bg-ctp-surface1 hover:border-[#94e2d5]/50 py-1.5 sm:py-2 px-2 sm:px-3 text-xs sm:text-sm whitespace-nowrap rounded-none"
+                  >
+                    {cat.name}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-4">
+          <Select value={selectedRunType} onValueChange={setSelectedRunType}>
+            <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none sm:w-48">
+              <SelectValue placeholder="Run type" />
+            </SelectTrigger>
+            <SelectContent>
+              {runTypes.map((runType) => (
+                <SelectItem key={runType.id} value={runType.id} className="text-sm">{runType.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={selectedPlatform} onValueChange={setSelectedPlatform}>
+            <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none sm:w-48">
+              <SelectValue placeholder="Platform" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all" className="text-sm">All platforms</SelectItem>
+              {platforms.map((platform) => (
+                <SelectItem key={platform.id} value={platform.id} className="text-sm">{platform.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card className="bg-gradient-to-br from-ctp-base to-ctp-mantle border-ctp-surface1 shadow-xl rounded-none">
+          <CardHeader className="bg-gradient-to-r from-ctp-base to-ctp-mantle border-b border-ctp-surface1 py-3">
+            <CardTitle className="flex items-center gap-2 text-lg text-[#f9e2af]">
+              <span>{category?.name || "Community Golds"}</span>
+              {golds.length > 0 && (
+                <span className="ml-auto text-sm font-normal text-ctp-subtext1">
+                  Sum of Golds: <span className="font-mono text-ctp-text">{formatSegment(sumOfGolds)}</span>
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <LoadingSpinner size="md" />
+              </div>
+            ) : golds.length === 0 ? (
+              <div className="text-center py-12 px-4">
+                <Sparkles className="h-8 w-8 mx-auto mb-3 text-ctp-subtext1" />
+                <p className="text-sm text-ctp-subtext1">
+                  No verified runs with splits yet. Attach your LiveSplit splits when submitting a run to add to the community golds.
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto scrollbar-custom">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-b border-ctp-surface1/50 hover:bg-transparent">
+                      <TableHead className="py-2 px-3 text-left text-xs w-10">#</TableHead>
+                      <TableHead className="py-2 px-3 text-left text-xs">Segment</TableHead>
+                      <TableHead className="py-2 px-3 text-right text-xs">Gold</TableHead>
+                      <TableHead className="py-2 px-3 text-left text-xs">Player</TableHead>
+                      <TableHead className="py-2 px-3 text-left text-xs hidden sm:table-cell">Run</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {golds.map((gold, index) => {
+                      const levelName = gold.levelId ? levels.find(l => l.id === gold.levelId)?.name : undefined;
+                      return (
+                        <TableRow key={`${gold.runId}-${index}`} className="border-b border-ctp-surface1/20 hover:bg-ctp-surface0">
+                          <TableCell className="py-2 px-3 text-xs text-ctp-subtext1">{index + 1}</TableCell>
+                          <TableCell className="py-2 px-3 text-sm">{levelName || gold.segmentName}</TableCell>
+                          <TableCell className="py-2 px-3 text-sm text-right font-mono text-[#f9e2af]">{formatSegment(gold.time)}</TableCell>
+                          <TableCell className="py-2 px-3 text-sm">
+                            {gold.playerId ? (
+                              <Link to={`/player/${gold.playerId}`} className="hover:text-[#cba6f7] transition-colors">
+                                {gold.playerName}
+                              </Link>
+                            ) : (
+                              <span>{gold.playerName}</span>
+                            )}
+                            {gold.player2Name && <span className="text-ctp-subtext1"> & {gold.player2Name}</span>}
+                          </TableCell>
+                          <TableCell className="py-2 px-3 text-sm hidden sm:table-cell">
+                            <Link to={`/run/${gold.runId}`} className="text-[#cba6f7] hover:text-[#f5c2e7] transition-colors">
+                              {formatDate(gold.date)}
+                            </Link>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CommunityGolds;
@@ -10,6 +10,7 @@ import { Link } from "react-router-dom";
 import { RecentRuns } from "@/components/RecentRuns";
 import TwitchEmbed from "@/components/TwitchEmbed";
 import { parseTimeToSeconds, formatSecondsToTime } from "@/lib/utils";
+import { useGame } from "@/hooks/useGame";
 
 // Format seconds into months, days, hours, minutes, seconds in compact format
 const formatTimeWithDays = (totalSeconds: number): string => {
@@ -17,7 +18,7 @@ const formatTimeWithDays = (totalSeconds: number): string => {
   const days = Math.floor((totalSeconds % (30 * 86400)) / 86400);
   const hours = Math.floor((totalSeconds % 86400) / 3600);
   const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
+  const seconds = Math.floor(totalSeconds % 60);
   
   const parts: string[] = [];
   
@@ -41,6 +42,7 @@ const formatTimeWithDays = (totalSeconds: number): string => {
 };
 
 const Index = () => {
+  const { currentGame, gamePath } = useGame();
   const [recentRunsData, setRecentRunsData] = useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [totalVerifiedRuns, setTotalVerifiedRuns] = useState<number>(0);
@@ -133,15 +135,17 @@ const Index = () => {
                     <Badge variant="outline" className="border-green-600/50 bg-green-600/10 text-green-400 text-xs px-2 py-0.5 flex items-center gap-1.5 w-fit">
                       <CheckCircle className="h-3 w-3" />
                       <span>Linked with Speedrun.com</span>
-                      <a
-                        href="https://www.speedrun.com/lsw1"
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="hover:underline flex items-center gap-1"
-                        onClick={(e) => e.stopPropagation()}
-                      >
-                        <ExternalLink className="h-3 w-3" />
-                      </a>
+                      {currentGame.srcAbbreviation && (
+                        <a
+                          href={`https://www.speedrun.com/${currentGame.srcAbbreviation}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:underline flex items-center gap-1"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
                     </Badge>
                   </div>
                 </CardContent>
@@ -156,14 +160,14 @@ const Index = () => {
                 </span>
               </h1>
               <p className="text-lg sm:text-xl md:text-2xl lg:text-3xl mb-10 text-ctp-subtext1 max-w-3xl mx-auto animate-fade-in-delay px-2 leading-relaxed">
-                The official site for the LEGO Star Wars: The Video Game speedrunning community. Track your progress and try to earn a stud on the leaderboards!
+                The official site for the {currentGame.name} speedrunning community. Track your progress and try to earn a stud on the leaderboards!
               </p>
               <div className="flex flex-col sm:flex-row justify-center gap-4 lg:gap-6 animate-fade-in-delay-2 px-2">
                 <Button size="lg" className="bg-gradient-to-r from-ctp-mauve via-ctp-pink to-ctp-mauve hover:from-ctp-pink hover:via-ctp-mauve hover:to-ctp-pink text-ctp-crust font-bold transition-all duration-300 hover:scale-110 hover:shadow-xl hover:shadow-ctp-mauve/50 animate-gradient bg-[length:200%_auto] whitespace-nowrap text-base sm:text-lg lg:text-xl px-6 sm:px-8 lg:px-10 py-6 sm:py-7 lg:py-8 rounded-none border-0 shadow-colored" asChild>
-                  <Link to="/submit">Submit Run</Link>
+                  <Link to={gamePath("/submit")}>Submit Run</Link>
                 </Button>
                 <Button size="lg" variant="outline" className="text-ctp-text hover:text-ctp-text border-ctp-surface1/50 bg-glass hover:bg-ctp-blue/10 hover:border-ctp-blue/50 transition-all duration-300 hover:scale-110 hover:shadow-xl hover:shadow-ctp-blue/30 whitespace-nowrap text-base sm:text-lg lg:text-xl px-6 sm:px-8 lg:px-10 py-6 sm:py-7 lg:py-8 rounded-none backdrop-blur-sm" asChild>
-                  <Link to="/leaderboards">View All Leaderboards</Link>
+                  <Link to={gamePath("/leaderboards")}>View All Leaderboards</Link>
                 </Button>
               </div>
             </div>
@@ -198,7 +202,7 @@ const Index = () => {
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 sm:gap-6 lg:gap-8 items-stretch">
             {/* Left Side - Twitch Embed (under Verified Runs) */}
             <div className="lg:col-span-8 min-w-0 flex flex-col">
-              <TwitchEmbed channel="lsw1live" />
+              {currentGame.twitchChannel && <TwitchEmbed channel={currentGame.twitchChannel} />}
             </div>
 
             {/* Right Side - Recent Runs */}
@@ -1,20 +1,28 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Filter, User, Users, Trophy, Sparkles, TrendingUp, Star, Gem, Gamepad2 } from "lucide-react";
+import { Filter, User, Users, Trophy, Sparkles, TrendingUp, Star, Gem, Gamepad2, Timer } from "lucide-react";
 import { LeaderboardTable } from "@/components/LeaderboardTable";
-import { Pagination } from "@/components/Pagination";
-import { getLeaderboardEntries, getCategories, getPlatforms, runTypes, getLevels } from "@/lib/db";
-import { LeaderboardEntry } from "@/types/database";
+import { CursorPagination } from "@/components/Pagination";
+import { ExportMenu } from "@/components/ExportMenu";
+import { getLeaderboardEntries, getLeaderboardPage, getCategories, getPlatforms, runTypes, getLevels, timingMethods, getRunsWithSplits } from "@/lib/db";
+import { LeaderboardEntry, Category, Page } from "@/types/database";
+import { getCategoryTimingMethods, getCategoryVariables, formatTime, formatSecondsToTime } from "@/lib/utils";
+import { getLevelSegmentTimes } from "@/lib/livesplit";
+import { ExportFormat, exportRuns, getExportFilename } from "@/lib/export";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { Skeleton } from "@/components/ui/skeleton";
 import LegoGoldBrickIcon from "@/components/icons/LegoGoldBrickIcon";
+import { useCursorPagination } from "@/hooks/useCursorPagination";
+
+const emptyPage: Page<LeaderboardEntry> = { items: [], nextCursor: null, prevCursor: null };
 
 const Leaderboards = () => {
   const [leaderboardType, setLeaderboardType] = useState<'regular' | 'individual-level' | 'community-golds'>('regular');
-  const [availableCategories, setAvailableCategories] = useState<{ id: string; name: string }[]>([]);
+  const [availableCategories, setAvailableCategories] = useState<Category[]>([]);
   const [availableLevels, setAvailableLevels] = useState<{ id: string; name: string }[]>([]);
   const [availablePlatforms, setAvailablePlatforms] = useState<{ id: string; name: string }[]>([]);
   const [selectedCategory, setSelectedCategory] = useState("");
@@ -23,17 +31,74 @@ const Leaderboards = () => {
   const [selectedRunType, setSelectedRunType] = useState(runTypes[0]?.id || "");
   const [selectedSubcategory, setSelectedSubcategory] = useState<string>("");
   const [showObsoleteRuns, setShowObsoleteRuns] = useState("false");
-  const [leaderboardData, setLeaderboardData] = useState<LeaderboardEntry[]>([]);
+  const [showAllTimingMethods, setShowAllTimingMethods] = useState("false");
+  const [leaderboardPage, setLeaderboardPage] = useState<Page<LeaderboardEntry>>(emptyPage);
+  const leaderboardData = leaderboardPage.items;
   const [loading, setLoading] = useState(true);
   const [categoriesLoading, setCategoriesLoading] = useState(true);
   const [levelsLoading, setLevelsLoading] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
+  // Page of the board, kept in the URL and reset when the user changes filters
+  const pagination = useCursorPagination();
   const [availableSubcategories, setAvailableSubcategories] = useState<Array<{ id: string; name: string }>>([]);
-  const itemsPerPage = 25;
+  // Selected value per category variable (subcategory variables always have a value, filters default to "all")
+  const [selectedVariableValues, setSelectedVariableValues] = useState<Record<string, string>>({});
+  // Verified full game runs with splits, used for segment golds on the Community Golds tab
+  const [splitRuns, setSplitRuns] = useState<LeaderboardEntry[] | null>(null);
+  // Timing methods of the selected category, primary (ranking) method first
+  const categoryTimingMethods = getCategoryTimingMethods(availableCategories.find(c => c.id === selectedCategory));
+
+  // Exports every page of the board with the current filters, not just the page on screen
+  const handleExport = async (format: ExportFormat) => {
+    const isLevelBoard = leaderboardType === 'individual-level' || leaderboardType === 'community-golds';
+    const runs = await getLeaderboardEntries(
+      selectedCategory,
+      selectedPlatform,
+      selectedRunType as 'solo' | 'co-op',
+      showObsoleteRuns === "true",
+      leaderboardType,
+      isLevelBoard ? selectedLevel : undefined,
+      (leaderboardType === 'regular' && selectedSubcategory) ? selectedSubcategory : undefined,
+      leaderboardType === 'regular' ? selectedVariableValues : undefined
+    );
+    const categoryName = availableCategories.find(c => c.id === selectedCategory)?.name;
+    const levelName = isLevelBoard ? availableLevels.find(l => l.id === selectedLevel)?.name : undefined;
+    const subcategoryName = availableSubcategories.find(s => s.id === selectedSubcategory)?.name;
+    const platformName = availablePlatforms.find(p => p.id === selectedPlatform)?.name;
+    exportRuns(
+      runs,
+      { categories: availableCategories, platforms: availablePlatforms, levels: availableLevels },
+      format,
+      getExportFilename(categoryName, levelName, subcategoryName, platformName, selectedRunType),
+      { filters: { leaderboardType, category: categoryName, level: levelName, subcategory: subcategoryName, platform: platformName, runType: selectedRunType, includeObsolete: showObsoleteRuns === "true" } }
+    );
+  };
+  // Variables of the selected category (only regular categories have variables)
+  const categoryVariables = useMemo(() => (
+    leaderboardType === 'regular'
+      ? getCategoryVariables(availableCategories.find(c => c.id === selectedCategory))
+      : []
+  ), [leaderboardType, availableCategories, selectedCategory]);
   const requestCounterRef = useRef(0);
   const abortControllerRef = useRef<AbortController | null>(null);
   const lastRefreshTimeRef = useRef<number>(Date.now());
 
+  // Fetch runs with splits the first time the Community Golds tab is opened
+  useEffect(() => {
+    if (leaderboardType !== 'community-golds' || splitRuns !== null) return;
+    getRunsWithSplits()
+      .then(runs => setSplitRuns(runs.filter(run => run.leaderboardType === 'regular' || !run.leaderboardType)))
+      .catch(() => setSplitRuns([]));
+  }, [leaderboardType, splitRuns]);
+
+  const levelSegmentTimes = useMemo(() => {
+    if (leaderboardType !== 'community-golds' || !selectedLevel || !splitRuns) return [];
+    return getLevelSegmentTimes(
+      splitRuns.filter(run => run.runType === selectedRunType),
+      availableLevels,
+      selectedLevel
+    );
+  }, [leaderboardType, selectedLevel, selectedRunType, splitRuns, availableLevels]);
+
   useEffect(() => {
     const fetchData = async () => {
       setCategoriesLoading(true);
@@ -118,6 +183,15 @@ const Leaderboards = () => {
     fetchSubcategories();
   }, [selectedCategory, leaderboardType]);
 
+  // Reset variable selections when the category changes
+  useEffect(() => {
+    const defaults: Record<string, string> = {};
+    for (const variable of categoryVariables) {
+      defaults[variable.id] = variable.isSubcategory ? (variable.values[0]?.id || "") : "all";
+    }
+    setSelectedVariableValues(defaults);
+  }, [categoryVariables]);
+
   useEffect(() => {
     // Cancel previous request if it exists
     if (abortControllerRef.current) {
@@ -134,20 +208,21 @@ const Leaderboards = () => {
     const fetchLeaderboardData = async () => {
       setLoading(true);
       try {
-        const data = await getLeaderboardEntries(
+        const data = await getLeaderboardPage(
           selectedCategory,
           selectedPlatform,
           selectedRunType as 'solo' | 'co-op',
           showObsoleteRuns === "true",
           leaderboardType,
           (leaderboardType === 'individual-level' || leaderboardType === 'community-golds') ? selectedLevel : undefined,
-          (leaderboardType === 'regular' && selectedSubcategory) ? selectedSubcategory : undefined
+          (leaderboardType === 'regular' && selectedSubcategory) ? selectedSubcategory : undefined,
+          leaderboardType === 'regular' ? selectedVariableValues : undefined,
+          pagination.request
         );
         
         // Only update state if this is still the latest request
         if (currentRequest === requestCounterRef.current && !abortController.signal.aborted) {
-        setLeaderboardData(data);
-        setCurrentPage(1); // Reset to first page when data changes
+        setLeaderboardPage(data);
         }
       } catch (error) {
         // Only handle error if this is still the latest request and not aborted
@@ -169,14 +244,14 @@ const Leaderboards = () => {
       fetchLeaderboardData();
     } else {
       setLoading(false);
-      setLeaderboardData([]);
+      setLeaderboardPage(emptyPage);
     }
 
     // Cleanup: abort request on unmount or dependency change
     return () => {
       abortController.abort();
     };
-  }, [selectedCategory, selectedPlatform, selectedRunType, selectedLevel, showObsoleteRuns, leaderboardType, selectedSubcategory]);
+  }, [selectedCategory, selectedPlatform, selectedRunType, selectedLevel, showObsoleteRuns, leaderboardType, selectedSubcategory, selectedVariableValues, pagination.request]);
   
   // Only refresh when page becomes visible AND enough time has passed
   useEffect(() => {
@@ -198,17 +273,18 @@ const Leaderboards = () => {
             const fetchLeaderboardData = async () => {
               setLoading(true);
               try {
-                const data = await getLeaderboardEntries(
+                const data = await getLeaderboardPage(
                   selectedCategory,
                   selectedPlatform,
                   selectedRunType as 'solo' | 'co-op',
                   showObsoleteRuns === "true",
                   leaderboardType,
                   (leaderboardType === 'individual-level' || leaderboardType === 'community-golds') ? selectedLevel : undefined,
-                  (leaderboardType === 'regular' && selectedSubcategory) ? selectedSubcategory : undefined
+                  (leaderboardType === 'regular' && selectedSubcategory) ? selectedSubcategory : undefined,
+                  leaderboardType === 'regular' ? selectedVariableValues : undefined,
+                  pagination.request
                 );
-                setLeaderboardData(data);
-                setCurrentPage(1);
+                setLeaderboardPage(data);
                 lastRefreshTimeRef.current = Date.now();
               } catch (error) {
                 // Silent fail
@@ -224,7 +300,7 @@ const Leaderboards = () => {
     
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [selectedCategory, selectedPlatform, selectedRunType, selectedLevel, showObsoleteRuns, leaderboardType, selectedSubcategory]);
+  }, [selectedCategory, selectedPlatform, selectedRunType, selectedLevel, showObsoleteRuns, leaderboardType, selectedSubcategory, selectedVariableValues, pagination.request]);
 
   return (
     <div className="min-h-screen bg-[#1e1e2e] text-ctp-text py-4 sm:py-6 overflow-x-hidden">
@@ -242,7 +318,10 @@ const Leaderboards = () => {
         </div>
 
         {/* Tabs */}
-        <Tabs value={leaderboardType} onValueChange={(value) => setLeaderboardType(value as 'regular' | 'individual-level' | 'community-golds')} className="mb-6">
+        <Tabs value={leaderboardType} onValueChange={(value) => {
+          setLeaderboardType(value as 'regular' | 'individual-level' | 'community-golds');
+          pagination.reset();
+        }} className="mb-6">
           <TabsList className="grid w-full grid-cols-3 mb-4 sm:mb-6 p-0.5 gap-1 rounded-none">
             <TabsTrigger 
               value="regular" 
@@ -293,7 +372,7 @@ const Leaderboards = () => {
               return filteredCategories.length > 0 ? (
                 <>
                   <div className="mb-4">
-                    <Tabs value={selectedCategory} onValueChange={setSelectedCategory}>
+                    <Tabs value={selectedCategory} onValueChange={(value) => { setSelectedCategory(value); pagination.reset(); }}>
                       <TabsList className="flex w-full p-0.5 gap-1 overflow-x-auto overflow-y-hidden scrollbar-hide rounded-none" style={{ minWidth: 'max-content' }}>
                         {filteredCategories.map((category) => {
                           return (
@@ -313,7 +392,7 @@ const Leaderboards = () => {
                   {/* Subcategory Tabs (only for regular leaderboard type) */}
                   {leaderboardType === 'regular' && availableSubcategories.length > 0 && (
                     <div className="mb-4">
-                      <Tabs value={selectedSubcategory} onValueChange={setSelectedSubcategory}>
+                      <Tabs value={selectedSubcategory} onValueChange={(value) => { setSelectedSubcategory(value); pagination.reset(); }}>
                         <TabsList className="flex w-full p-0.5 gap-1 overflow-x-auto overflow-y-hidden scrollbar-hide rounded-none" style={{ minWidth: 'max-content' }}>
                           {availableSubcategories.map((subcategory) => (
                             <TabsTrigger 
@@ -328,6 +407,31 @@ const Leaderboards = () => {
                       </Tabs>
                     </div>
                   )}
+
+                  {/* Variable Tabs (one row per subcategory variable) */}
+                  {categoryVariables.filter(variable => variable.isSubcategory && variable.values.length > 0).map((variable) => (
+                    <div key={variable.id} className="mb-4">
+                      <Tabs
+                        value={selectedVariableValues[variable.id] || ""}
+                        onValueChange={(value) => {
+                          setSelectedVariableValues(prev => ({ ...prev, [variable.id]: value }));
+                          pagination.reset();
+                        }}
+                      >
+                        <TabsList className="flex w-full p-0.5 gap-1 overflow-x-auto overflow-y-hidden scrollbar-hide rounded-none" style={{ minWidth: 'max-content' }}>
+                          {variable.values.map((value) => (
+                            <TabsTrigger
+                              key={value.id}
+                              value={value.id}
+                              className="data-[state=active]:bg-[#cba6f7] data-[state=active]:text-[#11111b] bg-ctp-surface0 text-ctp-text transition-colors font-medium border border-transparent hover:bg-ctp-surface1 hover:border-[#cba6f7]/50 py-1.5 sm:py-2 px-2 sm:px-3 text-xs sm:text-sm whitespace-nowrap rounded-none"
+                            >
+                              {value.name}
+                            </TabsTrigger>
+                          ))}
+                        </TabsList>
+                      </Tabs>
+                    </div>
+                  ))}
                 </>
               ) : (
                 availableCategories.length > 0 && (
@@ -356,7 +460,7 @@ const Leaderboards = () => {
                     <Sparkles className="h-3.5 w-3.5 text-ctp-mauve" />
                     Levels
                   </label>
-                  <Select value={selectedLevel} onValueChange={setSelectedLevel}>
+                  <Select value={selectedLevel} onValueChange={(value) => { setSelectedLevel(value); pagination.reset(); }}>
                     <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none">
                       <SelectValue placeholder="Select level" />
                   </SelectTrigger>
@@ -375,7 +479,7 @@ const Leaderboards = () => {
                   <Gamepad2 className="h-3.5 w-3.5 text-ctp-mauve" />
                   Platform
                 </label>
-                <Select value={selectedPlatform} onValueChange={setSelectedPlatform}>
+                <Select value={selectedPlatform} onValueChange={(value) => { setSelectedPlatform(value); pagination.reset(); }}>
                   <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none">
                     <SelectValue placeholder="Select platform" />
                   </SelectTrigger>
@@ -397,7 +501,7 @@ const Leaderboards = () => {
                   )}
                   Run Type
                 </label>
-                <Select value={selectedRunType} onValueChange={setSelectedRunType}>
+                <Select value={selectedRunType} onValueChange={(value) => { setSelectedRunType(value); pagination.reset(); }}>
                   <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none">
                     <SelectValue placeholder="Select run type" />
                   </SelectTrigger>
@@ -418,7 +522,7 @@ const Leaderboards = () => {
                   <TrendingUp className="h-3.5 w-3.5 text-ctp-mauve" />
                   Run Status
                 </label>
-                <Select value={showObsoleteRuns} onValueChange={setShowObsoleteRuns}>
+                <Select value={showObsoleteRuns} onValueChange={(value) => { setShowObsoleteRuns(value); pagination.reset(); }}>
                   <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none">
                     <SelectValue placeholder="Select status" />
                   </SelectTrigger>
@@ -428,6 +532,50 @@ const Leaderboards = () => {
                   </SelectContent>
                 </Select>
               </div>
+              {categoryTimingMethods.length > 1 && (
+                <div>
+                  <label className="block text-sm font-semibold mb-1.5 text-ctp-text flex items-center gap-2">
+                    <Timer className="h-3.5 w-3.5 text-ctp-mauve" />
+                    Timing
+                  </label>
+                  <Select value={showAllTimingMethods} onValueChange={setShowAllTimingMethods}>
+                    <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none">
+                      <SelectValue placeholder="Select timing" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="false" className="text-sm">
+                        {timingMethods.find(m => m.id === categoryTimingMethods[0])?.name} only
+                      </SelectItem>
+                      <SelectItem value="true" className="text-sm">All timing methods</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {categoryVariables.filter(variable => !variable.isSubcategory && variable.values.length > 0).map((variable) => (
+                <div key={variable.id}>
+                  <label className="block text-sm font-semibold mb-1.5 text-ctp-text flex items-center gap-2">
+                    <Filter className="h-3.5 w-3.5 text-ctp-mauve" />
+                    {variable.name}
+                  </label>
+                  <Select
+                    value={selectedVariableValues[variable.id] || "all"}
+                    onValueChange={(value) => {
+                      setSelectedVariableValues(prev => ({ ...prev, [variable.id]: value }));
+                      pagination.reset();
+                    }}
+                  >
+                    <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none">
+                      <SelectValue placeholder={`Select ${variable.name.toLowerCase()}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all" className="text-sm">All</SelectItem>
+                      {variable.values.map((value) => (
+                        <SelectItem key={value.id} value={value.id} className="text-sm">{value.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -439,11 +587,23 @@ const Leaderboards = () => {
               <span>
                 {availableCategories.find(c => c.id === selectedCategory)?.name || "Leaderboards"}
               </span>
-              {leaderboardData.length > 0 && (
-                <span className="ml-auto text-sm font-normal text-ctp-subtext1">
-                  {leaderboardData.length} {leaderboardData.length === 1 ? 'entry' : 'entries'}
-                </span>
+              {leaderboardType === 'regular' && selectedCategory && (
+                <Link
+                  to={`/golds?category=${selectedCategory}`}
+                  className="flex items-center gap-1 text-xs font-normal text-[#f9e2af] hover:text-[#fab387] transition-colors"
+                >
+                  <Gem className="h-3.5 w-3.5" />
+                  Sum of Golds
+                </Link>
               )}
+              <div className="ml-auto flex items-center gap-3">
+                {leaderboardData.length > 0 && (
+                  <span className="text-sm font-normal text-ctp-subtext1">
+                    #{leaderboardData[0].rank}–#{leaderboardData[leaderboardData.length - 1].rank}
+                  </span>
+                )}
+                <ExportMenu onExport={handleExport} disabled={loading || leaderboardData.length === 0} />
+              </div>
             </CardTitle>
           </CardHeader>
           <CardContent className="p-0">
@@ -472,20 +632,22 @@ const Leaderboards = () => {
             ) : (
               <div>
                 <LeaderboardTable 
-                  data={leaderboardData.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage)} 
+                  data={leaderboardData} 
                   platforms={availablePlatforms} 
                   categories={availableCategories}
                   levels={availableLevels}
                   leaderboardType={leaderboardType}
+                  primaryTimingMethod={categoryTimingMethods[0]}
+                  extraTimingMethods={showAllTimingMethods === "true" ? categoryTimingMethods.slice(1) : []}
                 />
-                {leaderboardData.length > itemsPerPage && (
+                {(leaderboardPage.prevCursor || leaderboardPage.nextCursor) && (
                   <div className="px-4 pb-4 pt-2">
-                    <Pagination
-                      currentPage={currentPage}
-                      totalPages={Math.ceil(leaderboardData.length / itemsPerPage)}
-                      onPageChange={setCurrentPage}
-                      itemsPerPage={itemsPerPage}
-                      totalItems={leaderboardData.length}
+                    <CursorPagination
+                      pageNumber={pagination.pageNumber}
+                      prevCursor={leaderboardPage.prevCursor}
+                      nextCursor={leaderboardPage.nextCursor}
+                      onPrev={pagination.goToPrev}
+                      onNext={pagination.goToNext}
                     />
                   </div>
                 )}
@@ -493,6 +655,43 @@ const Leaderboards = () => {
             )}
           </CardContent>
         </Card>
+
+        {/* Segment golds from full game splits for the selected level */}
+        {levelSegmentTimes.length > 0 && (
+          <Card className="bg-gradient-to-br from-ctp-base to-ctp-mantle border-ctp-surface1 shadow-xl rounded-none mt-6">
+            <CardHeader className="bg-gradient-to-r from-ctp-base to-ctp-mantle border-b border-ctp-surface1 py-3">
+              <CardTitle className="flex items-center gap-2 text-lg text-[#f9e2af]">
+                <Gem className="h-4 w-4" />
+                <span>Best Segments from Splits</span>
+                <span className="ml-auto text-sm font-normal text-ctp-subtext1">
+                  {availableLevels.find(l => l.id === selectedLevel)?.name}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="divide-y divide-ctp-surface1/30">
+                {levelSegmentTimes.slice(0, 10).map((segment, index) => (
+                  <div key={`${segment.runId}-${index}`} className="flex items-center gap-3 px-4 py-2 text-sm">
+                    <span className="w-6 text-ctp-subtext1">{index + 1}</span>
+                    <span className="flex-1 min-w-0 truncate">
+                      {segment.playerName}
+                      {segment.player2Name && <span className="text-ctp-subtext1"> & {segment.player2Name}</span>}
+                    </span>
+                    <span className="hidden sm:inline text-xs text-ctp-subtext1">
+                      {segment.segmentName}
+                    </span>
+                    <Link
+                      to={`/run/${segment.runId}`}
+                      className={`font-mono ${index === 0 ? 'text-[#f9e2af]' : 'text-ctp-text'} hover:text-[#cba6f7] transition-colors`}
+                    >
+                      {formatTime(formatSecondsToTime(segment.time))}
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
           </TabsContent>
         </Tabs>
       </div>
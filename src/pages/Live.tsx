@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Link } from 'react-router-dom';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { getPlayersWithTwitchUsernames } from '@/lib/db';
+import { useGame } from '@/hooks/useGame';
 
 interface LiveRunner {
   uid: string;
@@ -22,7 +23,8 @@ const Live = () => {
   const [isLive, setIsLive] = useState<boolean | null>(null);
   const [liveRunners, setLiveRunners] = useState<LiveRunner[]>([]);
   const [checkingRunners, setCheckingRunners] = useState(false);
-  const channel = 'lsw1live';
+  const { currentGame } = useGame();
+  const channel = currentGame.twitchChannel;
 
   useEffect(() => {
     // Get the current hostname for the 'parent' parameter required by Twitch embeds
@@ -36,6 +38,11 @@ const Live = () => {
   useEffect(() => {
     // Check if stream is live
     const checkStreamStatus = async () => {
+      // Games without a community channel only show live runners
+      if (!channel) {
+        setIsLive(false);
+        return;
+      }
       try {
         // Use decapi.me status endpoint which returns "live" or "offline"
         const response = await fetch(`https://decapi.me/twitch/status/${channel}`);
@@ -147,7 +154,7 @@ const Live = () => {
           {/* Stream Player */}
           <div className="w-full">
             <div className="bg-gradient-to-br from-[hsl(240,21%,16%)] to-[hsl(235,19%,13%)] border border-[hsl(235,13%,30%)] rounded-lg overflow-hidden shadow-2xl relative" style={{ paddingBottom: '56.25%' /* 16:9 Aspect Ratio */ }}>
-              {parentDomain && (
+              {parentDomain && channel && (
                 <iframe
                   src={`https://player.twitch.tv/?channel=${channel}&parent=${parentDomain}&autoplay=false&muted=false`}
                   className="absolute top-0 left-0 w-full h-full"
@@ -185,7 +192,7 @@ const Live = () => {
           {/* Chat */}
           <div className="w-full hidden lg:block" style={{ height: '100%' }}>
             <div className="bg-gradient-to-br from-[hsl(240,21%,16%)] to-[hsl(235,19%,13%)] border border-[hsl(235,13%,30%)] rounded-lg overflow-hidden shadow-2xl relative h-full">
-              {parentDomain && (
+              {parentDomain && channel && (
                 <iframe
                   src={`https://www.twitch.tv/embed/${channel}/chat?parent=${parentDomain}&darkpopout`}
                   className="absolute top-0 left-0 w-full h-full"
@@ -7,15 +7,23 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PlayerProfile } from "@/components/PlayerProfile";
 import { ArrowLeft, Trophy, User, Users, Clock, Star, Gem, CheckCircle, Filter, Gamepad2, Sparkles } from "lucide-react";
 import { Link } from "react-router-dom";
-import { getPlayerRuns, getPlayerByUid, getCategories, getPlatforms, getPlayerPendingRuns, getLevels, getCategoriesFromFirestore, getUnclaimedRunsBySRCUsername, claimRun, runTypes } from "@/lib/db";
+import { getPlayerRunsPage, getPlayerByUid, getCategories, getPlatforms, getPlayerPendingRuns, getLevels, getCategoriesFromFirestore, getUnclaimedRunsBySRCUsername, claimRun, getPointsLedger, getPlayerSeasonPlacements, runTypes } from "@/lib/db";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import LegoStudIcon from "@/components/icons/LegoStudIcon";
-import { Player, LeaderboardEntry } from "@/types/database";
+import { Player, LeaderboardEntry, Category, Page, PointsLedgerEntry, SeasonPlacement } from "@/types/database";
 import { formatDate, formatTime } from "@/lib/utils";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { useAuth } from "@/components/AuthProvider";
 import { getCategoryName, getPlatformName, getLevelName } from "@/lib/dataValidation";
 import { useToast } from "@/hooks/use-toast";
+import { useCursorPagination } from "@/hooks/useCursorPagination";
+import { CursorPagination } from "@/components/Pagination";
+import { StudsBreakdown } from "@/components/StudsBreakdown";
+import { SeasonPlacements } from "@/components/SeasonPlacements";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ExportFormat, exportRuns, getExportFilename } from "@/lib/export";
+
+const emptyPage: Page<LeaderboardEntry> = { items: [], nextCursor: null, prevCursor: null };
 
 const PlayerDetails = () => {
   const { playerId } = useParams<{ playerId: string }>();
@@ -23,12 +31,16 @@ const PlayerDetails = () => {
   const { currentUser } = useAuth();
   const { toast } = useToast();
   const [player, setPlayer] = useState<Player | null>(null);
-  const [playerRuns, setPlayerRuns] = useState<LeaderboardEntry[]>([]);
+  const [runsPage, setRunsPage] = useState<Page<LeaderboardEntry>>(emptyPage);
+  const [loadingRuns, setLoadingRuns] = useState(false);
+  const [runsRefreshKey, setRunsRefreshKey] = useState(0);
   const [pendingRuns, setPendingRuns] = useState<LeaderboardEntry[]>([]);
   const [unclaimedRuns, setUnclaimedRuns] = useState<LeaderboardEntry[]>([]);
+  const [pointsLedger, setPointsLedger] = useState<PointsLedgerEntry[]>([]);
+  const [seasonPlacements, setSeasonPlacements] = useState<SeasonPlacement[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingPendingRuns, setLoadingPendingRuns] = useState(false);
-  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [platforms, setPlatforms] = useState<{ id: string; name: string }[]>([]);
   const [levels, setLevels] = useState<{ id: string; name: string }[]>([]);
   const [leaderboardType, setLeaderboardType] = useState<'regular' | 'individual-level' | 'community-golds'>('regular');
@@ -39,6 +51,8 @@ const PlayerDetails = () => {
   const [selectedSubcategory, setSelectedSubcategory] = useState("");
   const [availableSubcategories, setAvailableSubcategories] = useState<Array<{ id: string; name: string }>>([]);
   const isOwnProfile = currentUser?.uid === playerId;
+  // Page of the run list, kept in the URL and reset when the user changes filters
+  const pagination = useCursorPagination();
 
   useEffect(() => {
     const fetchPlayerData = async () => {
@@ -47,29 +61,31 @@ const PlayerDetails = () => {
       // Prevent accessing unclaimed player profiles (empty/null playerId)
       if (!playerId || playerId.trim() === "") {
         setPlayer(null);
-        setPlayerRuns([]);
         setLoading(false);
         return;
       }
       
       setLoading(true);
       try {
-        // Fetch player and runs first (most important data)
-        const [fetchedPlayer, fetchedRuns] = await Promise.all([
-          getPlayerByUid(playerId),
-          getPlayerRuns(playerId)
-        ]);
+        // Fetch the player first (most important data); runs are fetched a page at a time below
+        const fetchedPlayer = await getPlayerByUid(playerId);
         
         // Double-check: if player is still unclaimed, don't show profile
         if (!fetchedPlayer || !fetchedPlayer.uid || fetchedPlayer.uid.trim() === "") {
           setPlayer(null);
-          setPlayerRuns([]);
           setLoading(false);
           return;
         }
         
         setPlayer(fetchedPlayer);
-        setPlayerRuns(fetchedRuns);
+        
+        // Fetch the points ledger for the studs breakdown - can load after main content
+        getPointsLedger(playerId)
+          .then(setPointsLedger)
+          .catch(() => setPointsLedger([]));
+        getPlayerSeasonPlacements(playerId)
+          .then(setSeasonPlacements)
+          .catch(() => setSeasonPlacements([]));
         
         // Fetch static data (categories, platforms, levels) in parallel - these can load after main content
         // This allows the page to render faster while these load
@@ -80,8 +96,12 @@ const PlayerDetails = () => {
           getPlatforms(),
           getLevels()
         ]).then(([regularCategories, ilCategories, cgCategories, fetchedPlatforms, fetchedLevels]) => {
-          // Combine all categories
-          const fetchedCategories = [...regularCategories, ...ilCategories, ...cgCategories];
+          // Combine all categories, tagged with their leaderboard type for the category tabs
+          const fetchedCategories = [
+            ...regularCategories.map(category => ({ ...category, leaderboardType: 'regular' as const })),
+            ...ilCategories.map(category => ({ ...category, leaderboardType: 'individual-level' as const })),
+            ...cgCategories.map(category => ({ ...category, leaderboardType: 'community-golds' as const })),
+          ];
           
           setCategories(fetchedCategories);
           setPlatforms(fetchedPlatforms);
@@ -131,7 +151,6 @@ const PlayerDetails = () => {
       } catch (error) {
         // Error handling - player data fetch failed
         setPlayer(null);
-        setPlayerRuns([]);
         setLoading(false);
       }
     };
@@ -141,33 +160,81 @@ const PlayerDetails = () => {
 
   // Update selected category when leaderboard type changes
   useEffect(() => {
-    if (categories.length > 0 && playerRuns.length > 0) {
-      // Get categories that have runs for this leaderboard type
-      const runsForType = playerRuns.filter(run => {
-        const runLeaderboardType = run.leaderboardType || 'regular';
-        return runLeaderboardType === leaderboardType;
-      });
-      
-      const categoriesWithRuns = new Set(runsForType.map(run => run.category));
-      const availableCategories = categories.filter(cat => 
-        categoriesWithRuns.has(cat.id)
-      );
-      
-      if (availableCategories.length > 0) {
-        // Select first category that has runs, or keep current if it's still valid
-        const firstCategoryWithRuns = availableCategories[0];
-        const currentCategoryStillValid = availableCategories.some(cat => cat.id === selectedCategory);
-        
-        if (!currentCategoryStillValid) {
-          setSelectedCategory(firstCategoryWithRuns.id);
-        }
-      } else {
-        setSelectedCategory("");
-      }
-    } else if (categories.length === 0 || playerRuns.length === 0) {
+    const categoriesForType = categories.filter(cat => cat.leaderboardType === leaderboardType);
+    if (categoriesForType.length === 0) {
       setSelectedCategory("");
+    } else if (!categoriesForType.some(cat => cat.id === selectedCategory)) {
+      setSelectedCategory(categoriesForType[0].id);
+    }
+  }, [leaderboardType, categories, selectedCategory]);
+
+  // Exports every page of the player's verified runs with the current filters
+  const handleExportRuns = async (format: ExportFormat) => {
+    if (!player) return;
+    const isLevelBoard = leaderboardType === 'individual-level' || leaderboardType === 'community-golds';
+    const filters = {
+      leaderboardType,
+      categoryId: selectedCategory,
+      platformId: selectedPlatform,
+      runType: selectedRunType as 'solo' | 'co-op',
+      levelId: isLevelBoard ? selectedLevel : undefined,
+      subcategoryId: leaderboardType === 'regular' && selectedSubcategory ? selectedSubcategory : undefined,
+    };
+    const runs: LeaderboardEntry[] = [];
+    let page = await getPlayerRunsPage(player.uid, filters, { pageSize: 100 });
+    runs.push(...page.items);
+    while (page.nextCursor) {
+      page = await getPlayerRunsPage(player.uid, filters, { after: page.nextCursor, pageSize: 100 });
+      runs.push(...page.items);
+    }
+    
+    const categoryName = categories.find(c => c.id === selectedCategory)?.name;
+    const levelName = isLevelBoard ? levels.find(l => l.id === selectedLevel)?.name : undefined;
+    const platformName = platforms.find(p => p.id === selectedPlatform)?.name;
+    exportRuns(
+      runs,
+      { categories, platforms, levels },
+      format,
+      getExportFilename(player.displayName, categoryName, levelName, platformName, selectedRunType),
+      {
+        player: { id: player.uid, displayName: player.displayName, totalPoints: player.totalPoints ?? 0 },
+        filters: { leaderboardType, category: categoryName, level: levelName, platform: platformName, runType: selectedRunType },
+      }
+    );
+  };
+
+  // Fetch the current page of verified runs for the selected filters
+  useEffect(() => {
+    const isLevelBoard = leaderboardType === 'individual-level' || leaderboardType === 'community-golds';
+    if (!player || !selectedCategory || !selectedPlatform || !selectedRunType || (isLevelBoard && !selectedLevel)) {
+      setRunsPage(emptyPage);
+      return;
     }
-  }, [leaderboardType, categories, playerRuns, selectedCategory]);
+    
+    let cancelled = false;
+    setLoadingRuns(true);
+    getPlayerRunsPage(player.uid, {
+      leaderboardType,
+      categoryId: selectedCategory,
+      platformId: selectedPlatform,
+      runType: selectedRunType as 'solo' | 'co-op',
+      levelId: isLevelBoard ? selectedLevel : undefined,
+      subcategoryId: leaderboardType === 'regular' && selectedSubcategory ? selectedSubcategory : undefined,
+    }, pagination.request)
+      .then(page => {
+        if (!cancelled) setRunsPage(page);
+      })
+      .catch(() => {
+        if (!cancelled) setRunsPage(emptyPage);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingRuns(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [player, leaderboardType, selectedCategory, selectedPlatform, selectedRunType, selectedLevel, selectedSubcategory, pagination.request, runsRefreshKey]);
 
   // Fetch subcategories when category changes (only for regular leaderboard type)
   useEffect(() => {
@@ -220,13 +287,14 @@ const PlayerDetails = () => {
           title: "Run Claimed",
           description: "This run has been linked to your account.",
         });
-        // Refresh player data to update the runs list
-        const [fetchedPlayer, fetchedRuns] = await Promise.all([
+        // Refresh player data and the runs list
+        const [fetchedPlayer, fetchedLedger] = await Promise.all([
           getPlayerByUid(playerId!),
-          getPlayerRuns(playerId!)
+          getPointsLedger(playerId!)
         ]);
         setPlayer(fetchedPlayer);
-        setPlayerRuns(fetchedRuns);
+        setPointsLedger(fetchedLedger);
+        setRunsRefreshKey(key => key + 1);
         
         // Refresh unclaimed runs
         if (fetchedPlayer?.srcUsername) {
@@ -309,6 +377,18 @@ const PlayerDetails = () => {
           srcUsername={player.srcUsername}
         />
 
+        <StudsBreakdown
+          entries={pointsLedger}
+          totalPoints={player.totalPoints || 0}
+          playerName={player.displayName || "Unknown Player"}
+          isOwnProfile={isOwnProfile}
+          categories={categories}
+          platforms={platforms}
+          levels={levels}
+        />
+
+        <SeasonPlacements placements={seasonPlacements} />
+
         {/* Pending Submissions Panel - Only show for own profile */}
         {isOwnProfile && (
           <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] via-[hsl(240,21%,14%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] mt-8 shadow-xl rounded-none">
@@ -374,10 +454,15 @@ const PlayerDetails = () => {
             <CardTitle className="flex items-center gap-2 text-ctp-text">
               <Trophy className="h-5 w-5 text-ctp-yellow" />
               Runs
+              <ExportMenu
+                onExport={handleExportRuns}
+                disabled={loadingRuns || runsPage.items.length === 0}
+                className="ml-auto"
+              />
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <Tabs value={leaderboardType} onValueChange={(value) => setLeaderboardType(value as 'regular' | 'individual-level' | 'community-golds')} className="w-full">
+            <Tabs value={leaderboardType} onValueChange={(value) => { setLeaderboardType(value as 'regular' | 'individual-level' | 'community-golds'); pagination.reset(); }} className="w-full">
               <TabsList className="grid w-full grid-cols-3 mb-4 p-0.5 gap-1 rounded-none">
                 <TabsTrigger 
                   value="regular" 
@@ -407,63 +492,45 @@ const PlayerDetails = () => {
 
               <TabsContent value={leaderboardType} className="mt-0">
                 {(() => {
-                  // Get categories that have runs for this leaderboard type
-                  const runsForType = playerRuns.filter(run => {
-                    const runLeaderboardType = run.leaderboardType || 'regular';
-                    return runLeaderboardType === leaderboardType;
-                  });
+                  const categoriesForType = categories.filter(cat => cat.leaderboardType === leaderboardType);
                   
-                  const categoriesWithRuns = categories.filter(cat => 
-                    runsForType.some(run => run.category === cat.id)
-                  );
-                  
-                  // Filter verified runs by leaderboard type
-                  let filteredVerifiedRuns = playerRuns.filter(run => {
-                    const runLeaderboardType = run.leaderboardType || 'regular';
-                    return runLeaderboardType === leaderboardType;
-                  });
-                  
-                  // Filter unclaimed runs by leaderboard type (only show on own profile)
-                  let filteredUnclaimedRuns = isOwnProfile ? unclaimedRuns.filter(run => {
+                  // Verified runs are already filtered by the data layer, a page at a time
+                  // Filter unclaimed runs by leaderboard type (only show on own profile, on the first page)
+                  let filteredUnclaimedRuns = isOwnProfile && pagination.pageNumber === 1 ? unclaimedRuns.filter(run => {
                     const runLeaderboardType = run.leaderboardType || 'regular';
                     return runLeaderboardType === leaderboardType;
                   }) : [];
                   
                   // Apply filters
                   if (selectedCategory) {
-                    filteredVerifiedRuns = filteredVerifiedRuns.filter(run => run.category === selectedCategory);
                     filteredUnclaimedRuns = filteredUnclaimedRuns.filter(run => run.category === selectedCategory);
                   }
                   
                   if (selectedPlatform) {
-                    filteredVerifiedRuns = filteredVerifiedRuns.filter(run => run.platform === selectedPlatform);
                     filteredUnclaimedRuns = filteredUnclaimedRuns.filter(run => run.platform === selectedPlatform);
                   }
                   
                   if (selectedRunType) {
-                    filteredVerifiedRuns = filteredVerifiedRuns.filter(run => run.runType === selectedRunType);
                     filteredUnclaimedRuns = filteredUnclaimedRuns.filter(run => run.runType === selectedRunType);
                   }
                   
                   if (selectedLevel && (leaderboardType === 'individual-level' || leaderboardType === 'community-golds')) {
-                    filteredVerifiedRuns = filteredVerifiedRuns.filter(run => run.level === selectedLevel);
                     filteredUnclaimedRuns = filteredUnclaimedRuns.filter(run => run.level === selectedLevel);
                   }
                   
                   if (selectedSubcategory && leaderboardType === 'regular') {
-                    filteredVerifiedRuns = filteredVerifiedRuns.filter(run => run.subcategory === selectedSubcategory);
                     filteredUnclaimedRuns = filteredUnclaimedRuns.filter(run => run.subcategory === selectedSubcategory);
                   }
                   
                   // Combine verified and unclaimed runs
-                  const allRuns = [...filteredVerifiedRuns, ...filteredUnclaimedRuns];
+                  const allRuns = [...runsPage.items, ...filteredUnclaimedRuns];
 
                   // Category tabs
-                  const categoryTabs = categoriesWithRuns.length > 0 ? (
+                  const categoryTabs = categoriesForType.length > 0 ? (
                     <div className="mb-4">
-                      <Tabs value={selectedCategory} onValueChange={setSelectedCategory}>
+                      <Tabs value={selectedCategory} onValueChange={(value) => { setSelectedCategory(value); pagination.reset(); }}>
                         <TabsList className="flex w-full p-0.5 gap-1 overflow-x-auto overflow-y-hidden scrollbar-hide rounded-none" style={{ minWidth: 'max-content' }}>
-                          {categoriesWithRuns.map((category) => (
+                          {categoriesForType.map((category) => (
                             <TabsTrigger 
                               key={category.id} 
                               value={category.id} 
@@ -480,7 +547,7 @@ const PlayerDetails = () => {
                   // Subcategory tabs (only for regular leaderboard type)
                   const subcategoryTabs = leaderboardType === 'regular' && availableSubcategories.length > 0 ? (
                     <div className="mb-4">
-                      <Tabs value={selectedSubcategory} onValueChange={setSelectedSubcategory}>
+                      <Tabs value={selectedSubcategory} onValueChange={(value) => { setSelectedSubcategory(value); pagination.reset(); }}>
                         <TabsList className="flex w-full p-0.5 gap-1 overflow-x-auto overflow-y-hidden scrollbar-hide rounded-none" style={{ minWidth: 'max-content' }}>
                           {availableSubcategories.map((subcategory) => (
                             <TabsTrigger 
@@ -517,7 +584,7 @@ const PlayerDetails = () => {
                                   <Sparkles className="h-3.5 w-3.5 text-ctp-mauve" />
                                   Levels
                                 </label>
-                                <Select value={selectedLevel} onValueChange={setSelectedLevel}>
+                                <Select value={selectedLevel} onValueChange={(value) => { setSelectedLevel(value); pagination.reset(); }}>
                                   <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none">
                                     <SelectValue placeholder="Select level" />
                                   </SelectTrigger>
@@ -536,7 +603,7 @@ const PlayerDetails = () => {
                                 <Gamepad2 className="h-3.5 w-3.5 text-ctp-mauve" />
                                 Platform
                               </label>
-                              <Select value={selectedPlatform} onValueChange={setSelectedPlatform}>
+                              <Select value={selectedPlatform} onValueChange={(value) => { setSelectedPlatform(value); pagination.reset(); }}>
                                 <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none">
                                   <SelectValue placeholder="Select platform" />
                                 </SelectTrigger>
@@ -558,7 +625,7 @@ const PlayerDetails = () => {
                                 )}
                                 Run Type
                               </label>
-                              <Select value={selectedRunType} onValueChange={setSelectedRunType}>
+                              <Select value={selectedRunType} onValueChange={(value) => { setSelectedRunType(value); pagination.reset(); }}>
                                 <SelectTrigger className="bg-ctp-base border-ctp-surface1 h-9 text-sm rounded-none">
                                   <SelectValue placeholder="Select run type" />
                                 </SelectTrigger>
@@ -578,7 +645,11 @@ const PlayerDetails = () => {
                         </CardContent>
                       </Card>
 
-                      {allRuns.length === 0 ? (
+                      {loadingRuns ? (
+                        <div className="flex items-center justify-center py-8">
+                          <LoadingSpinner size="md" />
+                        </div>
+                      ) : allRuns.length === 0 ? (
                         <div className="text-center py-8">
                           <p className="text-ctp-overlay0">No runs found matching the selected filters</p>
                         </div>
@@ -709,7 +780,19 @@ const PlayerDetails = () => {
                       </table>
                     </div>
                       )}
+                      {!loadingRuns && (runsPage.prevCursor || runsPage.nextCursor) && (
+                        <div className="pt-4">
+                          <CursorPagination
+                            pageNumber={pagination.pageNumber}
+                            prevCursor={runsPage.prevCursor}
+                            nextCursor={runsPage.nextCursor}
+                            onPrev={pagination.goToPrev}
+                            onNext={pagination.goToNext}
+                          />
+                        </div>
+                      )}
                     </>
+
                   );
                 })()}
               </TabsContent>
@@ -1,15 +1,18 @@
 import { useState, useEffect, useMemo } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Sparkles, Info } from "lucide-react";
-import { Player, LeaderboardEntry } from "@/types/database";
+import { Sparkles, Info, CalendarDays } from "lucide-react";
+import { Player, LeaderboardEntry, Season } from "@/types/database";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { Pagination } from "@/components/Pagination";
-import { getPlayersByPoints, getPlayerRuns, getCategories, getPlatforms } from "@/lib/db";
+import { SeasonStatusBadge } from "@/components/SeasonStatusBadge";
+import { getPlayersByPoints, getPlayerRuns, getCategories, getPlatforms, getSeasons } from "@/lib/db";
 import { getCategoryName, getPlatformName } from "@/lib/dataValidation";
-import { calculatePoints } from "@/lib/utils";
+import { calculatePoints, formatDate, getPointsConfigCached } from "@/lib/utils";
+import { useGame } from "@/hooks/useGame";
 import LegoStudIcon from "@/components/icons/LegoStudIcon";
 
 const PointsLeaderboard = () => {
@@ -24,6 +27,8 @@ const PointsLeaderboard = () => {
   const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
   const [platforms, setPlatforms] = useState<{ id: string; name: string }[]>([]);
   const [recalculatedPoints, setRecalculatedPoints] = useState<Map<string, number>>(new Map());
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const { gamePath } = useGame();
 
   useEffect(() => {
     const fetchPlayers = async () => {
@@ -112,6 +117,8 @@ const PointsLeaderboard = () => {
       setCategories(cats);
       setPlatforms(plats);
     });
+
+    getSeasons().then(setSeasons);
   }, []);
 
   // Fetch player runs when dialog opens
@@ -153,6 +160,13 @@ const PointsLeaderboard = () => {
         const category = categories.find((c) => c.id === run.category);
         const platform = platforms.find((p) => p.id === run.platform);
         
+        // Time-relative studs depend on the rest of the board, which only the stored points reflect
+        const pointsConfig = await getPointsConfigCached(run.gameId);
+        if ((pointsConfig.scoringStrategy || 'flat') !== 'flat' && run.points !== undefined && run.points !== null) {
+          pointsMap.set(run.id, run.points);
+          continue;
+        }
+        
         const calculated = await calculatePoints(
           run.time,
           category?.name || "Unknown",
@@ -162,7 +176,8 @@ const PointsLeaderboard = () => {
           run.rank,
           run.runType as 'solo' | 'co-op' | undefined,
           run.leaderboardType,
-          run.isObsolete
+          run.isObsolete,
+          pointsConfig
         );
         pointsMap.set(run.id, calculated);
       }
@@ -377,6 +392,36 @@ const PointsLeaderboard = () => {
           </CardContent>
         </Card>
 
+        {seasons.length > 0 && (
+          <Card className="mt-8 bg-gradient-to-br from-[hsl(240,21%,16%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+            <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+              <CardTitle className="flex items-center gap-2 text-xl text-[#fab387]">
+                <CalendarDays className="h-5 w-5" />
+                <span>Seasons</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {seasons.map(season => (
+                  <Link
+                    key={season.id}
+                    to={gamePath(`/seasons/${season.id}`)}
+                    className="block p-4 border border-[hsl(235,13%,30%)] bg-[hsl(240,21%,15%)] hover:border-[#fab387]/50 transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="font-semibold text-ctp-text truncate">{season.name}</span>
+                      <SeasonStatusBadge season={season} />
+                    </div>
+                    <div className="text-sm text-ctp-subtext1">
+                      {formatDate(season.startDate)} – {formatDate(season.endDate)}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Studs System Explanation Accordion */}
         <div className="mt-8 animate-fade-in">
           <Accordion type="single" collapsible className="w-full">
@@ -10,25 +10,30 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArrowLeft, User, Users, Calendar, CheckCircle, UserCircle, Trophy, Edit2, Save, X, Trash2 } from "lucide-react";
 import LegoStudIcon from "@/components/icons/LegoStudIcon";
-import { getLeaderboardEntryById, getPlayerByUid, getPlayerByDisplayName, getCategories, getCategoriesFromFirestore, getPlatforms, runTypes, updateLeaderboardEntry, deleteLeaderboardEntry } from "@/lib/db";
-import { LeaderboardEntry, Player } from "@/types/database";
+import { getLeaderboardEntryById, getPlayerByUid, getPlayerByDisplayName, getCategories, getCategoriesFromFirestore, getPlatforms, runTypes, timingMethods, updateLeaderboardEntry, deleteLeaderboardEntry } from "@/lib/db";
+import { LeaderboardEntry, Player, Category } from "@/types/database";
 import { VideoEmbed } from "@/components/VideoEmbed";
+import { SplitsViewer } from "@/components/SplitsViewer";
+import { RunHistory } from "@/components/RunHistory";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/components/AuthProvider";
-import { formatDate, calculatePoints, formatTime } from "@/lib/utils";
+import { useGame } from "@/hooks/useGame";
+import { DEFAULT_GAME_ID, belongsToGame } from "@/lib/data/gameScope";
+import { formatDate, calculatePoints, getPointsConfigCached, formatTime, getCategoryTimingMethods, getCategoryVariables, getTimeForMethod } from "@/lib/utils";
 
 const RunDetails = () => {
   const { runId } = useParams<{ runId: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
   const { currentUser } = useAuth();
+  const { currentGame } = useGame();
   const [run, setRun] = useState<LeaderboardEntry | null>(null);
   const [player, setPlayer] = useState<Player | null>(null);
   const [player2, setPlayer2] = useState<Player | null>(null);
   const [verifier, setVerifier] = useState<Player | null>(null);
   const [loading, setLoading] = useState(true);
-  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [platforms, setPlatforms] = useState<{ id: string; name: string }[]>([]);
   const [availableSubcategories, setAvailableSubcategories] = useState<Array<{ id: string; name: string; order?: number }>>([]);
   const [isEditing, setIsEditing] = useState(false);
@@ -47,6 +52,7 @@ const RunDetails = () => {
   });
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
   const [displayPoints, setDisplayPoints] = useState<number | null>(null);
   const leftColumnRef = useRef<HTMLDivElement>(null);
   const detailsCardRef = useRef<HTMLDivElement>(null);
@@ -82,6 +88,12 @@ const RunDetails = () => {
           return;
         }
 
+        // Runs belong to a single game; switch to it so categories and platforms resolve
+        if (!belongsToGame(runData, currentGame.id)) {
+          navigate(`/${runData.gameId || DEFAULT_GAME_ID}/run/${runId}`, { replace: true });
+          return;
+        }
+
         setRun(runData);
         setCategories(fetchedCategories);
         setPlatforms(fetchedPlatforms);
@@ -145,7 +157,7 @@ const RunDetails = () => {
     };
 
     fetchRunData();
-  }, [runId, navigate, toast]);
+  }, [runId, navigate, toast, currentGame.id]);
 
   // Fetch subcategories when category changes (only for regular leaderboard type)
   useEffect(() => {
@@ -366,6 +378,7 @@ const RunDetails = () => {
           title: "Run Updated",
           description: "The run information has been successfully updated.",
         });
+        setHistoryKey(key => key + 1);
         // Reload run data
         const updatedRun = await getLeaderboardEntryById(runId);
         if (updatedRun) {
@@ -459,6 +472,13 @@ const RunDetails = () => {
       const category = categories.find((c) => c.id === run.category);
       const platform = platforms.find((p) => p.id === run.platform);
       
+      // Time-relative studs depend on the rest of the board, which only the stored points reflect
+      const pointsConfig = await getPointsConfigCached(run.gameId);
+      if ((pointsConfig.scoringStrategy || 'flat') !== 'flat' && run.points !== undefined && run.points !== null) {
+        setDisplayPoints(run.points);
+        return;
+      }
+      
       const calculated = await calculatePoints(
         run.time,
         category?.name || "Unknown",
@@ -468,13 +488,14 @@ const RunDetails = () => {
         run.rank,
         run.runType as 'solo' | 'co-op' | undefined,
         run.leaderboardType,
-        run.isObsolete
+        run.isObsolete,
+        pointsConfig
       );
       setDisplayPoints(calculated);
     };
     
     calculateDisplayPoints();
-  }, [run?.points, run?.verified, run?.isObsolete, run?.rank, run?.time, run?.category, run?.platform, run?.runType, run?.leaderboardType, categories, platforms]);
+  }, [run?.points, run?.verified, run?.isObsolete, run?.rank, run?.time, run?.category, run?.platform, run?.runType, run?.leaderboardType, run?.gameId, categories, platforms]);
 
   if (loading) {
     return (
@@ -525,6 +546,10 @@ const RunDetails = () => {
               </Card>
             )}
 
+            {run.splits && run.splits.segments.length > 0 && (
+              <SplitsViewer splits={run.splits} splitsUrl={run.splitsUrl} />
+            )}
+
             {run.comment && (
               <Card className="bg-card border-border" id="comment-card">
                 <CardHeader className="pb-4 px-5 pt-5">
@@ -535,6 +560,18 @@ const RunDetails = () => {
                 </CardContent>
               </Card>
             )}
+
+            <RunHistory
+              runId={run.id}
+              canRevert={!!currentUser?.isAdmin}
+              categories={categories}
+              platforms={platforms}
+              refreshKey={historyKey}
+              onReverted={async () => {
+                const revertedRun = await getLeaderboardEntryById(run.id);
+                if (revertedRun) setRun(revertedRun);
+              }}
+            />
           </div>
 
           <div className="w-full lg:w-[24rem] flex-shrink-0">
@@ -668,7 +705,7 @@ const RunDetails = () => {
                         id="edit-time"
                         value={editFormData.time}
                         onChange={(e) => setEditFormData({ ...editFormData, time: e.target.value })}
-                        placeholder="HH:MM:SS"
+                        placeholder="HH:MM:SS or HH:MM:SS.mmm"
                             className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)]"
                       />
                     </div>
@@ -862,12 +899,30 @@ const RunDetails = () => {
                       </div>
                     </div>
 
-                    <div>
-                      <div className="text-base text-muted-foreground mb-2 font-medium">Time</div>
-                      <div className="text-3xl font-bold text-ctp-text flex items-center gap-3">
-                        {formatTime(run.time)}
-                      </div>
-                    </div>
+                    {(() => {
+                      // Show the ranking method's time first, then any other recorded methods
+                      const runTimingMethods = getCategoryTimingMethods(categories.find(c => c.id === run.category));
+                      const otherTimes = runTimingMethods
+                        .slice(1)
+                        .map(method => ({ method, time: getTimeForMethod(run, method, false) }))
+                        .filter(({ time }) => time);
+                      const getMethodName = (method: string) => timingMethods.find(m => m.id === method)?.name || method;
+                      return (
+                        <div>
+                          <div className="text-base text-muted-foreground mb-2 font-medium">
+                            Time{otherTimes.length > 0 ? ` (${getMethodName(runTimingMethods[0])})` : ""}
+                          </div>
+                          <div className="text-3xl font-bold text-ctp-text flex items-center gap-3">
+                            {formatTime(getTimeForMethod(run, runTimingMethods[0]))}
+                          </div>
+                          {otherTimes.map(({ method, time }) => (
+                            <div key={method} className="text-sm text-ctp-subtext1 mt-1">
+                              {getMethodName(method)}: <span className="font-semibold text-ctp-text">{formatTime(time)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      );
+                    })()}
 
                     {run.rank && (
                       <div>
@@ -910,6 +965,37 @@ const RunDetails = () => {
                       </Badge>
                     </div>
 
+                    {(() => {
+                      // Show the run's variable values, falling back to SRC labels when unmapped
+                      const variableBadges = getCategoryVariables(category)
+                        .map(variable => ({
+                          variable,
+                          value: variable.values.find(v => v.id === run.variables?.[variable.id]),
+                        }))
+                        .filter(({ value }) => value);
+                      const srcVariableBadges = variableBadges.length === 0 && run.srcVariables
+                        ? Object.entries(run.srcVariables)
+                        : [];
+                      if (variableBadges.length === 0 && srcVariableBadges.length === 0) return null;
+                      return (
+                        <div>
+                          <div className="text-base text-muted-foreground mb-2 font-medium">Variables</div>
+                          <div className="flex flex-wrap gap-2">
+                            {variableBadges.map(({ variable, value }) => (
+                              <Badge key={variable.id} variant="outline" className="border-border text-sm px-3 py-1">
+                                {variable.name}: {value?.name}
+                              </Badge>
+                            ))}
+                            {srcVariableBadges.map(([name, label]) => (
+                              <Badge key={name} variant="outline" className="border-border text-sm px-3 py-1">
+                                {name}: {label}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })()}
+
                     <div>
                       <div className="text-base text-muted-foreground mb-2 font-medium">Platform</div>
                       <Badge variant="outline" className="border-border text-base px-3 py-1.5">
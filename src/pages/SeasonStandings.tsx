@@ -0,0 +1,134 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Sparkles } from "lucide-react";
+import { Season, SeasonStanding } from "@/types/database";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { SeasonStatusBadge } from "@/components/SeasonStatusBadge";
+import { getSeason, getSeasonStandings } from "@/lib/db";
+import { formatDate } from "@/lib/utils";
+import { useGame } from "@/hooks/useGame";
+import LegoStudIcon from "@/components/icons/LegoStudIcon";
+
+const SeasonStandings = () => {
+  const { seasonId } = useParams<{ seasonId: string }>();
+  const { gamePath } = useGame();
+  const [season, setSeason] = useState<Season | null>(null);
+  const [standings, setStandings] = useState<SeasonStanding[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!seasonId) return;
+
+    const fetchStandings = async () => {
+      setLoading(true);
+      try {
+        const [seasonData, standingsData] = await Promise.all([
+          getSeason(seasonId),
+          getSeasonStandings(seasonId),
+        ]);
+        setSeason(seasonData);
+        setStandings(standingsData);
+      } catch (error) {
+        // Silent fail
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStandings();
+  }, [seasonId]);
+
+  const formatPoints = (points: number) => {
+    return new Intl.NumberFormat().format(points);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#1e1e2e] text-[hsl(220,17%,92%)] py-6 overflow-x-hidden">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 w-full">
+        <Link to={gamePath("/points")} className="inline-flex items-center gap-2 text-sm text-ctp-subtext1 hover:text-[#fab387] transition-colors mb-6">
+          <ArrowLeft className="h-4 w-4" />
+          Studs Leaderboard
+        </Link>
+
+        {loading ? (
+          <LoadingSpinner size="sm" className="py-12" />
+        ) : !season ? (
+          <div className="text-center py-16">
+            <p className="text-lg text-[hsl(222,15%,60%)]">Season not found.</p>
+          </div>
+        ) : (
+          <>
+            <div className="text-center mb-8 animate-fade-in">
+              <div className="flex items-center justify-center gap-2 mb-4">
+                <LegoStudIcon size={48} color="#fab387" />
+                <h1 className="text-3xl md:text-4xl font-bold text-[#fab387]">
+                  {season.name}
+                </h1>
+              </div>
+              <div className="flex items-center justify-center gap-3 text-ctp-subtext1">
+                <span>{formatDate(season.startDate)} – {formatDate(season.endDate)}</span>
+                <SeasonStatusBadge season={season} />
+              </div>
+              <p className="text-sm text-ctp-overlay0 mt-2">
+                {season.archived
+                  ? `Final results, archived ${season.archivedAt ? formatDate(season.archivedAt) : ""}`
+                  : "Studs earned from verified runs dated within the season. Standings are final once the season is archived."}
+              </p>
+            </div>
+
+            <Card className="bg-gradient-to-br from-[hsl(240,21%,16%)] to-[hsl(235,19%,13%)] border-[hsl(235,13%,30%)] shadow-xl">
+              <CardHeader className="bg-gradient-to-r from-[hsl(240,21%,18%)] to-[hsl(240,21%,15%)] border-b border-[hsl(235,13%,30%)]">
+                <CardTitle className="text-xl text-[#fab387]">
+                  {season.archived ? "Final Standings" : "Standings"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-6 sm:p-8">
+                {standings.length === 0 ? (
+                  <div className="text-center py-16">
+                    <Sparkles className="h-16 w-16 mx-auto mb-4 text-[hsl(222,15%,60%)] opacity-50" />
+                    <p className="text-lg text-[hsl(222,15%,60%)]">
+                      No studs have been earned this season yet.
+                    </p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-b border-[hsl(235,13%,30%)]">
+                        <TableHead className="w-16">Rank</TableHead>
+                        <TableHead>Player</TableHead>
+                        <TableHead className="text-right">Runs</TableHead>
+                        <TableHead className="text-right">Studs</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {standings.map(standing => (
+                        <TableRow key={standing.playerId} className="border-b border-[hsl(235,13%,30%)]">
+                          <TableCell className="font-bold">#{standing.rank}</TableCell>
+                          <TableCell>
+                            <Link
+                              to={`/player/${standing.playerId}`}
+                              className="font-semibold hover:opacity-80 transition-opacity"
+                              style={{ color: standing.nameColor || "#cba6f7" }}
+                            >
+                              {standing.displayName}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right text-ctp-subtext1">{standing.runs}</TableCell>
+                          <TableCell className="text-right font-semibold text-[#fab387]">{formatPoints(standing.points)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeasonStandings;
@@ -27,6 +27,8 @@ import { getCategoryName, getPlatformName, getLevelName } from "@/lib/dataValida
 import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
 import { Line, LineChart, XAxis, YAxis, CartesianGrid, Brush } from "recharts";
 import { Link } from "react-router-dom";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ExportFormat, exportRuns, getExportFilename } from "@/lib/export";
 
 // Category name overrides for stats page
 const CATEGORY_NAME_OVERRIDES: Record<string, string> = {
@@ -631,6 +633,19 @@ const Stats = () => {
     return progression;
   }, [stats, wrProgressionLeaderboardType, wrProgressionCategory, wrProgressionPlatform, wrProgressionRunType, wrProgressionLevel]);
 
+  // Exports the WR history shown in the progression chart for the selected filters
+  const handleExportWRProgression = (format: ExportFormat) => {
+    const categoryName = categories.find(c => c.id === wrProgressionCategory)?.name;
+    const levelName = wrProgressionLeaderboardType !== 'regular' ? levels.find(l => l.id === wrProgressionLevel)?.name : undefined;
+    const platformName = platforms.find(p => p.id === wrProgressionPlatform)?.name;
+    exportRuns(
+      filteredWRTimeProgression.map(point => point.run),
+      { categories, platforms, levels },
+      format,
+      getExportFilename("wr-progression", categoryName, levelName, platformName, wrProgressionRunType)
+    );
+  };
+
   // Loading skeleton component
   const LoadingSkeletons = () => (
     <div className="container mx-auto px-4 py-8 animate-fade-in">
@@ -880,9 +895,12 @@ const Stats = () => {
 
         <TabsContent value="progression" className="space-y-4">
           <Card className="animate-slide-up-delay-2">
-            <CardHeader>
-              <CardTitle>World Record Time Progression</CardTitle>
-              <CardDescription>World record times improving over time (lower is better)</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>World Record Time Progression</CardTitle>
+                <CardDescription>World record times improving over time (lower is better)</CardDescription>
+              </div>
+              <ExportMenu onExport={handleExportWRProgression} disabled={filteredWRTimeProgression.length === 0} />
             </CardHeader>
             <CardContent>
               {/* Filters - Always show so users can switch leaderboard types even when no data */}
@@ -1217,9 +1235,16 @@ const Stats = () => {
 
         <TabsContent value="recent" className="space-y-4">
           <Card className="animate-slide-up-delay">
-            <CardHeader>
-              <CardTitle>Recent World Records</CardTitle>
-              <CardDescription>Most recently achieved world records</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Recent World Records</CardTitle>
+                <CardDescription>Most recently achieved world records</CardDescription>
+              </div>
+              <ExportMenu
+                onExport={(format) => exportRuns(stats.allWorldRecords, { categories, platforms, levels }, format, "world-records")}
+                disabled={stats.allWorldRecords.length === 0}
+                label="Export all"
+              />
             </CardHeader>
             <CardContent>
               {stats.recentWorldRecords.length > 0 ? (
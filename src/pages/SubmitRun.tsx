@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,7 +12,12 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/components/AuthProvider";
 import { useToast } from "@/hooks/use-toast";
-import { addLeaderboardEntry, getCategories, getCategoriesFromFirestore, getPlatforms, runTypes, getPlayerByDisplayName, getLevels } from "@/lib/db";
+import { addLeaderboardEntry, getCategories, getCategoriesFromFirestore, getPlatforms, runTypes, getPlayerByDisplayName, getLevels, timingMethods } from "@/lib/db";
+import { normalizeTime } from "@/lib/dataValidation";
+import { getCategoryTimingMethods, getCategoryVariables, formatSecondsToTime } from "@/lib/utils";
+import { Category, TimingMethod, RunSplits } from "@/types/database";
+import { useUploadThing } from "@/lib/uploadthing";
+import { LiveSplitFile, parseLiveSplitFile, buildRunSplits, getLiveSplitTimingMethod, getFinalSplitTime, getComparisonAttempt, parseLiveSplitDate, matchLiveSplitName, PERSONAL_BEST_COMPARISON } from "@/lib/livesplit";
 import { useNavigate } from "react-router-dom";
 
 const SubmitRun = () => {
@@ -20,7 +25,7 @@ const SubmitRun = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
   
-  const [availableCategories, setAvailableCategories] = useState<{ id: string; name: string }[]>([]);
+  const [availableCategories, setAvailableCategories] = useState<Category[]>([]);
   const [availableLevels, setAvailableLevels] = useState<{ id: string; name: string }[]>([]);
   const [availablePlatforms, setAvailablePlatforms] = useState<{ id: string; name: string }[]>([]);
   const [availableSubcategories, setAvailableSubcategories] = useState<Array<{ id: string; name: string }>>([]);
@@ -40,6 +45,17 @@ const SubmitRun = () => {
     comment: "",
     srcLink: "", // SRC link to link the run to Speedrun.com
   });
+  // Times for the category's non-primary timing methods (optional)
+  const [extraTimes, setExtraTimes] = useState<Partial<Record<TimingMethod, string>>>({});
+  // Selected value per category variable (regular runs only)
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  // LiveSplit splits attached to the run (optional)
+  const [splitsFile, setSplitsFile] = useState<LiveSplitFile | null>(null);
+  const [splitsComparison, setSplitsComparison] = useState<string>(PERSONAL_BEST_COMPARISON);
+  const [splits, setSplits] = useState<RunSplits | null>(null);
+  const [splitsUrl, setSplitsUrl] = useState<string>("");
+  const [splitsFileName, setSplitsFileName] = useState<string>("");
+  const { startUpload: startSplitsUpload, isUploading: isUploadingSplits } = useUploadThing("splitsFile");
   
   const [loading, setLoading] = useState(false);
   const [loadingData, setLoadingData] = useState(true);
@@ -133,6 +149,28 @@ const SubmitRun = () => {
     }
   }, [currentUser]);
 
+  // Timing methods of the selected category, primary (ranking) method first
+  const categoryTimingMethods = getCategoryTimingMethods(availableCategories.find(c => c.id === formData.category));
+  const getTimingMethodName = (method: TimingMethod) => timingMethods.find(m => m.id === method)?.name || method;
+
+  // Variables of the selected category (only regular categories have variables)
+  const categoryVariables = useMemo(() => (
+    leaderboardType === 'regular'
+      ? getCategoryVariables(availableCategories.find(c => c.id === formData.category))
+      : []
+  ), [leaderboardType, availableCategories, formData.category]);
+
+  // Default subcategory variables to their first value when the category changes
+  useEffect(() => {
+    const defaults: Record<string, string> = {};
+    for (const variable of categoryVariables) {
+      if (variable.isSubcategory && variable.values.length > 0) {
+        defaults[variable.id] = variable.values[0].id;
+      }
+    }
+    setVariableValues(defaults);
+  }, [categoryVariables]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -142,6 +180,154 @@ const SubmitRun = () => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  /**
+   * Read the run's splits, time and date from a comparison of the splits file
+   * Returns which form fields were filled
+   */
+  const applySplitsComparison = (file: LiveSplitFile, comparison: string, timingMethod: TimingMethod): string[] => {
+    const liveSplitMethod = getLiveSplitTimingMethod(timingMethod);
+    const runSplits = buildRunSplits(file, comparison, liveSplitMethod);
+    setSplits(runSplits);
+    setSplitsComparison(comparison);
+
+    const filled: string[] = [];
+    const finalSplit = getFinalSplitTime(runSplits);
+    const attempt = getComparisonAttempt(file, comparison, liveSplitMethod);
+    const date = parseLiveSplitDate(attempt?.started || attempt?.ended);
+    if (finalSplit !== null) filled.push("time");
+    if (date) filled.push("date");
+
+    setFormData(prev => ({
+      ...prev,
+      ...(finalSplit !== null ? { time: formatSecondsToTime(finalSplit) } : {}),
+      ...(date ? { date } : {}),
+    }));
+    return filled;
+  };
+
+  /**
+   * Prefill the form from a parsed splits file
+   * Category and level are matched by name against every leaderboard type, switching type if needed
+   */
+  const prefillFromSplits = async (file: LiveSplitFile): Promise<string[]> => {
+    const filled: string[] = [];
+    let timingMethod = categoryTimingMethods[0];
+
+    try {
+      const [allCategories, allLevels] = await Promise.all([
+        getCategoriesFromFirestore(),
+        getLevels(),
+      ]);
+      const matchedCategory = matchLiveSplitName(file.categoryName, allCategories);
+      if (matchedCategory) {
+        const matchedType = matchedCategory.leaderboardType || 'regular';
+        const updates: Partial<typeof formData> = { category: matchedCategory.id };
+        filled.push("category");
+
+        if (matchedType !== 'regular') {
+          // IL splits usually name the level in the category or game name
+          const enabledLevels = allLevels.filter(level => !level.disabledCategories?.[matchedCategory.id]);
+          const matchedLevel = matchLiveSplitName(file.categoryName, enabledLevels)
+            || matchLiveSplitName(file.gameName, enabledLevels);
+          if (matchedLevel) {
+            updates.level = matchedLevel.id;
+            filled.push("level");
+          }
+        }
+
+        setLeaderboardType(matchedType);
+        setFormData(prev => ({ ...prev, ...updates }));
+        timingMethod = getCategoryTimingMethods(matchedCategory)[0];
+      }
+    } catch (error) {
+      // Matching is best effort, the runner can still pick the category manually
+    }
+
+    const comparison = file.comparisons.includes(PERSONAL_BEST_COMPARISON)
+      ? PERSONAL_BEST_COMPARISON
+      : file.comparisons[0] || PERSONAL_BEST_COMPARISON;
+    return [...applySplitsComparison(file, comparison, timingMethod), ...filled];
+  };
+
+  const handleSplitsComparisonChange = (comparison: string) => {
+    if (!splitsFile) return;
+    applySplitsComparison(splitsFile, comparison, categoryTimingMethods[0]);
+  };
+
+  const handleSplitsUpload = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.lss';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      // Validate file size (4MB max)
+      if (file.size > 4 * 1024 * 1024) {
+        toast({
+          title: "File Too Large",
+          description: "Splits file must be less than 4MB.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!file.name.toLowerCase().endsWith('.lss')) {
+        toast({
+          title: "Invalid File Type",
+          description: "Please upload a LiveSplit splits file (.lss).",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Parse before uploading so broken files never reach storage
+      let parsedFile: LiveSplitFile;
+      try {
+        parsedFile = parseLiveSplitFile(await file.text());
+      } catch (error) {
+        toast({
+          title: "Invalid Splits File",
+          description: error instanceof Error ? error.message : "Failed to read splits file.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      try {
+        const uploadedFiles = await startSplitsUpload([file]);
+        const fileUrl = uploadedFiles?.[0]?.url;
+        if (fileUrl) {
+          setSplitsFile(parsedFile);
+          setSplitsUrl(fileUrl);
+          setSplitsFileName(file.name);
+          const prefilled = await prefillFromSplits(parsedFile);
+          toast({
+            title: "Splits Uploaded",
+            description: prefilled.length > 0
+              ? `Filled ${prefilled.join(", ")} from ${file.name}. Please double-check before submitting.`
+              : `${parsedFile.segments.length} segments loaded from ${file.name}.`,
+          });
+        }
+      } catch (error) {
+        toast({
+          title: "Upload Failed",
+          description: "Failed to upload splits file. Please try again.",
+          variant: "destructive",
+        });
+      }
+    };
+    input.click();
+  };
+
+  const handleRemoveSplits = () => {
+    setSplitsFile(null);
+    setSplitsComparison(PERSONAL_BEST_COMPARISON);
+    setSplits(null);
+    setSplitsUrl("");
+    setSplitsFileName("");
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -172,6 +358,35 @@ const SubmitRun = () => {
       return;
     }
 
+    // Times are HH:MM:SS with optional milliseconds (e.g. 01:23:45.678)
+    // normalizeTime returns 00:00:00 for anything it can't parse
+    const normalizedTime = normalizeTime(formData.time);
+    if (normalizedTime === "00:00:00") {
+      toast({
+        title: "Invalid Time",
+        description: "Please enter the time as HH:MM:SS or HH:MM:SS.mmm (e.g. 01:23:45.678).",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Other timing methods are optional, but must be valid if filled in
+    const times: Partial<Record<TimingMethod, string>> = { [categoryTimingMethods[0]]: normalizedTime };
+    for (const method of categoryTimingMethods.slice(1)) {
+      const value = extraTimes[method]?.trim();
+      if (!value) continue;
+      const normalizedExtraTime = normalizeTime(value);
+      if (normalizedExtraTime === "00:00:00") {
+        toast({
+          title: "Invalid Time",
+          description: `Please enter the ${getTimingMethodName(method)} as HH:MM:SS or HH:MM:SS.mmm.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      times[method] = normalizedExtraTime;
+    }
+
     // For regular runs, subcategory is required if the category has subcategories
     if (leaderboardType === 'regular' && availableSubcategories.length > 0 && !formData.subcategory) {
       toast({
@@ -182,6 +397,19 @@ const SubmitRun = () => {
       return;
     }
 
+    // Subcategory variables decide which leaderboard the run is on, so they are required
+    const missingVariable = categoryVariables.find(variable =>
+      variable.isSubcategory && variable.values.length > 0 && !variableValues[variable.id]
+    );
+    if (missingVariable) {
+      toast({
+        title: "Missing Information",
+        description: `Please select a ${missingVariable.name.toLowerCase()} for this run.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     // For ILs and Community Golds, level is required
     if ((leaderboardType === 'individual-level' || leaderboardType === 'community-golds') && !formData.level) {
       toast({
@@ -251,11 +479,21 @@ const SubmitRun = () => {
         platform: formData.platform,
         runType: formData.runType as 'solo' | 'co-op',
         leaderboardType: leaderboardType,
-        time: formData.time.trim(),
+        time: normalizedTime,
         date: formData.date,
         verified: false,
       };
 
+      // Only store per-method times when the category records more than one method
+      if (categoryTimingMethods.length > 1) {
+        entry.times = times;
+      }
+
+      if (splits && splitsUrl) {
+        entry.splits = splits;
+        entry.splitsUrl = splitsUrl;
+      }
+
       // Add level for ILs and Community Golds
       if (formData.level && (leaderboardType === 'individual-level' || leaderboardType === 'community-golds')) {
         entry.level = formData.level;
@@ -265,6 +503,20 @@ const SubmitRun = () => {
       if (leaderboardType === 'regular' && formData.subcategory && formData.subcategory.trim()) {
         entry.subcategory = formData.subcategory.trim();
       }
+
+      // Add variable values for regular runs (only for variables the category still has)
+      if (leaderboardType === 'regular' && categoryVariables.length > 0) {
+        const runVariables: Record<string, string> = {};
+        for (const variable of categoryVariables) {
+          const valueId = variableValues[variable.id];
+          if (valueId && valueId !== '__none__' && variable.values.some(v => v.id === valueId)) {
+            runVariables[variable.id] = valueId;
+          }
+        }
+        if (Object.keys(runVariables).length > 0) {
+          entry.variables = runVariables;
+        }
+      }
       
       // Only include player2Name for co-op runs with a valid value
       if (formData.runType === 'co-op' && formData.player2Name && formData.player2Name.trim()) {
@@ -390,6 +642,50 @@ const SubmitRun = () => {
               </CardHeader>
                 <CardContent className="p-6">
               <form onSubmit={handleSubmit} className="space-y-4">
+                {/* LiveSplit splits upload (prefills the form) */}
+                <div>
+                  <Label className="text-sm font-semibold mb-1.5 block">Splits File (Optional)</Label>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleSplitsUpload}
+                      disabled={isUploadingSplits}
+                      className="bg-[hsl(240,21%,15%)] border-[hsl(235,13%,30%)] hover:bg-[hsl(234,14%,29%)] h-10 text-sm"
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      {isUploadingSplits ? "Uploading..." : splits ? "Replace Splits" : "Upload .lss"}
+                    </Button>
+                    {splits && (
+                      <>
+                        <span className="text-xs text-[hsl(222,15%,70%)]">
+                          {splitsFileName} • {splits.segments.length} segments
+                        </span>
+                        <Button type="button" variant="ghost" size="sm" onClick={handleRemoveSplits}>
+                          Remove
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                  {splitsFile && splitsFile.comparisons.length > 1 && (
+                    <div className="mt-2 max-w-xs">
+                      <Select value={splitsComparison} onValueChange={handleSplitsComparisonChange}>
+                        <SelectTrigger className="bg-gradient-to-br from-[hsl(240,21%,18%)] to-[hsl(240,21%,16%)] border-[hsl(235,13%,30%)] h-9 text-sm">
+                          <SelectValue placeholder="Comparison" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {splitsFile.comparisons.map((comparison) => (
+                            <SelectItem key={comparison} value={comparison}>{comparison}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <p className="text-xs text-[hsl(222,15%,70%)] mt-1">
+                    Upload your LiveSplit splits to fill in the time, date and category, and show segment times on the run page
+                  </p>
+                </div>
+
                 {/* Leaderboard Type Tabs */}
                 <div>
                   <Label className="text-sm font-semibold mb-2 block">Leaderboard Type *</Label>
@@ -439,7 +735,9 @@ const SubmitRun = () => {
                     />
                   </div>
                   <div>
-                    <Label htmlFor="time" className="text-sm font-semibold mb-1.5">Completion Time *</Label>
+                    <Label htmlFor="time" className="text-sm font-semibold mb-1.5">
+                      Completion Time{categoryTimingMethods.length > 1 ? ` (${getTimingMethodName(categoryTimingMethods[0])})` : ""} *
+                    </Label>
                     <div className="relative">
                       <Timer className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-[hsl(222,15%,60%)]" />
                       <Input
@@ -447,13 +745,35 @@ const SubmitRun = () => {
                         name="time"
                         value={formData.time}
                         onChange={handleChange}
-                        placeholder="HH:MM:SS"
+                        placeholder="HH:MM:SS.mmm"
                         required
                         className="bg-gradient-to-br from-[hsl(240,21%,18%)] to-[hsl(240,21%,16%)] border-[hsl(235,13%,30%)] h-10 text-sm pl-10 hover:border-[#cba6f7] hover:bg-gradient-to-br hover:from-[hsl(240,21%,20%)] hover:to-[hsl(240,21%,18%)] transition-all duration-300"
                       />
                     </div>
+                    <p className="text-xs text-[hsl(222,15%,60%)] mt-1">
+                      Milliseconds are optional (e.g. 01:23:45 or 01:23:45.678)
+                    </p>
                   </div>
                 </div>
+                {categoryTimingMethods.length > 1 && (
+                  <div className="grid grid-cols-2 gap-4">
+                    {categoryTimingMethods.slice(1).map((method) => (
+                      <div key={method}>
+                        <Label htmlFor={`time-${method}`} className="text-sm font-semibold mb-1.5">{getTimingMethodName(method)}</Label>
+                        <div className="relative">
+                          <Timer className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-[hsl(222,15%,60%)]" />
+                          <Input
+                            id={`time-${method}`}
+                            value={extraTimes[method] || ""}
+                            onChange={(e) => setExtraTimes(prev => ({ ...prev, [method]: e.target.value }))}
+                            placeholder="HH:MM:SS.mmm (optional)"
+                            className="bg-gradient-to-br from-[hsl(240,21%,18%)] to-[hsl(240,21%,16%)] border-[hsl(235,13%,30%)] h-10 text-sm pl-10 hover:border-[#cba6f7] hover:bg-gradient-to-br hover:from-[hsl(240,21%,20%)] hover:to-[hsl(240,21%,18%)] transition-all duration-300"
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <Label htmlFor="date" className="text-sm font-semibold mb-1.5">Run Date *</Label>
@@ -615,6 +935,49 @@ const SubmitRun = () => {
                   </div>
                 )}
 
+                {/* Variable Selection (only for regular leaderboard type) */}
+                {categoryVariables.filter(variable => variable.values.length > 0).map((variable) => (
+                  <div key={variable.id} className="animate-fade-in">
+                    <Label className="text-sm font-semibold mb-2 block flex items-center gap-2">
+                      <Trophy className="h-3.5 w-3.5 text-[#cba6f7]" />
+                      {variable.name} {variable.isSubcategory ? "*" : ""}
+                    </Label>
+                    {variable.isSubcategory ? (
+                      <Tabs
+                        value={variableValues[variable.id] || ""}
+                        onValueChange={(value) => setVariableValues(prev => ({ ...prev, [variable.id]: value }))}
+                      >
+                        <TabsList className="flex w-full p-0.5 gap-1 overflow-x-auto overflow-y-hidden scrollbar-hide" style={{ minWidth: 'max-content' }}>
+                          {variable.values.map((value) => (
+                            <TabsTrigger
+                              key={value.id}
+                              value={value.id}
+                              className="data-[state=active]:bg-[#cba6f7] data-[state=active]:text-[#11111b] bg-ctp-surface0 text-ctp-text transition-all duration-300 font-medium border border-transparent hover:bg-ctp-surface1 hover:border-[#cba6f7]/50 py-1.5 sm:py-2 px-2 sm:px-3 text-xs sm:text-sm whitespace-nowrap"
+                            >
+                              {value.name}
+                            </TabsTrigger>
+                          ))}
+                        </TabsList>
+                      </Tabs>
+                    ) : (
+                      <Select
+                        value={variableValues[variable.id] || "__none__"}
+                        onValueChange={(value) => setVariableValues(prev => ({ ...prev, [variable.id]: value }))}
+                      >
+                        <SelectTrigger className="bg-gradient-to-br from-[hsl(240,21%,18%)] to-[hsl(240,21%,16%)] border-[hsl(235,13%,30%)] h-10 text-sm hover:border-[#cba6f7] transition-all duration-300">
+                          <SelectValue placeholder={`Select ${variable.name.toLowerCase()}`} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__none__">Not specified</SelectItem>
+                          {variable.values.map((value) => (
+                            <SelectItem key={value.id} value={value.id}>{value.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                ))}
+
                 {/* Level Selection for ILs and Community Golds */}
                 {(leaderboardType === 'individual-level' || leaderboardType === 'community-golds') && (
                   <div>
@@ -11,7 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { getCategoryName, getPlatformName, getLevelName } from "@/lib/dataValidation";
 import { useAuth } from "@/components/AuthProvider";
 import { useToast } from "@/hooks/use-toast";
-import { updatePlayerProfile, getPlayerByUid, getUnclaimedRunsBySRCUsername, claimRun, getCategories, getPlatforms, getLevels, getCategoriesFromFirestore } from "@/lib/db";
+import { updatePlayerProfile, isDisplayNameAvailable, getPlayerByUid, getUnclaimedRunsBySRCUsername, claimRun, getCategories, getPlatforms, getLevels, getCategoriesFromFirestore } from "@/lib/db";
 import { updateEmail, updatePassword, updateProfile } from "firebase/auth";
 import { auth } from "@/lib/firebase";
 import { useNavigate, Link } from "react-router-dom";
@@ -149,6 +149,12 @@ const UserSettings = () => {
       const newDisplayName = displayName.trim();
       const currentDisplayName = currentUser.displayName || "";
       
+      // Check the name before touching the auth profile, so a taken name changes nothing
+      const isAvailable = await isDisplayNameAvailable(newDisplayName, currentUser.uid);
+      if (!isAvailable) {
+        throw new Error("This display name is already taken. Please choose a different one.");
+      }
+      
       if (newDisplayName !== currentDisplayName) {
         await updateProfile(firebaseUser, { displayName: newDisplayName });
         // Reload the user to refresh auth state
@@ -1,5 +1,12 @@
+/**
+ * Timing methods a category can record, named after the speedrun.com run.times keys
+ */
+export type TimingMethod = 'realtime' | 'realtime_noloads' | 'ingame';
+
 export interface LeaderboardEntry {
   id: string;
+  gameId?: string; // Game this run belongs to (missing on runs saved before multi-game support = default game)
+  schemaVersion?: number; // Last migration applied to this document (missing = 0, see lib/data/migrations)
   playerId: string;
   playerName: string;
   player2Name?: string; // New optional field for the second player's name
@@ -9,13 +16,15 @@ export interface LeaderboardEntry {
   runType: 'solo' | 'co-op'; // New field for run type
   leaderboardType?: 'regular' | 'individual-level' | 'community-golds'; // Type of leaderboard
   level?: string; // Level name for Individual Level and Community Gold runs
-  time: string; // Format: HH:MM:SS
+  time: string; // Format: HH:MM:SS or HH:MM:SS.mmm (milliseconds optional)
+  times?: Partial<Record<TimingMethod, string>>; // Time per timing method (same format as time); time holds the value for the category's primary method
   date: string; // Format: YYYY-MM-DD
   videoUrl?: string;
   comment?: string; // Optional comment from the runner
   verified: boolean;
   verifiedBy?: string; // UID or name of who verified the run
-  rank?: number;
+  rank?: number; // Position on its board (best non-obsolete run per player only), kept up to date when runs change
+  timeMs?: number; // Time in milliseconds for the category's primary timing method, used to order boards
   isObsolete?: boolean; // New field to mark runs as obsolete
   nameColor?: string; // Player's name color
   player2Color?: string; // Player 2's name color (for co-op)
@@ -32,12 +41,50 @@ export interface LeaderboardEntry {
   srcPlayer2Name?: string; // Speedrun.com player2 name/username (for co-op runs claiming)
   subcategory?: string; // Subcategory ID for this run (only for regular leaderboard type)
   srcSubcategory?: string; // Original SRC variable value for display when ID mapping fails
+  variables?: Record<string, string>; // Map of category variable ID -> value ID
+  srcVariables?: Record<string, string>; // Map of SRC variable name -> value label for display when ID mapping fails
+  splitsUrl?: string; // URL of the attached LiveSplit (.lss) splits file
+  splits?: RunSplits; // Segments parsed from the splits file at submission
+  hasSplits?: boolean; // True when splits are attached (lets community golds query only runs with splits)
+  revisionCount?: number; // Number of the run's latest revision (see lib/data/runRevisions), missing until its first recorded edit
+}
+
+export interface SplitSegment {
+  name: string;
+  splitTime: number | null; // Cumulative split time in seconds (null if the split was skipped)
+  segmentTime: number | null; // Time spent on this segment in seconds
+  bestSegmentTime: number | null; // Runner's best ever time for this segment in seconds
+  attempts: number; // Number of attempts that completed this segment
+}
+
+export interface RunSplits {
+  gameName?: string; // Game name from the splits file
+  categoryName?: string; // Category name from the splits file
+  attemptCount: number; // Total attempts recorded by LiveSplit
+  completedAttemptCount?: number; // Attempts that reached the final split
+  comparison: string; // Comparison the split times were read from (e.g. "Personal Best")
+  timingMethod: 'RealTime' | 'GameTime'; // LiveSplit timer the times were read from
+  segments: SplitSegment[];
+}
+
+export interface CommunityGold {
+  segmentName: string; // Segment name as written in the gold run's splits
+  levelId?: string; // Level the segment was matched to (if any)
+  time: number; // Segment time in seconds
+  runId: string; // Run the gold came from
+  playerId: string;
+  playerName: string;
+  player2Name?: string;
+  category: string; // Full game category of the run
+  date: string; // Date of the run
 }
 
 export interface Player {
   id: string;
   uid: string; // Firebase user ID
   displayName: string;
+  displayNameLower?: string; // Trimmed, lowercased displayName, unique across players (see the displayNames collection)
+  schemaVersion?: number; // Last migration applied to this document (missing = 0, see lib/data/migrations)
   email: string;
   joinDate: string; // Format: YYYY-MM-DD
   totalRuns: number;
@@ -62,18 +109,48 @@ export interface Subcategory {
   srcValueId?: string; // SRC value ID if imported from SRC
 }
 
+export interface CategoryVariableValue {
+  id: string;
+  name: string;
+  order?: number; // Order for displaying values (lower numbers appear first)
+  srcValueId?: string; // SRC value ID if imported from SRC
+}
+
+export interface CategoryVariable {
+  id: string;
+  name: string;
+  order?: number; // Order for displaying variables (lower numbers appear first)
+  isSubcategory: boolean; // true = each value is its own leaderboard, false = optional filter over one leaderboard
+  values: CategoryVariableValue[];
+  srcVariableId?: string; // SRC variable ID if imported from SRC
+}
+
+export interface Game {
+  id: string; // URL slug, e.g. "lsw1" for /lsw1/leaderboards
+  name: string;
+  shortName?: string; // Short label for the game switcher
+  order?: number; // Order for displaying games (lower numbers appear first)
+  srcAbbreviation?: string; // Speedrun.com game abbreviation used for imports
+  twitchChannel?: string; // Community Twitch channel shown on the home and live pages
+}
+
 export interface Category {
   id: string;
+  gameId?: string; // Game this category belongs to (missing = default game)
   name: string;
   order?: number; // Order for displaying categories (lower numbers appear first)
   leaderboardType?: 'regular' | 'individual-level' | 'community-golds'; // Type of leaderboard this category belongs to
   subcategories?: Subcategory[]; // Subcategories for this category (only for regular leaderboard type)
   srcCategoryId?: string | null; // Speedrun.com category ID if linked to SRC (null to unlink)
   srcSubcategoryVariableName?: string | null; // SRC variable name to use for subcategories when multiple variables exist (null to use first variable)
+  variables?: CategoryVariable[]; // Variables for this category (only for regular leaderboard type), e.g. version x difficulty
+  timingMethods?: TimingMethod[]; // Timing methods recorded for runs in this category (defaults to ['realtime'])
+  primaryTimingMethod?: TimingMethod; // Timing method used to rank runs (defaults to 'realtime')
 }
 
 export interface Level {
   id: string;
+  gameId?: string; // Game this level belongs to (missing = default game)
   name: string;
   order?: number; // Order for displaying levels (lower numbers appear first)
   disabledCategories?: Record<string, boolean>; // Map of categoryId -> disabled state (true = disabled)
@@ -81,6 +158,7 @@ export interface Level {
 
 export interface Platform {
   id: string;
+  gameId?: string; // Game this platform belongs to (missing = default game)
   name: string;
   order?: number; // Order for displaying platforms (lower numbers appear first)
 }
@@ -102,6 +180,12 @@ export interface DownloadEntry { // New interface for download entries
   order?: number; // Order for displaying downloads (lower numbers appear first)
 }
 
+export interface DownloadCategory {
+  id: string;
+  name: string;
+  order?: number;
+}
+
 // Define a custom user type that extends Firebase's User and adds isAdmin
 import { User as FirebaseAuthUser } from "firebase/auth";
 export interface CustomUser extends FirebaseAuthUser {
@@ -110,6 +194,7 @@ export interface CustomUser extends FirebaseAuthUser {
 
 export interface PointsConfig {
   id: string;
+  gameId?: string; // Game this configuration applies to
   // Base points for all verified runs
   basePoints: number;
   // Rank bonuses (only for Full Game runs)
@@ -124,4 +209,267 @@ export interface PointsConfig {
   // Whether rank bonuses apply to ILs and Community Golds
   applyRankBonusesToIL: boolean;
   applyRankBonusesToCommunityGolds: boolean;
-}
\ No newline at end of file
+  // How base points are scored (see src/lib/scoring.ts); flat when unset
+  scoringStrategy?: ScoringStrategyId;
+  wrPoints?: number; // Studs a world record (or first place) earns under time-relative scoring
+  wrRatioExponent?: number; // k in (wr / time)^k for WR-ratio scoring
+  categoryWeights?: Record<string, number>; // Multiplier per category ID (1 when unset)
+  version?: number; // Incremented on every change, recorded on points ledger entries
+}
+
+/**
+ * flat: every run earns basePoints
+ * wr-ratio: wrPoints × (wr / time)^k
+ * percentile: wrPoints × the share of the board the run is level with or ahead of
+ */
+export type ScoringStrategyId = 'flat' | 'wr-ratio' | 'percentile';
+
+/**
+ * The scoring rules of a points config (everything but its identity and version)
+ */
+export type PointsConfigRule = Exclude<keyof PointsConfig, 'id' | 'gameId' | 'version'>;
+
+/**
+ * A points config rule that changed from one version to the next
+ */
+export interface PointsConfigChange {
+  rule: PointsConfigRule;
+  from?: PointsConfig[PointsConfigRule]; // Absent when the rule had no stored value before
+  to?: PointsConfig[PointsConfigRule]; // Absent when the rule was cleared
+}
+
+/**
+ * A published points config version (pointsConfigHistory collection)
+ * Every save records one, so admins can see who changed what and go back to an earlier version
+ */
+export interface PointsConfigVersion {
+  id: string;
+  gameId: string;
+  version: number;
+  config: PointsConfig; // The full config as published
+  changes: PointsConfigChange[];
+  changedBy?: string; // UID of the admin who published it
+  changedByName?: string;
+  changedAt: string; // ISO timestamp
+}
+
+/**
+ * How the studs for a run were calculated, rule by rule (see calculatePointsBreakdown)
+ */
+export interface PointsBreakdown {
+  basePoints: number; // Flat base points, or the studs for a WR under time-relative scoring
+  scoring?: { strategy: Exclude<ScoringStrategyId, 'flat'>; factor: number }; // Share of basePoints the run earned
+  categoryWeight?: number;
+  // Multiplier applied to the base points: obsolete runs, or the IL / Community Golds multiplier
+  typeMultiplier?: { rule: 'obsolete' | 'individual-level' | 'community-golds'; value: number };
+  rankBonus?: { rank: number; points: number };
+  coOpMultiplier?: number;
+  total: number; // Rounded studs awarded for the run
+}
+
+/**
+ * An entry in the points ledger (pointsLedger collection)
+ * A player's totalPoints is the sum of their entries; entries are never edited or deleted
+ */
+export interface PointsLedgerEntry {
+  id: string;
+  playerId: string;
+  runId: string;
+  points: number; // Change in studs (negative when studs are taken away)
+  reason: 'award' | 'adjustment' | 'revoke'; // First studs for a run, a change to them, or the run no longer counting
+  sequence: number; // Position among the player's entries for the run, starting at 1 (part of the entry ID)
+  runTotal: number; // Studs the player gets from the run after this entry (0 after a revoke)
+  breakdown?: PointsBreakdown; // Rule breakdown of the run's studs after this entry (absent for revokes)
+  configVersion: number; // Points config version the studs were calculated with
+  gameId?: string;
+  // Snapshot of the run, so the entry still reads correctly after the run changes or is deleted
+  leaderboardType?: 'regular' | 'individual-level' | 'community-golds';
+  category?: string;
+  platform?: string;
+  runType?: 'solo' | 'co-op';
+  level?: string;
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * A studs season (seasons collection): studs from verified runs dated within it are tallied into separate standings
+ */
+export interface Season {
+  id: string;
+  gameId?: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  archived?: boolean; // Finalized: the standings are frozen in finalStandings
+  archivedAt?: string; // ISO timestamp
+  finalStandings?: SeasonStanding[];
+}
+
+export interface SeasonStanding {
+  rank: number;
+  playerId: string;
+  displayName: string;
+  nameColor?: string;
+  points: number; // Studs from runs dated within the season
+  runs: number;
+}
+
+/**
+ * Where a player finished (or currently stands) in a season
+ */
+export interface SeasonPlacement {
+  season: Omit<Season, 'finalStandings'>;
+  standing: SeasonStanding;
+  totalPlayers: number;
+}
+
+/**
+ * What an audited admin action acted on
+ */
+export type AuditTargetType =
+  | 'run'
+  | 'player'
+  | 'leaderboard'
+  | 'category'
+  | 'platform'
+  | 'level'
+  | 'game'
+  | 'download'
+  | 'downloadCategory'
+  | 'pointsConfig'
+  | 'season'
+  | 'backup'
+  | 'migration';
+
+/**
+ * A field an audited action changed
+ */
+export interface AuditFieldChange {
+  field: string;
+  from?: unknown; // Absent when the field wasn't set before
+  to?: unknown; // Absent when the field was removed
+}
+
+/**
+ * A privileged action taken by an admin (auditLog collection)
+ * Entries are append-only: they are never edited or deleted
+ */
+export interface AuditLogEntry {
+  id: string;
+  action: string; // "<target type>.<verb>", e.g. "run.verify" or "player.update"
+  actorUid: string;
+  actorName?: string;
+  targetType: AuditTargetType;
+  targetId?: string; // Absent for bulk actions such as wiping the leaderboards
+  targetName?: string;
+  changes: AuditFieldChange[];
+  details?: Record<string, string | number | boolean>; // Outcome of bulk actions, e.g. how many runs were deleted
+  gameId?: string;
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * One edit of a run, with the editable fields as they were after it
+ */
+export interface RunRevision {
+  id: string;
+  runId: string;
+  revision: number; // 1 for the first edit after submission
+  changes: AuditFieldChange[];
+  snapshot: Record<string, unknown>; // The run's revisioned fields after the edit
+  revertedTo?: number; // Set when the edit reverted the run to an earlier revision (0 = as submitted)
+  editedBy?: string; // UID of the editor
+  editedByName?: string;
+  editedAt: string; // ISO timestamp
+}
+
+/**
+ * Why an item was moved to the trash
+ */
+export type TrashReason = 'deleted' | 'duplicate' | 'srcWipe' | 'playerDeleted';
+
+/**
+ * A deleted run or player (trash collection), kept until it's restored or purged
+ * Items past expiresAt can be purged together by an admin from the trash
+ */
+export interface TrashItem {
+  id: string; // "<type>_<item ID>"
+  type: 'run' | 'player';
+  itemId: string;
+  data: Omit<LeaderboardEntry, 'id'> | Omit<Player, 'id'>; // The document as it was when deleted
+  reason: TrashReason;
+  runIds?: string[]; // Runs deleted along with a player, restored with them
+  deletedBy?: string;
+  deletedByName?: string;
+  deletedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+  gameId?: string;
+}
+
+/**
+ * Progress of a schema migration (migrations collection, ID "<collection>_v<version>")
+ * A running migration resumes from its cursor; completed ones can be rolled back from their recorded changes
+ */
+export interface MigrationStatus {
+  id: string;
+  collection: string;
+  version: number;
+  status: 'running' | 'completed' | 'rolledBack';
+  cursor?: string; // Last document ID processed
+  processed: number; // Documents checked so far
+  changed: number; // Documents the migration changed (and recorded for rollback)
+  startedAt: string; // ISO timestamp
+  startedBy?: string;
+  completedAt?: string; // ISO timestamp
+  rolledBackAt?: string; // ISO timestamp
+}
+
+/**
+ * One document changed by a migration (migrationChanges collection), used to roll it back
+ */
+export interface MigrationChange {
+  id: string; // "<migration ID>_<document ID>"
+  migrationId: string;
+  collection: string;
+  documentId: string;
+  before: Record<string, unknown>; // Previous values of the changed fields that existed
+  addedFields: string[]; // Changed fields that didn't exist before (removed again on rollback)
+  after: Record<string, unknown>; // New values (fields the migration removed are left out)
+  previousSchemaVersion: number;
+  changedAt: string; // ISO timestamp
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  actorUid?: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+}
+
+/**
+ * Opaque position in a cursor-paginated list, encoded from the sort key of the item at the edge of a page
+ * Safe to keep in the URL and pass back unchanged
+ */
+export type PageCursor = string;
+
+export interface PageRequest {
+  after?: PageCursor; // Items following this cursor (next page)
+  before?: PageCursor; // Items preceding this cursor (previous page)
+  pageSize?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: PageCursor | null; // Cursor of the last item, if there are more items after this page
+  prevCursor: PageCursor | null; // Cursor of the first item, if there are items before this page
+}
+
+// Filters for a player's run list, applied by the data store so every page is full
+export interface PlayerRunFilters {
+  leaderboardType?: 'regular' | 'individual-level' | 'community-golds';
+  categoryId?: string;
+  platformId?: string;
+  runType?: 'solo' | 'co-op';
+  levelId?: string;
+  subcategoryId?: string;
+}